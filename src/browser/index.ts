@@ -1 +1,2 @@
 export { BrowserManager } from './manager.js';
+export { SessionStore } from './session-store.js';
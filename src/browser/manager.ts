@@ -1,34 +1,90 @@
-import { chromium, Browser, BrowserContext, Page } from 'playwright';
+import { chromium, firefox, webkit, Browser, BrowserContext, BrowserContextOptions, BrowserType, Page } from 'playwright';
 import fs from 'fs';
 import path from 'path';
 import { log } from '../utils/logger.js';
 import { pageLoadDelay } from '../utils/delays.js';
-import type { Platform, BrowserConfig, Session } from '../types/index.js';
+import { SessionStore } from './session-store.js';
+import { parseProxy } from '../utils/config.js';
+import { DEFAULT_ACCOUNT, accountScope, parseAccountScope } from '../utils/accounts.js';
+import { isPlatform, getPlatform } from '../platforms/registry.js';
+import type { Platform, BrowserConfig, BrowserEngine, BrowserAccountSettings, Session, OriginStorage } from '../types/index.js';
+
+type StorageState = Exclude<BrowserContextOptions['storageState'], string | undefined>;
+
+const ENGINES: Record<BrowserEngine, BrowserType> = { chromium, firefox, webkit };
+
+// Only Chromium understands these; the other engines run with their defaults
+const CHROMIUM_ARGS = [
+  '--disable-blink-features=AutomationControlled',
+  '--disable-features=IsolateOrigins,site-per-process',
+  '--disable-infobars',
+  '--no-sandbox',
+  '--disable-setuid-sandbox',
+  '--disable-dev-shm-usage',
+  '--disable-accelerated-2d-canvas',
+  '--disable-gpu',
+];
 
 export class BrowserManager {
   private browser: Browser | null = null;
-  private contexts: Map<Platform, BrowserContext> = new Map();
-  private pages: Map<Platform, Page> = new Map();
+  // Keyed by account scope: '<platform>' or '<platform>@<account>'
+  private contexts: Map<string, BrowserContext> = new Map();
+  private pages: Map<string, Page> = new Map();
   private config: BrowserConfig;
-  private sessionDir: string;
+  private sessionStore: SessionStore;
 
-  constructor(config: BrowserConfig, sessionDir: string) {
+  constructor(config: BrowserConfig, sessionDir: string, encryptionKey?: string) {
     this.config = config;
-    this.sessionDir = sessionDir;
+    this.sessionStore = new SessionStore(sessionDir, encryptionKey);
 
     // Ensure directories exist
     if (!fs.existsSync(config.dataDir)) {
       fs.mkdirSync(config.dataDir, { recursive: true });
     }
-    if (!fs.existsSync(sessionDir)) {
-      fs.mkdirSync(sessionDir, { recursive: true });
+    if (!ENGINES[config.engine]) {
+      throw new Error(`Unknown browser engine: ${config.engine} (use chromium, firefox or webkit)`);
     }
   }
 
+  /**
+   * Get the session store (for key rotation and direct session access)
+   */
+  getSessionStore(): SessionStore {
+    return this.sessionStore;
+  }
+
+  /**
+   * Whether the saved session of a platform/account still holds a login: AT Protocol
+   * tokens, or an unexpired session cookie. Doesn't touch the page or the network,
+   * so the platform may still have revoked it.
+   */
+  hasSavedLogin(platform: Platform, account?: string): boolean {
+    let session: Session | null;
+    try {
+      session = this.sessionStore.read(platform, account);
+    } catch {
+      return false;
+    }
+    if (!session) return false;
+    if (session.atproto) return !!session.atproto.refreshJwt;
+
+    const requiredCookie = isPlatform(platform) ? getPlatform(platform).sessionCookie : undefined;
+    const now = Date.now() / 1000;
+    return session.cookies.some(
+      (c) => (!requiredCookie || c.name === requiredCookie) && !!c.value && (c.expires === undefined || c.expires <= 0 || c.expires > now)
+    );
+  }
+
   /**
    * Initialize the browser
    */
   async initialize(): Promise<void> {
+    if (this.config.persistent) {
+      // Every platform account launches its own persistent context on first use
+      log.info('Using persistent browser profiles', { engine: this.config.engine, dataDir: this.config.dataDir });
+      return;
+    }
+
     if (this.browser) {
       // Check if browser is still alive
       try {
@@ -46,110 +102,128 @@ export class BrowserManager {
     }
 
     log.info('Launching browser...', {
+      engine: this.config.engine,
       headless: this.config.headless,
       dataDir: this.config.dataDir,
     });
 
-    this.browser = await chromium.launch({
+    this.browser = await ENGINES[this.config.engine].launch({
       headless: this.config.headless,
-      args: [
-        '--disable-blink-features=AutomationControlled',
-        '--disable-features=IsolateOrigins,site-per-process',
-        '--disable-infobars',
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-accelerated-2d-canvas',
-        '--disable-gpu',
-        '--window-size=1280,720',
-      ],
+      args: this.getLaunchArgs(),
     });
 
     log.info('Browser launched successfully');
   }
 
   /**
-   * Get or create a browser context for a platform
+   * Get or create a browser context for a platform account
    */
-  async getContext(platform: Platform): Promise<BrowserContext> {
-    if (!this.browser) {
-      throw new Error('Browser not initialized. Call initialize() first.');
-    }
-
-    let context = this.contexts.get(platform);
+  async getContext(platform: Platform, account: string = DEFAULT_ACCOUNT): Promise<BrowserContext> {
+    const scope = accountScope(platform, account);
+    let context = this.contexts.get(scope);
     if (context) {
       // Verify context is still alive
       try {
         await context.cookies(); // lightweight health check
         return context;
       } catch {
-        log.warn(`Stale browser context for ${platform}, recreating...`);
-        this.contexts.delete(platform);
-        this.pages.delete(platform);
+        log.warn(`Stale browser context for ${scope}, recreating...`);
+        this.contexts.delete(scope);
+        this.pages.delete(scope);
         context = undefined;
       }
     }
 
-    log.info(`Creating browser context for ${platform}`);
+    log.info(`Creating browser context for ${scope}`);
 
-    const contextDir = path.join(this.config.dataDir, platform);
+    const contextDir = path.join(this.config.dataDir, scope);
     if (!fs.existsSync(contextDir)) {
       fs.mkdirSync(contextDir, { recursive: true });
     }
 
-    context = await this.browser.newContext({
+    const settings = this.getAccountSettings(platform, account);
+    const options: BrowserContextOptions = {
       viewport: this.config.viewport,
       userAgent: this.config.userAgent || this.getDefaultUserAgent(),
-      locale: 'en-US',
-      timezoneId: 'America/New_York',
-      permissions: ['geolocation'],
-      geolocation: { latitude: 40.7128, longitude: -74.006 },
-      storageState: undefined,
+      locale: settings.locale,
+      timezoneId: settings.timezone,
+      ...(settings.geolocation && { permissions: ['geolocation'], geolocation: settings.geolocation }),
+      ...(settings.proxy && { proxy: settings.proxy }),
+    };
+    log.debug(`Context settings for ${scope}`, {
+      locale: settings.locale,
+      timezone: settings.timezone,
+      proxy: settings.proxy?.server,
     });
 
-    // Apply stealth modifications
-    await this.applyStealthMode(context);
+    if (this.config.persistent) {
+      // The profile keeps cookies and storage itself; the saved session is layered on top
+      // so sessions synced in from elsewhere still apply
+      context = await ENGINES[this.config.engine].launchPersistentContext(contextDir, {
+        ...options,
+        headless: this.config.headless,
+        args: this.getLaunchArgs(),
+      });
+      const state = this.loadStorageState(platform, account);
+      if (state?.cookies.length) {
+        await context.addCookies(state.cookies);
+      }
+      if (state?.origins.length) {
+        await this.seedLocalStorage(context, state.origins);
+      }
+    } else {
+      if (!this.browser) {
+        throw new Error('Browser not initialized. Call initialize() first.');
+      }
+      context = await this.browser.newContext({
+        ...options,
+        // Restore session if available (cookies + localStorage, seeded before the first navigation)
+        storageState: this.loadStorageState(platform, account),
+      });
+    }
 
-    // Restore session if available
-    await this.restoreSession(platform, context);
+    // Apply stealth modifications
+    await this.applyStealthMode(context, settings.locale);
 
-    this.contexts.set(platform, context);
-    log.info(`Browser context created for ${platform}`);
+    this.contexts.set(scope, context);
+    log.info(`Browser context created for ${scope}`);
 
     return context;
   }
 
   /**
-   * Get or create a page for a platform
+   * Get or create a page for a platform account
    */
-  async getPage(platform: Platform): Promise<Page> {
-    let page = this.pages.get(platform);
+  async getPage(platform: Platform, account: string = DEFAULT_ACCOUNT): Promise<Page> {
+    const scope = accountScope(platform, account);
+    let page = this.pages.get(scope);
     if (page && !page.isClosed()) {
       // Verify page is still usable
       try {
         await page.evaluate(() => true);
         return page;
       } catch {
-        log.warn(`Stale page for ${platform}, recreating...`);
-        this.pages.delete(platform);
+        log.warn(`Stale page for ${scope}, recreating...`);
+        this.pages.delete(scope);
       }
     }
 
-    const context = await this.getContext(platform);
-    page = await context.newPage();
+    const context = await this.getContext(platform, account);
+    // Persistent contexts open with a blank page already
+    page = context.pages()[0] ?? (await context.newPage());
 
     // Set default timeout
     page.setDefaultTimeout(this.config.timeout);
 
-    this.pages.set(platform, page);
+    this.pages.set(scope, page);
     return page;
   }
 
   /**
    * Navigate to a URL with human-like behavior
    */
-  async navigate(platform: Platform, url: string): Promise<Page> {
-    const page = await this.getPage(platform);
+  async navigate(platform: Platform, url: string, account: string = DEFAULT_ACCOUNT): Promise<Page> {
+    const page = await this.getPage(platform, account);
 
     log.debug(`Navigating to ${url}`);
     try {
@@ -166,12 +240,13 @@ export class BrowserManager {
   }
 
   /**
-   * Save session (cookies) for a platform
+   * Save session (cookies) for a platform account
    */
-  async saveSession(platform: Platform): Promise<void> {
-    const context = this.contexts.get(platform);
+  async saveSession(platform: Platform, account: string = DEFAULT_ACCOUNT): Promise<void> {
+    const scope = accountScope(platform, account);
+    const context = this.contexts.get(scope);
     if (!context) {
-      log.warn(`No context found for ${platform}`);
+      log.warn(`No context found for ${scope}`);
       return;
     }
 
@@ -179,26 +254,23 @@ export class BrowserManager {
     try {
       cookies = await context.cookies();
     } catch {
-      log.warn(`Cannot save session for ${platform} — context is closed`);
+      log.warn(`Cannot save session for ${scope} — context is closed`);
       return;
     }
 
     // Guard: don't save logged-out sessions over good ones
-    const criticalCookies: Record<string, string> = {
-      linkedin: 'li_at',
-      twitter: 'auth_token',
-      instagram: 'sessionid',
-    };
-    const requiredCookie = criticalCookies[platform];
+    const requiredCookie = isPlatform(platform) ? getPlatform(platform).sessionCookie : undefined;
     if (requiredCookie && !cookies.some((c) => c.name === requiredCookie && c.value)) {
-      log.warn(`Skipping session save for ${platform} — missing ${requiredCookie} cookie (logged out)`);
+      log.warn(`Skipping session save for ${scope} — missing ${requiredCookie} cookie (logged out)`);
       return;
     }
 
-    const localStorage = await this.getLocalStorage(platform);
+    const localStorage = await this.getLocalStorage(scope);
+    const origins = await this.getOrigins(context);
 
     const session: Session = {
       platform,
+      account,
       cookies: cookies.map((c) => ({
         name: c.name,
         value: c.value,
@@ -210,69 +282,153 @@ export class BrowserManager {
         sameSite: c.sameSite as 'Strict' | 'Lax' | 'None' | undefined,
       })),
       localStorage,
+      origins,
       createdAt: Date.now(),
       updatedAt: Date.now(),
     };
 
-    const sessionPath = path.join(this.sessionDir, `${platform}.json`);
-    fs.writeFileSync(sessionPath, JSON.stringify(session, null, 2));
-    log.info(`Session saved for ${platform}`);
+    this.sessionStore.write(session);
+    log.info(`Session saved for ${scope}`, { encrypted: this.sessionStore.isEncrypted() });
   }
 
   /**
-   * Restore session for a platform
+   * Locale, time zone, geolocation and proxy of a platform account: the defaults,
+   * then <PLATFORM>[_<ACCOUNT>]_LOCALE/_TIMEZONE/_PROXY env variables, then the
+   * `accounts` overrides for '<account>', '<platform>' and '<platform>@<account>'
    */
-  private async restoreSession(
+  getAccountSettings(
     platform: Platform,
-    context: BrowserContext
-  ): Promise<boolean> {
-    const sessionPath = path.join(this.sessionDir, `${platform}.json`);
+    account: string = DEFAULT_ACCOUNT
+  ): BrowserAccountSettings & { locale: string; timezone: string } {
+    const envPrefix = (account === DEFAULT_ACCOUNT ? platform : `${platform}_${account}`).toUpperCase().replace(/-/g, '_');
+    const fromEnv: BrowserAccountSettings = {
+      ...(process.env[`${envPrefix}_LOCALE`] && { locale: process.env[`${envPrefix}_LOCALE`] }),
+      ...(process.env[`${envPrefix}_TIMEZONE`] && { timezone: process.env[`${envPrefix}_TIMEZONE`] }),
+      ...(process.env[`${envPrefix}_PROXY`] && {
+        proxy: process.env[`${envPrefix}_PROXY`] === 'direct'
+          ? null
+          : parseProxy(process.env[`${envPrefix}_PROXY`], process.env[`${envPrefix}_PROXY_BYPASS`]),
+      }),
+    };
 
-    if (!fs.existsSync(sessionPath)) {
-      log.debug(`No session found for ${platform}`);
-      return false;
+    const overrides = this.config.accounts || {};
+    return {
+      locale: this.config.locale,
+      timezone: this.config.timezone,
+      geolocation: this.config.geolocation,
+      proxy: this.config.proxy,
+      ...fromEnv,
+      ...overrides[account],
+      ...overrides[platform],
+      ...overrides[`${platform}@${account}`],
+    };
+  }
+
+  /**
+   * Build the Playwright storage state for a platform account from its saved session
+   */
+  private loadStorageState(platform: Platform, account: string): StorageState | undefined {
+    const scope = accountScope(platform, account);
+    if (!this.sessionStore.exists(platform, account)) {
+      log.debug(`No session found for ${scope}`);
+      return undefined;
     }
 
     try {
-      const sessionData = fs.readFileSync(sessionPath, 'utf-8');
-      const session: Session = JSON.parse(sessionData);
+      const session = this.sessionStore.read(platform, account);
+      if (!session) {
+        return undefined;
+      }
 
       // Check if session is too old (7 days)
       const maxAge = 7 * 24 * 60 * 60 * 1000;
       if (Date.now() - session.updatedAt > maxAge) {
-        log.warn(`Session expired for ${platform}`);
-        return false;
+        log.warn(`Session expired for ${scope}`);
+        return undefined;
       }
 
-      // Restore cookies
-      await context.addCookies(
-        session.cookies.map((c) => ({
+      // Older session files only have a flat snapshot of the platform page's localStorage
+      const legacyOrigin = isPlatform(platform) ? getPlatform(platform).origin : undefined;
+      const origins: OriginStorage[] =
+        session.origins ??
+        (legacyOrigin && session.localStorage && Object.keys(session.localStorage).length > 0
+          ? [{ origin: legacyOrigin, localStorage: session.localStorage }]
+          : []);
+
+      const state: StorageState = {
+        cookies: session.cookies.map((c) => ({
           name: c.name,
           value: c.value,
           domain: c.domain,
           path: c.path,
-          expires: c.expires,
+          expires: c.expires ?? -1,
           httpOnly: c.httpOnly,
           secure: c.secure,
-          sameSite: c.sameSite,
-        }))
-      );
-
-      log.info(`Session restored for ${platform}`);
-      return true;
+          sameSite: c.sameSite ?? 'Lax',
+        })),
+        origins: origins.map((o) => ({
+          origin: o.origin,
+          localStorage: Object.entries(o.localStorage).map(([name, value]) => ({ name, value })),
+        })),
+      };
+
+      log.info(`Session restored for ${scope}`, {
+        cookies: state.cookies.length,
+        origins: state.origins.length,
+      });
+      return state;
     } catch (error) {
-      log.error(`Failed to restore session for ${platform}`, {
+      log.error(`Failed to restore session for ${scope}`, {
         error: String(error),
       });
-      return false;
+      return undefined;
+    }
+  }
+
+  /**
+   * Restore saved localStorage into a persistent context, which has no storageState
+   * option: an init script fills in the keys an origin doesn't have yet on every page
+   * load, so values the profile already holds (and the site updates) win
+   */
+  private async seedLocalStorage(context: BrowserContext, origins: StorageState['origins']): Promise<void> {
+    const seed: Record<string, Record<string, string>> = Object.fromEntries(
+      origins.map((o) => [o.origin, Object.fromEntries(o.localStorage.map((item) => [item.name, item.value]))])
+    );
+    await context.addInitScript(`
+      (() => {
+        const items = ${JSON.stringify(seed)}[window.location.origin];
+        if (!items) return;
+        try {
+          for (const [name, value] of Object.entries(items)) {
+            if (localStorage.getItem(name) === null) localStorage.setItem(name, value);
+          }
+        } catch {
+          // Storage not available on this page
+        }
+      })();
+    `);
+  }
+
+  /**
+   * Get localStorage for every origin the context has visited
+   */
+  private async getOrigins(context: BrowserContext): Promise<OriginStorage[]> {
+    try {
+      const state = await context.storageState();
+      return state.origins.map((o) => ({
+        origin: o.origin,
+        localStorage: Object.fromEntries(o.localStorage.map((item) => [item.name, item.value])),
+      }));
+    } catch {
+      return [];
     }
   }
 
   /**
    * Get localStorage data from a page
    */
-  private async getLocalStorage(platform: Platform): Promise<Record<string, string>> {
-    const page = this.pages.get(platform);
+  private async getLocalStorage(scope: string): Promise<Record<string, string>> {
+    const page = this.pages.get(scope);
     if (!page || page.isClosed()) {
       return {};
     }
@@ -299,13 +455,24 @@ export class BrowserManager {
   /**
    * Apply stealth mode to avoid detection
    */
-  private async applyStealthMode(context: BrowserContext): Promise<void> {
+  private async applyStealthMode(context: BrowserContext, locale: string): Promise<void> {
+    const languages = JSON.stringify([...new Set([locale, locale.split('-')[0]])]);
     await context.addInitScript(`
       // Override webdriver property
       Object.defineProperty(navigator, 'webdriver', {
         get: () => undefined,
       });
 
+      // Override languages
+      Object.defineProperty(navigator, 'languages', {
+        get: () => ${languages},
+      });
+    `);
+
+    // The rest imitates desktop Chrome, which would give the other engines away
+    if (this.config.engine !== 'chromium') return;
+
+    await context.addInitScript(`
       // Override chrome property
       window.chrome = { runtime: {} };
 
@@ -321,11 +488,6 @@ export class BrowserManager {
         get: () => [1, 2, 3, 4, 5],
       });
 
-      // Override languages
-      Object.defineProperty(navigator, 'languages', {
-        get: () => ['en-US', 'en'],
-      });
-
       // Override platform
       Object.defineProperty(navigator, 'platform', {
         get: () => 'Win32',
@@ -338,29 +500,39 @@ export class BrowserManager {
   }
 
   /**
-   * Get default user agent
+   * Chromium launch flags (none for the other engines)
+   */
+  private getLaunchArgs(): string[] | undefined {
+    if (this.config.engine !== 'chromium') return undefined;
+    return [...CHROMIUM_ARGS, `--window-size=${this.config.viewport.width},${this.config.viewport.height}`];
+  }
+
+  /**
+   * Get default user agent (Chromium only: the other engines keep their own)
    */
-  private getDefaultUserAgent(): string {
+  private getDefaultUserAgent(): string | undefined {
+    if (this.config.engine !== 'chromium') return undefined;
     return 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
   }
 
   /**
-   * Close a specific platform context
+   * Close a specific platform account context
    */
-  async closeContext(platform: Platform): Promise<void> {
-    const page = this.pages.get(platform);
+  async closeContext(platform: Platform, account: string = DEFAULT_ACCOUNT): Promise<void> {
+    const scope = accountScope(platform, account);
+    const page = this.pages.get(scope);
     if (page && !page.isClosed()) {
       await page.close();
     }
-    this.pages.delete(platform);
+    this.pages.delete(scope);
 
-    const context = this.contexts.get(platform);
+    const context = this.contexts.get(scope);
     if (context) {
       await context.close();
     }
-    this.contexts.delete(platform);
+    this.contexts.delete(scope);
 
-    log.info(`Closed context for ${platform}`);
+    log.info(`Closed context for ${scope}`);
   }
 
   /**
@@ -370,8 +542,9 @@ export class BrowserManager {
     log.info('Shutting down browser...');
 
     // Save all sessions before closing
-    for (const platform of this.contexts.keys()) {
-      await this.saveSession(platform);
+    for (const scope of this.contexts.keys()) {
+      const { platform, account } = parseAccountScope(scope);
+      await this.saveSession(platform, account);
     }
 
     // Close all pages
@@ -401,14 +574,19 @@ export class BrowserManager {
    * Check if browser is running
    */
   isRunning(): boolean {
+    if (this.config.persistent) return this.contexts.size > 0;
     return this.browser !== null && this.browser.isConnected();
   }
 
   /**
    * Take a screenshot of a platform page
    */
-  async screenshot(platform: Platform, outputPath?: string): Promise<Buffer> {
-    const page = await this.getPage(platform);
+  async screenshot(
+    platform: Platform,
+    outputPath?: string,
+    account: string = DEFAULT_ACCOUNT
+  ): Promise<Buffer> {
+    const page = await this.getPage(platform, account);
     const buffer = await page.screenshot({
       path: outputPath,
       fullPage: false,
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { PageLock } from './page-lock.js';
+
+// A promise with its resolve function, to hold the page until the test lets go
+function gate(): { promise: Promise<void>; open: () => void } {
+  let open!: () => void;
+  const promise = new Promise<void>((resolve) => (open = resolve));
+  return { promise, open };
+}
+
+describe('PageLock', () => {
+  it('runs calls for the same page one at a time, in arrival order', async () => {
+    const lock = new PageLock(5000);
+    const order: string[] = [];
+    const first = gate();
+
+    const calls = [
+      lock.run('twitter', 'like', async () => {
+        order.push('like:start');
+        await first.promise;
+        order.push('like:end');
+      }),
+      lock.run('twitter', 'follow', async () => {
+        order.push('follow');
+      }),
+      lock.run('twitter', 'post', async () => {
+        order.push('post');
+      }),
+    ];
+
+    expect(lock.status('twitter')).toMatchObject({ active: 'like', waiting: ['follow', 'post'] });
+    first.open();
+    await Promise.all(calls);
+
+    expect(order).toEqual(['like:start', 'like:end', 'follow', 'post']);
+    expect(lock.status('twitter')).toEqual({ active: undefined, activeSince: undefined, waiting: [] });
+  });
+
+  it('tells a call where it was in line', async () => {
+    const lock = new PageLock(5000);
+    const first = gate();
+
+    const holder = lock.run('twitter', 'like', async () => {
+      await first.promise;
+      return lock.current('twitter');
+    });
+    const waiter = lock.run('twitter', 'follow', async () => lock.current('twitter'));
+    first.open();
+
+    expect(await holder).toMatchObject({ label: 'like', position: 0, waitedMs: 0 });
+    expect(await waiter).toMatchObject({ label: 'follow', position: 1 });
+  });
+
+  it('runs calls for different pages side by side', async () => {
+    const lock = new PageLock(5000);
+    const first = gate();
+
+    const twitter = lock.run('twitter', 'like', () => first.promise);
+    const other = await lock.run('twitter@brand2', 'like', async () => 'ran');
+
+    expect(other).toBe('ran');
+    first.open();
+    await twitter;
+  });
+
+  it('lets nested calls of the holder run straight through', async () => {
+    const lock = new PageLock(100);
+
+    const result = await lock.run('twitter', 'login', () => lock.run('twitter', 'isLoggedIn', async () => true));
+
+    expect(result).toBe(true);
+  });
+
+  it('passes the page on when a call throws', async () => {
+    const lock = new PageLock(5000);
+
+    const failing = lock.run('twitter', 'like', async () => {
+      throw new Error('boom');
+    });
+    const next = lock.run('twitter', 'follow', async () => 'ran');
+
+    await expect(failing).rejects.toThrow('boom');
+    expect(await next).toBe('ran');
+  });
+
+  it('times out a call that waits too long and leaves the line intact', async () => {
+    const lock = new PageLock(50);
+    const first = gate();
+
+    const holder = lock.run('twitter', 'like', () => first.promise);
+    const waiter = lock.run('twitter', 'follow', async () => 'ran');
+
+    await expect(waiter).rejects.toMatchObject({ code: 'TIMEOUT' });
+    expect(lock.status('twitter').waiting).toEqual([]);
+
+    first.open();
+    await holder;
+    expect(await lock.run('twitter', 'post', async () => 'ran')).toBe('ran');
+  });
+});
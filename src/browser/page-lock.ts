@@ -0,0 +1,147 @@
+/**
+ * SocialCrabs Page Lock
+ *
+ * Each platform account has a single browser page, so concurrent calls (two HTTP
+ * requests, a WebSocket command during a job) would navigate it under each
+ * other. Calls take turns instead: first come, first served per platform
+ * account, with a timeout on the wait. Nested calls from a call that already
+ * holds the page (login checking isLoggedIn) run straight through.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { log } from '../utils/logger.js';
+import { ActionError } from '../utils/errors.js';
+import type { PageQueueStatus } from '../types/index.js';
+
+// How a call got the page: its place in line when it arrived (0 = no wait)
+export interface PageHold {
+  scope: string;
+  label: string;
+  position: number;
+  waitedMs: number;
+}
+
+interface Waiter {
+  label: string;
+  grant: () => void;
+}
+
+interface Lane {
+  holder: { label: string; since: number } | null;
+  waiters: Waiter[];
+}
+
+export class PageLock {
+  private timeoutMs: number;
+  private lanes: Map<string, Lane> = new Map();
+  // Pages held by the current async call chain
+  private held = new AsyncLocalStorage<Map<string, PageHold>>();
+
+  constructor(timeoutMs: number) {
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Run `fn` with the page of `scope` to itself, after the calls queued before it
+   */
+  async run<T>(scope: string, label: string, fn: () => Promise<T>): Promise<T> {
+    const holds = this.held.getStore();
+    if (holds?.has(scope)) {
+      return fn();
+    }
+
+    const hold = await this.acquire(scope, label);
+    try {
+      return await this.held.run(new Map(holds).set(scope, hold), fn);
+    } finally {
+      this.release(scope);
+    }
+  }
+
+  /**
+   * The page hold of the current call for a scope, if it holds it
+   */
+  current(scope: string): PageHold | undefined {
+    return this.held.getStore()?.get(scope);
+  }
+
+  /**
+   * Who has the page of a scope and who is waiting for it
+   */
+  status(scope: string): PageQueueStatus {
+    const lane = this.lanes.get(scope);
+    return {
+      active: lane?.holder?.label,
+      activeSince: lane?.holder?.since,
+      waiting: lane?.waiters.map((waiter) => waiter.label) ?? [],
+    };
+  }
+
+  private acquire(scope: string, label: string): Promise<PageHold> {
+    let lane = this.lanes.get(scope);
+    if (!lane) {
+      lane = { holder: null, waiters: [] };
+      this.lanes.set(scope, lane);
+    }
+
+    const queuedAt = Date.now();
+    if (!lane.holder) {
+      lane.holder = { label, since: queuedAt };
+      return Promise.resolve({ scope, label, position: 0, waitedMs: 0 });
+    }
+
+    const position = lane.waiters.length + 1;
+    log.info(`Waiting for the ${scope} page: ${label} is number ${position} in line`, {
+      active: lane.holder.label,
+    });
+
+    const current = lane;
+    return new Promise<PageHold>((resolve, reject) => {
+      const waiter: Waiter = {
+        label,
+        grant: () => {
+          clearTimeout(timer);
+          resolve({ scope, label, position, waitedMs: Date.now() - queuedAt });
+        },
+      };
+      const timer = setTimeout(() => {
+        const index = current.waiters.indexOf(waiter);
+        if (index === -1) return;
+        current.waiters.splice(index, 1);
+        reject(
+          new ActionError(
+            `Timed out after ${Math.round(this.timeoutMs / 1000)}s waiting for the ${scope} page (${label} was number ${index + 1} in line)`,
+            'TIMEOUT'
+          )
+        );
+      }, this.timeoutMs);
+      current.waiters.push(waiter);
+    });
+  }
+
+  // Hand the page straight to the next in line, so nobody can cut in
+  private release(scope: string): void {
+    const lane = this.lanes.get(scope);
+    if (!lane) return;
+
+    const next = lane.waiters.shift();
+    if (!next) {
+      this.lanes.delete(scope);
+      return;
+    }
+    lane.holder = { label: next.label, since: Date.now() };
+    next.grant();
+  }
+}
+
+// Singleton instance
+let pageLockInstance: PageLock | null = null;
+
+export function initPageLock(timeoutMs: number): PageLock {
+  pageLockInstance = new PageLock(timeoutMs);
+  return pageLockInstance;
+}
+
+export function getPageLock(): PageLock | null {
+  return pageLockInstance;
+}
@@ -0,0 +1,84 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { SessionStore } from './session-store.js';
+import { isEncryptedPayload } from '../utils/crypto.js';
+import type { Session } from '../types/index.js';
+
+function session(account?: string): Session {
+  return {
+    platform: 'twitter',
+    account,
+    cookies: [{ name: 'auth_token', value: 'token', domain: '.x.com', path: '/', httpOnly: true, secure: true }],
+    createdAt: 1,
+    updatedAt: 1,
+  };
+}
+
+const onDisk = (file: string) => JSON.parse(fs.readFileSync(file, 'utf-8'));
+
+describe('SessionStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'socialcrabs-sessions-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('encrypts sessions at rest when a key is set', () => {
+    const store = new SessionStore(dir, 'key-1');
+    store.write(session());
+
+    expect(isEncryptedPayload(onDisk(store.getPath('twitter')))).toBe(true);
+    expect(store.read('twitter')?.cookies[0].value).toBe('token');
+  });
+
+  it('encrypts a plaintext session the first time it is read with a key', () => {
+    new SessionStore(dir).write(session());
+
+    const store = new SessionStore(dir, 'key-1');
+    expect(store.read('twitter')?.cookies[0].value).toBe('token');
+    expect(isEncryptedPayload(onDisk(store.getPath('twitter')))).toBe(true);
+  });
+
+  it('refuses to read an encrypted session without the key', () => {
+    new SessionStore(dir, 'key-1').write(session());
+
+    expect(() => new SessionStore(dir).read('twitter')).toThrow('COOKIE_ENCRYPTION_KEY is not set');
+    expect(() => new SessionStore(dir, 'key-2').read('twitter')).toThrow('Decryption failed');
+  });
+
+  it('rotates every session file to a new key', () => {
+    const store = new SessionStore(dir, 'key-1');
+    store.write(session());
+    store.write(session('brand2'));
+    fs.writeFileSync(path.join(dir, 'rate-limits.json'), '{}');
+
+    expect(store.rotateKey('key-2')).toBe(2);
+    expect(store.read('twitter', 'brand2')?.cookies[0].value).toBe('token');
+    expect(() => new SessionStore(dir, 'key-1').read('twitter')).toThrow('Decryption failed');
+    expect(onDisk(path.join(dir, 'rate-limits.json'))).toEqual({});
+  });
+
+  it('decrypts sessions back to plaintext with an empty key', () => {
+    const store = new SessionStore(dir, 'key-1');
+    store.write(session());
+
+    store.rotateKey('');
+    expect(onDisk(store.getPath('twitter')).cookies[0].value).toBe('token');
+    expect(store.isEncrypted()).toBe(false);
+  });
+
+  it('rewrites nothing when the current key is missing', () => {
+    new SessionStore(dir, 'key-1').write(session());
+    new SessionStore(dir).write(session('brand2'));
+    const before = fs.readFileSync(path.join(dir, 'twitter@brand2.json'), 'utf-8');
+
+    expect(() => new SessionStore(dir).rotateKey('key-2')).toThrow('current key required');
+    expect(fs.readFileSync(path.join(dir, 'twitter@brand2.json'), 'utf-8')).toBe(before);
+  });
+});
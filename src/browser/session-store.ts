@@ -0,0 +1,162 @@
+import fs from 'fs';
+import path from 'path';
+import { log } from '../utils/logger.js';
+import { encrypt, decrypt, isEncryptedPayload } from '../utils/crypto.js';
+import { accountScope } from '../utils/accounts.js';
+import type { Platform, Session } from '../types/index.js';
+
+/**
+ * Reads and writes session files (sessions/<platform>.json, or
+ * sessions/<platform>@<account>.json for non-default accounts).
+ *
+ * When an encryption key is configured, sessions are written as AES-256-GCM
+ * payloads. Existing plaintext files are still readable and get re-written
+ * encrypted the first time they are loaded.
+ */
+export class SessionStore {
+  private dir: string;
+  private encryptionKey?: string;
+
+  constructor(dir: string, encryptionKey?: string) {
+    this.dir = dir;
+    this.encryptionKey = encryptionKey || undefined;
+
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  /**
+   * Whether sessions are encrypted at rest
+   */
+  isEncrypted(): boolean {
+    return !!this.encryptionKey;
+  }
+
+  /**
+   * Path of the session file for a platform/account
+   */
+  getPath(platform: Platform, account?: string): string {
+    return path.join(this.dir, `${accountScope(platform, account)}.json`);
+  }
+
+  /**
+   * Check if a session file exists for a platform/account
+   */
+  exists(platform: Platform, account?: string): boolean {
+    return fs.existsSync(this.getPath(platform, account));
+  }
+
+  /**
+   * Load a session. Returns null if there is none.
+   * Throws if the file is encrypted and cannot be decrypted.
+   */
+  read(platform: Platform, account?: string): Session | null {
+    const sessionPath = this.getPath(platform, account);
+    if (!fs.existsSync(sessionPath)) {
+      return null;
+    }
+
+    const raw = JSON.parse(fs.readFileSync(sessionPath, 'utf-8'));
+
+    if (isEncryptedPayload(raw)) {
+      if (!this.encryptionKey) {
+        throw new Error(
+          `Session for ${accountScope(platform, account)} is encrypted but COOKIE_ENCRYPTION_KEY is not set`
+        );
+      }
+      return JSON.parse(decrypt(raw, this.encryptionKey)) as Session;
+    }
+
+    const session = raw as Session;
+
+    // Transparent migration: plaintext file + key configured → encrypt in place
+    if (this.encryptionKey) {
+      this.write({ ...session, account });
+      log.info(`Migrated plaintext session for ${accountScope(platform, account)} to encrypted storage`);
+    }
+
+    return session;
+  }
+
+  /**
+   * Persist a session, encrypting it if a key is configured
+   */
+  write(session: Session): void {
+    const json = JSON.stringify(session, null, 2);
+    const contents = this.encryptionKey
+      ? JSON.stringify(encrypt(json, this.encryptionKey), null, 2)
+      : json;
+
+    this.writeAtomic(this.getPath(session.platform, session.account), contents);
+  }
+
+  /**
+   * Delete the session of a platform/account, if there is one
+   */
+  remove(platform: Platform, account?: string): void {
+    fs.rmSync(this.getPath(platform, account), { force: true });
+  }
+
+  /**
+   * List session files in the session directory (skips rate-limit state, screenshots, etc.)
+   */
+  listFiles(): string[] {
+    if (!fs.existsSync(this.dir)) return [];
+
+    return fs
+      .readdirSync(this.dir)
+      .filter((name) => name.endsWith('.json'))
+      .map((name) => path.join(this.dir, name))
+      .filter((file) => {
+        try {
+          const raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+          return isEncryptedPayload(raw) || (Array.isArray(raw?.cookies) && !!raw?.platform);
+        } catch {
+          return false;
+        }
+      });
+  }
+
+  /**
+   * Re-encrypt every session file with a new key.
+   * Plaintext files are encrypted; files encrypted with the current key are
+   * decrypted and re-encrypted. Pass an empty key to write plaintext.
+   * Returns the number of files rewritten.
+   */
+  rotateKey(newKey: string): number {
+    const files = this.listFiles();
+
+    // Decrypt everything first so a wrong current key aborts before anything is rewritten
+    const decrypted = files.map((file) => {
+      const raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      if (!isEncryptedPayload(raw)) {
+        return { file, json: JSON.stringify(raw, null, 2) };
+      }
+      if (!this.encryptionKey) {
+        throw new Error(`${path.basename(file)} is encrypted - current key required to rotate`);
+      }
+      return { file, json: decrypt(raw, this.encryptionKey) };
+    });
+
+    for (const { file, json } of decrypted) {
+      const contents = newKey
+        ? JSON.stringify(encrypt(json, newKey), null, 2)
+        : json;
+      this.writeAtomic(file, contents);
+    }
+
+    this.encryptionKey = newKey || undefined;
+    log.info(`Rotated encryption key for ${decrypted.length} session file(s)`);
+    return decrypted.length;
+  }
+
+  /**
+   * Write via temp file + rename so a crash never leaves a half-written session
+   */
+  private writeAtomic(file: string, contents: string): void {
+    const tmp = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, contents, { mode: 0o600 });
+    fs.renameSync(tmp, file);
+  }
+}
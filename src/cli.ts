@@ -1,13 +1,22 @@
 #!/usr/bin/env node
 
 import 'dotenv/config';
+import path from 'path';
 import { Command } from 'commander';
-import { SocialCrabs } from './index.js';
-import type { Platform, ActionType, NotificationPayload } from './types/index.js';
+import { SocialCrabs, registerPlatform, getPlatform, listPlatforms } from './index.js';
+import { parseRunAt } from './services/job-queue.js';
+import { describePauseScope } from './services/pause.js';
+import { runEngagement } from './scripts/engage.js';
+import { ActionError, errorCode } from './utils/errors.js';
+import type { Platform, ActionType, ActionResult, ActionErrorCode, NotificationPayload, Job, JobAction, JobStatus, WarmupStatus, ScheduleCheck, PauseState } from './types/index.js';
+import type { Tweet, XUser } from './graphql/index.js';
+import type { PlatformDefinition, PlatformAction, CliArgs } from './platforms/registry.js';
 
 // Default retry configuration
 const DEFAULT_RETRIES = 3;
 const RETRY_DELAY_MS = 5000; // 5 seconds between retries
+// Failures another attempt can't fix right away
+const FINAL_CODES: ActionErrorCode[] = ['RATE_LIMITED', 'SESSION_EXPIRED', 'TARGET_NOT_FOUND', 'ALREADY_DONE', 'BLOCKED_BY_PLATFORM', 'PAUSED', 'CIRCUIT_OPEN', 'UNKNOWN_OUTCOME'];
 
 /**
  * Parse --context JSON flag and merge with action result
@@ -23,7 +32,7 @@ function parseContext(contextStr?: string): Record<string, unknown> | undefined
 }
 
 /**
- * Retry wrapper for actions
+ * Retry wrapper for actions; gives up early on failures whose code says retrying won't help
  */
 async function withRetry<T>(
   action: () => Promise<T>,
@@ -40,7 +49,9 @@ async function withRetry<T>(
       return await action();
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
+      const code = errorCode(error);
       
+      if (code && FINAL_CODES.includes(code)) break;
       if (attempt < options.retries) {
         console.log(`⚠️ Attempt ${attempt}/${options.retries} failed for ${options.actionName} (${options.target})`);
         console.log(`   Error: ${lastError.message}`);
@@ -72,7 +83,8 @@ async function sendNotificationWithContext(
   success: boolean,
   target: string,
   context?: Record<string, unknown>,
-  error?: string
+  error?: string,
+  code?: ActionErrorCode
 ): Promise<void> {
   const notifier = claw.notifier;
   if (!notifier.isEnabled()) return;
@@ -84,6 +96,7 @@ async function sendNotificationWithContext(
     success,
     target,
     error,
+    code,
     details: context,
     timestamp: Date.now(),
   };
@@ -96,7 +109,14 @@ const program = new Command();
 program
   .name('socialcrabs')
   .description('Production-ready social media automation with human-like behavior')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('-a, --account <id>', 'Account to act as (or set SOCIALCRABS_ACCOUNT env)');
+
+// Every SocialCrabs instance created by a command picks the account up from the env
+program.hook('preAction', () => {
+  const { account } = program.opts<{ account?: string }>();
+  if (account) process.env.SOCIALCRABS_ACCOUNT = account;
+});
 
 // ============================================================================
 // Server command
@@ -144,14 +164,15 @@ const session = program.command('session').description('Manage login sessions');
 
 session
   .command('login <platform>')
-  .description('Login to a platform (instagram, twitter, linkedin)')
+  .description(`Login to a platform (${listPlatforms().map((platform) => platform.id).join(', ')})`)
   .option('--headless', 'Run in headless mode (reads credentials from env)')
   .option('-u, --username <username>', 'Username/email (or set PLATFORM_USERNAME env)')
   .option('-p, --password <password>', 'Password (or set PLATFORM_PASSWORD env)')
   .action(async (platform: Platform, options) => {
     try {
-      // Get credentials from options or environment
-      const envPrefix = platform.toUpperCase();
+      // Get credentials from options or environment (TWITTER_BRAND2_USERNAME for --account brand2)
+      const account = process.env.SOCIALCRABS_ACCOUNT;
+      const envPrefix = (account ? `${platform}_${account}` : platform).toUpperCase().replace(/-/g, '_');
       const username = options.username || process.env[`${envPrefix}_USERNAME`] || process.env[`${envPrefix}_EMAIL`];
       const password = options.password || process.env[`${envPrefix}_PASSWORD`];
       
@@ -161,7 +182,7 @@ session
         browser: { headless },
       });
 
-      await claw.initialize();
+      if (getPlatform(platform).browser !== false) await claw.initialize();
       
       if (headless && username && password) {
         console.log(`\n🔐 Logging in to ${platform} (headless mode)...`);
@@ -207,15 +228,31 @@ session
       const status = await claw.getStatus();
 
       console.log('\n📊 Session Status\n');
+      console.log(`Account: ${status.account}`);
       console.log(`Browser: ${status.browser ? '✅ Running' : '❌ Not running'}`);
       console.log(`Uptime: ${Math.floor(status.uptime)}s\n`);
 
       for (const [platform, info] of Object.entries(status.platforms)) {
         console.log(`${platform.charAt(0).toUpperCase() + platform.slice(1)}:`);
         console.log(`  Logged in: ${info.loggedIn ? '✅' : '❌'}`);
+        if (info.paused) console.log(`  Paused: ${formatPause(info.paused)}`);
+        if (info.warmup) console.log(`  Warm-up: ${formatWarmup(info.warmup)}`);
+        console.log(`  Schedule: ${formatSchedule(info.schedule)}`);
         console.log('  Rate limits:');
         for (const [action, limit] of Object.entries(info.rateLimits)) {
-          console.log(`    ${action}: ${limit.remaining}/${limit.total} remaining`);
+          if (limit.cooldown) {
+            console.log(`    ${action}: cooling off until ${new Date(limit.cooldown.until).toLocaleString()} (${limit.cooldown.reason})`);
+            continue;
+          }
+          console.log(`    ${action}: ${limit.remaining}/${limit.total} remaining this ${limit.window}${limit.limit !== action ? ` (${limit.limit})` : ''}`);
+        }
+        for (const [action, circuit] of Object.entries(info.circuits)) {
+          if (circuit.state === 'closed') {
+            console.log(`  Circuit ${action}: ${circuit.failures} consecutive failure(s)`);
+          } else {
+            const probe = circuit.probeAt ? `, next probe ${new Date(circuit.probeAt).toLocaleString()}` : '';
+            console.log(`  Circuit ${action}: ⛔ ${circuit.state} after ${circuit.failures} failures${probe} (${circuit.lastError})`);
+          }
         }
         console.log();
       }
@@ -243,148 +280,117 @@ session
     }
   });
 
-// ============================================================================
-// Instagram commands
-// ============================================================================
-
-const ig = program.command('ig').alias('instagram').description('Instagram actions');
-
-ig.command('like <url>')
-  .description('Like an Instagram post')
-  .option('-c, --context <json>', 'JSON context for notification')
-  .option('-r, --retries <number>', 'Number of retry attempts on failure', String(DEFAULT_RETRIES))
-  .action(async (url: string, options: { context?: string; retries?: string }) => {
-    const retries = parseRetries(options.retries);
-    const context = parseContext(options.context);
-    if (context) process.env.SOCIALCRABS_SILENT = '1';
-    
-    const claw = new SocialCrabs({ browser: { headless: true } });
-    
+session
+  .command('rotate-key')
+  .description('Re-encrypt stored sessions with a new encryption key')
+  .option('-n, --new-key <key>', 'New encryption key (or set COOKIE_ENCRYPTION_KEY_NEW env)')
+  .option('-o, --old-key <key>', 'Current encryption key (defaults to COOKIE_ENCRYPTION_KEY)')
+  .option('--decrypt', 'Write sessions back as plaintext instead of re-encrypting')
+  .action(async (options: { newKey?: string; oldKey?: string; decrypt?: boolean }) => {
     try {
-      await claw.initialize();
+      const newKey = options.decrypt ? '' : options.newKey || process.env.COOKIE_ENCRYPTION_KEY_NEW;
+      if (newKey === undefined) {
+        console.log('❌ New key required. Pass --new-key or set COOKIE_ENCRYPTION_KEY_NEW');
+        process.exit(1);
+      }
 
-      await withRetry(
-        async () => {
-          const res = await claw.instagram.like({ url });
-          if (!res.success) throw new Error(res.error || 'Like failed');
-          return res;
-        },
-        { retries, actionName: 'IG like', target: url }
-      );
+      const claw = new SocialCrabs({
+        browser: { headless: true },
+        session: options.oldKey ? { encryptionKey: options.oldKey } : undefined,
+      });
 
-      console.log(`✅ Liked post: ${url}`);
-      
-      if (context) {
-        await sendNotificationWithContext(
-          claw, 'instagram', 'like', true, url,
-          { postUrl: url, ...context }
-        );
-      }
+      const count = claw.rotateSessionKey(newKey);
 
-      await claw.shutdown();
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      console.log(`❌ Failed to like after ${retries} attempts: ${errorMsg}`);
-      
-      if (context) {
-        await sendNotificationWithContext(
-          claw, 'instagram', 'like', false, url, context, errorMsg
-        );
+      console.log(`✅ ${options.decrypt ? 'Decrypted' : 'Re-encrypted'} ${count} session file(s)`);
+      if (!options.decrypt) {
+        console.log('   Update COOKIE_ENCRYPTION_KEY in .env to the new key before the next run.');
       }
-      
-      await claw.shutdown();
+    } catch (error) {
+      console.error('Key rotation failed:', error instanceof Error ? error.message : error);
       process.exit(1);
     }
   });
 
-ig.command('follow <username>')
-  .description('Follow an Instagram user')
-  .option('-c, --context <json>', 'JSON context for notification')
-  .option('-r, --retries <number>', 'Number of retry attempts on failure', String(DEFAULT_RETRIES))
-  .action(async (username: string, options: { context?: string; retries?: string }) => {
-    const retries = parseRetries(options.retries);
-    const context = parseContext(options.context);
-    if (context) process.env.SOCIALCRABS_SILENT = '1';
-    
-    const claw = new SocialCrabs({ browser: { headless: true } });
-    
-    try {
-      await claw.initialize();
+// ============================================================================
+// Platform commands (generated from the platform registry)
+// ============================================================================
 
-      await withRetry(
-        async () => {
-          const res = await claw.instagram.follow({ username });
-          if (!res.success) throw new Error(res.error || 'Follow failed');
-          return res;
-        },
-        { retries, actionName: 'IG follow', target: `@${username}` }
-      );
+/**
+ * Add the CLI command of a platform action: builds the payload from the named
+ * arguments, validates it, runs it headless (with retries where the action
+ * offers them) and notifies with --context
+ */
+function addActionCommand(group: Command, platform: PlatformDefinition, action: PlatformAction): void {
+  const cli = action.cli;
+  if (!cli) return;
 
-      console.log(`✅ Followed: @${username}`);
-      
-      if (context) {
-        await sendNotificationWithContext(
-          claw, 'instagram', 'follow', true, username,
-          { profileUrl: `https://instagram.com/${username}`, ...context }
-        );
-      }
+  const command = group.command(cli.command).description(cli.description);
+  for (const option of cli.options || []) {
+    command.option(option.flags, option.description, option.defaultValue);
+  }
+  if (cli.context) command.option('-c, --context <json>', 'JSON context for notification');
+  if (cli.retry) command.option('-r, --retries <number>', 'Number of retry attempts on failure', String(DEFAULT_RETRIES));
 
-      await claw.shutdown();
+  // Commander passes the positional arguments, then the options and the command itself
+  const names = [...cli.command.matchAll(/[<[]([\w-]+)(?:\.\.\.)?[>\]]/g)].map((match) => match[1]);
+
+  command.action(async (...args: unknown[]) => {
+    const { context: contextJson, retries: retriesOption, ...options } = args[names.length] as CliArgs;
+    const retries = cli.retry ? parseRetries(retriesOption) : 1;
+    const context = cli.context ? parseContext(contextJson) : undefined;
+    if (context) process.env.SOCIALCRABS_SILENT = '1';
+
+    let payload: Record<string, unknown>;
+    try {
+      const named = { ...options, ...Object.fromEntries(names.map((name, i) => [name, args[i]])) };
+      const parsed = action.schema.safeParse(cli.payload ? cli.payload(named) : named);
+      if (!parsed.success) throw new Error(parsed.error.issues[0].message);
+      payload = parsed.data as Record<string, unknown>;
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      console.log(`❌ Failed to follow @${username} after ${retries} attempts: ${errorMsg}`);
-      
-      if (context) {
-        await sendNotificationWithContext(
-          claw, 'instagram', 'follow', false, username, context, errorMsg
-        );
-      }
-      
-      await claw.shutdown();
+      console.log(`❌ ${error instanceof Error ? error.message : error}`);
       process.exit(1);
     }
-  });
 
-ig.command('comment <url> <text>')
-  .description('Comment on an Instagram post')
-  .option('-c, --context <json>', 'JSON context for notification')
-  .option('-r, --retries <number>', 'Number of retry attempts on failure', String(DEFAULT_RETRIES))
-  .action(async (url: string, text: string, options: { context?: string; retries?: string }) => {
-    const retries = parseRetries(options.retries);
-    const context = parseContext(options.context);
-    if (context) process.env.SOCIALCRABS_SILENT = '1';
-    
+    const targetField = ['url', 'profileUrl', 'username', ...(platform.targetFields || [])].find(
+      (field) => payload[field] !== undefined
+    );
+    const target = targetField ? String(payload[targetField]) : '';
     const claw = new SocialCrabs({ browser: { headless: true } });
-    
+
     try {
-      await claw.initialize();
+      if (platform.browser !== false) await claw.initialize();
 
-      await withRetry(
+      const result = await withRetry(
         async () => {
-          const res = await claw.instagram.comment({ url, text });
-          if (!res.success) throw new Error(res.error || 'Comment failed');
+          const res = await claw.runAction<unknown>(platform.id, action.name, payload);
+          const actionResult = res as ActionResult;
+          if (!action.read && !actionResult.success) {
+            throw new ActionError(actionResult.error || `${cli.failed} failed`, actionResult.code);
+          }
           return res;
         },
-        { retries, actionName: 'IG comment', target: url }
+        { retries, actionName: `${platform.name} ${action.name}`, target }
       );
 
-      console.log(`✅ Commented on: ${url}`);
-      
+      console.log(action.read ? JSON.stringify(result, null, 2) : `✅ ${cli.done?.(payload, result as ActionResult) ?? 'Done'}`);
+
       if (context) {
         await sendNotificationWithContext(
-          claw, 'instagram', 'comment', true, url,
-          { postUrl: url, commentText: text, ...context }
+          claw, platform.id, action.name, true, target,
+          { ...cli.context?.(payload), ...context }
         );
       }
 
       await claw.shutdown();
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
-      console.log(`❌ Failed to comment after ${retries} attempts: ${errorMsg}`);
-      
+      const code = errorCode(error);
+      const retried = retries > 1 && !(code && FINAL_CODES.includes(code));
+      console.log(`❌ Failed to ${cli.failed}${retried ? ` after ${retries} attempts` : ''}: ${errorMsg}${code ? ` [${code}]` : ''}`);
+
       if (context) {
         await sendNotificationWithContext(
-          claw, 'instagram', 'comment', false, url, context, errorMsg
+          claw, platform.id, action.name, false, target, context, errorMsg, code
         );
       }
 
@@ -392,45 +398,24 @@ ig.command('comment <url> <text>')
       process.exit(1);
     }
   });
+}
 
-ig.command('dm <username> <message>')
-  .description('Send a DM to an Instagram user')
-  .action(async (username: string, message: string) => {
-    try {
-      const claw = new SocialCrabs({ browser: { headless: true } });
-      await claw.initialize();
-
-      const result = await claw.instagram.dm({ username, message });
-
-      if (result.success) {
-        console.log(`✅ Sent DM to: @${username}`);
-      } else {
-        console.log(`❌ Failed to send DM: ${result.error}`);
-      }
-
-      await claw.shutdown();
-    } catch (error) {
-      console.error('Error:', error);
-      process.exit(1);
-    }
-  });
-
-ig.command('profile <username>')
-  .description('Get Instagram profile data')
-  .action(async (username: string) => {
-    try {
-      const claw = new SocialCrabs({ browser: { headless: true } });
-      await claw.initialize();
+/**
+ * Command group of a platform with its action commands and its own extra commands
+ */
+function platformCommand(platform: PlatformDefinition): Command {
+  const group = program.command(platform.command).description(`${platform.name} actions`);
+  for (const alias of platform.aliases || []) group.alias(alias);
+  for (const action of platform.actions) addActionCommand(group, platform, action);
+  platform.commands?.(group);
+  return group;
+}
 
-      const profile = await claw.instagram.getProfile(username);
-      console.log(JSON.stringify(profile, null, 2));
+// ============================================================================
+// Instagram commands
+// ============================================================================
 
-      await claw.shutdown();
-    } catch (error) {
-      console.error('Error:', error);
-      process.exit(1);
-    }
-  });
+const ig = platformCommand(getPlatform('instagram'));
 
 ig.command('followers <username>')
   .description('Scrape followers from an Instagram profile')
@@ -480,175 +465,7 @@ ig.command('posts <username>')
 // Twitter commands
 // ============================================================================
 
-const twitter = program.command('twitter').alias('x').description('Twitter/X actions');
-
-twitter
-  .command('like <url>')
-  .description('Like a tweet')
-  .option('-c, --context <json>', 'JSON context for notification (language, behaviors, etc.)')
-  .option('-r, --retries <number>', 'Number of retry attempts on failure', String(DEFAULT_RETRIES))
-  .action(async (url: string, options: { context?: string; retries?: string }) => {
-    const retries = parseRetries(options.retries);
-    const context = parseContext(options.context);
-    if (context) process.env.SOCIALCRABS_SILENT = '1';
-    
-    const claw = new SocialCrabs({ browser: { headless: true } });
-    
-    try {
-      await claw.initialize();
-
-      await withRetry(
-        async () => {
-          const res = await claw.twitter.like({ url });
-          if (!res.success) throw new Error(res.error || 'Like failed');
-          return res;
-        },
-        { retries, actionName: 'X like', target: url }
-      );
-
-      console.log(`✅ Liked tweet: ${url}`);
-      
-      if (context) {
-        await sendNotificationWithContext(
-          claw, 'twitter', 'like', true, url,
-          { postUrl: url, ...context }
-        );
-      }
-
-      await claw.shutdown();
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      console.log(`❌ Failed to like after ${retries} attempts: ${errorMsg}`);
-      
-      if (context) {
-        await sendNotificationWithContext(
-          claw, 'twitter', 'like', false, url, context, errorMsg
-        );
-      }
-      
-      await claw.shutdown();
-      process.exit(1);
-    }
-  });
-
-twitter
-  .command('tweet <text>')
-  .description('Post a tweet')
-  .action(async (text: string) => {
-    try {
-      const claw = new SocialCrabs({ browser: { headless: true } });
-      await claw.initialize();
-
-      const result = await claw.twitter.post({ text });
-
-      if (result.success) {
-        console.log(`✅ Posted tweet`);
-      } else {
-        console.log(`❌ Failed to post: ${result.error}`);
-      }
-
-      await claw.shutdown();
-    } catch (error) {
-      console.error('Error:', error);
-      process.exit(1);
-    }
-  });
-
-twitter
-  .command('follow <username>')
-  .description('Follow a Twitter user')
-  .option('-c, --context <json>', 'JSON context for notification')
-  .option('-r, --retries <number>', 'Number of retry attempts on failure', String(DEFAULT_RETRIES))
-  .action(async (usernameOrUrl: string, options: { context?: string; retries?: string }) => {
-    const retries = parseRetries(options.retries);
-    const context = parseContext(options.context);
-    if (context) process.env.SOCIALCRABS_SILENT = '1';
-    
-    // Extract username from URL if needed
-    let username = usernameOrUrl;
-    if (usernameOrUrl.includes('x.com/') || usernameOrUrl.includes('twitter.com/')) {
-      const match = usernameOrUrl.match(/(?:x\.com|twitter\.com)\/(@?[\w]+)/);
-      if (match) {
-        username = match[1].replace('@', '');
-      }
-    }
-    username = username.replace(/^@/, '');
-    
-    const claw = new SocialCrabs({ browser: { headless: true } });
-    
-    try {
-      await claw.initialize();
-
-      await withRetry(
-        async () => {
-          const res = await claw.twitter.follow({ username });
-          if (!res.success) throw new Error(res.error || 'Follow failed');
-          return res;
-        },
-        { retries, actionName: 'X follow', target: `@${username}` }
-      );
-
-      console.log(`✅ Followed: @${username}`);
-      
-      if (context) {
-        await sendNotificationWithContext(
-          claw, 'twitter', 'follow', true, username,
-          { profileUrl: `https://x.com/${username}`, ...context }
-        );
-      }
-
-      await claw.shutdown();
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      console.log(`❌ Failed to follow @${username} after ${retries} attempts: ${errorMsg}`);
-      
-      if (context) {
-        await sendNotificationWithContext(
-          claw, 'twitter', 'follow', false, username, context, errorMsg
-        );
-      }
-      
-      await claw.shutdown();
-      process.exit(1);
-    }
-  });
-
-twitter
-  .command('reply <url> <text>')
-  .description('Reply to a tweet')
-  .option('-c, --context <json>', 'JSON context for notification')
-  .action(async (url: string, text: string, options: { context?: string }) => {
-    try {
-      const context = parseContext(options.context);
-      if (context) process.env.SOCIALCRABS_SILENT = '1';
-      
-      const claw = new SocialCrabs({ browser: { headless: true } });
-      await claw.initialize();
-
-      const result = await claw.twitter.comment({ url, text });
-
-      if (result.success) {
-        console.log(`✅ Replied to tweet`);
-      } else {
-        console.log(`❌ Failed to reply: ${result.error}`);
-      }
-      
-      if (context) {
-        await sendNotificationWithContext(
-          claw, 'twitter', 'comment', result.success, url,
-          { postUrl: url, commentText: text, actions: ['💬 Replied'], ...context },
-          result.error
-        );
-      }
-
-      await claw.shutdown();
-    } catch (error) {
-      console.error('Error:', error);
-      process.exit(1);
-    }
-  });
-
-// X DM removed - encrypted DMs require passcode that can't be automated
+const twitter = platformCommand(getPlatform('twitter'));
 
 // ============================================================================
 // X GraphQL Read Commands (replaces bird CLI dependency)
@@ -756,203 +573,620 @@ twitter
     } catch (e: any) { console.error('Error:', e.message); process.exit(1); }
   });
 
+// Paged reads: one page by default, every page with --all
+
+const PAGE_DELAY_MS = 1500;
+
+interface PagedCommandOptions {
+  count?: string;
+  cursor?: string;
+  all?: boolean;
+  json?: boolean;
+}
+
+interface Page<T> {
+  success: boolean;
+  error?: string;
+  nextCursor?: string;
+  items: T[];
+}
+
+/**
+ * Fetch one page, or keep following nextCursor until an empty page when --all is set
+ */
+async function fetchPages<T>(
+  fetchPage: (cursor?: string) => Promise<Page<T>>,
+  options: PagedCommandOptions
+): Promise<{ items: T[]; nextCursor?: string }> {
+  const items: T[] = [];
+  let cursor = options.cursor;
+
+  for (;;) {
+    const page = await fetchPage(cursor);
+    if (!page.success) throw new Error(page.error ?? 'Request failed');
+    items.push(...page.items);
+
+    if (!options.all || page.items.length === 0 || !page.nextCursor || page.nextCursor === cursor) {
+      return { items, nextCursor: page.nextCursor };
+    }
+    cursor = page.nextCursor;
+    if (!options.json) process.stderr.write(`\r${items.length} fetched...`);
+    await new Promise((resolve) => setTimeout(resolve, PAGE_DELAY_MS));
+  }
+}
+
+function printTweetPage(tweets: Tweet[], nextCursor: string | undefined, options: PagedCommandOptions): void {
+  if (options.json) { console.log(JSON.stringify(tweets, null, 2)); return; }
+  if (options.all) process.stderr.write('\n');
+  if (tweets.length === 0) { console.log('No tweets found.'); return; }
+  for (const tweet of tweets) {
+    console.log(`\n@${tweet.author.username} (${tweet.author.name})`);
+    console.log(tweet.text);
+    console.log(`❤️ ${tweet.likeCount ?? 0}  🔁 ${tweet.retweetCount ?? 0}  💬 ${tweet.replyCount ?? 0}`);
+    console.log(`https://x.com/${tweet.author.username}/status/${tweet.id}`);
+    console.log('---');
+  }
+  console.log(`\n${tweets.length} tweets.`);
+  if (nextCursor && !options.all) console.log(`Next page: --cursor "${nextCursor}"`);
+}
+
+function printUserPage(users: XUser[], nextCursor: string | undefined, options: PagedCommandOptions): void {
+  if (options.json) { console.log(JSON.stringify(users, null, 2)); return; }
+  if (options.all) process.stderr.write('\n');
+  if (users.length === 0) { console.log('No users found.'); return; }
+  for (const user of users) {
+    console.log(`@${user.username} (${user.name}) · ${user.followersCount ?? 0} followers · ${user.followingCount ?? 0} following`);
+    if (user.description) console.log(`  ${user.description.split('\n')[0]}`);
+  }
+  console.log(`\n${users.length} users.`);
+  if (nextCursor && !options.all) console.log(`Next page: --cursor "${nextCursor}"`);
+}
+
+twitter
+  .command('tweets <user>')
+  .description("Get a user's tweets via GraphQL API")
+  .option('-n, --count <number>', 'Tweets per page', '20')
+  .option('--cursor <cursor>', 'Start from a cursor returned by a previous page')
+  .option('--all', 'Fetch every page')
+  .option('--json', 'Output raw JSON')
+  .action(async (user: string, options: PagedCommandOptions) => {
+    const { createClientFromEnv } = await import('./graphql/index.js');
+    try {
+      const client = createClientFromEnv();
+      const count = parseInt(options.count || '20', 10);
+      const { items, nextCursor } = await fetchPages(async (cursor) => {
+        const result = await client.getUserTweets(user, { count, cursor });
+        return { ...result, items: result.tweets };
+      }, options);
+      printTweetPage(items, nextCursor, options);
+    } catch (e: any) { console.error('Error:', e.message); process.exit(1); }
+  });
+
+twitter
+  .command('followers <user>')
+  .description("Get a user's followers via GraphQL API")
+  .option('-n, --count <number>', 'Users per page', '20')
+  .option('--cursor <cursor>', 'Start from a cursor returned by a previous page')
+  .option('--all', 'Fetch every page')
+  .option('--json', 'Output raw JSON')
+  .action(async (user: string, options: PagedCommandOptions) => {
+    const { createClientFromEnv } = await import('./graphql/index.js');
+    try {
+      const client = createClientFromEnv();
+      const count = parseInt(options.count || '20', 10);
+      const { items, nextCursor } = await fetchPages(async (cursor) => {
+        const result = await client.getFollowers(user, { count, cursor });
+        return { ...result, items: result.users };
+      }, options);
+      printUserPage(items, nextCursor, options);
+    } catch (e: any) { console.error('Error:', e.message); process.exit(1); }
+  });
+
+twitter
+  .command('following <user>')
+  .description('Get the accounts a user follows via GraphQL API')
+  .option('-n, --count <number>', 'Users per page', '20')
+  .option('--cursor <cursor>', 'Start from a cursor returned by a previous page')
+  .option('--all', 'Fetch every page')
+  .option('--json', 'Output raw JSON')
+  .action(async (user: string, options: PagedCommandOptions) => {
+    const { createClientFromEnv } = await import('./graphql/index.js');
+    try {
+      const client = createClientFromEnv();
+      const count = parseInt(options.count || '20', 10);
+      const { items, nextCursor } = await fetchPages(async (cursor) => {
+        const result = await client.getFollowing(user, { count, cursor });
+        return { ...result, items: result.users };
+      }, options);
+      printUserPage(items, nextCursor, options);
+    } catch (e: any) { console.error('Error:', e.message); process.exit(1); }
+  });
+
+twitter
+  .command('likes')
+  .description('Get tweets liked by the authenticated user')
+  .option('-n, --count <number>', 'Tweets per page', '20')
+  .option('--cursor <cursor>', 'Start from a cursor returned by a previous page')
+  .option('--all', 'Fetch every page')
+  .option('--json', 'Output raw JSON')
+  .action(async (options: PagedCommandOptions) => {
+    const { createClientFromEnv } = await import('./graphql/index.js');
+    try {
+      const client = createClientFromEnv();
+      const count = parseInt(options.count || '20', 10);
+      const { items, nextCursor } = await fetchPages(async (cursor) => {
+        const result = await client.getLikes({ count, cursor });
+        return { ...result, items: result.tweets };
+      }, options);
+      printTweetPage(items, nextCursor, options);
+    } catch (e: any) { console.error('Error:', e.message); process.exit(1); }
+  });
+
+twitter
+  .command('bookmarks')
+  .description("Get the authenticated user's bookmarks")
+  .option('-n, --count <number>', 'Tweets per page', '20')
+  .option('--cursor <cursor>', 'Start from a cursor returned by a previous page')
+  .option('--all', 'Fetch every page')
+  .option('--json', 'Output raw JSON')
+  .action(async (options: PagedCommandOptions) => {
+    const { createClientFromEnv } = await import('./graphql/index.js');
+    try {
+      const client = createClientFromEnv();
+      const count = parseInt(options.count || '20', 10);
+      const { items, nextCursor } = await fetchPages(async (cursor) => {
+        const result = await client.getBookmarks({ count, cursor });
+        return { ...result, items: result.tweets };
+      }, options);
+      printTweetPage(items, nextCursor, options);
+    } catch (e: any) { console.error('Error:', e.message); process.exit(1); }
+  });
+
 // ============================================================================
 // LinkedIn commands
 // ============================================================================
 
-const linkedin = program.command('linkedin').alias('li').description('LinkedIn actions');
+const linkedin = platformCommand(getPlatform('linkedin'));
 
 linkedin
-  .command('connect <url>')
-  .description('Send a connection request')
-  .option('-n, --note <note>', 'Add a note to the connection request')
-  .option('-c, --context <json>', 'JSON context for notification')
-  .option('-r, --retries <number>', 'Number of retry attempts on failure', String(DEFAULT_RETRIES))
-  .action(async (url: string, options: { note?: string; context?: string; retries?: string }) => {
-    const retries = parseRetries(options.retries);
-    const context = parseContext(options.context);
-    if (context) process.env.SOCIALCRABS_SILENT = '1';
-    
-    const claw = new SocialCrabs({ browser: { headless: true } });
-    
+  .command('search <query>')
+  .description('Search LinkedIn for content')
+  .option('-o, --output <file>', 'Save HTML to file')
+  .action(async (query: string, options: { output?: string }) => {
     try {
+      const claw = new SocialCrabs({ browser: { headless: true } });
       await claw.initialize();
 
-      await withRetry(
-        async () => {
-          const res = await claw.linkedin.connect({
-            profileUrl: url,
-            note: options.note,
-          });
-          if (!res.success) throw new Error(res.error || 'Connect failed');
-          return res;
-        },
-        { retries, actionName: 'LinkedIn connect', target: url }
-      );
+      const result = await claw.linkedin.search(query);
 
-      console.log(`✅ Sent connection request to: ${url}`);
-      
-      if (context) {
-        await sendNotificationWithContext(
-          claw, 'linkedin', 'connect', true, url,
-          { profileUrl: url, note: options.note, ...context }
-        );
+      console.log(`Found ${result.posts.length} posts:`);
+      for (const post of result.posts) {
+        console.log(`  - ${post.urn}`);
+        console.log(`    ${post.url}`);
       }
 
-      await claw.shutdown();
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      console.log(`❌ Failed to connect after ${retries} attempts: ${errorMsg}`);
-      
-      if (context) {
-        await sendNotificationWithContext(
-          claw, 'linkedin', 'connect', false, url, context, errorMsg
-        );
+      if (options.output) {
+        const fs = await import('fs');
+        fs.writeFileSync(options.output, result.html);
+        console.log(`\nHTML saved to: ${options.output}`);
       }
-      
+
       await claw.shutdown();
+    } catch (error) {
+      console.error('Error:', error);
       process.exit(1);
     }
   });
 
 linkedin
-  .command('message <url> <text>')
-  .description('Send a LinkedIn message')
-  .action(async (url: string, text: string) => {
+  .command('engage')
+  .description('Run full engagement session (search + like + comment)')
+  .option('-q, --query <query>', 'Search query', 'openclaw')
+  .option('--dry-run', 'Show what would be done without doing it')
+  .option('--skip-search', 'Skip the search step, use existing articles')
+  .option('--max <n>', 'Maximum posts to comment on this run', '7')
+  .action(async (options: { query: string; dryRun?: boolean; skipSearch?: boolean; max: string }) => {
+    try {
+      await runEngagement({
+        query: options.query,
+        dryRun: options.dryRun,
+        skipSearch: options.skipSearch,
+        maxComments: parseInt(options.max, 10) || undefined,
+      });
+      process.exit(0);
+    } catch (error) {
+      console.error('❌ Engagement session failed:', String(error));
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Reddit commands
+// ============================================================================
+
+platformCommand(getPlatform('reddit'));
+
+// ============================================================================
+// Bluesky commands
+// ============================================================================
+
+platformCommand(getPlatform('bluesky'));
+
+// ============================================================================
+// Job queue commands
+// ============================================================================
+
+/**
+ * One-line summary of a queued job
+ */
+function formatJob(job: Job): string {
+  const icon = { pending: '⏳', running: '▶️', completed: '✅', failed: '❌', cancelled: '🚫' }[job.status];
+  const target = job.payload.url || job.payload.username || job.payload.profileUrl || job.payload.text || '';
+  const when = new Date(job.runAt).toISOString().replace('T', ' ').substring(0, 19);
+  return `${icon} ${job.id}  ${job.platform}/${job.action} [${job.account}]  ${String(target).substring(0, 60)}  (run at ${when} UTC, attempts ${job.attempts}/${job.maxAttempts})`;
+}
+
+const jobs = program.command('jobs').description('Manage the persistent job queue');
+
+jobs
+  .command('add <platform> <action>')
+  .description('Queue an action (like, comment, follow, dm, post, connect)')
+  .option('--url <url>', 'Post/tweet URL (like, comment)')
+  .option('--text <text>', 'Comment or post text')
+  .option('--username <username>', 'Target username (follow, dm)')
+  .option('--message <message>', 'DM text')
+  .option('--profile-url <url>', 'LinkedIn profile URL (connect)')
+  .option('--note <note>', 'LinkedIn connection note')
+  .option('--media <paths...>', 'Image file(s) to attach (post)')
+  .option('--payload <json>', 'Full payload as JSON (merged with the flags above)')
+  .option('--run-at <time>', 'When to run: ISO date or relative (+30m, +2h, +1d)')
+  .option('--max-attempts <n>', 'Attempts before the job is marked failed')
+  .action(async (platform: Platform, action: JobAction, options: {
+    url?: string; text?: string; username?: string; message?: string; profileUrl?: string; note?: string;
+    media?: string[]; payload?: string; runAt?: string; maxAttempts?: string;
+  }) => {
     try {
       const claw = new SocialCrabs({ browser: { headless: true } });
-      await claw.initialize();
 
-      const result = await claw.linkedin.dm({ username: url, message: text });
+      const payload: Record<string, unknown> = {
+        ...(options.payload ? JSON.parse(options.payload) : {}),
+        ...(options.url && { url: options.url }),
+        ...(options.text && { text: options.text }),
+        ...(options.username && { username: options.username.replace(/^@/, '') }),
+        ...(options.message && { message: options.message }),
+        ...(options.profileUrl && { profileUrl: options.profileUrl }),
+        ...(options.note && { note: options.note }),
+        // Absolute paths, so the job still finds the files when run from another directory
+        ...(options.media && { media: options.media.map((file) => path.resolve(file)) }),
+      };
+
+      const job = await claw.jobs.add({
+        platform,
+        action,
+        payload,
+        account: claw.getAccount(),
+        runAt: parseRunAt(options.runAt),
+        maxAttempts: options.maxAttempts ? parseInt(options.maxAttempts, 10) : undefined,
+      });
 
-      if (result.success) {
-        console.log(`✅ Sent message`);
-      } else {
-        console.log(`❌ Failed to send message: ${result.error}`);
-      }
+      console.log(`✅ Queued ${job.id}`);
+      console.log(`   ${formatJob(job)}`);
+    } catch (error) {
+      console.log(`❌ Failed to queue job: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  });
 
-      await claw.shutdown();
+jobs
+  .command('list')
+  .description('List queued jobs')
+  .option('-s, --status <status>', 'Filter by status (pending, running, completed, failed, cancelled)')
+  .option('--json', 'Output raw JSON')
+  .action(async (options: { status?: JobStatus; json?: boolean }) => {
+    try {
+      const claw = new SocialCrabs({ browser: { headless: true } });
+      const list = claw.jobs.list({ status: options.status });
+
+      if (options.json) { console.log(JSON.stringify(list, null, 2)); return; }
+      if (list.length === 0) { console.log('No jobs found.'); return; }
+
+      console.log(`\n📋 ${list.length} job(s)\n`);
+      list.forEach((job) => console.log(`  ${formatJob(job)}`));
+      console.log();
     } catch (error) {
       console.error('Error:', error);
       process.exit(1);
     }
   });
 
-linkedin
-  .command('like <url>')
-  .description('Like a LinkedIn post')
-  .action(async (url: string) => {
+jobs
+  .command('show <id>')
+  .description('Show a job with its last result')
+  .action(async (id: string) => {
     try {
       const claw = new SocialCrabs({ browser: { headless: true } });
-      await claw.initialize();
+      const job = claw.jobs.get(id);
+      if (!job) {
+        console.log(`❌ Job not found: ${id}`);
+        process.exit(1);
+      }
+      console.log(JSON.stringify(job, null, 2));
+    } catch (error) {
+      console.error('Error:', error);
+      process.exit(1);
+    }
+  });
 
-      const result = await claw.linkedin.like({ url });
+jobs
+  .command('cancel <id>')
+  .description('Cancel a pending job')
+  .action(async (id: string) => {
+    try {
+      const claw = new SocialCrabs({ browser: { headless: true } });
+      const job = await claw.jobs.cancel(id);
+      if (!job) {
+        console.log(`❌ Job not found: ${id}`);
+        process.exit(1);
+      }
+      console.log(`✅ Cancelled ${id}`);
+    } catch (error) {
+      console.log(`❌ ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  });
 
-      if (result.success) {
-        console.log(`✅ Liked post: ${url}`);
-      } else {
-        console.log(`❌ Failed to like: ${result.error}`);
+jobs
+  .command('retry <id>')
+  .description('Re-queue a failed or cancelled job')
+  .action(async (id: string) => {
+    try {
+      const claw = new SocialCrabs({ browser: { headless: true } });
+      const job = await claw.jobs.retry(id);
+      if (!job) {
+        console.log(`❌ Job not found: ${id}`);
+        process.exit(1);
       }
+      console.log(`✅ Re-queued ${id}`);
+    } catch (error) {
+      console.log(`❌ ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  });
 
-      await claw.shutdown();
+jobs
+  .command('prune')
+  .description('Remove completed, failed and cancelled jobs')
+  .action(async () => {
+    try {
+      const claw = new SocialCrabs({ browser: { headless: true } });
+      const removed = await claw.jobs.prune();
+      console.log(`✅ Removed ${removed} finished job(s)`);
     } catch (error) {
       console.error('Error:', error);
       process.exit(1);
     }
   });
 
-linkedin
-  .command('profile <username>')
-  .description('Get LinkedIn profile data')
-  .action(async (username: string) => {
+jobs
+  .command('run')
+  .description('Process queued jobs in the foreground')
+  .option('--due', 'Exit once no job is due now, instead of waiting for scheduled ones')
+  .action(async (options: { due?: boolean }) => {
+    const claw = new SocialCrabs({ browser: { headless: true } });
+
     try {
-      const claw = new SocialCrabs({ browser: { headless: true } });
       await claw.initialize();
 
-      const profile = await claw.linkedin.getProfile(username);
-      console.log(JSON.stringify(profile, null, 2));
+      claw.jobs.onEvent((event, job) => {
+        if (event === 'job:started') console.log(`▶️  ${job.id} ${job.platform}/${job.action}`);
+        if (event === 'job:completed') console.log(`✅ ${job.id} completed`);
+        if (event === 'job:failed') console.log(`❌ ${job.id} failed: ${job.error}`);
+        if (event === 'job:deferred') console.log(`⏳ ${job.id} deferred until ${new Date(job.runAt).toISOString()}`);
+      });
+
+      console.log(`\n🦞 Processing job queue${options.due ? ' (due jobs only)' : ''}...\n`);
+      await claw.jobs.drain(options.due);
+      console.log('\n✅ Queue drained');
 
       await claw.shutdown();
     } catch (error) {
       console.error('Error:', error);
+      await claw.shutdown();
       process.exit(1);
     }
   });
 
-linkedin
-  .command('comment <url> <text>')
-  .description('Comment on a LinkedIn post')
-  .action(async (url: string, text: string) => {
+// ============================================================================
+// Pause commands
+// ============================================================================
+
+function formatPause(state: PauseState): string {
+  const until = state.until ? ` until ${new Date(state.until).toLocaleString()}` : ' until resumed';
+  return `${describePauseScope(state)}${until}${state.reason ? ` (${state.reason})` : ''}`;
+}
+
+program
+  .command('pause [platform]')
+  .description('Pause automation: everything, a platform, or with --account an account (actions refused, jobs held)')
+  .option('-r, --reason <text>', 'Why automation is paused')
+  .option('-u, --until <time>', 'Resume automatically: ISO date or offset like +30m, +2h, +1d')
+  .option('--list', 'Show active pauses')
+  .action(async (platform: Platform | undefined, options: { reason?: string; until?: string; list?: boolean }) => {
     try {
       const claw = new SocialCrabs({ browser: { headless: true } });
-      await claw.initialize();
+      if (options.list) {
+        const pauses = claw.getPauses();
+        if (pauses.length === 0) console.log('Nothing is paused');
+        for (const state of pauses) console.log(`⏸️  ${formatPause(state)}`);
+        return;
+      }
 
-      const result = await claw.linkedin.comment({ url, text });
+      const { account } = program.opts<{ account?: string }>();
+      const state = await claw.pause(
+        { platform, account },
+        { reason: options.reason, until: parseRunAt(options.until, 'until') }
+      );
+      console.log(`⏸️  Paused ${formatPause(state)}`);
+    } catch (error) {
+      console.error('❌ Failed to pause:', String(error));
+      process.exit(1);
+    }
+  });
 
-      if (result.success) {
-        console.log(`✅ Commented on post: ${url}`);
-      } else {
-        console.log(`❌ Failed to comment: ${result.error}`);
+program
+  .command('resume [platform]')
+  .description('Lift a pause (same scope as it was paused with), or every pause with --all')
+  .option('--all', 'Lift every pause')
+  .action(async (platform: Platform | undefined, options: { all?: boolean }) => {
+    const claw = new SocialCrabs({ browser: { headless: true } });
+    const { account } = program.opts<{ account?: string }>();
+    if (await claw.resume({ platform, account }, options.all)) {
+      console.log(`▶️  Resumed ${options.all ? 'everything' : describePauseScope({ platform, account })}`);
+    } else {
+      console.log(`${describePauseScope({ platform, account })} was not paused`);
+    }
+    for (const state of claw.getPauses()) console.log(`⏸️  Still paused: ${formatPause(state)}`);
+  });
+
+// ============================================================================
+// Warm-up commands
+// ============================================================================
+
+function formatWarmup(warmup: WarmupStatus): string {
+  const start = Object.entries(warmup.start).map(([key, n]) => `${key}=${n}`).join(', ');
+  return `day ${warmup.day} since ${warmup.startDate}, +${Math.round(warmup.growth * 100)}%/day from ${start || `${Math.round(warmup.startFraction * 100)}%`}`;
+}
+
+const warmup = program.command('warmup').description('Ramp up limits for new accounts');
+
+warmup
+  .command('start <platform>')
+  .description('Start the warm-up ramp for the account (limits grow daily up to the configured max)')
+  .option('--date <YYYY-MM-DD>', 'Ramp start date (default: today)')
+  .option('--growth <rate>', 'Daily growth, e.g. 0.1 for +10%/day')
+  .option('--fraction <share>', 'Share of the configured limits on day 0, e.g. 0.2')
+  .option('--start <caps...>', 'Day-0 daily caps per action, e.g. follow=10 like=20')
+  .action((platform: Platform, options: { date?: string; growth?: string; fraction?: string; start?: string[] }) => {
+    try {
+      const start: Record<string, number> = {};
+      for (const cap of options.start || []) {
+        const [key, value] = cap.split('=');
+        const n = parseInt(value, 10);
+        if (!key || isNaN(n) || n < 0) throw new Error(`Invalid cap: ${cap} (expected action=number)`);
+        start[key] = n;
       }
 
-      await claw.shutdown();
+      const claw = new SocialCrabs({ browser: { headless: true } });
+      const status = claw.startWarmup(platform, {
+        ...(options.date && { startDate: options.date }),
+        ...(options.growth && { growth: parseFloat(options.growth) }),
+        ...(options.fraction && { startFraction: parseFloat(options.fraction) }),
+        ...(options.start && { start }),
+      });
+      console.log(`✅ ${platform} warm-up: ${formatWarmup(status)}`);
     } catch (error) {
-      console.error('Error:', error);
+      console.error('❌ Failed to start warm-up:', String(error));
       process.exit(1);
     }
   });
 
-linkedin
-  .command('search <query>')
-  .description('Search LinkedIn for content')
-  .option('-o, --output <file>', 'Save HTML to file')
-  .action(async (query: string, options: { output?: string }) => {
+warmup
+  .command('stop <platform>')
+  .description('End the warm-up ramp (full limits apply again)')
+  .action((platform: Platform) => {
+    const claw = new SocialCrabs({ browser: { headless: true } });
+    if (claw.stopWarmup(platform)) {
+      console.log(`✅ ${platform} warm-up ended`);
+    } else {
+      console.log(`No warm-up recorded for ${platform}`);
+    }
+  });
+
+warmup
+  .command('status')
+  .description('Show warm-up progress and today\'s limits')
+  .action(() => {
     try {
       const claw = new SocialCrabs({ browser: { headless: true } });
-      await claw.initialize();
+      for (const { id: platform } of listPlatforms()) {
+        const status = claw.getWarmup(platform);
+        if (!status) {
+          console.log(`${platform}: full limits`);
+          continue;
+        }
+        console.log(`${platform}: ${formatWarmup(status)}`);
+        for (const [key, limits] of Object.entries(status.limits)) {
+          const caps = Object.entries(limits).map(([window, max]) => `${max}/${window}`).join(', ');
+          console.log(`  ${key}: ${caps}`);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to get warm-up status:', error);
+      process.exit(1);
+    }
+  });
 
-      const result = await claw.linkedin.search(query);
+// ============================================================================
+// Interaction history commands
+// ============================================================================
 
-      console.log(`Found ${result.posts.length} posts:`);
-      for (const post of result.posts) {
-        console.log(`  - ${post.urn}`);
-        console.log(`    ${post.url}`);
-      }
+program
+  .command('history <platform> [target]')
+  .description('Show past interactions with a target (post URL, username or profile URL), or the latest ones')
+  .option('-n, --limit <n>', 'Number of recent interactions without a target', '20')
+  .option('--json', 'Output raw JSON')
+  .action((platform: Platform, target: string | undefined, options: { limit: string; json?: boolean }) => {
+    try {
+      getPlatform(platform);
+      const claw = new SocialCrabs({ browser: { headless: true } });
+      const entries = target
+        ? claw.getHistory(platform, target).map((interaction) => ({ target, ...interaction }))
+        : claw.listHistory(platform, undefined, parseInt(options.limit, 10));
 
-      if (options.output) {
-        const fs = await import('fs');
-        fs.writeFileSync(options.output, result.html);
-        console.log(`\nHTML saved to: ${options.output}`);
+      if (options.json) {
+        console.log(JSON.stringify(entries, null, 2));
+        return;
+      }
+      if (entries.length === 0) {
+        console.log(target ? `No interactions with ${target} on ${platform}` : `No interactions recorded on ${platform}`);
+        return;
+      }
+      for (const entry of entries) {
+        console.log(`${new Date(entry.timestamp).toLocaleString()}  ${entry.action.padEnd(8)} ${entry.target}`);
       }
-
-      await claw.shutdown();
     } catch (error) {
-      console.error('Error:', error);
+      console.error('❌ Failed to read history:', String(error));
       process.exit(1);
     }
   });
 
-linkedin
-  .command('engage')
-  .description('Run full engagement session (search + like + comment)')
-  .option('-q, --query <query>', 'Search query', 'openclaw')
-  .option('--dry-run', 'Show what would be done without doing it')
-  .option('--skip-search', 'Skip the search step, use existing articles')
-  .action(async (options: { query: string; dryRun?: boolean; skipSearch?: boolean }) => {
+// ============================================================================
+// Schedule commands
+// ============================================================================
+
+function formatSchedule(schedule: ScheduleCheck): string {
+  if (schedule.allowed) {
+    return schedule.windowEndsAt
+      ? `active until ${new Date(schedule.windowEndsAt).toLocaleString()}`
+      : 'no restrictions';
+  }
+  const reason = schedule.reason === 'blackout' ? 'blackout date' : 'outside active hours';
+  return schedule.nextAllowedAt
+    ? `${reason}, next window ${new Date(schedule.nextAllowedAt).toLocaleString()}`
+    : `${reason}, no upcoming window`;
+}
+
+program
+  .command('schedule')
+  .description('Show whether the account is inside its active hours (policies from SCHEDULE_FILE)')
+  .action(() => {
     try {
-      const args = ['src/scripts/engage.ts', `--query=${options.query}`];
-      if (options.dryRun) args.push('--dry-run');
-      if (options.skipSearch) args.push('--skip-search');
-      
-      const { spawn } = await import('child_process');
-      const child = spawn('npx', ['tsx', ...args], {
-        cwd: process.cwd(),
-        stdio: 'inherit',
-      });
-      
-      child.on('exit', (code) => process.exit(code || 0));
+      const claw = new SocialCrabs({ browser: { headless: true } });
+      for (const { id: platform } of listPlatforms()) {
+        console.log(`${platform}: ${formatSchedule(claw.getSchedule(platform))}`);
+      }
     } catch (error) {
-      console.error('Error:', error);
+      console.error('Failed to check schedule:', String(error));
       process.exit(1);
     }
   });
@@ -1349,6 +1583,7 @@ notify
       success: false,
       target: 'https://x.com/private_account/status/999',
       error: 'Rate limit exceeded - try again in 15 minutes',
+      code: 'RATE_LIMITED',
       details: {
         postUrl: 'https://x.com/private_account/status/999',
       },
@@ -1380,6 +1615,10 @@ notify
       { name: 'LINKEDIN COMMENT', platform: 'linkedin' as Platform, action: 'comment' as ActionType, details: { postUrl: 'https://linkedin.com/feed/update/123', articleTitle: 'AI Future', commentText: 'Great article!', actions: ['❤️ Liked', '💬 Commented'] } },
       { name: 'INSTAGRAM FOLLOW', platform: 'instagram' as Platform, action: 'follow' as ActionType, details: { profileUrl: 'https://instagram.com/testuser', followers: 12500, actions: ['👥 Followed'] } },
       { name: 'INSTAGRAM COMMENT', platform: 'instagram' as Platform, action: 'comment' as ActionType, details: { postUrl: 'https://instagram.com/p/ABC123', commentText: 'This is fire! 🔥', actions: ['❤️ Liked', '💬 Commented'] } },
+      { name: 'REDDIT COMMENT', platform: 'reddit' as Platform, action: 'comment' as ActionType, details: { postUrl: 'https://www.reddit.com/r/typescript/comments/abc123/', subreddit: 'typescript', commentText: 'Did you try project references?', actions: ['⬆️ Upvoted', '💬 Commented'] } },
+      { name: 'REDDIT POST', platform: 'reddit' as Platform, action: 'post' as ActionType, details: { postUrl: 'https://www.reddit.com/r/node/comments/def456/', subreddit: 'node', title: 'Show r/node: a queue for headless sessions', actions: ['📝 Posted'] } },
+      { name: 'BLUESKY REPLY', platform: 'bluesky' as Platform, action: 'comment' as ActionType, details: { postUrl: 'https://bsky.app/profile/test.bsky.social/post/3kabc123', commentText: 'Nice write-up!', actions: ['❤️ Liked', '💬 Replied'] } },
+      { name: 'BLUESKY FOLLOW', platform: 'bluesky' as Platform, action: 'follow' as ActionType, details: { profileUrl: 'https://bsky.app/profile/test.bsky.social', username: 'test.bsky.social', actions: ['➕ Followed'] } },
     ];
     
     for (const test of tests) {
@@ -1399,5 +1638,28 @@ notify
     console.log('\n✅ All test notifications sent!');
   });
 
-// Parse arguments
-program.parse();
+/**
+ * Register the platforms of the packages listed in SOCIALCRABS_PLATFORMS (comma-separated
+ * module names or paths exporting a platform definition as default or `platform`),
+ * with their command groups
+ */
+async function loadPlatformPackages(): Promise<void> {
+  const modules = (process.env.SOCIALCRABS_PLATFORMS || '').split(',').map((name) => name.trim()).filter(Boolean);
+  for (const name of modules) {
+    const exported = await import(name.startsWith('.') ? path.resolve(name) : name);
+    const definition = (exported.default?.id ? exported.default : exported.platform) as PlatformDefinition | undefined;
+    if (!definition?.id) {
+      throw new Error(`${name} does not export a platform definition`);
+    }
+    registerPlatform(definition);
+    platformCommand(definition);
+  }
+}
+
+// Parse arguments once every platform is registered
+loadPlatformPackages()
+  .then(() => program.parseAsync())
+  .catch((error) => {
+    console.error('Error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
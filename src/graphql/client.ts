@@ -1,8 +1,10 @@
 import { randomBytes, randomUUID } from 'node:crypto';
-import { TWITTER_API_BASE, QUERY_IDS, SETTINGS_SCREEN_NAME_REGEX, SETTINGS_USER_ID_REGEX, SETTINGS_NAME_REGEX } from './constants.js';
-import { buildSearchFeatures, buildHomeTimelineFeatures } from './features.js';
-import { parseTweetsFromInstructions, extractCursorFromInstructions } from './utils.js';
-import type { Tweet, XClientOptions, SearchResult, UserResult } from './types.js';
+import { TWITTER_API_BASE, QUERY_IDS, FALLBACK_QUERY_IDS, SETTINGS_SCREEN_NAME_REGEX, SETTINGS_USER_ID_REGEX, SETTINGS_NAME_REGEX } from './constants.js';
+import { buildSearchFeatures, buildHomeTimelineFeatures, buildFollowingFeatures, buildUserFeatures, buildBookmarksFeatures, buildTweetCreateFeatures } from './features.js';
+import { parseTweetsFromInstructions, parseUsersFromInstructions, mapUserResult, extractCursorFromInstructions } from './utils.js';
+import type { Tweet, XUser, XClientOptions, SearchResult, UsersResult, PageOptions, UserResult, MutationResult, CreateTweetResult } from './types.js';
+
+const REST_API_BASE = 'https://x.com/i/api/1.1';
 
 const BEARER_TOKEN = 'Bearer AAAAAAAAAAAAAAAAAAAAANRILgAAAAAAnNwIzUejRCOuH5E6I8xnZz4puTs%3D1Zv7ttfk8LF81IUq16cHjhLTvJu4FA33AGWWjCpTnA';
 
@@ -73,6 +75,182 @@ export class XGraphQLClient {
     return [...new Set([this.getQueryId('HomeTimeline'), 'edseUwk9sP5Phz__9TIRnA'])];
   }
 
+  private getOperationQueryIds(operationName: string): string[] {
+    return [...new Set([this.getQueryId(operationName), FALLBACK_QUERY_IDS[operationName]])].filter(Boolean);
+  }
+
+  /**
+   * Run a GraphQL mutation, trying each known query ID until one is accepted.
+   * Only moves on to the next query ID when X provably rejected the request
+   * (404, 400/422 or a validation error); after a network error, a timeout or
+   * a 5xx the mutation may have gone through, so the result has outcomeUnknown.
+   */
+  private async mutate(
+    operationName: string,
+    variables: Record<string, unknown>,
+    features?: Record<string, boolean>
+  ): Promise<MutationResult & { data?: any }> {
+    const queryIds = this.getOperationQueryIds(operationName);
+    let lastError = '';
+
+    for (const queryId of queryIds) {
+      const url = `${TWITTER_API_BASE}/${queryId}/${operationName}`;
+
+      try {
+        const response = await this.fetchWithTimeout(url, {
+          method: 'POST',
+          headers: this.getHeaders(),
+          body: JSON.stringify({ variables, ...(features && { features }), queryId }),
+        });
+
+        if (response.status === 404) { lastError = `404 for queryId ${queryId}`; continue; }
+        if (!response.ok) {
+          const text = await response.text();
+          lastError = `HTTP ${response.status} (queryId ${queryId}): ${text.slice(0, 300)}`;
+          // On 400/422 might be queryId mismatch, try next
+          if (response.status === 400 || response.status === 422) continue;
+          return { success: false, error: lastError, ...(response.status >= 500 && { outcomeUnknown: true }) };
+        }
+
+        const data = await response.json() as any;
+        if (data.errors?.length > 0) {
+          lastError = data.errors.map((e: any) => e.message).join(', ');
+          // GRAPHQL_VALIDATION_FAILED = stale queryId, try next
+          if (data.errors.some((e: any) => e?.extensions?.code === 'GRAPHQL_VALIDATION_FAILED')) continue;
+          return { success: false, error: lastError, code: data.errors[0]?.code };
+        }
+
+        return { success: true, data: data.data };
+      } catch (error) {
+        // The request may have reached X before the connection failed: don't send it again
+        const message = error instanceof Error ? error.message : String(error);
+        return { success: false, error: `${message} (queryId ${queryId})`, outcomeUnknown: true };
+      }
+    }
+    return { success: false, error: lastError || 'All query IDs failed' };
+  }
+
+  /**
+   * Run a GraphQL read query (GET), trying each known query ID until one is accepted
+   */
+  private async query(
+    operationName: string,
+    variables: Record<string, unknown>,
+    features: Record<string, boolean>
+  ): Promise<{ success: boolean; data?: any; error?: string }> {
+    const queryIds = this.getOperationQueryIds(operationName);
+    const params = `variables=${encodeURIComponent(JSON.stringify(variables))}&features=${encodeURIComponent(JSON.stringify(features))}`;
+    let lastError = '';
+
+    for (const queryId of queryIds) {
+      const url = `${TWITTER_API_BASE}/${queryId}/${operationName}?${params}`;
+
+      try {
+        const response = await this.fetchWithTimeout(url, {
+          method: 'GET',
+          headers: this.getHeaders(),
+        });
+
+        if (response.status === 404) { lastError = `404 for queryId ${queryId}`; continue; }
+        if (!response.ok) {
+          const text = await response.text();
+          lastError = `HTTP ${response.status} (queryId ${queryId}): ${text.slice(0, 300)}`;
+          // On 400/422 might be queryId mismatch, try next
+          if (response.status === 400 || response.status === 422) continue;
+          return { success: false, error: lastError };
+        }
+
+        const data = await response.json() as any;
+        if (data.errors?.length > 0 && !data.data) {
+          lastError = data.errors.map((e: any) => e.message).join(', ');
+          // GRAPHQL_VALIDATION_FAILED = stale queryId, try next
+          if (data.errors.some((e: any) => e?.extensions?.code === 'GRAPHQL_VALIDATION_FAILED')) continue;
+          return { success: false, error: lastError };
+        }
+
+        return { success: true, data: data.data };
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+        continue;
+      }
+    }
+    return { success: false, error: lastError || 'All query IDs failed' };
+  }
+
+  /**
+   * Resolve a handle (or numeric ID, returned as-is) to a user ID
+   */
+  private async resolveUserId(user: string): Promise<{ userId?: string; error?: string }> {
+    if (/^\d+$/.test(user)) return { userId: user };
+    const result = await this.getUser(user);
+    return result.user ? { userId: result.user.id } : { error: result.error };
+  }
+
+  /**
+   * Fetch one page of a user's tweet or user timeline
+   */
+  private async userTimeline(
+    operationName: string,
+    user: string,
+    variables: Record<string, unknown>,
+    features: Record<string, boolean>
+  ): Promise<{ success: boolean; instructions?: any[]; error?: string }> {
+    const { userId, error } = await this.resolveUserId(user);
+    if (!userId) return { success: false, error: error ?? `User not found: ${user}` };
+
+    const result = await this.query(operationName, { userId, ...variables }, features);
+    if (!result.success) return { success: false, error: result.error };
+
+    const timeline = result.data?.user?.result?.timeline_v2 ?? result.data?.user?.result?.timeline;
+    return { success: true, instructions: timeline?.timeline?.instructions ?? [] };
+  }
+
+  private async tweetPage(operationName: string, user: string, variables: Record<string, unknown>): Promise<SearchResult> {
+    const page = await this.userTimeline(operationName, user, variables, buildSearchFeatures());
+    if (!page.success) return { success: false, tweets: [], error: page.error };
+    return {
+      success: true,
+      tweets: parseTweetsFromInstructions(page.instructions!, this.quoteDepth),
+      nextCursor: extractCursorFromInstructions(page.instructions!),
+    };
+  }
+
+  private async userPage(operationName: string, user: string, options: PageOptions): Promise<UsersResult> {
+    const variables = { count: options.count ?? 20, includePromotedContent: false, ...(options.cursor && { cursor: options.cursor }) };
+    const page = await this.userTimeline(operationName, user, variables, buildFollowingFeatures());
+    if (!page.success) return { success: false, users: [], error: page.error };
+    return {
+      success: true,
+      users: parseUsersFromInstructions(page.instructions!),
+      nextCursor: extractCursorFromInstructions(page.instructions!),
+    };
+  }
+
+  /**
+   * Follow/unfollow through the REST endpoint (used when the GraphQL mutation is unavailable)
+   */
+  private async friendshipRest(action: 'create' | 'destroy', user: string): Promise<MutationResult> {
+    const target = /^\d+$/.test(user)
+      ? `user_id=${user}`
+      : `screen_name=${encodeURIComponent(user.replace(/^@/, ''))}`;
+    const body = `include_profile_interstitial_type=1&skip_status=true&${target}`;
+
+    try {
+      const response = await this.fetchWithTimeout(`${REST_API_BASE}/friendships/${action}.json`, {
+        method: 'POST',
+        headers: { ...this.getHeaders(), 'content-type': 'application/x-www-form-urlencoded' },
+        body,
+      });
+      if (!response.ok) {
+        const text = await response.text();
+        return { success: false, error: `HTTP ${response.status}: ${text.slice(0, 200)}` };
+      }
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
   /**
    * Search for tweets matching a query
    */
@@ -292,6 +470,186 @@ export class XGraphQLClient {
     }
     return this.search(`@${user.user.username}`, count);
   }
+
+  /**
+   * Get a user's profile by handle
+   */
+  async getUser(handle: string): Promise<{ success: boolean; user?: XUser; error?: string }> {
+    const screenName = handle.replace(/^@/, '');
+    const result = await this.query(
+      'UserByScreenName',
+      { screen_name: screenName, withSafetyModeUserFields: true },
+      buildUserFeatures()
+    );
+    if (!result.success) return { success: false, error: result.error };
+
+    const user = mapUserResult(result.data?.user?.result);
+    return user ? { success: true, user } : { success: false, error: `User not found: @${screenName}` };
+  }
+
+  /**
+   * Get a page of a user's tweets (handle or numeric ID)
+   */
+  async getUserTweets(user: string, options: PageOptions = {}): Promise<SearchResult> {
+    return this.tweetPage('UserTweets', user, {
+      count: options.count ?? 20,
+      includePromotedContent: false,
+      withQuickPromoteEligibilityTweetFields: true,
+      withVoice: true,
+      withV2Timeline: true,
+      ...(options.cursor && { cursor: options.cursor }),
+    });
+  }
+
+  /**
+   * Get a page of a user's followers (handle or numeric ID)
+   */
+  async getFollowers(user: string, options: PageOptions = {}): Promise<UsersResult> {
+    return this.userPage('Followers', user, options);
+  }
+
+  /**
+   * Get a page of the accounts a user follows (handle or numeric ID)
+   */
+  async getFollowing(user: string, options: PageOptions = {}): Promise<UsersResult> {
+    return this.userPage('Following', user, options);
+  }
+
+  /**
+   * Get a page of the authenticated user's likes (X only shows likes to their owner)
+   */
+  async getLikes(options: PageOptions = {}): Promise<SearchResult> {
+    const me = await this.getCurrentUser();
+    if (!me.success || !me.user) {
+      return { success: false, tweets: [], error: me.error ?? 'Could not get current user' };
+    }
+    return this.tweetPage('Likes', me.user.id, {
+      count: options.count ?? 20,
+      includePromotedContent: false,
+      withClientEventToken: false,
+      withBirdwatchNotes: false,
+      withVoice: true,
+      withV2Timeline: true,
+      ...(options.cursor && { cursor: options.cursor }),
+    });
+  }
+
+  /**
+   * Get a page of the authenticated user's bookmarks
+   */
+  async getBookmarks(options: PageOptions = {}): Promise<SearchResult> {
+    const result = await this.query(
+      'Bookmarks',
+      { count: options.count ?? 20, includePromotedContent: false, ...(options.cursor && { cursor: options.cursor }) },
+      buildBookmarksFeatures()
+    );
+    if (!result.success) return { success: false, tweets: [], error: result.error };
+
+    const instructions = result.data?.bookmark_timeline_v2?.timeline?.instructions ?? [];
+    return {
+      success: true,
+      tweets: parseTweetsFromInstructions(instructions, this.quoteDepth),
+      nextCursor: extractCursorFromInstructions(instructions),
+    };
+  }
+
+  /**
+   * Post a tweet (or a reply when replyToId is given)
+   */
+  async createTweet(text: string, options: { replyToId?: string; mediaIds?: string[] } = {}): Promise<CreateTweetResult> {
+    const variables: Record<string, unknown> = {
+      tweet_text: text,
+      dark_request: false,
+      media: {
+        media_entities: (options.mediaIds || []).map((id) => ({ media_id: id, tagged_users: [] })),
+        possibly_sensitive: false,
+      },
+      semantic_annotation_ids: [],
+    };
+    if (options.replyToId) {
+      variables.reply = { in_reply_to_tweet_id: options.replyToId, exclude_reply_user_ids: [] };
+    }
+
+    const result = await this.mutate('CreateTweet', variables, buildTweetCreateFeatures());
+    if (!result.success) return { success: false, error: result.error, code: result.code, outcomeUnknown: result.outcomeUnknown };
+
+    const tweetId = result.data?.create_tweet?.tweet_results?.result?.rest_id;
+    return tweetId
+      ? { success: true, tweetId }
+      : { success: false, error: 'Tweet ID missing from response', outcomeUnknown: true };
+  }
+
+  /**
+   * Delete one of our tweets
+   */
+  async deleteTweet(tweetId: string): Promise<MutationResult> {
+    return this.mutate('DeleteTweet', { tweet_id: tweetId, dark_request: false });
+  }
+
+  /**
+   * Like a tweet
+   */
+  async like(tweetId: string): Promise<MutationResult> {
+    return this.mutate('FavoriteTweet', { tweet_id: tweetId });
+  }
+
+  /**
+   * Remove a like
+   */
+  async unlike(tweetId: string): Promise<MutationResult> {
+    return this.mutate('UnfavoriteTweet', { tweet_id: tweetId });
+  }
+
+  /**
+   * Retweet a tweet
+   */
+  async retweet(tweetId: string): Promise<MutationResult> {
+    return this.mutate('CreateRetweet', { tweet_id: tweetId, dark_request: false });
+  }
+
+  /**
+   * Undo a retweet
+   */
+  async unretweet(tweetId: string): Promise<MutationResult> {
+    return this.mutate('DeleteRetweet', { source_tweet_id: tweetId, dark_request: false });
+  }
+
+  /**
+   * Bookmark a tweet
+   */
+  async bookmark(tweetId: string): Promise<MutationResult> {
+    return this.mutate('CreateBookmark', { tweet_id: tweetId });
+  }
+
+  /**
+   * Remove a bookmark
+   */
+  async unbookmark(tweetId: string): Promise<MutationResult> {
+    return this.mutate('DeleteBookmark', { tweet_id: tweetId });
+  }
+
+  /**
+   * Follow a user by numeric ID or handle. The GraphQL mutation needs a user ID;
+   * handles (and a failed mutation) go through the REST endpoint.
+   */
+  async follow(user: string): Promise<MutationResult> {
+    if (/^\d+$/.test(user)) {
+      const result = await this.mutate('CreateFriendship', { user_id: user });
+      if (result.success) return result;
+    }
+    return this.friendshipRest('create', user);
+  }
+
+  /**
+   * Unfollow a user by numeric ID or handle
+   */
+  async unfollow(user: string): Promise<MutationResult> {
+    if (/^\d+$/.test(user)) {
+      const result = await this.mutate('DestroyFriendship', { user_id: user });
+      if (result.success) return result;
+    }
+    return this.friendshipRest('destroy', user);
+  }
 }
 
 /**
@@ -4,6 +4,7 @@ export const TWITTER_API_BASE = 'https://x.com/i/api/graphql';
 
 export const FALLBACK_QUERY_IDS: Record<string, string> = {
   CreateTweet: 'TAJw1rBsjAtdNgTdlo2oeg',
+  DeleteTweet: 'VaenaVgh5q5ih7kvyVjgtg',
   CreateRetweet: 'ojPdsZsimiJrUGLR1sjUtA',
   DeleteRetweet: 'iQtK4dl5hBmXewYZuEOKVw',
   CreateFriendship: '8h9JVdV8dlSyqyRDJEPCsA',
@@ -22,6 +23,7 @@ export const FALLBACK_QUERY_IDS: Record<string, string> = {
   HomeTimeline: 'edseUwk9sP5Phz__9TIRnA',
   HomeLatestTimeline: 'iOEZpOdfekFsxSlPQCQtPg',
   AboutAccountQuery: 'zs_jFPFT78rBpXv9Z3U2YQ',
+  UserByScreenName: 'xmU6X_CKVnQ5lSrCbAmJsg',
 };
 
 export const QUERY_IDS: Record<string, string> = {
@@ -67,3 +67,30 @@ export function buildFollowingFeatures(): Record<string, boolean> {
     articles_preview_enabled: true,
   };
 }
+
+export function buildUserFeatures(): Record<string, boolean> {
+  return {
+    ...BASE_FEATURES,
+    hidden_profile_subscriptions_enabled: true,
+    subscriptions_verification_info_is_identity_verified_enabled: true,
+    subscriptions_verification_info_verified_since_enabled: true,
+    highlights_tweets_tab_ui_enabled: true,
+    responsive_web_twitter_article_notes_tab_enabled: true,
+    subscriptions_feature_can_gift_premium: true,
+  };
+}
+
+export function buildBookmarksFeatures(): Record<string, boolean> {
+  return {
+    ...buildSearchFeatures(),
+    graphql_timeline_v2_bookmark_timeline: true,
+  };
+}
+
+export function buildTweetCreateFeatures(): Record<string, boolean> {
+  return {
+    ...BASE_FEATURES,
+    articles_preview_enabled: true,
+    rweb_video_timestamps_enabled: true,
+  };
+}
@@ -1,3 +1,3 @@
 export { XGraphQLClient, createClientFromEnv } from './client.js';
-export type { Tweet, XUser, SearchResult, UserResult, XClientOptions } from './types.js';
+export type { Tweet, XUser, SearchResult, UsersResult, PageOptions, UserResult, MutationResult, CreateTweetResult, XClientOptions } from './types.js';
 export { extractTweetId, normalizeHandle } from './constants.js';
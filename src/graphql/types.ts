@@ -46,12 +46,38 @@ export interface SearchResult {
   nextCursor?: string;
 }
 
+export interface UsersResult {
+  success: boolean;
+  users: XUser[];
+  error?: string;
+  nextCursor?: string;
+}
+
+export interface PageOptions {
+  count?: number;
+  // nextCursor from the previous page
+  cursor?: string;
+}
+
 export interface UserResult {
   success: boolean;
   user?: { id: string; username: string; name: string };
   error?: string;
 }
 
+export interface MutationResult {
+  success: boolean;
+  error?: string;
+  // X error code (e.g. 139 already liked, 327 already retweeted, 187 duplicate tweet)
+  code?: number;
+  // The request may have been carried out (network error, timeout, 5xx): repeating it could do it twice
+  outcomeUnknown?: boolean;
+}
+
+export interface CreateTweetResult extends MutationResult {
+  tweetId?: string;
+}
+
 export interface XClientOptions {
   authToken: string;
   ct0: string;
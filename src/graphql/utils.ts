@@ -1,4 +1,4 @@
-import type { Tweet, MediaItem } from './types.js';
+import type { Tweet, MediaItem, XUser } from './types.js';
 
 export function firstText(...values: unknown[]): string | undefined {
   for (const value of values) {
@@ -141,6 +141,39 @@ export function parseTweetsFromInstructions(instructions: any[], quoteDepth = 1)
   return tweets;
 }
 
+export function mapUserResult(result: any): XUser | undefined {
+  const legacy = result?.legacy;
+  const core = result?.core;
+  const username = core?.screen_name ?? legacy?.screen_name;
+  if (!result?.rest_id || !username) return undefined;
+
+  return {
+    id: result.rest_id,
+    username,
+    name: core?.name ?? legacy?.name ?? username,
+    description: firstText(legacy?.description, result.profile_bio?.description),
+    followersCount: legacy?.followers_count,
+    followingCount: legacy?.friends_count,
+    isBlueVerified: result.is_blue_verified,
+    profileImageUrl: result.avatar?.image_url ?? legacy?.profile_image_url_https,
+    createdAt: core?.created_at ?? legacy?.created_at,
+  };
+}
+
+export function parseUsersFromInstructions(instructions: any[]): XUser[] {
+  const users: XUser[] = [];
+  const seen = new Set<string>();
+  for (const instruction of instructions ?? []) {
+    for (const entry of instruction.entries ?? []) {
+      const mapped = mapUserResult(entry.content?.itemContent?.user_results?.result);
+      if (!mapped || seen.has(mapped.id)) continue;
+      seen.add(mapped.id);
+      users.push(mapped);
+    }
+  }
+  return users;
+}
+
 export function extractCursorFromInstructions(instructions: any[], cursorType = 'Bottom'): string | undefined {
   for (const instruction of instructions ?? []) {
     for (const entry of instruction.entries ?? []) {
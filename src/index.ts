@@ -1,15 +1,32 @@
 import { BrowserManager } from './browser/manager.js';
-import { RateLimiter, DEFAULT_RATE_LIMITS } from './utils/rate-limiter.js';
-import { InstagramHandler } from './platforms/instagram.js';
-import { TwitterHandler } from './platforms/twitter.js';
-import { LinkedInHandler } from './platforms/linkedin.js';
+import { PageLock, initPageLock } from './browser/page-lock.js';
+import { RateLimiter, mergeRateLimits } from './utils/rate-limiter.js';
+import { createRateLimitStore } from './utils/rate-limit-store.js';
+import { WarmupSchedule } from './utils/warmup.js';
+import { CooldownTracker } from './utils/cooldown.js';
+import { initSchedule, getSchedule, loadSchedulePolicies } from './utils/schedule.js';
+import './platforms/builtin.js';
+import { getPlatform, getAction, listPlatforms, parsePayload } from './platforms/registry.js';
+import type { InstagramHandler } from './platforms/instagram.js';
+import type { TwitterHandler } from './platforms/twitter.js';
+import type { LinkedInHandler } from './platforms/linkedin.js';
+import type { RedditHandler } from './platforms/reddit.js';
+import type { BlueskyHandler } from './platforms/bluesky.js';
+import type { BasePlatformHandler } from './platforms/base.js';
+import type { RateLimits, LimitKeys } from './utils/rate-limiter.js';
 import { createHttpServer } from './server/http.js';
 import { WebSocketManager } from './server/websocket.js';
 import { initLogger, log } from './utils/logger.js';
 import { configureDelays } from './utils/delays.js';
-import { loadConfig } from './utils/config.js';
+import { loadConfig, getEnvRateLimits } from './utils/config.js';
 import { Notifier, initNotifier } from './services/notifier.js';
-import type { SocialCrabsConfig, Platform, RateLimitStatus, ServerConfig, BrowserConfig, RateLimitConfig, DelayConfig, SessionConfig, LoggingConfig, NotificationConfig } from './types/index.js';
+import { JobQueue } from './services/job-queue.js';
+import { initLedger, getLedger } from './services/ledger.js';
+import { PauseControl, initPause } from './services/pause.js';
+import { CircuitBreaker, initCircuitBreaker } from './services/circuit-breaker.js';
+import type { LedgerEntry } from './services/ledger.js';
+import { resolveAccount, accountScope } from './utils/accounts.js';
+import type { SocialCrabsConfig, Platform, ActionType, ActionResult, RateLimitStatus, ServerConfig, BrowserConfig, RateLimitConfig, DelayConfig, SessionConfig, JobQueueConfig, WarmupConfig, WarmupPolicy, WarmupStatus, ScheduleConfig, ScheduleCheck, LedgerConfig, CircuitBreakerConfig, Interaction, PauseScope, PauseState, CircuitState, PageQueueStatus, TwitterConfig, BlueskyConfig, LoggingConfig, NotificationConfig } from './types/index.js';
 
 interface ResolvedConfig {
   server: ServerConfig;
@@ -17,36 +34,86 @@ interface ResolvedConfig {
   rateLimits: RateLimitConfig;
   delays: DelayConfig;
   session: SessionConfig;
+  jobs: JobQueueConfig;
+  warmup: WarmupConfig;
+  schedule: ScheduleConfig;
+  ledger: LedgerConfig;
+  circuitBreaker: CircuitBreakerConfig;
+  twitter: TwitterConfig;
+  bluesky: BlueskyConfig;
   logging: LoggingConfig;
   notifications: NotificationConfig;
 }
+
+export interface PlatformStatus {
+  // The saved session holds a login (not checked with the platform; see isLoggedIn)
+  loggedIn: boolean;
+  rateLimits: Record<string, RateLimitStatus>;
+  warmup: WarmupStatus | null;
+  schedule: ScheduleCheck;
+  // The pause holding this platform account, if any
+  paused: PauseState | null;
+  // Circuit breakers of the platform's actions that are open or have been failing
+  circuits: Record<string, CircuitState>;
+  // Call using the account's page and calls waiting for it
+  queue: PageQueueStatus;
+}
+
+export interface AccountHandlers {
+  instagram: InstagramHandler;
+  twitter: TwitterHandler;
+  linkedin: LinkedInHandler;
+  reddit: RedditHandler;
+  bluesky: BlueskyHandler;
+}
 import type { Server } from 'http';
 
 export class SocialCrabs {
   private config: ResolvedConfig;
   private browserManager: BrowserManager;
   private rateLimiter: RateLimiter;
+  private warmup: WarmupSchedule;
+  private pauses: PauseControl;
+  private circuits: CircuitBreaker;
+  private pageLock: PageLock;
   private httpServer: Server | null = null;
   private wsManager: WebSocketManager | null = null;
   private _notifier: Notifier;
+  private _jobs: JobQueue;
+  private account: string;
+  // Keyed by account scope ('<platform>' or '<platform>@<account>')
+  private handlers: Map<string, BasePlatformHandler> = new Map();
 
   public instagram: InstagramHandler;
   public twitter: TwitterHandler;
   public linkedin: LinkedInHandler;
+  public reddit: RedditHandler;
+  public bluesky: BlueskyHandler;
 
   constructor(config?: SocialCrabsConfig) {
     // Load and merge config
     const defaultConfig = loadConfig();
+    const { platforms, store, cooldown, ...builtinLimits } = config?.rateLimits || {};
     this.config = {
       server: { ...defaultConfig.server, ...config?.server },
       browser: { ...defaultConfig.browser, ...config?.browser },
-      rateLimits: { 
-        instagram: { ...defaultConfig.rateLimits.instagram, ...config?.rateLimits?.instagram },
-        twitter: { ...defaultConfig.rateLimits.twitter, ...config?.rateLimits?.twitter },
-        linkedin: { ...defaultConfig.rateLimits.linkedin, ...config?.rateLimits?.linkedin },
+      rateLimits: {
+        platforms: { ...defaultConfig.rateLimits.platforms, ...builtinLimits, ...platforms },
+        store: store ?? defaultConfig.rateLimits.store,
+        cooldown: { ...defaultConfig.rateLimits.cooldown, ...cooldown },
       },
       delays: { ...defaultConfig.delays, ...config?.delays },
       session: { ...defaultConfig.session, ...config?.session },
+      jobs: { ...defaultConfig.jobs, ...config?.jobs },
+      warmup: { ...defaultConfig.warmup, ...config?.warmup },
+      schedule: {
+        file: config?.schedule?.file ?? defaultConfig.schedule.file,
+        policies: { ...defaultConfig.schedule.policies, ...config?.schedule?.policies },
+      },
+      ledger: { ...defaultConfig.ledger, ...config?.ledger },
+      circuitBreaker: { ...defaultConfig.circuitBreaker, ...config?.circuitBreaker },
+      twitter: { ...defaultConfig.twitter, ...config?.twitter },
+      bluesky: { ...defaultConfig.bluesky, ...config?.bluesky },
       logging: { ...defaultConfig.logging, ...config?.logging },
       notifications: {
         ...defaultConfig.notifications,
@@ -70,28 +137,72 @@ export class SocialCrabs {
       typingMaxMs: this.config.delays.typingMaxMs,
     });
 
-    // Initialize browser manager
+    // Initialize active hours (checked before every action and job)
+    initSchedule({ ...loadSchedulePolicies(this.config.schedule.file), ...this.config.schedule.policies });
+
+    // Initialize the kill switch (checked before every action and job)
+    this.pauses = initPause(`${this.config.session.dir}/pause.json`);
+
+    // Initialize the interaction ledger (consulted before every targeted action)
+    initLedger(`${this.config.session.dir}/ledger.json`, this.config.ledger);
+
+    // Initialize circuit breakers (reject actions that keep failing)
+    this.circuits = initCircuitBreaker(`${this.config.session.dir}/circuits.json`, this.config.circuitBreaker);
+
+    // Initialize browser manager (calls take turns on each platform account's page)
+    this.pageLock = initPageLock(this.config.browser.queueTimeoutMs);
     this.browserManager = new BrowserManager(
       this.config.browser,
-      this.config.session.dir
+      this.config.session.dir,
+      this.config.session.encryptionKey
     );
 
-    // Initialize rate limiter
-    const rateLimits = {
-      instagram: { ...DEFAULT_RATE_LIMITS.instagram, ...this.config.rateLimits.instagram },
-      twitter: { ...DEFAULT_RATE_LIMITS.twitter, ...this.config.rateLimits.twitter },
-      linkedin: { ...DEFAULT_RATE_LIMITS.linkedin, ...this.config.rateLimits.linkedin },
-    };
-    this.rateLimiter = new RateLimiter(rateLimits, `${this.config.session.dir}/rate-limits.json`);
+    // Initialize rate limiter (with per-account warm-up ramps and soft-block cooldowns)
+    this.warmup = new WarmupSchedule(`${this.config.session.dir}/warmup.json`, this.config.warmup);
+    const rateLimits: RateLimits = {};
+    const limitKeys: LimitKeys = {};
+    for (const definition of listPlatforms()) {
+      // Registered defaults, then RATE_LIMIT_* variables, then the config
+      const keys = Object.keys(definition.rateLimits).filter((key) => key !== 'shared');
+      const fromEnv = getEnvRateLimits(definition.id, keys, definition.envLimits);
+      rateLimits[definition.id] = mergeRateLimits(
+        mergeRateLimits(definition.rateLimits, fromEnv),
+        this.config.rateLimits.platforms[definition.id]
+      );
+      limitKeys[definition.id] = Object.fromEntries(
+        definition.actions.flatMap((action) => (action.limitKey ? [[action.name, action.limitKey]] : []))
+      );
+    }
+    this.rateLimiter = new RateLimiter(
+      rateLimits,
+      createRateLimitStore(this.config.rateLimits.store, this.config.session.dir),
+      this.warmup,
+      new CooldownTracker(`${this.config.session.dir}/cooldowns.json`, this.config.rateLimits.cooldown),
+      limitKeys
+    );
 
-    // Initialize platform handlers
-    this.instagram = new InstagramHandler(this.browserManager, this.rateLimiter);
-    this.twitter = new TwitterHandler(this.browserManager, this.rateLimiter);
-    this.linkedin = new LinkedInHandler(this.browserManager, this.rateLimiter);
+    // Initialize platform handlers for the instance's account
+    this.account = resolveAccount(config?.account || process.env.SOCIALCRABS_ACCOUNT);
+    const handlers = this.forAccount(this.account);
+    this.instagram = handlers.instagram;
+    this.twitter = handlers.twitter;
+    this.linkedin = handlers.linkedin;
+    this.reddit = handlers.reddit;
+    this.bluesky = handlers.bluesky;
+
+    // Initialize job queue (the worker only runs inside `serve` or `jobs run`)
+    this._jobs = new JobQueue(
+      `${this.config.session.dir}/jobs.json`,
+      this.rateLimiter,
+      (job) => this.runAction(job.platform, job.action, job.payload, job.account),
+      this.config.jobs
+    );
 
     log.info('SocialCrabs initialized', {
+      account: this.account,
       headless: this.config.browser.headless,
       sessionDir: this.config.session.dir,
+      sessionEncryption: !!this.config.session.encryptionKey,
       notificationsEnabled: this.config.notifications.enabled,
     });
   }
@@ -103,6 +214,54 @@ export class SocialCrabs {
     return this._notifier;
   }
 
+  /**
+   * Get the job queue
+   */
+  get jobs(): JobQueue {
+    return this._jobs;
+  }
+
+  /**
+   * Get the handler of a registered platform for an account (created on first use).
+   * Each account has its own browser context, session file and rate-limit budget.
+   */
+  getHandler<H extends BasePlatformHandler = BasePlatformHandler>(platform: Platform, account?: string): H {
+    const definition = getPlatform(platform);
+    const id = account ? resolveAccount(account) : this.account;
+    const scope = accountScope(platform, id);
+    let handler = this.handlers.get(scope);
+    if (!handler) {
+      handler = definition.createHandler({
+        browserManager: this.browserManager,
+        rateLimiter: this.rateLimiter,
+        account: id,
+        config: this.config,
+      });
+      this.handlers.set(scope, handler);
+    }
+    return handler as H;
+  }
+
+  /**
+   * Get the built-in platform handlers for an account
+   */
+  forAccount(account?: string): AccountHandlers {
+    return {
+      instagram: this.getHandler<InstagramHandler>('instagram', account),
+      twitter: this.getHandler<TwitterHandler>('twitter', account),
+      linkedin: this.getHandler<LinkedInHandler>('linkedin', account),
+      reddit: this.getHandler<RedditHandler>('reddit', account),
+      bluesky: this.getHandler<BlueskyHandler>('bluesky', account),
+    };
+  }
+
+  /**
+   * Get the account the top-level handlers act as
+   */
+  getAccount(): string {
+    return this.account;
+  }
+
   /**
    * Initialize the browser
    */
@@ -128,40 +287,42 @@ export class SocialCrabs {
     this.wsManager = new WebSocketManager(this, apiKey);
     this.wsManager.start(wsPort, host);
 
+    // Process queued jobs and stream their lifecycle to WebSocket clients
+    this._jobs.onEvent((event, job) => this.wsManager?.broadcastEvent(event, job));
+    this._jobs.start();
+
     // Setup graceful shutdown
     this.setupShutdownHandlers();
   }
 
+  /**
+   * Run a platform action by name or alias (used by the job queue, WebSocket and CLI).
+   * Read actions such as view_profile resolve to their data instead of an ActionResult.
+   * The payload is validated against the action's schema first; a PayloadError lists what's wrong.
+   */
+  async runAction<T = ActionResult>(
+    platform: Platform,
+    action: ActionType | string,
+    payload: Record<string, unknown>,
+    account?: string
+  ): Promise<T> {
+    const definition = getAction(platform, action);
+    const data = parsePayload(definition, payload);
+    return definition.run(this.getHandler(platform, account), data) as Promise<T>;
+  }
+
   /**
    * Check if logged in to a platform
    */
-  async isLoggedIn(platform: Platform): Promise<boolean> {
-    switch (platform) {
-      case 'instagram':
-        return this.instagram.isLoggedIn();
-      case 'twitter':
-        return this.twitter.isLoggedIn();
-      case 'linkedin':
-        return this.linkedin.isLoggedIn();
-      default:
-        throw new Error(`Unknown platform: ${platform}`);
-    }
+  async isLoggedIn(platform: Platform, account?: string): Promise<boolean> {
+    return this.getHandler(platform, account).isLoggedIn();
   }
 
   /**
    * Login to a platform (interactive)
    */
-  async login(platform: Platform): Promise<boolean> {
-    switch (platform) {
-      case 'instagram':
-        return this.instagram.login();
-      case 'twitter':
-        return this.twitter.login();
-      case 'linkedin':
-        return this.linkedin.login();
-      default:
-        throw new Error(`Unknown platform: ${platform}`);
-    }
+  async login(platform: Platform, account?: string): Promise<boolean> {
+    return this.getHandler(platform, account).login();
   }
 
   /**
@@ -170,69 +331,133 @@ export class SocialCrabs {
   async loginWithCredentials(
     platform: Platform,
     username: string,
-    password: string
+    password: string,
+    account?: string
   ): Promise<boolean> {
-    switch (platform) {
-      case 'instagram':
-        return this.instagram.loginWithCredentials(username, password);
-      case 'twitter':
-        return this.twitter.loginWithCredentials(username, password);
-      case 'linkedin':
-        return this.linkedin.loginWithCredentials(username, password);
-      default:
-        throw new Error(`Unknown platform: ${platform}`);
-    }
+    return this.getHandler(platform, account).loginWithCredentials(username, password);
   }
 
   /**
    * Logout from a platform
    */
-  async logout(platform: Platform): Promise<void> {
-    switch (platform) {
-      case 'instagram':
-        await this.instagram.logout();
-        break;
-      case 'twitter':
-        await this.twitter.logout();
-        break;
-      case 'linkedin':
-        await this.linkedin.logout();
-        break;
-      default:
-        throw new Error(`Unknown platform: ${platform}`);
-    }
+  async logout(platform: Platform, account?: string): Promise<void> {
+    await this.getHandler(platform, account).logout();
+  }
+
+  /**
+   * Start (or restart) the warm-up ramp of a platform account. Limits start at
+   * startFraction (or the day-0 caps in `start`) and grow daily by `growth`.
+   */
+  startWarmup(platform: Platform, options: Partial<WarmupPolicy> = {}, account?: string): WarmupStatus {
+    getPlatform(platform);
+    const id = account ? resolveAccount(account) : this.account;
+    this.warmup.start(platform, id, options);
+    log.info(`Warm-up started for ${platform}`, { account: id, startDate: options.startDate });
+    return this.rateLimiter.getWarmup(platform, id)!;
+  }
+
+  /**
+   * Warm-up progress and today's limits of a platform account (null when not warming up)
+   */
+  getWarmup(platform: Platform, account?: string): WarmupStatus | null {
+    return this.rateLimiter.getWarmup(platform, account ? resolveAccount(account) : this.account);
   }
 
   /**
-   * Get system status
+   * End the warm-up of a platform account (full limits apply again)
    */
-  async getStatus(): Promise<{
+  stopWarmup(platform: Platform, account?: string): boolean {
+    return this.warmup.stop(platform, account ? resolveAccount(account) : this.account);
+  }
+
+  /**
+   * Pause automation: everything, one platform, one account (on every platform) or one
+   * platform account. Actions are refused and queued jobs held until resumed or `until`.
+   */
+  async pause(scope: PauseScope = {}, options: { reason?: string; until?: number } = {}): Promise<PauseState> {
+    if (scope.platform) getPlatform(scope.platform);
+    const state = await this.pauses.pause(scope, options);
+    this.wsManager?.broadcastEvent('automation:paused', state);
+    return state;
+  }
+
+  /**
+   * Lift the pause of exactly this scope (or every pause with `all`)
+   */
+  async resume(scope: PauseScope = {}, all = false): Promise<boolean> {
+    const resumed = all ? (await this.pauses.resumeAll()) > 0 : await this.pauses.resume(scope);
+    if (resumed) this.wsManager?.broadcastEvent('automation:resumed', all ? { all } : scope);
+    return resumed;
+  }
+
+  /**
+   * Active pauses
+   */
+  getPauses(): PauseState[] {
+    return this.pauses.list();
+  }
+
+  /**
+   * Everything an account has done to a target (post URL, username or profile URL), oldest first
+   */
+  getHistory(platform: Platform, target: string, account?: string): Interaction[] {
+    return getLedger()?.get(platform, account ? resolveAccount(account) : this.account, target) ?? [];
+  }
+
+  /**
+   * An account's most recent interactions across all targets, newest first
+   */
+  listHistory(platform: Platform, account?: string, limit?: number): LedgerEntry[] {
+    return getLedger()?.list(platform, account ? resolveAccount(account) : this.account, limit) ?? [];
+  }
+
+  /**
+   * Whether a platform account is inside its active hours, and when its next window opens
+   */
+  getSchedule(platform: Platform, account?: string): ScheduleCheck {
+    return getSchedule().check(platform, account ? resolveAccount(account) : this.account);
+  }
+
+  /**
+   * Get system status for an account (defaults to the instance's account)
+   */
+  async getStatus(account?: string): Promise<{
     browser: boolean;
-    platforms: Record<Platform, { loggedIn: boolean; rateLimits: Record<string, RateLimitStatus> }>;
+    account: string;
+    platforms: Record<string, PlatformStatus>;
     uptime: number;
   }> {
-    const platforms: Record<Platform, { loggedIn: boolean; rateLimits: Record<string, RateLimitStatus> }> = {
-      instagram: {
-        loggedIn: await this.isLoggedIn('instagram').catch(() => false),
-        rateLimits: this.rateLimiter.getStatus('instagram'),
-      },
-      twitter: {
-        loggedIn: await this.isLoggedIn('twitter').catch(() => false),
-        rateLimits: this.rateLimiter.getStatus('twitter'),
-      },
-      linkedin: {
-        loggedIn: await this.isLoggedIn('linkedin').catch(() => false),
-        rateLimits: this.rateLimiter.getStatus('linkedin'),
-      },
-    };
+    const id = account ? resolveAccount(account) : this.account;
+    const platforms: Record<string, PlatformStatus> = {};
+    for (const { id: platform } of listPlatforms()) {
+      platforms[platform] = {
+        queue: this.pageLock.status(accountScope(platform, id)),
+        loggedIn: this.browserManager.hasSavedLogin(platform, id),
+        rateLimits: this.rateLimiter.getStatus(platform, id),
+        warmup: this.rateLimiter.getWarmup(platform, id),
+        schedule: this.getSchedule(platform, id),
+        paused: this.pauses.check(platform, id),
+        circuits: this.circuits.list(platform),
+      };
+    }
 
     return {
       browser: this.browserManager.isRunning(),
+      account: id,
       platforms,
       uptime: process.uptime(),
     };
   }
 
+  /**
+   * Re-encrypt all stored sessions with a new key.
+   * Pass an empty string to decrypt sessions back to plaintext.
+   * Returns the number of session files rewritten.
+   */
+  rotateSessionKey(newKey: string): number {
+    return this.browserManager.getSessionStore().rotateKey(newKey);
+  }
+
   /**
    * Setup graceful shutdown handlers
    */
@@ -253,6 +478,9 @@ export class SocialCrabs {
   async shutdown(): Promise<void> {
     log.info('Shutting down SocialCrabs...');
 
+    // Stop picking up queued jobs
+    this._jobs.stop();
+
     // Stop WebSocket server
     if (this.wsManager) {
       this.wsManager.stop();
@@ -270,6 +498,8 @@ export class SocialCrabs {
     // Shutdown browser
     await this.browserManager.shutdown();
 
+    this.rateLimiter.close();
+
     log.info('SocialCrabs shutdown complete');
   }
 }
@@ -279,16 +509,43 @@ export * from './types/index.js';
 
 // Export utilities
 export { log } from './utils/logger.js';
-export { RateLimiter, DEFAULT_RATE_LIMITS } from './utils/rate-limiter.js';
+export { RateLimiter, mergeRateLimits } from './utils/rate-limiter.js';
+export type { RateLimits, LimitKeys } from './utils/rate-limiter.js';
+export { FileRateLimitStore, SqliteRateLimitStore, createRateLimitStore } from './utils/rate-limit-store.js';
+export type { RateLimitStore } from './utils/rate-limit-store.js';
+export { WarmupSchedule, warmupDay, warmupRatio, applyWarmup } from './utils/warmup.js';
+export { CooldownTracker } from './utils/cooldown.js';
+export { ActivitySchedule, initSchedule, getSchedule, loadSchedulePolicies, validateSchedulePolicy } from './utils/schedule.js';
+export { SessionStore } from './browser/session-store.js';
+export { PageLock, initPageLock, getPageLock } from './browser/page-lock.js';
+export type { PageHold } from './browser/page-lock.js';
+export { DEFAULT_ACCOUNT, isValidAccount, resolveAccount } from './utils/accounts.js';
 export { configureDelays, humanDelay, sleep } from './utils/delays.js';
+export { TWITTER_MEDIA_RULES, BLUESKY_MEDIA_RULES, validateMedia } from './utils/media.js';
+export { ActionError, errorCode } from './utils/errors.js';
 
 // Export services
 export { Notifier, initNotifier, getNotifier } from './services/notifier.js';
+export { JobQueue, parseRunAt } from './services/job-queue.js';
+export { InteractionLedger, initLedger, getLedger, normalizeTarget } from './services/ledger.js';
+export { PauseControl, initPause, getPause, describePauseScope } from './services/pause.js';
+export { CircuitBreaker, initCircuitBreaker, getCircuitBreaker } from './services/circuit-breaker.js';
+export type { LedgerEntry, LedgerViolation } from './services/ledger.js';
+
+// Export the platform registry (add platforms before creating SocialCrabs)
+export { DEFAULT_RATE_LIMITS } from './platforms/builtin.js';
+export { registerPlatform, getPlatform, isPlatform, listPlatforms, findAction, getAction, actionBuilder, parsePayload, payloadIssues, PayloadError } from './platforms/registry.js';
+export type { PlatformDefinition, PlatformAction, PlatformContext, ActionCli, CliArgs, CliOption, PayloadIssue } from './platforms/registry.js';
+export { BasePlatformHandler } from './platforms/base.js';
+export type { SoftBlockSignal } from './platforms/base.js';
 
 // Export platform handlers for direct use
 export { InstagramHandler } from './platforms/instagram.js';
 export { TwitterHandler } from './platforms/twitter.js';
+export type { TwitterHandlerOptions } from './platforms/twitter.js';
 export { LinkedInHandler } from './platforms/linkedin.js';
+export { RedditHandler } from './platforms/reddit.js';
+export { BlueskyHandler } from './platforms/bluesky.js';
 
 // Default export
 export default SocialCrabs;
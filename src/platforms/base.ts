@@ -1,3 +1,5 @@
+import fs from 'fs';
+import path from 'path';
 import type { Page } from 'playwright';
 import { log } from '../utils/logger.js';
 import {
@@ -10,68 +12,231 @@ import {
   sleep,
 } from '../utils/delays.js';
 import { getNotifier } from '../services/notifier.js';
+import { resolveAccount, accountScope } from '../utils/accounts.js';
+import { getSchedule } from '../utils/schedule.js';
+import { getLedger } from '../services/ledger.js';
+import { getPause, describePauseScope } from '../services/pause.js';
+import { getCircuitBreaker } from '../services/circuit-breaker.js';
+import { getPageLock } from '../browser/page-lock.js';
 import type { BrowserManager } from '../browser/manager.js';
-import type { RateLimiter } from '../utils/rate-limiter.js';
+import type { RateLimiter, Reservation } from '../utils/rate-limiter.js';
 import type {
   Platform,
   ActionType,
   ActionResult,
+  ActionErrorCode,
   LikePayload,
   CommentPayload,
   FollowPayload,
   DMPayload,
   RateLimitStatus,
   NotificationPayload,
+  CircuitState,
 } from '../types/index.js';
 
+// Failures that say the platform side is broken or pushing back, and count towards an action's
+// circuit. Others (session expired, missing target, bad input) are specific to an account or call.
+const CIRCUIT_FAILURES: ActionErrorCode[] = ['BLOCKED_BY_PLATFORM', 'RATE_LIMITED', 'SELECTOR_MISSING', 'TIMEOUT'];
+
+// Why an action can't run right now, and when it can
+export interface ActionBlock {
+  error: string;
+  code: ActionErrorCode;
+  nextAllowedAt?: number;
+  // Don't send an action:error notification (the block was already reported)
+  quiet?: boolean;
+}
+
+// A platform warning state: action blocks, invitation limits, rate limit toasts
+export interface SoftBlockSignal {
+  reason: string;
+  // Element the warning shows up in (dialog, toast, banner)
+  selector: string;
+  // Text that identifies it
+  pattern: RegExp;
+}
+
 export abstract class BasePlatformHandler {
   protected platform: Platform;
+  protected account: string;
   protected browserManager: BrowserManager;
   protected rateLimiter: RateLimiter;
   protected page: Page | null = null;
+  // Checked on the open page whenever an action fails
+  protected softBlockSignals: SoftBlockSignal[] = [];
+  // The platform's "page not found" states, checked the same way (TARGET_NOT_FOUND)
+  protected notFoundSignals: SoftBlockSignal[] = [];
+  // Where the platform sends signed-out visitors (SESSION_EXPIRED when a failed action ends up there)
+  protected loginUrlPattern?: RegExp;
+  // Rate limit slots taken by checkAndRecordAction, per limit key, until the action is recorded or fails
+  private reservations: Map<string, Reservation[]> = new Map();
 
   constructor(
     platform: Platform,
     browserManager: BrowserManager,
-    rateLimiter: RateLimiter
+    rateLimiter: RateLimiter,
+    account?: string
   ) {
     this.platform = platform;
+    this.account = resolveAccount(account);
     this.browserManager = browserManager;
     this.rateLimiter = rateLimiter;
   }
 
   /**
-   * Get the page for this platform
+   * Account this handler acts as
+   */
+  getAccount(): string {
+    return this.account;
+  }
+
+  /**
+   * Get the page for this platform account
    */
   protected async getPage(): Promise<Page> {
     if (!this.page || this.page.isClosed()) {
-      this.page = await this.browserManager.getPage(this.platform);
+      this.page = await this.browserManager.getPage(this.platform, this.account);
     }
     return this.page;
   }
 
+  /**
+   * Run a call with this platform account's page to itself, waiting its turn
+   * behind calls already using it (see PageLock). Throws if the wait times out.
+   */
+  protected async withPage<T>(label: string, fn: () => Promise<T>): Promise<T> {
+    const lock = getPageLock();
+    if (!lock) return fn();
+    return lock.run(accountScope(this.platform, this.account), label, fn);
+  }
+
+  /**
+   * Queue info for results of calls that had to wait for the page
+   */
+  protected queueInfo(): Pick<ActionResult, 'queue'> {
+    const hold = getPageLock()?.current(accountScope(this.platform, this.account));
+    return hold && hold.position > 0 ? { queue: { position: hold.position, waitedMs: hold.waitedMs } } : {};
+  }
+
   /**
    * Navigate to a URL
    */
   protected async navigate(url: string): Promise<Page> {
-    return this.browserManager.navigate(this.platform, url);
+    return this.browserManager.navigate(this.platform, url, this.account);
+  }
+
+  /**
+   * Save the session for this platform account
+   */
+  protected async saveSession(): Promise<void> {
+    await this.browserManager.saveSession(this.platform, this.account);
   }
 
   /**
-   * Check rate limit and record action if allowed
+   * Check pauses, the account's active hours, its history with the target, the rate limit
+   * and the action's circuit breaker before an action. An allowed action holds a reserved
+   * rate limit slot until recordAction, or until its result reports a failure. Actions made
+   * of several (a thread's tweets) reserve `count` slots at once, each recorded or released.
    */
   protected async checkAndRecordAction(
-    action: ActionType
-  ): Promise<{ allowed: boolean; status: RateLimitStatus }> {
-    const status = await this.rateLimiter.check(this.platform, action);
-    return { allowed: status.allowed, status };
+    action: ActionType,
+    target?: string,
+    count = 1
+  ): Promise<{ allowed: boolean; status: RateLimitStatus; blocked?: ActionBlock }> {
+    const { status, reservations } = await this.rateLimiter.reserve(this.platform, action, this.account, count);
+
+    const blocked = await this.findBlock(action, target, status, count);
+    if (blocked) {
+      await Promise.all(reservations.map((reservation) => this.rateLimiter.release(reservation)));
+      return { allowed: false, status, blocked };
+    }
+
+    for (const reservation of reservations) {
+      this.reservations.set(reservation.key, [...(this.reservations.get(reservation.key) || []), reservation]);
+    }
+    return { allowed: true, status };
+  }
+
+  /**
+   * Why an action can't run now, or null if it can
+   */
+  private async findBlock(
+    action: ActionType,
+    target: string | undefined,
+    status: RateLimitStatus,
+    count: number
+  ): Promise<ActionBlock | null> {
+    const pause = getPause()?.check(this.platform, this.account);
+    if (pause) {
+      const error = `Automation paused (${describePauseScope(pause)})${pause.reason ? `: ${pause.reason}` : ''}`;
+      log.info(`${error}, skipping ${action}`, { platform: this.platform, account: this.account });
+      return { error, code: 'PAUSED', nextAllowedAt: pause.until };
+    }
+
+    const schedule = getSchedule().check(this.platform, this.account);
+    if (!schedule.allowed) {
+      const next = schedule.nextAllowedAt ? new Date(schedule.nextAllowedAt).toISOString() : 'none scheduled';
+      const reason = schedule.reason === 'blackout' ? 'Blackout date' : 'Outside active hours';
+      log.info(`${reason} for ${this.platform}/${this.account}, skipping ${action}`, { nextAllowedAt: next });
+      return { error: `${reason} (next window: ${next})`, code: 'PAUSED', nextAllowedAt: schedule.nextAllowedAt };
+    }
+
+    const violation = target ? getLedger()?.check(this.platform, this.account, action, target) : null;
+    if (violation) {
+      const { rule, previous } = violation;
+      const when = new Date(previous.timestamp).toISOString();
+      const error = `Blocked by interaction history: ${previous.action} on ${when}, no ${action} ${rule.withinDays !== undefined ? `within ${rule.withinDays} days` : 'again'}`;
+      log.info(`${error} (${this.platform}/${this.account} -> ${target})`);
+      return { error, code: 'ALREADY_DONE', nextAllowedAt: violation.nextAllowedAt };
+    }
+
+    if (status.cooldown) {
+      const until = new Date(status.cooldown.until).toISOString();
+      const error = `Cooling off after soft block: ${status.cooldown.reason} (until ${until})`;
+      return { error, code: 'RATE_LIMITED', nextAllowedAt: status.resetAt };
+    }
+    if (!status.allowed) {
+      return { error: 'Rate limit exceeded', code: 'RATE_LIMITED', nextAllowedAt: status.resetAt };
+    }
+    if (status.remaining < count) {
+      const error = `Rate limit allows ${status.remaining} more ${action} action(s), ${count} needed`;
+      return { error, code: 'RATE_LIMITED', nextAllowedAt: status.resetAt };
+    }
+
+    // Last, since letting a half-open circuit's probe through claims it
+    const circuit = await getCircuitBreaker()?.acquire(this.platform, action);
+    if (circuit) {
+      const next = new Date(circuit.probeAt ?? Date.now()).toISOString();
+      const error = `Circuit open for ${this.platform} ${action} after ${circuit.failures} consecutive failures (next probe: ${next})`;
+      return { error, code: 'CIRCUIT_OPEN', nextAllowedAt: circuit.probeAt, quiet: true };
+    }
+    return null;
   }
 
   /**
    * Record an action after it completes
    */
   protected async recordAction(action: ActionType): Promise<void> {
-    await this.rateLimiter.record(this.platform, action);
+    await this.rateLimiter.record(this.platform, action, this.account, this.takeReservation(action));
+  }
+
+  /**
+   * Give back the slot (or `count` slots) reserved for an action that didn't happen
+   */
+  protected releaseReservation(action: ActionType, count = 1): void {
+    for (let i = 0; i < count; i++) {
+      const reservation = this.takeReservation(action);
+      if (!reservation) return;
+      // Released asynchronously (release logs its own errors)
+      void this.rateLimiter.release(reservation);
+    }
+  }
+
+  private takeReservation(action: ActionType): Reservation | undefined {
+    const key = this.rateLimiter.getKey(this.platform, action);
+    const reservation = this.reservations.get(key)?.shift();
+    if (this.reservations.get(key)?.length === 0) this.reservations.delete(key);
+    return reservation;
   }
 
   /**
@@ -87,12 +252,18 @@ export abstract class BasePlatformHandler {
     const result: ActionResult = {
       success: true,
       platform: this.platform,
+      account: this.account,
       action,
       target,
       timestamp: Date.now(),
       duration: Date.now() - startTime,
       rateLimit,
+      ...this.queueInfo(),
     };
+
+    // Recorded asynchronously (record and success log their own errors)
+    void getLedger()?.record(this.platform, this.account, action, target);
+    void getCircuitBreaker()?.success(this.platform, action);
     
     // Send notification asynchronously (don't await)
     this.sendNotification('action:complete', result, details);
@@ -100,6 +271,73 @@ export abstract class BasePlatformHandler {
     return result;
   }
 
+  /**
+   * Create the successful result of an action that needed nothing doing (already liked,
+   * already following, request pending), with code ALREADY_DONE
+   */
+  protected alreadyDoneResult(
+    action: ActionType,
+    target: string,
+    startTime: number,
+    rateLimit?: RateLimitStatus,
+    details?: Record<string, unknown>
+  ): ActionResult {
+    this.releaseReservation(action);
+    return { ...this.createResult(action, target, startTime, rateLimit, details), code: 'ALREADY_DONE' };
+  }
+
+  /**
+   * Create the result of an action blocked by a pause, its schedule, interaction history,
+   * rate limit or an open circuit
+   */
+  protected createBlockedResult(
+    action: ActionType,
+    target: string,
+    startTime: number,
+    rateLimit: RateLimitStatus,
+    blocked: ActionBlock = { error: 'Rate limit exceeded', code: 'RATE_LIMITED', nextAllowedAt: rateLimit.resetAt }
+  ): ActionResult {
+    this.releaseReservation(action);
+    const result: ActionResult = {
+      success: false,
+      platform: this.platform,
+      account: this.account,
+      action,
+      target,
+      error: blocked.error,
+      code: blocked.code,
+      timestamp: Date.now(),
+      duration: Date.now() - startTime,
+      rateLimit,
+      nextAllowedAt: blocked.nextAllowedAt,
+      ...this.queueInfo(),
+    };
+
+    if (!blocked.quiet) {
+      // Send notification asynchronously (don't await)
+      this.sendNotification('action:error', result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Create the result of a call rejected before anything was attempted (invalid input).
+   * No notification is sent and the action's circuit is left alone.
+   */
+  protected invalidResult(action: ActionType, target: string, error: string, startTime: number): ActionResult {
+    return {
+      success: false,
+      platform: this.platform,
+      account: this.account,
+      action,
+      target,
+      error,
+      timestamp: Date.now(),
+      duration: Date.now() - startTime,
+    };
+  }
+
   /**
    * Create a failed action result and send notification
    */
@@ -108,17 +346,22 @@ export abstract class BasePlatformHandler {
     target: string,
     error: string,
     startTime: number,
-    rateLimit?: RateLimitStatus
+    rateLimit?: RateLimitStatus,
+    code?: ActionErrorCode
   ): ActionResult {
+    this.releaseReservation(action);
     const result: ActionResult = {
       success: false,
       platform: this.platform,
+      account: this.account,
       action,
       target,
       error,
+      code,
       timestamp: Date.now(),
       duration: Date.now() - startTime,
       rateLimit,
+      ...this.queueInfo(),
     };
     
     // Send notification asynchronously (don't await)
@@ -127,12 +370,138 @@ export abstract class BasePlatformHandler {
     return result;
   }
 
+  /**
+   * Create a failed action result, unless the platform is showing a soft block:
+   * then the action cools off instead (see softBlockResult). A login or "not found"
+   * page on the open page overrides the given code. Soft blocks, rate limits, missing
+   * selectors and timeouts count towards the action's circuit breaker, and the
+   * failure that opens it is reported.
+   */
+  protected async failAction(
+    action: ActionType,
+    target: string,
+    error: string,
+    startTime: number,
+    rateLimit?: RateLimitStatus,
+    code?: ActionErrorCode
+  ): Promise<ActionResult> {
+    const reason = await this.detectSoftBlock();
+    if (reason) {
+      return this.softBlockResult(action, target, reason, startTime, rateLimit);
+    }
+
+    const pageCode = await this.detectFailureCode();
+    const result = this.createErrorResult(action, target, error, startTime, rateLimit, pageCode ?? code);
+    await this.countCircuitFailure(result);
+    return result;
+  }
+
+  /**
+   * Count a failure towards its action's circuit if its code points at the platform,
+   * and report the failure that opens the circuit
+   */
+  private async countCircuitFailure(result: ActionResult): Promise<void> {
+    if (!result.code || !CIRCUIT_FAILURES.includes(result.code)) return;
+
+    const error = result.error || 'Action failed';
+    let circuit: CircuitState | null | undefined;
+    try {
+      circuit = await getCircuitBreaker()?.failure(this.platform, result.action, error);
+    } catch (failure) {
+      log.error('Failed to count circuit failure', { platform: this.platform, action: result.action, error: String(failure) });
+      return;
+    }
+    if (circuit) {
+      const next = new Date(circuit.probeAt ?? Date.now()).toISOString();
+      this.sendNotification(
+        'action:error',
+        { ...result, error: `Circuit opened after ${circuit.failures} consecutive failures, ${result.action} rejected until ${next}: ${error}` },
+        { circuit: circuit.state, failures: circuit.failures, probeAt: next }
+      );
+    }
+  }
+
+  /**
+   * Look for a soft block warning on the open page (never opens a page itself)
+   */
+  protected async detectSoftBlock(): Promise<string | null> {
+    return this.findSignal(this.softBlockSignals);
+  }
+
+  /**
+   * Code explaining a failure from the open page: the platform's login page, or
+   * the target's "not found" page
+   */
+  protected async detectFailureCode(): Promise<ActionErrorCode | undefined> {
+    if (!this.page || this.page.isClosed()) return undefined;
+    if (this.loginUrlPattern?.test(this.page.url())) return 'SESSION_EXPIRED';
+    return (await this.findSignal(this.notFoundSignals)) ? 'TARGET_NOT_FOUND' : undefined;
+  }
+
+  /**
+   * Reason of the first signal showing on the open page
+   */
+  private async findSignal(signals: SoftBlockSignal[]): Promise<string | null> {
+    if (!this.page || this.page.isClosed()) return null;
+
+    for (const signal of signals) {
+      const visible = await this.page
+        .locator(signal.selector)
+        .filter({ hasText: signal.pattern })
+        .first()
+        .isVisible()
+        .catch(() => false);
+      if (visible) return signal.reason;
+    }
+    return null;
+  }
+
+  /**
+   * Put the action into a cooling-off period in the rate limiter, and report the
+   * soft block with a ratelimit:exceeded notification instead of action:error.
+   * Counts towards the action's circuit.
+   */
+  protected async softBlockResult(
+    action: ActionType,
+    target: string,
+    reason: string,
+    startTime: number,
+    rateLimit?: RateLimitStatus
+  ): Promise<ActionResult> {
+    this.releaseReservation(action);
+    const cooldown = await this.rateLimiter.cooldown(this.platform, action, this.account, reason);
+    const until = cooldown ? ` (cooling off until ${new Date(cooldown.until).toISOString()})` : '';
+
+    const result: ActionResult = {
+      success: false,
+      platform: this.platform,
+      account: this.account,
+      action,
+      target,
+      error: `Soft block detected: ${reason}${until}`,
+      code: 'BLOCKED_BY_PLATFORM',
+      timestamp: Date.now(),
+      duration: Date.now() - startTime,
+      rateLimit,
+      nextAllowedAt: cooldown?.until,
+      ...this.queueInfo(),
+    };
+
+    this.sendNotification('ratelimit:exceeded', result, {
+      reason,
+      ...(cooldown && { cooldownLevel: cooldown.level, cooldownUntil: new Date(cooldown.until).toISOString() }),
+    });
+    await this.countCircuitFailure(result);
+
+    return result;
+  }
+
   /**
    * Send notification for action result
    * Set SOCIALCRABS_SILENT=1 to suppress auto-notifications (for CLI --context mode)
    */
   protected async sendNotification(
-    event: 'action:complete' | 'action:error',
+    event: 'action:complete' | 'action:error' | 'ratelimit:exceeded',
     result: ActionResult,
     details?: Record<string, unknown>
   ): Promise<void> {
@@ -149,10 +518,12 @@ export abstract class BasePlatformHandler {
       const payload: NotificationPayload = {
         event,
         platform: result.platform,
+        account: result.account,
         action: result.action,
         success: result.success,
         target: result.target,
         error: result.error,
+        code: result.code,
         details,
         timestamp: result.timestamp,
       };
@@ -188,6 +559,19 @@ export abstract class BasePlatformHandler {
     return sanitized;
   }
 
+  /**
+   * Resolve media paths to absolute paths, throwing if any file is missing
+   */
+  protected resolveMedia(media: string[] = []): string[] {
+    return media.map((file) => {
+      const resolved = path.resolve(file);
+      if (!fs.existsSync(resolved) || !fs.statSync(resolved).isFile()) {
+        throw new Error(`Media file not found: ${file}`);
+      }
+      return resolved;
+    });
+  }
+
   /**
    * Type text character by character with human-like timing
    */
@@ -385,6 +769,7 @@ export abstract class BasePlatformHandler {
   // Abstract methods that must be implemented by each platform
   abstract isLoggedIn(): Promise<boolean>;
   abstract login(): Promise<boolean>;
+  abstract loginWithCredentials(username: string, password: string): Promise<boolean>;
   abstract logout(): Promise<void>;
   abstract like(payload: LikePayload): Promise<ActionResult>;
   abstract comment(payload: CommentPayload): Promise<ActionResult>;
@@ -0,0 +1,230 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { AddressInfo } from 'net';
+import { BlueskyHandler } from './bluesky.js';
+import { BrowserManager } from '../browser/manager.js';
+import { RateLimiter } from '../utils/rate-limiter.js';
+import type { BrowserConfig } from '../types/index.js';
+
+const DID = 'did:plc:alice';
+
+interface XrpcCall {
+  nsid: string;
+  authorization?: string;
+  body?: Record<string, unknown>;
+}
+
+/**
+ * Just enough of a PDS: app password login, token refresh, profiles and records.
+ * Tokens are numbered, and only the latest pair is accepted.
+ */
+class StubPds {
+  readonly calls: XrpcCall[] = [];
+  private issued = 0;
+  private access = '';
+  private refresh = '';
+  private server = http.createServer((req, res) => this.handle(req, res));
+  // Answer for the next call of a method, instead of the usual one
+  readonly next = new Map<string, { status: number; body: string }>();
+  url = '';
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  // Make the current access token expire, as it does after two hours
+  expireAccess(): void {
+    this.access = '';
+  }
+
+  // Revoke the refresh token too
+  revoke(): void {
+    this.access = '';
+    this.refresh = '';
+  }
+
+  private tokens() {
+    this.issued++;
+    this.access = `access-${this.issued}`;
+    this.refresh = `refresh-${this.issued}`;
+    return { did: DID, handle: 'alice.test', accessJwt: this.access, refreshJwt: this.refresh };
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      const nsid = (req.url ?? '').replace(/^\/xrpc\/([^?]*).*$/, '$1');
+      const call: XrpcCall = { nsid, authorization: req.headers.authorization, body: raw ? JSON.parse(raw) : undefined };
+      this.calls.push(call);
+
+      const reply = (status: number, body: unknown) => {
+        res.writeHead(status, { 'content-type': 'application/json' });
+        res.end(JSON.stringify(body));
+      };
+
+      const override = this.next.get(nsid);
+      if (override) {
+        this.next.delete(nsid);
+        res.writeHead(override.status);
+        res.end(override.body);
+        return;
+      }
+
+      switch (nsid) {
+        case 'com.atproto.server.createSession':
+          if (call.body?.password !== 'app-password') return reply(401, { error: 'AuthenticationRequired', message: 'Invalid identifier or password' });
+          return reply(200, this.tokens());
+        case 'com.atproto.server.refreshSession':
+          if (!this.refresh || call.authorization !== `Bearer ${this.refresh}`) return reply(400, { error: 'ExpiredToken', message: 'Token has expired' });
+          return reply(200, this.tokens());
+      }
+
+      if (!this.access || call.authorization !== `Bearer ${this.access}`) return reply(400, { error: 'ExpiredToken', message: 'Token has expired' });
+      switch (nsid) {
+        case 'app.bsky.actor.getProfile':
+          return reply(200, { did: 'did:plc:bob', handle: 'bob.test' });
+        case 'com.atproto.repo.createRecord':
+          return reply(200, { uri: `at://${DID}/${call.body?.collection}/3k2a`, cid: 'bafy' });
+        default:
+          return reply(501, { error: 'MethodNotImplemented' });
+      }
+    });
+  }
+}
+
+describe('BlueskyHandler', () => {
+  let dir: string;
+  let pds: StubPds;
+  let browserManager: BrowserManager;
+  let limiter: RateLimiter;
+  let bluesky: BlueskyHandler;
+  let env: typeof process.env;
+
+  beforeEach(async () => {
+    env = { ...process.env };
+    process.env.BLUESKY_USERNAME = '@alice.test';
+    process.env.BLUESKY_PASSWORD = 'app-password';
+
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'socialcrabs-bluesky-'));
+    pds = new StubPds();
+    await pds.start();
+    browserManager = new BrowserManager({ dataDir: path.join(dir, 'browser'), engine: 'chromium' } as BrowserConfig, path.join(dir, 'sessions'));
+    limiter = new RateLimiter({ bluesky: { follow: 10, post: 10 } }, path.join(dir, 'rate-limits.json'));
+    bluesky = new BlueskyHandler(browserManager, limiter, undefined, { service: pds.url });
+  });
+
+  afterEach(async () => {
+    process.env = env;
+    limiter.close();
+    await pds.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  // A handler of a new process, reading the stored session
+  const restart = () => new BlueskyHandler(browserManager, limiter, undefined, { service: pds.url });
+
+  it('logs in with the app password and stores only the tokens', async () => {
+    expect(await bluesky.login()).toBe(true);
+
+    const stored = browserManager.getSessionStore().read('bluesky');
+    expect(stored?.atproto).toEqual({ service: pds.url, did: DID, handle: 'alice.test', accessJwt: 'access-1', refreshJwt: 'refresh-1' });
+    expect(JSON.stringify(stored)).not.toContain('app-password');
+    expect(pds.calls[0].body).toEqual({ identifier: 'alice.test', password: 'app-password' });
+  });
+
+  it('reports a wrong app password', async () => {
+    process.env.BLUESKY_PASSWORD = 'wrong';
+
+    expect(await bluesky.login()).toBe(false);
+    expect(browserManager.getSessionStore().read('bluesky')).toBeNull();
+  });
+
+  it('follows over XRPC with the access token', async () => {
+    await bluesky.login();
+
+    const result = await bluesky.follow({ username: 'https://bsky.app/profile/Bob.test' });
+
+    expect(result).toMatchObject({ success: true, target: 'bob.test' });
+    const create = pds.calls.find((call) => call.nsid === 'com.atproto.repo.createRecord');
+    expect(create?.authorization).toBe('Bearer access-1');
+    expect(create?.body).toMatchObject({ repo: DID, collection: 'app.bsky.graph.follow', record: { subject: 'did:plc:bob' } });
+  });
+
+  it('refreshes an expired access token once and retries', async () => {
+    await bluesky.login();
+    pds.expireAccess();
+
+    const result = await restart().follow({ username: 'bob.test' });
+
+    expect(result.success).toBe(true);
+    expect(pds.calls.map((call) => call.nsid)).toEqual([
+      'com.atproto.server.createSession',
+      'app.bsky.actor.getProfile',
+      'com.atproto.server.refreshSession',
+      'app.bsky.actor.getProfile',
+      'com.atproto.repo.createRecord',
+    ]);
+    expect(browserManager.getSessionStore().read('bluesky')?.atproto?.accessJwt).toBe('access-2');
+  });
+
+  it('logs in again from the environment when the refresh token is no longer valid', async () => {
+    await bluesky.login();
+    pds.revoke();
+
+    const result = await restart().follow({ username: 'bob.test' });
+
+    expect(result.success).toBe(true);
+    expect(pds.calls.filter((call) => call.nsid === 'com.atproto.server.createSession')).toHaveLength(2);
+  });
+
+  it('fails with SESSION_EXPIRED when it cannot log in again', async () => {
+    await bluesky.login();
+    pds.revoke();
+    delete process.env.BLUESKY_PASSWORD;
+
+    const result = await restart().follow({ username: 'bob.test' });
+
+    expect(result).toMatchObject({ success: false, code: 'SESSION_EXPIRED' });
+    expect(result.error).toContain('BLUESKY_PASSWORD');
+  });
+
+  it('treats a 429 from the PDS as a soft block', async () => {
+    await bluesky.login();
+    pds.next.set('app.bsky.actor.getProfile', { status: 429, body: JSON.stringify({ error: 'RateLimitExceeded' }) });
+
+    const result = await bluesky.follow({ username: 'bob.test' });
+
+    expect(result).toMatchObject({ success: false, code: 'BLOCKED_BY_PLATFORM' });
+  });
+
+  it('keeps the start of a non-JSON error page as the message', async () => {
+    await bluesky.login();
+    pds.next.set('app.bsky.actor.getProfile', { status: 502, body: '<html>Bad Gateway</html>' });
+
+    const result = await bluesky.follow({ username: 'bob.test' });
+
+    expect(result.error).toBe('app.bsky.actor.getProfile failed (502): <html>Bad Gateway</html>');
+  });
+
+  it('refuses an invalid post before reserving or calling the PDS', async () => {
+    await bluesky.login();
+    const calls = pds.calls.length;
+
+    const long = await bluesky.post({ text: 'x'.repeat(301) });
+    const video = await bluesky.post({ text: 'hello', media: ['clip.mp4'] });
+
+    expect(long).toMatchObject({ success: false, error: 'Post exceeds 300 characters' });
+    expect(video.error).toContain('Video uploads are not supported');
+    expect(pds.calls).toHaveLength(calls);
+    expect(limiter.getRemaining('bluesky', 'post')).toBe(10);
+  });
+});
@@ -0,0 +1,1014 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { BasePlatformHandler } from './base.js';
+import { actionBuilder } from './registry.js';
+import { likePayload, commentPayload, followPayload, dmPayload, profilePayload, text, media } from './schemas.js';
+import { log } from '../utils/logger.js';
+import { ActionError, errorCode } from '../utils/errors.js';
+import { DEFAULT_ACCOUNT } from '../utils/accounts.js';
+import { validateMedia, getMediaKind, BLUESKY_MEDIA_RULES } from '../utils/media.js';
+import type { PlatformDefinition } from './registry.js';
+import type { BrowserManager } from '../browser/manager.js';
+import type { RateLimiter } from '../utils/rate-limiter.js';
+import type { MediaFile } from '../utils/media.js';
+import type {
+  ActionType,
+  ActionResult,
+  ActionErrorCode,
+  RateLimitStatus,
+  LikePayload,
+  ReplyPayload,
+  PostPayload,
+  FollowPayload,
+  DMPayload,
+  AtprotoSession,
+  BlueskyPostResult,
+  BlueskySearchPayload,
+  BlueskyProfile,
+  BlueskyPost,
+} from '../types/index.js';
+
+// Bluesky is driven over the AT Protocol's XRPC API: no browser, no page.
+// Every call goes to one PDS (or the bsky.social entryway), which proxies app.bsky.* reads to the AppView.
+const DEFAULT_SERVICE = 'https://bsky.social';
+const BSKY_APP = 'https://bsky.app';
+
+// Bluesky's DM service, reached through the PDS (needs an app password with DM access)
+const CHAT_PROXY = 'did:web:api.bsky.chat#bsky_chat';
+
+// Bluesky counts graphemes; code points are a safe upper bound
+const MAX_POST_LENGTH = 300;
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+const IMAGE_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+};
+
+const LINK_PATTERN = /https?:\/\/[^\s]+/g;
+const MENTION_PATTERN = /(^|\s)@([a-zA-Z0-9-]+(?:\.[a-zA-Z0-9-]+)+)/g;
+const TAG_PATTERN = /(^|\s)#([^\s#]+)/g;
+const TRAILING_PUNCTUATION = /[.,;:!?'")\]]+$/;
+
+// A failed XRPC call: `error` is the lexicon error name ('ExpiredToken', 'RecordNotFound', ...)
+class XrpcError extends ActionError {
+  constructor(
+    readonly nsid: string,
+    readonly status: number,
+    readonly error?: string,
+    message?: string
+  ) {
+    super(`${nsid} failed (${status}${error ? ` ${error}` : ''})${message ? `: ${message}` : ''}`, xrpcCode(status, error, message));
+  }
+}
+
+// The PDS reports unknown actors and posts as 400 InvalidRequest with a message
+function xrpcCode(status: number, error?: string, message?: string): ActionErrorCode | undefined {
+  if (status === 401 || error === 'ExpiredToken' || error === 'InvalidToken' || error === 'AuthMissing') return 'SESSION_EXPIRED';
+  if (status === 404 || /NotFound$/.test(error ?? '') || /not found|unable to resolve handle/i.test(message ?? '')) return 'TARGET_NOT_FOUND';
+  if (status === 429) return 'BLOCKED_BY_PLATFORM';
+  return undefined;
+}
+
+// Lexicon error name and message of a failed call's JSON body, when it has them
+function errorBody(data: unknown): XrpcErrorBody {
+  if (typeof data !== 'object' || data === null) return {};
+  const { error, message } = data as Record<string, unknown>;
+  return {
+    error: typeof error === 'string' ? error : undefined,
+    message: typeof message === 'string' ? message : undefined,
+  };
+}
+
+interface XrpcRequest {
+  method?: 'GET' | 'POST';
+  params?: Record<string, string | number | string[] | undefined>;
+  // JSON, or raw bytes for blob uploads
+  body?: unknown;
+  encoding?: string;
+  // Service the PDS forwards the call to
+  proxy?: string;
+}
+
+// XRPC responses (only the fields read here)
+interface XrpcErrorBody {
+  error?: string;
+  message?: string;
+}
+
+interface SessionResponse {
+  did: string;
+  handle: string;
+  accessJwt: string;
+  refreshJwt: string;
+}
+
+interface StrongRef {
+  uri: string;
+  cid: string;
+}
+
+interface PostRecord {
+  text?: string;
+  createdAt?: string;
+  reply?: { root: StrongRef; parent: StrongRef };
+}
+
+interface PostView extends StrongRef {
+  author: { did: string; handle: string };
+  record: PostRecord;
+  likeCount?: number;
+  repostCount?: number;
+  replyCount?: number;
+  viewer?: { like?: string };
+}
+
+interface ProfileView {
+  did: string;
+  handle: string;
+  displayName?: string;
+  description?: string;
+  avatar?: string;
+  followersCount?: number;
+  followsCount?: number;
+  postsCount?: number;
+  createdAt?: string;
+  viewer?: { following?: string; followedBy?: string };
+}
+
+interface Facet {
+  index: { byteStart: number; byteEnd: number };
+  features: Record<string, string>[];
+}
+
+export interface BlueskyHandlerOptions {
+  // PDS base URL (default: https://bsky.social)
+  service?: string;
+}
+
+export class BlueskyHandler extends BasePlatformHandler {
+  private readonly service: string;
+  private session: AtprotoSession | null = null;
+
+  constructor(
+    browserManager: BrowserManager,
+    rateLimiter: RateLimiter,
+    account?: string,
+    options: BlueskyHandlerOptions = {}
+  ) {
+    super('bluesky', browserManager, rateLimiter, account);
+    this.service = (options.service || DEFAULT_SERVICE).replace(/\/+$/, '');
+  }
+
+  /**
+   * Check if the stored session is still good (refreshing it if needed)
+   */
+  async isLoggedIn(): Promise<boolean> {
+    return this.withPage('isLoggedIn', async () => {
+      try {
+        if (!this.loadSession()) return false;
+        await this.xrpc('com.atproto.server.getSession');
+        return true;
+      } catch (error) {
+        log.error('Error checking Bluesky login status', { error: String(error) });
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Log in with the app password in BLUESKY_USERNAME and BLUESKY_PASSWORD
+   * (BLUESKY_<ACCOUNT>_USERNAME/_PASSWORD for other accounts). There is no browser login.
+   */
+  async login(): Promise<boolean> {
+    const credentials = this.envCredentials();
+    if (!credentials) {
+      const envPrefix = this.envPrefix();
+      log.error(`Bluesky login needs an app password: set ${envPrefix}_USERNAME and ${envPrefix}_PASSWORD`);
+      return false;
+    }
+    return this.loginWithCredentials(credentials.identifier, credentials.password);
+  }
+
+  /**
+   * Log in with a handle (or email) and an app password
+   */
+  async loginWithCredentials(username: string, password: string): Promise<boolean> {
+    return this.withPage('loginWithCredentials', async () => {
+      try {
+        log.info('Logging in to Bluesky', { identifier: username, service: this.service });
+        const session = await this.createSession(username.replace(/^@/, ''), password);
+        log.info('Successfully logged in to Bluesky', { handle: session.handle });
+        return true;
+      } catch (error) {
+        if (error instanceof XrpcError && error.error === 'AuthFactorTokenRequired') {
+          log.error('Bluesky asked for an email code: log in with an app password (Settings > Privacy and security > App passwords)');
+        } else {
+          log.error('Bluesky login failed', { error: String(error) });
+        }
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Revoke the session and remove it from the session store
+   */
+  async logout(): Promise<void> {
+    return this.withPage('logout', async () => {
+      try {
+        const session = this.loadSession();
+        if (session) {
+          await this.send('com.atproto.server.deleteSession', { method: 'POST' }, session.refreshJwt).catch((error) =>
+            log.warn('Could not revoke Bluesky session', { error: String(error) })
+          );
+        }
+        this.session = null;
+        this.browserManager.getSessionStore().remove(this.platform, this.account);
+        log.info('Logged out of Bluesky');
+      } catch (error) {
+        log.error('Error logging out of Bluesky', { error: String(error) });
+      }
+    });
+  }
+
+  /**
+   * Like a post (bsky.app URL or AT URI)
+   */
+  async like(payload: LikePayload): Promise<ActionResult> {
+    return this.withPage('like', async () => {
+      const startTime = Date.now();
+      const { allowed, status, blocked } = await this.checkAndRecordAction('like', payload.url);
+
+      if (!allowed) {
+        return this.createBlockedResult('like', payload.url, startTime, status, blocked);
+      }
+
+      try {
+        log.info('Liking Bluesky post', { url: payload.url });
+
+        const post = await this.getPost(payload.url);
+        if (post.viewer?.like) {
+          log.info('Post already liked');
+          return this.alreadyDoneResult('like', payload.url, startTime, status, {
+            postUrl: payload.url,
+            actions: ['❤️ Already Liked'],
+          });
+        }
+
+        await this.createRecord('app.bsky.feed.like', { subject: { uri: post.uri, cid: post.cid } });
+        await this.recordAction('like');
+        log.info('Successfully liked Bluesky post');
+        return this.createResult('like', payload.url, startTime, status, {
+          postUrl: payload.url,
+          actions: ['❤️ Liked'],
+        });
+      } catch (error) {
+        log.error('Error liking Bluesky post', { error: String(error) });
+        return await this.callFailed('like', payload.url, error, startTime, status);
+      }
+    });
+  }
+
+  /**
+   * Reply to a post, with up to 4 images
+   */
+  async comment(payload: ReplyPayload): Promise<BlueskyPostResult> {
+    return this.withPage('comment', async () => {
+      const startTime = Date.now();
+      const sanitizedText = this.sanitizeText(payload.text);
+      let files: MediaFile[];
+      try {
+        files = this.validatePost(sanitizedText, payload.media);
+      } catch (error) {
+        return this.invalidResult('comment', payload.url, error instanceof Error ? error.message : String(error), startTime);
+      }
+
+      const { allowed, status, blocked } = await this.checkAndRecordAction('comment', payload.url);
+
+      if (!allowed) {
+        return this.createBlockedResult('comment', payload.url, startTime, status, blocked);
+      }
+
+      try {
+        log.info('Replying to Bluesky post', { url: payload.url, media: payload.media?.length ?? 0 });
+
+        const parent = await this.getPost(payload.url);
+        const root = parent.record.reply?.root ?? { uri: parent.uri, cid: parent.cid };
+        const created = await this.publish(sanitizedText, files, {
+          root,
+          parent: { uri: parent.uri, cid: parent.cid },
+        });
+
+        await this.recordAction('comment');
+        log.info('Successfully replied to Bluesky post', { uri: created.uri });
+        return {
+          ...this.createResult('comment', payload.url, startTime, status, {
+            postUrl: payload.url,
+            commentText: sanitizedText,
+            actions: ['💬 Replied'],
+          }),
+          postUrl: this.postUrl(created.uri, this.requireSession().handle),
+          uri: created.uri,
+        };
+      } catch (error) {
+        log.error('Error replying to Bluesky post', { error: String(error) });
+        return await this.callFailed('comment', payload.url, error, startTime, status);
+      }
+    });
+  }
+
+  /**
+   * Publish a post, with up to 4 images
+   */
+  async post(payload: PostPayload): Promise<BlueskyPostResult> {
+    return this.withPage('post', async () => {
+      const startTime = Date.now();
+      const target = payload.text.substring(0, 50);
+      const sanitizedText = this.sanitizeText(payload.text);
+      let files: MediaFile[];
+      try {
+        files = this.validatePost(sanitizedText, payload.media);
+      } catch (error) {
+        return this.invalidResult('post', target, error instanceof Error ? error.message : String(error), startTime);
+      }
+
+      const { allowed, status, blocked } = await this.checkAndRecordAction('post');
+
+      if (!allowed) {
+        return this.createBlockedResult('post', target, startTime, status, blocked);
+      }
+
+      try {
+        log.info('Posting to Bluesky', { text: target, media: payload.media?.length ?? 0 });
+
+        const created = await this.publish(sanitizedText, files);
+        const postUrl = this.postUrl(created.uri, this.requireSession().handle);
+
+        await this.recordAction('post');
+        log.info('Successfully posted to Bluesky', { postUrl });
+        return {
+          ...this.createResult('post', target, startTime, status, {
+            postUrl,
+            commentText: sanitizedText,
+            actions: ['📝 Posted'],
+          }),
+          postUrl,
+          uri: created.uri,
+        };
+      } catch (error) {
+        log.error('Error posting to Bluesky', { error: String(error) });
+        return await this.callFailed('post', target, error, startTime, status);
+      }
+    });
+  }
+
+  /**
+   * Follow a user (handle, DID or profile URL)
+   */
+  async follow(payload: FollowPayload): Promise<ActionResult> {
+    return this.withPage('follow', async () => {
+      const startTime = Date.now();
+      const actor = this.actorName(payload.username);
+      const { allowed, status, blocked } = await this.checkAndRecordAction('follow', actor);
+
+      if (!allowed) {
+        return this.createBlockedResult('follow', actor, startTime, status, blocked);
+      }
+
+      try {
+        log.info('Following Bluesky user', { actor });
+
+        const profile = await this.xrpc<ProfileView>('app.bsky.actor.getProfile', { params: { actor } });
+        const details = { profileUrl: `${BSKY_APP}/profile/${profile.handle}`, username: profile.handle };
+        if (profile.viewer?.following) {
+          log.info('Already following user');
+          return this.alreadyDoneResult('follow', actor, startTime, status, { ...details, actions: ['✅ Already Following'] });
+        }
+
+        await this.createRecord('app.bsky.graph.follow', { subject: profile.did });
+        await this.recordAction('follow');
+        log.info('Successfully followed Bluesky user');
+        return this.createResult('follow', actor, startTime, status, { ...details, actions: ['➕ Followed'] });
+      } catch (error) {
+        log.error('Error following Bluesky user', { error: String(error) });
+        return await this.callFailed('follow', actor, error, startTime, status);
+      }
+    });
+  }
+
+  /**
+   * Unfollow a user (handle, DID or profile URL)
+   */
+  async unfollow(payload: FollowPayload): Promise<ActionResult> {
+    return this.withPage('unfollow', async () => {
+      const startTime = Date.now();
+      const actor = this.actorName(payload.username);
+      const { allowed, status, blocked } = await this.checkAndRecordAction('unfollow', actor);
+
+      if (!allowed) {
+        return this.createBlockedResult('unfollow', actor, startTime, status, blocked);
+      }
+
+      try {
+        log.info('Unfollowing Bluesky user', { actor });
+
+        const profile = await this.xrpc<ProfileView>('app.bsky.actor.getProfile', { params: { actor } });
+        const details = { profileUrl: `${BSKY_APP}/profile/${profile.handle}`, username: profile.handle };
+        const following = profile.viewer?.following;
+        if (!following) {
+          log.info('Not following user');
+          return this.alreadyDoneResult('unfollow', actor, startTime, status, { ...details, actions: ['✅ Not Following'] });
+        }
+
+        const { repo, collection, rkey } = this.parseAtUri(following);
+        await this.xrpc('com.atproto.repo.deleteRecord', { method: 'POST', body: { repo, collection, rkey } });
+        await this.recordAction('unfollow');
+        log.info('Successfully unfollowed Bluesky user');
+        return this.createResult('unfollow', actor, startTime, status, { ...details, actions: ['➖ Unfollowed'] });
+      } catch (error) {
+        log.error('Error unfollowing Bluesky user', { error: String(error) });
+        return await this.callFailed('unfollow', actor, error, startTime, status);
+      }
+    });
+  }
+
+  /**
+   * Send a direct message (the app password needs DM access)
+   */
+  async dm(payload: DMPayload): Promise<ActionResult> {
+    return this.withPage('dm', async () => {
+      const startTime = Date.now();
+      const actor = this.actorName(payload.username);
+      const { allowed, status, blocked } = await this.checkAndRecordAction('dm', actor);
+
+      if (!allowed) {
+        return this.createBlockedResult('dm', actor, startTime, status, blocked);
+      }
+
+      try {
+        log.info('Sending Bluesky message', { actor });
+
+        const did = actor.startsWith('did:') ? actor : await this.resolveHandle(actor);
+        const { convo } = await this.xrpc<{ convo: { id: string } }>('chat.bsky.convo.getConvoForMembers', {
+          params: { members: [did] },
+          proxy: CHAT_PROXY,
+        });
+        const sanitizedText = this.sanitizeText(payload.message);
+        await this.xrpc('chat.bsky.convo.sendMessage', {
+          method: 'POST',
+          body: { convoId: convo.id, message: { text: sanitizedText } },
+          proxy: CHAT_PROXY,
+        });
+
+        await this.recordAction('dm');
+        log.info('Successfully sent Bluesky message');
+        return this.createResult('dm', actor, startTime, status, {
+          profileUrl: `${BSKY_APP}/profile/${actor}`,
+          username: actor,
+          message: sanitizedText,
+          actions: ['✉️ Message Sent'],
+        });
+      } catch (error) {
+        log.error('Error sending Bluesky message', { error: String(error) });
+        return await this.callFailed('dm', actor, error, startTime, status);
+      }
+    });
+  }
+
+  /**
+   * Get a user's profile data
+   */
+  async getProfile(username: string): Promise<BlueskyProfile> {
+    return this.withPage('getProfile', async () => {
+      const actor = this.actorName(username);
+      try {
+        log.info('Getting Bluesky profile', { actor });
+
+        const profile = this.mapProfile(await this.xrpc<ProfileView>('app.bsky.actor.getProfile', { params: { actor } }));
+        log.info('Got Bluesky profile', { profile });
+        return profile;
+      } catch (error) {
+        log.error('Error getting Bluesky profile', { error: String(error) });
+        return { username: actor, did: actor.startsWith('did:') ? actor : '' };
+      }
+    });
+  }
+
+  /**
+   * Search posts, or users with type 'users'
+   */
+  async search(payload: BlueskySearchPayload): Promise<BlueskyPost[] | BlueskyProfile[]> {
+    return this.withPage('search', async () => {
+      try {
+        log.info('Searching Bluesky', { q: payload.q, type: payload.type, limit: payload.limit });
+
+        if (payload.type === 'users') {
+          const { actors } = await this.xrpc<{ actors: ProfileView[] }>('app.bsky.actor.searchActors', {
+            params: { q: payload.q, limit: payload.limit },
+          });
+          log.info('Got Bluesky users', { count: actors.length });
+          return actors.map((actor) => this.mapProfile(actor));
+        }
+
+        const { posts } = await this.xrpc<{ posts: PostView[] }>('app.bsky.feed.searchPosts', {
+          params: { q: payload.q, limit: payload.limit, sort: payload.sort },
+        });
+        log.info('Got Bluesky posts', { count: posts.length });
+        return posts.map((post): BlueskyPost => ({
+          uri: post.uri,
+          url: this.postUrl(post.uri, post.author.handle),
+          author: post.author.handle,
+          text: post.record.text ?? '',
+          likes: post.likeCount ?? 0,
+          reposts: post.repostCount ?? 0,
+          replies: post.replyCount ?? 0,
+          createdAt: post.record.createdAt ? Date.parse(post.record.createdAt) : undefined,
+        }));
+      } catch (error) {
+        log.error('Error searching Bluesky', { error: String(error) });
+        return [];
+      }
+    });
+  }
+
+  /**
+   * Fail an action: the PDS answering 429 is a soft block, anything else a failure
+   */
+  private async callFailed(
+    action: ActionType,
+    target: string,
+    error: unknown,
+    startTime: number,
+    rateLimit: RateLimitStatus
+  ): Promise<ActionResult> {
+    if (error instanceof XrpcError && error.status === 429) {
+      return this.softBlockResult(action, target, 'Rate limited by Bluesky', startTime, rateLimit);
+    }
+    return this.failAction(action, target, error instanceof Error ? error.message : String(error), startTime, rateLimit, errorCode(error));
+  }
+
+  /**
+   * Check a post's text and attachments before anything is reserved or uploaded
+   */
+  private validatePost(text: string, media: string[] = []): MediaFile[] {
+    if (Array.from(text).length > MAX_POST_LENGTH) {
+      throw new Error(`Post exceeds ${MAX_POST_LENGTH} characters`);
+    }
+    const video = media.find((file) => getMediaKind(file) === 'video');
+    if (video) {
+      throw new Error(`Video uploads are not supported on Bluesky: ${video}`);
+    }
+    return validateMedia(media, BLUESKY_MEDIA_RULES);
+  }
+
+  /**
+   * Create a post record (a reply when `reply` is set) with rich-text facets and
+   * images (checked with validatePost)
+   */
+  private async publish(text: string, files: MediaFile[], reply?: PostRecord['reply']): Promise<StrongRef> {
+    const images = [];
+    for (const file of files) {
+      const data = fs.readFileSync(file.path);
+      const { blob } = await this.xrpc<{ blob: unknown }>('com.atproto.repo.uploadBlob', {
+        method: 'POST',
+        body: data,
+        encoding: IMAGE_TYPES[path.extname(file.path).toLowerCase()],
+      });
+      images.push({ alt: '', image: blob });
+    }
+
+    const facets = await this.facets(text);
+    return this.createRecord('app.bsky.feed.post', {
+      text,
+      ...(facets.length > 0 && { facets }),
+      ...(reply && { reply }),
+      ...(images.length > 0 && { embed: { $type: 'app.bsky.embed.images', images } }),
+    });
+  }
+
+  /**
+   * Links, @mentions and #tags of a post, as facets over UTF-8 byte ranges
+   */
+  private async facets(text: string): Promise<Facet[]> {
+    const facets: Facet[] = [];
+    const range = (start: number, end: number) => ({
+      byteStart: Buffer.byteLength(text.slice(0, start)),
+      byteEnd: Buffer.byteLength(text.slice(0, end)),
+    });
+
+    for (const match of text.matchAll(LINK_PATTERN)) {
+      const uri = match[0].replace(TRAILING_PUNCTUATION, '');
+      const start = match.index ?? 0;
+      facets.push({ index: range(start, start + uri.length), features: [{ $type: 'app.bsky.richtext.facet#link', uri }] });
+    }
+
+    for (const match of text.matchAll(MENTION_PATTERN)) {
+      const handle = match[2].replace(TRAILING_PUNCTUATION, '');
+      const start = (match.index ?? 0) + match[1].length;
+      const did = await this.resolveHandle(handle).catch(() => null);
+      // Unknown handles stay plain text
+      if (!did) continue;
+      facets.push({ index: range(start, start + handle.length + 1), features: [{ $type: 'app.bsky.richtext.facet#mention', did }] });
+    }
+
+    for (const match of text.matchAll(TAG_PATTERN)) {
+      const tag = match[2].replace(TRAILING_PUNCTUATION, '');
+      if (!tag || /^\d+$/.test(tag)) continue;
+      const start = (match.index ?? 0) + match[1].length;
+      facets.push({ index: range(start, start + tag.length + 1), features: [{ $type: 'app.bsky.richtext.facet#tag', tag }] });
+    }
+
+    return facets;
+  }
+
+  /**
+   * Create a record in the account's repo
+   */
+  private async createRecord(collection: string, record: Record<string, unknown>): Promise<StrongRef> {
+    return this.xrpc<StrongRef>('com.atproto.repo.createRecord', {
+      method: 'POST',
+      body: {
+        repo: this.requireSession().did,
+        collection,
+        record: { $type: collection, ...record, createdAt: new Date().toISOString() },
+      },
+    });
+  }
+
+  /**
+   * Post view of a bsky.app post URL or AT URI
+   */
+  private async getPost(url: string): Promise<PostView> {
+    const { posts } = await this.xrpc<{ posts: PostView[] }>('app.bsky.feed.getPosts', {
+      params: { uris: [await this.postUri(url)] },
+    });
+    if (posts.length === 0) {
+      throw new ActionError(`Post not found: ${url}`, 'TARGET_NOT_FOUND');
+    }
+    return posts[0];
+  }
+
+  /**
+   * AT URI of a post from its bsky.app URL (or the AT URI itself)
+   */
+  private async postUri(url: string): Promise<string> {
+    const match =
+      /^at:\/\/([^/]+)\/app\.bsky\.feed\.post\/([^/?#]+)$/.exec(url) ??
+      /^(?:https?:\/\/)?(?:www\.)?bsky\.app\/profile\/([^/]+)\/post\/([^/?#]+)/i.exec(url);
+    if (!match) throw new Error(`Not a Bluesky post URL: ${url}`);
+
+    const [, actor, rkey] = match;
+    const did = actor.startsWith('did:') ? actor : await this.resolveHandle(actor);
+    return `at://${did}/app.bsky.feed.post/${rkey}`;
+  }
+
+  /**
+   * bsky.app URL of a post
+   */
+  private postUrl(uri: string, handle: string): string {
+    return `${BSKY_APP}/profile/${handle}/post/${this.parseAtUri(uri).rkey}`;
+  }
+
+  private parseAtUri(uri: string): { repo: string; collection: string; rkey: string } {
+    const match = /^at:\/\/([^/]+)\/([^/]+)\/([^/?#]+)$/.exec(uri);
+    if (!match) throw new Error(`Not an AT URI: ${uri}`);
+    return { repo: match[1], collection: match[2], rkey: match[3] };
+  }
+
+  private async resolveHandle(handle: string): Promise<string> {
+    const { did } = await this.xrpc<{ did: string }>('com.atproto.identity.resolveHandle', { params: { handle } });
+    return did;
+  }
+
+  /**
+   * Handle or DID from 'handle', '@handle' or a bsky.app profile URL
+   */
+  private actorName(username: string): string {
+    return username
+      .trim()
+      .replace(/^(?:https?:\/\/)?(?:www\.)?bsky\.app\/profile\//i, '')
+      .replace(/^@/, '')
+      .replace(/\/.*$/, '')
+      .toLowerCase();
+  }
+
+  private mapProfile(profile: ProfileView): BlueskyProfile {
+    return {
+      username: profile.handle,
+      did: profile.did,
+      displayName: profile.displayName || undefined,
+      bio: profile.description || undefined,
+      followers: profile.followersCount,
+      following: profile.followsCount,
+      posts: profile.postsCount,
+      profilePicUrl: profile.avatar,
+      createdAt: profile.createdAt ? Date.parse(profile.createdAt) : undefined,
+      isFollowing: profile.viewer ? !!profile.viewer.following : undefined,
+      followsYou: profile.viewer ? !!profile.viewer.followedBy : undefined,
+    };
+  }
+
+  // ==========================================================================
+  // Session and XRPC transport
+  // ==========================================================================
+
+  /**
+   * Call an XRPC method as the account, refreshing the access token once if it expired
+   */
+  private async xrpc<T = unknown>(nsid: string, request: XrpcRequest = {}): Promise<T> {
+    try {
+      return await this.send<T>(nsid, request, this.requireSession().accessJwt);
+    } catch (error) {
+      if (!(error instanceof XrpcError) || error.error !== 'ExpiredToken') throw error;
+      await this.refreshSession();
+      return this.send<T>(nsid, request, this.requireSession().accessJwt);
+    }
+  }
+
+  private async send<T>(nsid: string, request: XrpcRequest, token?: string): Promise<T> {
+    const { method = 'GET', params = {}, body, encoding, proxy } = request;
+    const query = Object.entries(params)
+      .flatMap(([key, value]) =>
+        value === undefined ? [] : (Array.isArray(value) ? value : [value]).map((item) => `${key}=${encodeURIComponent(item)}`)
+      )
+      .join('&');
+
+    const headers: Record<string, string> = {};
+    if (token) headers.authorization = `Bearer ${token}`;
+    if (proxy) headers['atproto-proxy'] = proxy;
+    if (body !== undefined) headers['content-type'] = encoding ?? 'application/json';
+
+    const response = await fetch(`${this.service}/xrpc/${nsid}${query ? `?${query}` : ''}`, {
+      method,
+      headers,
+      body: Buffer.isBuffer(body) ? body : body !== undefined ? JSON.stringify(body) : undefined,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    const raw = await response.text();
+    let data: unknown = undefined;
+    try {
+      data = raw ? JSON.parse(raw) : undefined;
+    } catch {
+      // Not JSON (proxies, HTML error pages)
+    }
+    if (!response.ok) {
+      const { error, message } = errorBody(data);
+      throw new XrpcError(nsid, response.status, error, message ?? (data ? undefined : raw.slice(0, 200)));
+    }
+    return data as T;
+  }
+
+  private async createSession(identifier: string, appPassword: string): Promise<AtprotoSession> {
+    const created = await this.send<SessionResponse>('com.atproto.server.createSession', {
+      method: 'POST',
+      body: { identifier, password: appPassword },
+    });
+    return this.storeSession(created);
+  }
+
+  /**
+   * Swap the refresh token for new tokens, or log in again with the app password
+   * from the environment once the refresh token has expired or been revoked.
+   * The app password is never stored.
+   */
+  private async refreshSession(): Promise<void> {
+    const session = this.requireSession();
+    try {
+      const refreshed = await this.send<SessionResponse>('com.atproto.server.refreshSession', { method: 'POST' }, session.refreshJwt);
+      this.storeSession(refreshed);
+    } catch (error) {
+      if (!(error instanceof XrpcError) || (error.status !== 400 && error.status !== 401)) throw error;
+      const credentials = this.envCredentials();
+      if (!credentials) {
+        this.session = null;
+        throw new ActionError(
+          `Bluesky session expired (set ${this.envPrefix()}_USERNAME and ${this.envPrefix()}_PASSWORD, then run: session login bluesky)`,
+          'SESSION_EXPIRED'
+        );
+      }
+      log.info('Bluesky refresh token no longer valid, logging in again', { handle: session.handle });
+      await this.createSession(credentials.identifier, credentials.password);
+    }
+  }
+
+  /**
+   * BLUESKY_ for the default account, BLUESKY_<ACCOUNT>_ for others
+   */
+  private envPrefix(): string {
+    return (this.account === DEFAULT_ACCOUNT ? 'bluesky' : `bluesky_${this.account}`).toUpperCase().replace(/-/g, '_');
+  }
+
+  private envCredentials(): { identifier: string; password: string } | null {
+    const identifier = process.env[`${this.envPrefix()}_USERNAME`];
+    const password = process.env[`${this.envPrefix()}_PASSWORD`];
+    return identifier && password ? { identifier: identifier.replace(/^@/, ''), password } : null;
+  }
+
+  /**
+   * Session of the account, from the session store on first use. Tokens are only
+   * good with the service that issued them. Sessions saved by older versions also
+   * held the app password; they are rewritten with the tokens only.
+   */
+  private loadSession(): AtprotoSession | null {
+    if (!this.session) {
+      const stored = this.browserManager.getSessionStore().read(this.platform, this.account)?.atproto;
+      if (stored?.service !== this.service) return null;
+      this.session = 'appPassword' in stored ? this.storeSession(stored) : stored;
+    }
+    return this.session;
+  }
+
+  private requireSession(): AtprotoSession {
+    const session = this.loadSession();
+    if (!session) {
+      throw new ActionError(
+        'Not logged in to Bluesky (set BLUESKY_USERNAME and BLUESKY_PASSWORD, then run: session login bluesky)',
+        'SESSION_EXPIRED'
+      );
+    }
+    return session;
+  }
+
+  /**
+   * Save the tokens like the browser platforms' cookies (encrypted when a key is set)
+   */
+  private storeSession({ did, handle, accessJwt, refreshJwt }: SessionResponse): AtprotoSession {
+    const session: AtprotoSession = { service: this.service, did, handle, accessJwt, refreshJwt };
+    this.browserManager.getSessionStore().write({
+      platform: this.platform,
+      account: this.account,
+      cookies: [],
+      atproto: session,
+      username: session.handle,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+    this.session = session;
+    return session;
+  }
+}
+
+// ============================================================================
+// Platform definition
+// ============================================================================
+
+const action = actionBuilder<BlueskyHandler>();
+
+const postText = text.refine((value) => Array.from(value).length <= MAX_POST_LENGTH, `Text exceeds ${MAX_POST_LENGTH} characters`);
+
+export const blueskyPlatform: PlatformDefinition<BlueskyHandler> = {
+  id: 'bluesky',
+  name: 'Bluesky',
+  command: 'bluesky',
+  aliases: ['bsky'],
+  origin: 'https://bsky.app',
+  // Well under the PDS's own budget (5,000 points an hour, 3 per record created)
+  rateLimits: {
+    like: { minute: 10, hour: 100, day: 300 },
+    comment: { minute: 2, hour: 20, day: 100 },
+    follow: { minute: 2, hour: 30, day: 100 },
+    dm: { minute: 1, hour: 10, day: 50 },
+    post: { hour: 10, day: 30 },
+    shared: [{ name: 'writes', actions: ['like', 'comment', 'follow', 'dm', 'post'], limits: { hour: 150 } }],
+  },
+  envLimits: { comment: 'RATE_LIMIT_BLUESKY_REPLY' },
+  browser: false,
+  createHandler: ({ browserManager, rateLimiter, account, config }) =>
+    new BlueskyHandler(browserManager, rateLimiter, account, { service: config.bluesky.service }),
+  actions: [
+    action({
+      name: 'like',
+      description: 'Like a post (bsky.app URL or AT URI)',
+      schema: likePayload,
+      queue: true,
+      cli: {
+        command: 'like <url>',
+        description: 'Like a Bluesky post',
+        done: ({ url }) => `Liked: ${url}`,
+        failed: 'like',
+        retry: true,
+        context: ({ url }) => ({ postUrl: url }),
+      },
+      run: (handler, payload) => handler.like(payload),
+    }),
+    action({
+      name: 'comment',
+      aliases: ['reply'],
+      description: 'Reply to a post (up to 4 images in `media`)',
+      schema: commentPayload.extend({ text: postText, media: media.optional() }),
+      queue: true,
+      cli: {
+        command: 'reply <url> <text>',
+        description: 'Reply to a Bluesky post',
+        options: [{ flags: '-m, --media <paths...>', description: 'Attach up to 4 images' }],
+        done: ({ url }) => `Replied to: ${url}`,
+        failed: 'reply',
+        context: ({ url, text }) => ({ postUrl: url, commentText: text, actions: ['💬 Replied'] }),
+      },
+      run: (handler, payload) => handler.comment(payload),
+    }),
+    action({
+      name: 'post',
+      description: 'Publish a post (up to 4 images in `media`); returns `postUrl`',
+      schema: z.object({ text: postText, media: media.optional() }),
+      queue: true,
+      cli: {
+        command: 'post <text>',
+        description: 'Publish a Bluesky post',
+        options: [{ flags: '-m, --media <paths...>', description: 'Attach up to 4 images' }],
+        done: (_payload, result) => `Posted: ${(result as BlueskyPostResult).postUrl}`,
+        failed: 'post',
+      },
+      run: (handler, payload) => handler.post(payload),
+    }),
+    action({
+      name: 'follow',
+      description: 'Follow a user (handle, DID or profile URL)',
+      schema: followPayload,
+      queue: true,
+      cli: {
+        command: 'follow <username>',
+        description: 'Follow a Bluesky user',
+        done: ({ username }) => `Followed: @${username}`,
+        failed: 'follow',
+        retry: true,
+        context: ({ username }) => ({ profileUrl: `${BSKY_APP}/profile/${username}` }),
+      },
+      run: (handler, payload) => handler.follow(payload),
+    }),
+    action({
+      name: 'unfollow',
+      description: 'Unfollow a user',
+      schema: followPayload,
+      cli: {
+        command: 'unfollow <username>',
+        description: 'Unfollow a Bluesky user',
+        done: ({ username }) => `Unfollowed: @${username}`,
+        failed: 'unfollow',
+      },
+      run: (handler, payload) => handler.unfollow(payload),
+    }),
+    action({
+      name: 'dm',
+      aliases: ['message'],
+      description: 'Send a direct message (app password needs DM access)',
+      schema: dmPayload,
+      queue: true,
+      cli: {
+        command: 'dm <username> <text>',
+        description: 'Send a Bluesky direct message',
+        payload: ({ username, text }) => ({ username, message: text }),
+        done: ({ username }) => `Sent message to: @${username}`,
+        failed: 'send message',
+      },
+      run: (handler, payload) => handler.dm(payload),
+    }),
+    action({
+      name: 'view_profile',
+      description: 'Get profile data',
+      schema: profilePayload,
+      read: true,
+      route: 'profile/:username',
+      cli: {
+        command: 'profile <username>',
+        description: 'Get Bluesky profile data',
+        failed: 'get profile',
+      },
+      run: (handler, { username }) => handler.getProfile(username),
+    }),
+    action({
+      name: 'search',
+      description: 'Search posts, or users with `type=users`',
+      schema: z.object({
+        q: z.string({ error: 'Query (q) required' }).min(1, 'Query (q) required'),
+        type: z.enum(['posts', 'users'], { error: 'Type must be posts or users' }).default('posts'),
+        sort: z.enum(['top', 'latest'], { error: 'Sort must be top or latest' }).default('latest'),
+        limit: z.coerce
+          .number({ error: 'Limit must be a number' })
+          .int('Limit must be a whole number')
+          .min(1, 'Limit must be 1-100')
+          .max(100, 'Limit must be 1-100')
+          .default(25),
+      }),
+      read: true,
+      cli: {
+        command: 'search <q>',
+        description: 'Search Bluesky posts or users',
+        options: [
+          { flags: '-t, --type <type>', description: 'posts or users', defaultValue: 'posts' },
+          { flags: '-s, --sort <sort>', description: 'top or latest (posts)', defaultValue: 'latest' },
+          { flags: '-n, --limit <number>', description: 'Max results (1-100)', defaultValue: '25' },
+        ],
+        failed: 'search',
+      },
+      run: (handler, payload) => handler.search(payload),
+    }),
+  ],
+};
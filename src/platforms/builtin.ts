@@ -0,0 +1,26 @@
+/**
+ * Platforms that ship with SocialCrabs, registered on import
+ */
+
+import { registerPlatform } from './registry.js';
+import { instagramPlatform } from './instagram.js';
+import { twitterPlatform } from './twitter.js';
+import { linkedinPlatform } from './linkedin.js';
+import { redditPlatform } from './reddit.js';
+import { blueskyPlatform } from './bluesky.js';
+import type { RateLimits } from '../utils/rate-limiter.js';
+
+registerPlatform(instagramPlatform);
+registerPlatform(twitterPlatform);
+registerPlatform(linkedinPlatform);
+registerPlatform(redditPlatform);
+registerPlatform(blueskyPlatform);
+
+// Default rate limits of the built-in platforms
+export const DEFAULT_RATE_LIMITS: RateLimits = {
+  instagram: instagramPlatform.rateLimits,
+  twitter: twitterPlatform.rateLimits,
+  linkedin: linkedinPlatform.rateLimits,
+  reddit: redditPlatform.rateLimits,
+  bluesky: blueskyPlatform.rateLimits,
+};
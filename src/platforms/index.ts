@@ -2,3 +2,8 @@ export { BasePlatformHandler } from './base.js';
 export { InstagramHandler } from './instagram.js';
 export { TwitterHandler } from './twitter.js';
 export { LinkedInHandler } from './linkedin.js';
+export { RedditHandler } from './reddit.js';
+export { BlueskyHandler } from './bluesky.js';
+export { DEFAULT_RATE_LIMITS } from './builtin.js';
+export { registerPlatform, getPlatform, isPlatform, listPlatforms, findAction, getAction, actionBuilder } from './registry.js';
+export type { PlatformDefinition, PlatformAction, PlatformContext, ActionCli, CliArgs, CliOption } from './registry.js';
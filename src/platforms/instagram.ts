@@ -1,5 +1,11 @@
+import { z } from 'zod';
 import { BasePlatformHandler } from './base.js';
+import { actionBuilder } from './registry.js';
+import { likePayload, commentPayload, followPayload, dmPayload, profilePayload } from './schemas.js';
 import { log } from '../utils/logger.js';
+import { errorCode } from '../utils/errors.js';
+import type { SoftBlockSignal } from './base.js';
+import type { PlatformDefinition } from './registry.js';
 import type { BrowserManager } from '../browser/manager.js';
 import type { RateLimiter } from '../utils/rate-limiter.js';
 import type {
@@ -8,10 +14,15 @@ import type {
   CommentPayload,
   FollowPayload,
   DMPayload,
+  PostPayload,
   InstagramProfile,
 } from '../types/index.js';
 
 // Instagram selectors (updated for current Instagram UI)
+// Feed post limits
+const MAX_POST_IMAGES = 10;
+const MAX_CAPTION_LENGTH = 2200;
+
 const SELECTORS = {
   // Cookie consent
   cookieAccept: 'button:has-text("Allow all cookies"), button:has-text("Accept All"), button:has-text("Allow essential and optional cookies"), button._a9--._ap36._a9_0',
@@ -35,6 +46,16 @@ const SELECTORS = {
   commentInput: 'textarea[placeholder*="Add a comment"], textarea[aria-label*="Add a comment"]',
   postButton: 'div[role="button"]:has-text("Post"), button:has-text("Post")',
   
+  // Create post
+  newPostButton: 'svg[aria-label="New post"]',
+  newPostMenuPost: 'a[role="link"]:has(svg[aria-label="Post"]), div[role="button"]:has(svg[aria-label="Post"])',
+  createFileInput: 'div[role="dialog"] input[type="file"]',
+  createNextButton: 'div[role="dialog"] div[role="button"]:text-is("Next")',
+  captionInput: 'div[role="dialog"] div[aria-label="Write a caption..."], div[role="dialog"] div[contenteditable="true"]',
+  shareButton: 'div[role="dialog"] div[role="button"]:text-is("Share")',
+  postShared: 'div[role="dialog"] :text("Your post has been shared"), img[alt="Animated checkmark"]',
+  closeDialog: 'svg[aria-label="Close"]',
+
   // Profile page
   followButton: 'button:has-text("Follow"):not(:has-text("Following"))',
   unfollowButton: 'button:has-text("Following")',
@@ -70,90 +91,109 @@ const SELECTORS = {
   postLink: 'a[href*="/p/"]',
 };
 
+// Warnings Instagram shows when it restricts activity
+const SOFT_BLOCK_SIGNALS: SoftBlockSignal[] = [
+  { reason: 'Try Again Later', selector: 'div[role="dialog"]', pattern: /try again later/i },
+  { reason: 'Action blocked', selector: 'div[role="dialog"]', pattern: /action blocked|we restrict certain activity/i },
+  { reason: 'Temporarily limited', selector: 'div[role="dialog"], div[role="alert"]', pattern: /please wait a few minutes|temporarily (blocked|limited)/i },
+];
+
+// Deleted posts, missing or private-and-blocked profiles
+const NOT_FOUND_SIGNALS: SoftBlockSignal[] = [
+  { reason: 'Page not available', selector: 'main h2, main span', pattern: /sorry, this page isn[’']t available/i },
+];
+
 export class InstagramHandler extends BasePlatformHandler {
   private readonly baseUrl = 'https://www.instagram.com';
+  protected softBlockSignals = SOFT_BLOCK_SIGNALS;
+  protected notFoundSignals = NOT_FOUND_SIGNALS;
+  protected loginUrlPattern = /\/accounts\/login/;
 
-  constructor(browserManager: BrowserManager, rateLimiter: RateLimiter) {
-    super('instagram', browserManager, rateLimiter);
+  constructor(browserManager: BrowserManager, rateLimiter: RateLimiter, account?: string) {
+    super('instagram', browserManager, rateLimiter, account);
   }
 
   /**
    * Check if logged in to Instagram
    */
   async isLoggedIn(): Promise<boolean> {
-    try {
-      await this.navigate(`${this.baseUrl}/`);
-      await this.delay();
+    return this.withPage('isLoggedIn', async () => {
+      try {
+        await this.navigate(`${this.baseUrl}/`);
+        await this.delay();
       
-      // Check for logged-in indicators
-      const hasNav = await this.elementExists(SELECTORS.loggedInNav);
-      const hasProfileIcon = await this.elementExists(SELECTORS.profileIcon);
+        // Check for logged-in indicators
+        const hasNav = await this.elementExists(SELECTORS.loggedInNav);
+        const hasProfileIcon = await this.elementExists(SELECTORS.profileIcon);
       
-      return hasNav && hasProfileIcon;
-    } catch (error) {
-      log.error('Error checking Instagram login status', { error: String(error) });
-      return false;
-    }
+        return hasNav && hasProfileIcon;
+      } catch (error) {
+        log.error('Error checking Instagram login status', { error: String(error) });
+        return false;
+      }
+    });
   }
 
   /**
    * Login to Instagram (interactive - requires manual input)
    */
   async login(): Promise<boolean> {
-    try {
-      log.info('Starting Instagram login...');
+    return this.withPage('login', async () => {
+      try {
+        log.info('Starting Instagram login...');
       
-      await this.navigate(`${this.baseUrl}/accounts/login/`);
-      await this.delay();
+        await this.navigate(`${this.baseUrl}/accounts/login/`);
+        await this.delay();
 
-      // Check if already logged in
-      if (await this.isLoggedIn()) {
-        log.info('Already logged in to Instagram');
-        return true;
-      }
+        // Check if already logged in
+        if (await this.isLoggedIn()) {
+          log.info('Already logged in to Instagram');
+          return true;
+        }
 
-      // Wait for login form
-      const hasLoginForm = await this.waitForElement(SELECTORS.loginUsername, 15000);
-      if (!hasLoginForm) {
-        log.error('Login form not found');
-        return false;
-      }
+        // Wait for login form
+        const hasLoginForm = await this.waitForElement(SELECTORS.loginUsername, 15000);
+        if (!hasLoginForm) {
+          log.error('Login form not found');
+          return false;
+        }
 
-      log.info('Instagram login form ready. Please enter credentials manually in the browser.');
-      log.info('Waiting for login to complete...');
+        log.info('Instagram login form ready. Please enter credentials manually in the browser.');
+        log.info('Waiting for login to complete...');
 
-      // Wait for successful login (up to 2 minutes for manual input)
-      const startTime = Date.now();
-      const timeout = 120000;
+        // Wait for successful login (up to 2 minutes for manual input)
+        const startTime = Date.now();
+        const timeout = 120000;
 
-      while (Date.now() - startTime < timeout) {
-        if (await this.isLoggedIn()) {
-          log.info('Instagram login successful');
-          await this.browserManager.saveSession('instagram');
+        while (Date.now() - startTime < timeout) {
+          if (await this.isLoggedIn()) {
+            log.info('Instagram login successful');
+            await this.saveSession();
           
-          // Handle "Save Login Info" popup
-          if (await this.elementExists(SELECTORS.saveLoginButton)) {
-            await this.clickHuman(SELECTORS.saveLoginButton);
-            await this.delay();
-          }
+            // Handle "Save Login Info" popup
+            if (await this.elementExists(SELECTORS.saveLoginButton)) {
+              await this.clickHuman(SELECTORS.saveLoginButton);
+              await this.delay();
+            }
           
-          // Handle "Turn on Notifications" popup
-          if (await this.elementExists(SELECTORS.notNowButton)) {
-            await this.clickHuman(SELECTORS.notNowButton);
-            await this.delay();
-          }
+            // Handle "Turn on Notifications" popup
+            if (await this.elementExists(SELECTORS.notNowButton)) {
+              await this.clickHuman(SELECTORS.notNowButton);
+              await this.delay();
+            }
           
-          return true;
+            return true;
+          }
+          await new Promise((resolve) => setTimeout(resolve, 2000));
         }
-        await new Promise((resolve) => setTimeout(resolve, 2000));
-      }
 
-      log.error('Instagram login timeout');
-      return false;
-    } catch (error) {
-      log.error('Instagram login failed', { error: String(error) });
-      return false;
-    }
+        log.error('Instagram login timeout');
+        return false;
+      } catch (error) {
+        log.error('Instagram login failed', { error: String(error) });
+        return false;
+      }
+    });
   }
 
   /**
@@ -201,563 +241,680 @@ export class InstagramHandler extends BasePlatformHandler {
    * Login with credentials (headless)
    */
   async loginWithCredentials(username: string, password: string): Promise<boolean> {
-    try {
-      log.info('Starting Instagram headless login...');
+    return this.withPage('loginWithCredentials', async () => {
+      try {
+        log.info('Starting Instagram headless login...');
       
-      await this.navigate(`${this.baseUrl}/accounts/login/`);
-      await this.delay();
+        await this.navigate(`${this.baseUrl}/accounts/login/`);
+        await this.delay();
 
-      // Handle cookie consent popup first
-      await this.handleCookieConsent();
+        // Handle cookie consent popup first
+        await this.handleCookieConsent();
       
-      // Wait for page to stabilize
-      await this.delay();
+        // Wait for page to stabilize
+        await this.delay();
 
-      // Take debug screenshot
-      const page = await this.getPage();
-      await page.screenshot({ path: './sessions/debug-login.png' });
-      log.info('Debug screenshot saved to ./sessions/debug-login.png');
+        // Take debug screenshot
+        const page = await this.getPage();
+        await page.screenshot({ path: './sessions/debug-login.png' });
+        log.info('Debug screenshot saved to ./sessions/debug-login.png');
 
-      // Check if already logged in
-      if (await this.isLoggedIn()) {
-        log.info('Already logged in to Instagram');
-        return true;
-      }
+        // Check if already logged in
+        if (await this.isLoggedIn()) {
+          log.info('Already logged in to Instagram');
+          return true;
+        }
 
-      // Check if we're on the "Continue as [username]" screen (has profile pic, no username field)
-      const hasUsernameField = await this.elementExists('input[name="username"], input[type="text"]');
-      const hasContinueButton = await this.elementExists('button:has-text("Continue"), div[role="button"]:has-text("Continue")');
+        // Check if we're on the "Continue as [username]" screen (has profile pic, no username field)
+        const hasUsernameField = await this.elementExists('input[name="username"], input[type="text"]');
+        const hasContinueButton = await this.elementExists('button:has-text("Continue"), div[role="button"]:has-text("Continue")');
       
-      if (hasContinueButton && !hasUsernameField) {
-        // This is the "Continue as saved account" screen
-        // Click "Use another profile" to get to standard login form (more reliable than Continue button)
-        log.info('Found "Continue as saved account" screen - clicking "Use another profile"');
+        if (hasContinueButton && !hasUsernameField) {
+          // This is the "Continue as saved account" screen
+          // Click "Use another profile" to get to standard login form (more reliable than Continue button)
+          log.info('Found "Continue as saved account" screen - clicking "Use another profile"');
         
-        try {
-          const useAnotherBtn = page.locator('button:has-text("Use another profile"), div[role="button"]:has-text("Use another profile")').first();
-          await useAnotherBtn.click({ force: true });
-          log.info('Clicked "Use another profile" button');
-          await this.delay();
-        } catch (error) {
-          log.warn('Failed to click "Use another profile"', { error: String(error) });
+          try {
+            const useAnotherBtn = page.locator('button:has-text("Use another profile"), div[role="button"]:has-text("Use another profile")').first();
+            await useAnotherBtn.click({ force: true });
+            log.info('Clicked "Use another profile" button');
+            await this.delay();
+          } catch (error) {
+            log.warn('Failed to click "Use another profile"', { error: String(error) });
+          }
         }
-      }
 
-      // Standard username/password login flow
-      // Try multiple selectors for the username field
-      const usernameSelectors = [
-        'input[name="username"]',
-        'input[aria-label*="username"]', 
-        'input[aria-label*="Phone"]',
-        'input[aria-label*="email"]',
-        'input[autocomplete="username"]',
-        'input[type="text"]',
-      ];
+        // Standard username/password login flow
+        // Try multiple selectors for the username field
+        const usernameSelectors = [
+          'input[name="username"]',
+          'input[aria-label*="username"]', 
+          'input[aria-label*="Phone"]',
+          'input[aria-label*="email"]',
+          'input[autocomplete="username"]',
+          'input[type="text"]',
+        ];
       
-      let usernameField = null;
-      for (const sel of usernameSelectors) {
-        if (await this.waitForElement(sel, 3000)) {
-          usernameField = sel;
-          log.info(`Found username field with selector: ${sel}`);
-          break;
+        let usernameField = null;
+        for (const sel of usernameSelectors) {
+          if (await this.waitForElement(sel, 3000)) {
+            usernameField = sel;
+            log.info(`Found username field with selector: ${sel}`);
+            break;
+          }
         }
-      }
       
-      if (!usernameField) {
-        log.error('Login form not found - check ./sessions/debug-login.png');
-        await page.screenshot({ path: './sessions/debug-login-fail.png' });
-        return false;
-      }
-
-      // Enter username
-      log.info('Typing username...');
-      await page.locator(usernameField).first().fill(username);
-      await this.pause();
-      log.info('Username entered');
+        if (!usernameField) {
+          log.error('Login form not found - check ./sessions/debug-login.png');
+          await page.screenshot({ path: './sessions/debug-login-fail.png' });
+          return false;
+        }
 
-      // Find and enter password
-      const passwordSelectors = ['input[name="password"]', 'input[type="password"]', 'input[aria-label*="Password"]'];
-      let passwordField = null;
-      for (const sel of passwordSelectors) {
-        if (await this.elementExists(sel)) {
-          passwordField = sel;
-          log.info(`Found password field with selector: ${sel}`);
-          break;
+        // Enter username
+        log.info('Typing username...');
+        await page.locator(usernameField).first().fill(username);
+        await this.pause();
+        log.info('Username entered');
+
+        // Find and enter password
+        const passwordSelectors = ['input[name="password"]', 'input[type="password"]', 'input[aria-label*="Password"]'];
+        let passwordField = null;
+        for (const sel of passwordSelectors) {
+          if (await this.elementExists(sel)) {
+            passwordField = sel;
+            log.info(`Found password field with selector: ${sel}`);
+            break;
+          }
         }
-      }
       
-      if (!passwordField) {
-        log.error('Password field not found');
-        await page.screenshot({ path: './sessions/debug-password-fail.png' });
-        return false;
-      }
+        if (!passwordField) {
+          log.error('Password field not found');
+          await page.screenshot({ path: './sessions/debug-password-fail.png' });
+          return false;
+        }
       
-      log.info('Typing password...');
-      await page.locator(passwordField).first().fill(password);
-      await this.pause();
-      log.info('Password entered');
+        log.info('Typing password...');
+        await page.locator(passwordField).first().fill(password);
+        await this.pause();
+        log.info('Password entered');
       
-      // Take screenshot before clicking login
-      await page.screenshot({ path: './sessions/debug-before-login.png' });
-      log.info('Screenshot saved before clicking login');
-
-      // Click login button
-      const loginSelectors = ['button[type="submit"]', 'button:has-text("Log in")', 'div[role="button"]:has-text("Log in")'];
-      for (const sel of loginSelectors) {
-        if (await this.elementExists(sel)) {
-          log.info(`Clicking login button: ${sel}`);
-          await this.clickHuman(sel);
-          break;
+        // Take screenshot before clicking login
+        await page.screenshot({ path: './sessions/debug-before-login.png' });
+        log.info('Screenshot saved before clicking login');
+
+        // Click login button
+        const loginSelectors = ['button[type="submit"]', 'button:has-text("Log in")', 'div[role="button"]:has-text("Log in")'];
+        for (const sel of loginSelectors) {
+          if (await this.elementExists(sel)) {
+            log.info(`Clicking login button: ${sel}`);
+            await this.clickHuman(sel);
+            break;
+          }
         }
-      }
-      await this.delay();
-      
-      // Take screenshot after clicking login
-      await page.screenshot({ path: './sessions/debug-after-login.png' });
-      log.info('Screenshot saved after clicking login');
-
-      // Wait for page to change (login processing)
-      await page.waitForTimeout(5000);
-      
-      // Capture current URL and page state for debugging
-      const currentUrl = page.url();
-      log.info('Current URL after login attempt', { url: currentUrl });
-      await page.screenshot({ path: './sessions/debug-post-login.png' });
-      log.info('Post-login screenshot saved');
-
-      // Check for security checkpoint or verification
-      const checkpointSelectors = [
-        'input[name="verificationCode"]',
-        'input[placeholder*="code"]',
-        'input[aria-label*="code"]',
-        'button:has-text("Send Security Code")',
-        'div:has-text("Enter the 6-digit code")',
-        'div:has-text("Suspicious Login Attempt")',
-        'div:has-text("verify")',
-      ];
+        await this.delay();
       
-      for (const sel of checkpointSelectors) {
-        if (await this.elementExists(sel)) {
-          log.warn('Security checkpoint detected - manual verification required', { selector: sel });
-          await page.screenshot({ path: './sessions/debug-checkpoint.png' });
-          log.info('Checkpoint screenshot saved to ./sessions/debug-checkpoint.png');
-          log.info('Please complete verification manually in browser, then retry with saved session');
-          return false;
+        // Take screenshot after clicking login
+        await page.screenshot({ path: './sessions/debug-after-login.png' });
+        log.info('Screenshot saved after clicking login');
+
+        // Wait for page to change (login processing)
+        await page.waitForTimeout(5000);
+      
+        // Capture current URL and page state for debugging
+        const currentUrl = page.url();
+        log.info('Current URL after login attempt', { url: currentUrl });
+        await page.screenshot({ path: './sessions/debug-post-login.png' });
+        log.info('Post-login screenshot saved');
+
+        // Check for security checkpoint or verification
+        const checkpointSelectors = [
+          'input[name="verificationCode"]',
+          'input[placeholder*="code"]',
+          'input[aria-label*="code"]',
+          'button:has-text("Send Security Code")',
+          'div:has-text("Enter the 6-digit code")',
+          'div:has-text("Suspicious Login Attempt")',
+          'div:has-text("verify")',
+        ];
+      
+        for (const sel of checkpointSelectors) {
+          if (await this.elementExists(sel)) {
+            log.warn('Security checkpoint detected - manual verification required', { selector: sel });
+            await page.screenshot({ path: './sessions/debug-checkpoint.png' });
+            log.info('Checkpoint screenshot saved to ./sessions/debug-checkpoint.png');
+            log.info('Please complete verification manually in browser, then retry with saved session');
+            return false;
+          }
         }
-      }
 
-      // Wait for login to complete (check for home page or error)
-      const startTime = Date.now();
-      const timeout = 30000;
+        // Wait for login to complete (check for home page or error)
+        const startTime = Date.now();
+        const timeout = 30000;
 
-      while (Date.now() - startTime < timeout) {
-        // Check for login error
-        if (await this.elementExists(SELECTORS.loginError)) {
-          log.error('Instagram login failed - invalid credentials');
-          await page.screenshot({ path: './sessions/debug-login-error.png' });
-          return false;
-        }
+        while (Date.now() - startTime < timeout) {
+          // Check for login error
+          if (await this.elementExists(SELECTORS.loginError)) {
+            log.error('Instagram login failed - invalid credentials');
+            await page.screenshot({ path: './sessions/debug-login-error.png' });
+            return false;
+          }
 
-        // Check for session cookie as primary indicator
-        const cookies = await page.context().cookies();
-        const hasSession = cookies.some(c => c.name === 'sessionid');
-        if (hasSession) {
-          log.info('Session cookie detected - login successful');
-          await this.browserManager.saveSession('instagram');
+          // Check for session cookie as primary indicator
+          const cookies = await page.context().cookies();
+          const hasSession = cookies.some(c => c.name === 'sessionid');
+          if (hasSession) {
+            log.info('Session cookie detected - login successful');
+            await this.saveSession();
           
-          // Handle popups
-          if (await this.elementExists(SELECTORS.saveLoginButton)) {
-            await this.clickHuman(SELECTORS.saveLoginButton);
-            await this.delay();
-          }
+            // Handle popups
+            if (await this.elementExists(SELECTORS.saveLoginButton)) {
+              await this.clickHuman(SELECTORS.saveLoginButton);
+              await this.delay();
+            }
           
-          if (await this.elementExists(SELECTORS.notNowButton)) {
-            await this.clickHuman(SELECTORS.notNowButton);
-            await this.delay();
-          }
+            if (await this.elementExists(SELECTORS.notNowButton)) {
+              await this.clickHuman(SELECTORS.notNowButton);
+              await this.delay();
+            }
           
-          return true;
-        }
+            return true;
+          }
 
-        // Also check DOM for logged-in state
-        if (await this.isLoggedIn()) {
-          log.info('Instagram login successful (DOM check)');
-          await this.browserManager.saveSession('instagram');
-          return true;
-        }
+          // Also check DOM for logged-in state
+          if (await this.isLoggedIn()) {
+            log.info('Instagram login successful (DOM check)');
+            await this.saveSession();
+            return true;
+          }
 
-        await new Promise((resolve) => setTimeout(resolve, 2000));
+          await new Promise((resolve) => setTimeout(resolve, 2000));
         
-        // Periodic debug screenshot
-        if (Date.now() - startTime > 15000) {
-          await page.screenshot({ path: './sessions/debug-waiting.png' });
-          log.info('Still waiting for login...', { elapsed: Math.round((Date.now() - startTime) / 1000) });
+          // Periodic debug screenshot
+          if (Date.now() - startTime > 15000) {
+            await page.screenshot({ path: './sessions/debug-waiting.png' });
+            log.info('Still waiting for login...', { elapsed: Math.round((Date.now() - startTime) / 1000) });
+          }
         }
-      }
 
-      // Final debug info
-      await page.screenshot({ path: './sessions/debug-timeout.png' });
-      log.error('Instagram login timeout - check ./sessions/debug-timeout.png');
-      log.info('Final URL', { url: page.url() });
-      return false;
-    } catch (error) {
-      log.error('Instagram login failed', { error: String(error) });
-      return false;
-    }
+        // Final debug info
+        await page.screenshot({ path: './sessions/debug-timeout.png' });
+        log.error('Instagram login timeout - check ./sessions/debug-timeout.png');
+        log.info('Final URL', { url: page.url() });
+        return false;
+      } catch (error) {
+        log.error('Instagram login failed', { error: String(error) });
+        return false;
+      }
+    });
   }
 
   /**
    * Logout from Instagram
    */
   async logout(): Promise<void> {
-    try {
-      await this.browserManager.closeContext('instagram');
-      log.info('Logged out of Instagram');
-    } catch (error) {
-      log.error('Error logging out of Instagram', { error: String(error) });
-    }
+    return this.withPage('logout', async () => {
+      try {
+        await this.browserManager.closeContext(this.platform, this.account);
+        log.info('Logged out of Instagram');
+      } catch (error) {
+        log.error('Error logging out of Instagram', { error: String(error) });
+      }
+    });
   }
 
   /**
    * Like an Instagram post
    */
   async like(payload: LikePayload): Promise<ActionResult> {
-    const startTime = Date.now();
-    const { allowed, status } = await this.checkAndRecordAction('like');
+    return this.withPage('like', async () => {
+      const startTime = Date.now();
+      const { allowed, status, blocked } = await this.checkAndRecordAction('like', payload.url);
 
-    if (!allowed) {
-      return this.createErrorResult('like', payload.url, 'Rate limit exceeded', startTime, status);
-    }
+      if (!allowed) {
+        return this.createBlockedResult('like', payload.url, startTime, status, blocked);
+      }
 
-    try {
-      log.info('Liking Instagram post', { url: payload.url });
+      try {
+        log.info('Liking Instagram post', { url: payload.url });
 
-      // Navigate to home first for warm-up browsing
-      await this.navigate(`${this.baseUrl}/`);
-      await this.warmUp({ scrollCount: 2 + Math.floor(Math.random() * 2) });
+        // Navigate to home first for warm-up browsing
+        await this.navigate(`${this.baseUrl}/`);
+        await this.warmUp({ scrollCount: 2 + Math.floor(Math.random() * 2) });
 
-      // Now navigate to post
-      await this.navigate(payload.url);
-      await this.think();
+        // Now navigate to post
+        await this.navigate(payload.url);
+        await this.think();
 
-      // Check if already liked
-      if (await this.elementExists(SELECTORS.unlikeButton)) {
-        log.info('Post already liked');
-        return this.createResult('like', payload.url, startTime, status, {
-          postUrl: payload.url,
-          actions: ['❤️ Already Liked'],
-        });
-      }
+        // Check if already liked
+        if (await this.elementExists(SELECTORS.unlikeButton)) {
+          log.info('Post already liked');
+          return this.alreadyDoneResult('like', payload.url, startTime, status, {
+            postUrl: payload.url,
+            actions: ['❤️ Already Liked'],
+          });
+        }
 
-      // Find and click like button
-      if (!(await this.elementExists(SELECTORS.likeButton))) {
-        return this.createErrorResult('like', payload.url, 'Like button not found', startTime, status);
-      }
+        // Find and click like button
+        if (!(await this.elementExists(SELECTORS.likeButton))) {
+          return await this.failAction('like', payload.url, 'Like button not found', startTime, status, 'SELECTOR_MISSING');
+        }
 
-      await this.clickHuman(SELECTORS.likeButton);
-      await this.pause();
+        await this.clickHuman(SELECTORS.likeButton);
+        await this.pause();
 
-      // Verify like was successful
-      if (await this.elementExists(SELECTORS.unlikeButton)) {
-        await this.recordAction('like');
-        log.info('Successfully liked Instagram post');
-        return this.createResult('like', payload.url, startTime, status, {
-          postUrl: payload.url,
-          actions: ['❤️ Liked'],
-        });
-      }
+        // Verify like was successful
+        if (await this.elementExists(SELECTORS.unlikeButton)) {
+          await this.recordAction('like');
+          log.info('Successfully liked Instagram post');
+          return this.createResult('like', payload.url, startTime, status, {
+            postUrl: payload.url,
+            actions: ['❤️ Liked'],
+          });
+        }
 
-      return this.createErrorResult('like', payload.url, 'Like action failed', startTime, status);
-    } catch (error) {
-      log.error('Error liking Instagram post', { error: String(error) });
-      return this.createErrorResult('like', payload.url, String(error), startTime, status);
-    }
+        return await this.failAction('like', payload.url, 'Like action failed', startTime, status, 'SELECTOR_MISSING');
+      } catch (error) {
+        log.error('Error liking Instagram post', { error: String(error) });
+        return await this.failAction('like', payload.url, String(error), startTime, status, errorCode(error));
+      }
+    });
   }
 
   /**
    * Comment on an Instagram post
    */
   async comment(payload: CommentPayload): Promise<ActionResult> {
-    const startTime = Date.now();
-    const { allowed, status } = await this.checkAndRecordAction('comment');
+    return this.withPage('comment', async () => {
+      const startTime = Date.now();
+      const { allowed, status, blocked } = await this.checkAndRecordAction('comment', payload.url);
 
-    if (!allowed) {
-      return this.createErrorResult('comment', payload.url, 'Rate limit exceeded', startTime, status);
-    }
+      if (!allowed) {
+        return this.createBlockedResult('comment', payload.url, startTime, status, blocked);
+      }
 
-    try {
-      log.info('Commenting on Instagram post', { url: payload.url });
+      try {
+        log.info('Commenting on Instagram post', { url: payload.url });
 
-      // Navigate to home first for warm-up browsing
-      await this.navigate(`${this.baseUrl}/`);
-      await this.warmUp({ scrollCount: 2 + Math.floor(Math.random() * 2) });
+        // Navigate to home first for warm-up browsing
+        await this.navigate(`${this.baseUrl}/`);
+        await this.warmUp({ scrollCount: 2 + Math.floor(Math.random() * 2) });
 
-      // Now navigate to post
-      await this.navigate(payload.url);
-      await this.think();
+        // Now navigate to post
+        await this.navigate(payload.url);
+        await this.think();
 
-      // Find comment input
-      if (!(await this.waitForElement(SELECTORS.commentInput, 10000))) {
-        return this.createErrorResult('comment', payload.url, 'Comment input not found', startTime, status);
-      }
+        // Find comment input
+        if (!(await this.waitForElement(SELECTORS.commentInput, 10000))) {
+          return await this.failAction('comment', payload.url, 'Comment input not found', startTime, status, 'SELECTOR_MISSING');
+        }
 
-      // Click on comment input to focus
-      await this.clickHuman(SELECTORS.commentInput);
-      await this.pause();
+        // Click on comment input to focus
+        await this.clickHuman(SELECTORS.commentInput);
+        await this.pause();
 
-      // Sanitize and type comment
-      const sanitizedText = this.sanitizeText(payload.text);
-      await this.typeHuman(SELECTORS.commentInput, sanitizedText);
-      await this.pause();
+        // Sanitize and type comment
+        const sanitizedText = this.sanitizeText(payload.text);
+        await this.typeHuman(SELECTORS.commentInput, sanitizedText);
+        await this.pause();
 
-      // Submit comment
-      const page = await this.getPage();
-      const postButton = page.locator(SELECTORS.postButton).first();
+        // Submit comment
+        const page = await this.getPage();
+        const postButton = page.locator(SELECTORS.postButton).first();
       
-      if (await postButton.isVisible()) {
-        await postButton.click();
-      } else {
-        // Try pressing Enter as fallback
-        await page.keyboard.press('Enter');
-      }
+        if (await postButton.isVisible()) {
+          await postButton.click();
+        } else {
+          // Try pressing Enter as fallback
+          await page.keyboard.press('Enter');
+        }
 
-      await this.delay();
-      await this.recordAction('comment');
+        await this.delay();
+        await this.recordAction('comment');
       
-      log.info('Successfully commented on Instagram post');
-      return this.createResult('comment', payload.url, startTime, status, {
-        postUrl: payload.url,
-        commentText: sanitizedText,
-        actions: ['💬 Commented'],
-      });
-    } catch (error) {
-      log.error('Error commenting on Instagram post', { error: String(error) });
-      return this.createErrorResult('comment', payload.url, String(error), startTime, status);
-    }
+        log.info('Successfully commented on Instagram post');
+        return this.createResult('comment', payload.url, startTime, status, {
+          postUrl: payload.url,
+          commentText: sanitizedText,
+          actions: ['💬 Commented'],
+        });
+      } catch (error) {
+        log.error('Error commenting on Instagram post', { error: String(error) });
+        return await this.failAction('comment', payload.url, String(error), startTime, status, errorCode(error));
+      }
+    });
   }
 
   /**
    * Follow an Instagram user
    */
   async follow(payload: FollowPayload): Promise<ActionResult> {
-    const startTime = Date.now();
-    const { allowed, status } = await this.checkAndRecordAction('follow');
+    return this.withPage('follow', async () => {
+      const startTime = Date.now();
+      const { allowed, status, blocked } = await this.checkAndRecordAction('follow', payload.username);
 
-    if (!allowed) {
-      return this.createErrorResult('follow', payload.username, 'Rate limit exceeded', startTime, status);
-    }
+      if (!allowed) {
+        return this.createBlockedResult('follow', payload.username, startTime, status, blocked);
+      }
 
-    try {
-      log.info('Following Instagram user', { username: payload.username });
+      try {
+        log.info('Following Instagram user', { username: payload.username });
 
-      // Navigate to user profile
-      const profileUrl = `${this.baseUrl}/${payload.username}/`;
-      await this.navigate(profileUrl);
-      await this.think();
+        // Navigate to user profile
+        const profileUrl = `${this.baseUrl}/${payload.username}/`;
+        await this.navigate(profileUrl);
+        await this.think();
 
-      // Check if already following
-      if (await this.elementExists(SELECTORS.unfollowButton)) {
-        log.info('Already following user');
-        return this.createResult('follow', payload.username, startTime, status, {
-          profileUrl: `https://instagram.com/${payload.username}`,
-          actions: ['👥 Already Following'],
-        });
-      }
+        // Check if already following
+        if (await this.elementExists(SELECTORS.unfollowButton)) {
+          log.info('Already following user');
+          return this.alreadyDoneResult('follow', payload.username, startTime, status, {
+            profileUrl: `https://instagram.com/${payload.username}`,
+            actions: ['👥 Already Following'],
+          });
+        }
 
-      // Find and click follow button
-      if (!(await this.elementExists(SELECTORS.followButton))) {
-        return this.createErrorResult('follow', payload.username, 'Follow button not found', startTime, status);
-      }
+        // Find and click follow button
+        if (!(await this.elementExists(SELECTORS.followButton))) {
+          return await this.failAction('follow', payload.username, 'Follow button not found', startTime, status, 'SELECTOR_MISSING');
+        }
 
-      await this.clickHuman(SELECTORS.followButton);
-      await this.delay();
+        await this.clickHuman(SELECTORS.followButton);
+        await this.delay();
 
-      // Verify follow was successful
-      if (await this.elementExists(SELECTORS.unfollowButton)) {
-        await this.recordAction('follow');
-        log.info('Successfully followed Instagram user');
-        return this.createResult('follow', payload.username, startTime, status, {
-          profileUrl: `https://instagram.com/${payload.username}`,
-          actions: ['👥 Followed'],
-        });
-      }
+        // Verify follow was successful
+        if (await this.elementExists(SELECTORS.unfollowButton)) {
+          await this.recordAction('follow');
+          log.info('Successfully followed Instagram user');
+          return this.createResult('follow', payload.username, startTime, status, {
+            profileUrl: `https://instagram.com/${payload.username}`,
+            actions: ['👥 Followed'],
+          });
+        }
 
-      return this.createErrorResult('follow', payload.username, 'Follow action failed', startTime, status);
-    } catch (error) {
-      log.error('Error following Instagram user', { error: String(error) });
-      return this.createErrorResult('follow', payload.username, String(error), startTime, status);
-    }
+        return await this.failAction('follow', payload.username, 'Follow action failed', startTime, status, 'SELECTOR_MISSING');
+      } catch (error) {
+        log.error('Error following Instagram user', { error: String(error) });
+        return await this.failAction('follow', payload.username, String(error), startTime, status, errorCode(error));
+      }
+    });
   }
 
   /**
    * Unfollow an Instagram user
    */
   async unfollow(payload: FollowPayload): Promise<ActionResult> {
-    const startTime = Date.now();
-    const { allowed, status } = await this.checkAndRecordAction('follow');
+    return this.withPage('unfollow', async () => {
+      const startTime = Date.now();
+      const { allowed, status, blocked } = await this.checkAndRecordAction('unfollow', payload.username);
 
-    if (!allowed) {
-      return this.createErrorResult('unfollow', payload.username, 'Rate limit exceeded', startTime, status);
-    }
+      if (!allowed) {
+        return this.createBlockedResult('unfollow', payload.username, startTime, status, blocked);
+      }
 
-    try {
-      log.info('Unfollowing Instagram user', { username: payload.username });
+      try {
+        log.info('Unfollowing Instagram user', { username: payload.username });
 
-      // Navigate to user profile
-      const profileUrl = `${this.baseUrl}/${payload.username}/`;
-      await this.navigate(profileUrl);
-      await this.think();
+        // Navigate to user profile
+        const profileUrl = `${this.baseUrl}/${payload.username}/`;
+        await this.navigate(profileUrl);
+        await this.think();
 
-      // Check if not following
-      if (!(await this.elementExists(SELECTORS.unfollowButton))) {
-        log.info('Not following user');
-        return this.createResult('unfollow', payload.username, startTime, status, {
-          profileUrl: `https://instagram.com/${payload.username}`,
-          actions: ['👋 Not Following'],
-        });
-      }
+        // Check if not following
+        if (!(await this.elementExists(SELECTORS.unfollowButton))) {
+          log.info('Not following user');
+          return this.alreadyDoneResult('unfollow', payload.username, startTime, status, {
+            profileUrl: `https://instagram.com/${payload.username}`,
+            actions: ['👋 Not Following'],
+          });
+        }
 
-      // Click following button
-      await this.clickHuman(SELECTORS.unfollowButton);
-      await this.pause();
+        // Click following button
+        await this.clickHuman(SELECTORS.unfollowButton);
+        await this.pause();
 
-      // Confirm unfollow
-      if (await this.waitForElement(SELECTORS.unfollowConfirm, 5000)) {
-        await this.clickHuman(SELECTORS.unfollowConfirm);
-        await this.delay();
-      }
+        // Confirm unfollow
+        if (await this.waitForElement(SELECTORS.unfollowConfirm, 5000)) {
+          await this.clickHuman(SELECTORS.unfollowConfirm);
+          await this.delay();
+        }
 
-      // Verify unfollow was successful
-      if (await this.elementExists(SELECTORS.followButton)) {
-        await this.recordAction('follow');
-        log.info('Successfully unfollowed Instagram user');
-        return this.createResult('unfollow', payload.username, startTime, status, {
-          profileUrl: `https://instagram.com/${payload.username}`,
-          actions: ['👋 Unfollowed'],
-        });
-      }
+        // Verify unfollow was successful
+        if (await this.elementExists(SELECTORS.followButton)) {
+          await this.recordAction('follow');
+          log.info('Successfully unfollowed Instagram user');
+          return this.createResult('unfollow', payload.username, startTime, status, {
+            profileUrl: `https://instagram.com/${payload.username}`,
+            actions: ['👋 Unfollowed'],
+          });
+        }
 
-      return this.createErrorResult('unfollow', payload.username, 'Unfollow action failed', startTime, status);
-    } catch (error) {
-      log.error('Error unfollowing Instagram user', { error: String(error) });
-      return this.createErrorResult('unfollow', payload.username, String(error), startTime, status);
-    }
+        return await this.failAction('unfollow', payload.username, 'Unfollow action failed', startTime, status, 'SELECTOR_MISSING');
+      } catch (error) {
+        log.error('Error unfollowing Instagram user', { error: String(error) });
+        return await this.failAction('unfollow', payload.username, String(error), startTime, status, errorCode(error));
+      }
+    });
   }
 
   /**
    * Send a direct message on Instagram
    */
   async dm(payload: DMPayload): Promise<ActionResult> {
-    const startTime = Date.now();
-    const { allowed, status } = await this.checkAndRecordAction('dm');
+    return this.withPage('dm', async () => {
+      const startTime = Date.now();
+      const { allowed, status, blocked } = await this.checkAndRecordAction('dm', payload.username);
 
-    if (!allowed) {
-      return this.createErrorResult('dm', payload.username, 'Rate limit exceeded', startTime, status);
-    }
+      if (!allowed) {
+        return this.createBlockedResult('dm', payload.username, startTime, status, blocked);
+      }
 
-    try {
-      log.info('Sending Instagram DM', { username: payload.username });
+      try {
+        log.info('Sending Instagram DM', { username: payload.username });
 
-      // Navigate to home first for warm-up browsing
-      await this.navigate(`${this.baseUrl}/`);
-      await this.warmUp({ scrollCount: 3 + Math.floor(Math.random() * 2) });
+        // Navigate to home first for warm-up browsing
+        await this.navigate(`${this.baseUrl}/`);
+        await this.warmUp({ scrollCount: 3 + Math.floor(Math.random() * 2) });
 
-      // Navigate to user profile
-      const profileUrl = `${this.baseUrl}/${payload.username}/`;
-      await this.navigate(profileUrl);
-      await this.think();
+        // Navigate to user profile
+        const profileUrl = `${this.baseUrl}/${payload.username}/`;
+        await this.navigate(profileUrl);
+        await this.think();
 
-      // Click message button
-      if (!(await this.waitForElement(SELECTORS.messageButton, 10000))) {
-        return this.createErrorResult('dm', payload.username, 'Message button not found', startTime, status);
-      }
+        // Click message button
+        if (!(await this.waitForElement(SELECTORS.messageButton, 10000))) {
+          return await this.failAction('dm', payload.username, 'Message button not found', startTime, status, 'SELECTOR_MISSING');
+        }
 
-      await this.clickHuman(SELECTORS.messageButton);
-      await this.delay();
+        await this.clickHuman(SELECTORS.messageButton);
+        await this.delay();
 
-      // Wait for DM input
-      if (!(await this.waitForElement(SELECTORS.dmInput, 10000))) {
-        return this.createErrorResult('dm', payload.username, 'DM input not found', startTime, status);
-      }
+        // Wait for DM input
+        if (!(await this.waitForElement(SELECTORS.dmInput, 10000))) {
+          return await this.failAction('dm', payload.username, 'DM input not found', startTime, status, 'SELECTOR_MISSING');
+        }
 
-      // Type message
-      await this.clickHuman(SELECTORS.dmInput);
-      await this.typeHuman(SELECTORS.dmInput, payload.message);
-      await this.pause();
+        // Type message
+        await this.clickHuman(SELECTORS.dmInput);
+        await this.typeHuman(SELECTORS.dmInput, payload.message);
+        await this.pause();
 
-      // Send message
-      const page = await this.getPage();
-      await page.keyboard.press('Enter');
+        // Send message
+        const page = await this.getPage();
+        await page.keyboard.press('Enter');
       
-      await this.delay();
-      await this.recordAction('dm');
+        await this.delay();
+        await this.recordAction('dm');
       
-      log.info('Successfully sent Instagram DM');
-      return this.createResult('dm', payload.username, startTime, status, {
-        profileUrl: `https://instagram.com/${payload.username}`,
-        messagePreview: payload.message,
-        actions: ['✉️ DM Sent'],
-      });
-    } catch (error) {
-      log.error('Error sending Instagram DM', { error: String(error) });
-      return this.createErrorResult('dm', payload.username, String(error), startTime, status);
-    }
+        log.info('Successfully sent Instagram DM');
+        return this.createResult('dm', payload.username, startTime, status, {
+          profileUrl: `https://instagram.com/${payload.username}`,
+          messagePreview: payload.message,
+          actions: ['✉️ DM Sent'],
+        });
+      } catch (error) {
+        log.error('Error sending Instagram DM', { error: String(error) });
+        return await this.failAction('dm', payload.username, String(error), startTime, status, errorCode(error));
+      }
+    });
   }
 
   /**
-   * Get Instagram profile data
+   * Publish a feed post (one image, or a carousel of up to 10) with a caption
    */
-  async getProfile(username: string): Promise<InstagramProfile> {
-    try {
-      log.info('Getting Instagram profile', { username });
+  async post(payload: PostPayload): Promise<ActionResult> {
+    return this.withPage('post', async () => {
+      const startTime = Date.now();
+      const target = payload.text.substring(0, 50);
+
+      const count = payload.media?.length ?? 0;
+      if (count === 0 || count > MAX_POST_IMAGES) {
+        return this.invalidResult('post', target, `Instagram posts need 1-${MAX_POST_IMAGES} images (got ${count})`, startTime);
+      }
+      if (payload.text.length > MAX_CAPTION_LENGTH) {
+        return this.invalidResult('post', target, `Caption exceeds ${MAX_CAPTION_LENGTH} characters`, startTime);
+      }
 
-      const profileUrl = `${this.baseUrl}/${username}/`;
-      await this.navigate(profileUrl);
-      await this.think();
+      const { allowed, status, blocked } = await this.checkAndRecordAction('post');
 
-      // Extract profile data
-      const profile: InstagramProfile = {
-        username,
-      };
+      if (!allowed) {
+        return this.createBlockedResult('post', target, startTime, status, blocked);
+      }
 
-      // Get full name
-      const fullName = await this.getText('header section > div:first-child span');
-      if (fullName) profile.fullName = fullName;
+      try {
+        const media = this.resolveMedia(payload.media);
+        log.info('Publishing Instagram post', { caption: target, media: media.length });
 
-      // Get bio
-      const bio = await this.getText('header section > div:last-child span');
-      if (bio && bio !== fullName) profile.bio = bio;
+        // Navigate to home first for warm-up browsing
+        await this.navigate(`${this.baseUrl}/`);
+        await this.warmUp({ scrollCount: 2 + Math.floor(Math.random() * 3) });
 
-      // Get follower count
-      const followerText = await this.getText(SELECTORS.followerCount);
-      if (followerText) {
-        profile.followers = this.parseCount(followerText);
-      }
+        // Open the create dialog (newer UI shows a Post/Live/Ad menu first)
+        if (!(await this.waitForElement(SELECTORS.newPostButton, 10000))) {
+          return await this.failAction('post', target, 'New post button not found', startTime, status, 'SELECTOR_MISSING');
+        }
+        await this.clickHuman(SELECTORS.newPostButton);
+        await this.pause();
 
-      // Get following count
-      const followingText = await this.getText(SELECTORS.followingCount);
-      if (followingText) {
-        profile.following = this.parseCount(followingText);
-      }
+        if (await this.waitForElement(SELECTORS.newPostMenuPost, 3000)) {
+          await this.clickHuman(SELECTORS.newPostMenuPost);
+          await this.pause();
+        }
 
-      // Get post count
-      const postText = await this.getText(SELECTORS.postCount);
-      if (postText) {
-        profile.posts = this.parseCount(postText);
+        // Upload images
+        const page = await this.getPage();
+        if (!(await this.waitForElement(SELECTORS.createFileInput, 10000))) {
+          return await this.failAction('post', target, 'Upload input not found', startTime, status, 'SELECTOR_MISSING');
+        }
+        await page.locator(SELECTORS.createFileInput).first().setInputFiles(media);
+        await this.delay();
+
+        // Crop → Filters → Caption
+        for (let step = 0; step < 2; step++) {
+          if (!(await this.waitForElement(SELECTORS.createNextButton, 15000))) {
+            return await this.failAction('post', target, 'Next button not found', startTime, status, 'SELECTOR_MISSING');
+          }
+          await this.clickHuman(SELECTORS.createNextButton);
+          await this.pause();
+        }
+
+        // Sanitize and type caption
+        const sanitizedText = this.sanitizeText(payload.text);
+        if (sanitizedText) {
+          if (!(await this.waitForElement(SELECTORS.captionInput, 10000))) {
+            return await this.failAction('post', target, 'Caption input not found', startTime, status, 'SELECTOR_MISSING');
+          }
+          await this.clickHuman(SELECTORS.captionInput);
+          await page.keyboard.type(sanitizedText, { delay: 50 });
+          await this.pause();
+        }
+
+        // Share
+        if (!(await this.elementExists(SELECTORS.shareButton))) {
+          return await this.failAction('post', target, 'Share button not found', startTime, status, 'SELECTOR_MISSING');
+        }
+        await this.clickHuman(SELECTORS.shareButton);
+
+        // Uploads can take a while; wait for the confirmation screen
+        if (!(await this.waitForElement(SELECTORS.postShared, 60000))) {
+          log.error('Instagram share confirmation not shown — post likely did NOT go out');
+          return await this.failAction('post', target, 'Post share failed — no confirmation after submit', startTime, status, 'TIMEOUT');
+        }
+
+        if (await this.elementExists(SELECTORS.closeDialog)) {
+          await this.clickHuman(SELECTORS.closeDialog);
+        }
+
+        await this.delay();
+        await this.recordAction('post');
+
+        log.info('Successfully published Instagram post');
+        return this.createResult('post', target, startTime, status, {
+          commentText: sanitizedText,
+          actions: [`📸 Posted ${media.length} image(s)`],
+        });
+      } catch (error) {
+        log.error('Error publishing Instagram post', { error: String(error) });
+        return await this.failAction('post', target, String(error), startTime, status, errorCode(error));
       }
+    });
+  }
 
-      // Check if verified
-      profile.isVerified = await this.elementExists(SELECTORS.verifiedBadge);
+  /**
+   * Get Instagram profile data
+   */
+  async getProfile(username: string): Promise<InstagramProfile> {
+    return this.withPage('getProfile', async () => {
+      try {
+        log.info('Getting Instagram profile', { username });
+
+        const profileUrl = `${this.baseUrl}/${username}/`;
+        await this.navigate(profileUrl);
+        await this.think();
+
+        // Extract profile data
+        const profile: InstagramProfile = {
+          username,
+        };
+
+        // Get full name
+        const fullName = await this.getText('header section > div:first-child span');
+        if (fullName) profile.fullName = fullName;
+
+        // Get bio
+        const bio = await this.getText('header section > div:last-child span');
+        if (bio && bio !== fullName) profile.bio = bio;
+
+        // Get follower count
+        const followerText = await this.getText(SELECTORS.followerCount);
+        if (followerText) {
+          profile.followers = this.parseCount(followerText);
+        }
 
-      // Check if private
-      profile.isPrivate = await this.elementExists('h2:has-text("This Account is Private")');
+        // Get following count
+        const followingText = await this.getText(SELECTORS.followingCount);
+        if (followingText) {
+          profile.following = this.parseCount(followingText);
+        }
 
-      log.info('Got Instagram profile', { profile });
-      return profile;
-    } catch (error) {
-      log.error('Error getting Instagram profile', { error: String(error) });
-      return { username };
-    }
+        // Get post count
+        const postText = await this.getText(SELECTORS.postCount);
+        if (postText) {
+          profile.posts = this.parseCount(postText);
+        }
+
+        // Check if verified
+        profile.isVerified = await this.elementExists(SELECTORS.verifiedBadge);
+
+        // Check if private
+        profile.isPrivate = await this.elementExists('h2:has-text("This Account is Private")');
+
+        log.info('Got Instagram profile', { profile });
+        return profile;
+      } catch (error) {
+        log.error('Error getting Instagram profile', { error: String(error) });
+        return { username };
+      }
+    });
   }
 
   /**
@@ -766,93 +923,95 @@ export class InstagramHandler extends BasePlatformHandler {
    * @param limit - Max number of followers to scrape (default 10)
    */
   async scrapeFollowers(username: string, limit: number = 10): Promise<string[]> {
-    const followers: string[] = [];
+    return this.withPage('scrapeFollowers', async () => {
+      const followers: string[] = [];
     
-    try {
-      log.info('Scraping Instagram followers', { username, limit });
+      try {
+        log.info('Scraping Instagram followers', { username, limit });
       
-      // Navigate to profile
-      const profileUrl = `${this.baseUrl}/${username}/`;
-      await this.navigate(profileUrl);
-      await this.think();
+        // Navigate to profile
+        const profileUrl = `${this.baseUrl}/${username}/`;
+        await this.navigate(profileUrl);
+        await this.think();
       
-      // Click on followers link to open popup
-      const followersLinkSelector = SELECTORS.followersLink;
-      if (!(await this.waitForElement(followersLinkSelector, 10000))) {
-        log.error('Followers link not found');
-        return followers;
-      }
+        // Click on followers link to open popup
+        const followersLinkSelector = SELECTORS.followersLink;
+        if (!(await this.waitForElement(followersLinkSelector, 10000))) {
+          log.error('Followers link not found');
+          return followers;
+        }
       
-      await this.clickHuman(followersLinkSelector);
-      await this.delay();
+        await this.clickHuman(followersLinkSelector);
+        await this.delay();
       
-      // Wait for dialog to open
-      if (!(await this.waitForElement(SELECTORS.followersDialog, 10000))) {
-        log.error('Followers dialog not found');
-        return followers;
-      }
+        // Wait for dialog to open
+        if (!(await this.waitForElement(SELECTORS.followersDialog, 10000))) {
+          log.error('Followers dialog not found');
+          return followers;
+        }
       
-      const page = await this.getPage();
+        const page = await this.getPage();
       
-      // Scroll and collect followers
-      let scrollAttempts = 0;
-      const maxScrolls = Math.ceil(limit / 5) + 3; // Estimate ~5 users per scroll view
+        // Scroll and collect followers
+        let scrollAttempts = 0;
+        const maxScrolls = Math.ceil(limit / 5) + 3; // Estimate ~5 users per scroll view
       
-      while (followers.length < limit && scrollAttempts < maxScrolls) {
-        // Extract usernames from current view
-        const userLinks = await page.$$('div[role="dialog"] a[role="link"][href^="/"]');
+        while (followers.length < limit && scrollAttempts < maxScrolls) {
+          // Extract usernames from current view
+          const userLinks = await page.$$('div[role="dialog"] a[role="link"][href^="/"]');
         
-        for (const link of userLinks) {
-          if (followers.length >= limit) break;
+          for (const link of userLinks) {
+            if (followers.length >= limit) break;
           
-          try {
-            const href = await link.getAttribute('href');
-            if (href && href.startsWith('/') && !href.includes('/p/') && !href.includes('/explore/')) {
-              const extractedUsername = href.replace(/\//g, '').split('?')[0];
-              if (extractedUsername && extractedUsername !== username && !followers.includes(extractedUsername)) {
-                followers.push(extractedUsername);
-                log.debug('Found follower', { username: extractedUsername });
+            try {
+              const href = await link.getAttribute('href');
+              if (href && href.startsWith('/') && !href.includes('/p/') && !href.includes('/explore/')) {
+                const extractedUsername = href.replace(/\//g, '').split('?')[0];
+                if (extractedUsername && extractedUsername !== username && !followers.includes(extractedUsername)) {
+                  followers.push(extractedUsername);
+                  log.debug('Found follower', { username: extractedUsername });
+                }
               }
+            } catch {
+              // Skip problematic elements
             }
-          } catch {
-            // Skip problematic elements
           }
-        }
         
-        // Scroll down in the dialog
-        const dialog = await page.$('div[role="dialog"] div[style*="overflow"]');
-        if (dialog) {
-          await dialog.evaluate((el) => {
-            el.scrollTop += 300;
-          });
-          await this.pause(); // Wait for content to load
-        } else {
-          // Try scrolling the dialog itself
-          const dialogEl = await page.$('div[role="dialog"]');
-          if (dialogEl) {
-            await dialogEl.evaluate((el) => {
-              const scrollable = el.querySelector('div[style*="overflow"]') || el;
-              // eslint-disable-next-line @typescript-eslint/no-explicit-any
-              (scrollable as any).scrollTop += 300;
+          // Scroll down in the dialog
+          const dialog = await page.$('div[role="dialog"] div[style*="overflow"]');
+          if (dialog) {
+            await dialog.evaluate((el) => {
+              el.scrollTop += 300;
             });
-            await this.pause();
+            await this.pause(); // Wait for content to load
+          } else {
+            // Try scrolling the dialog itself
+            const dialogEl = await page.$('div[role="dialog"]');
+            if (dialogEl) {
+              await dialogEl.evaluate((el) => {
+                const scrollable = el.querySelector('div[style*="overflow"]') || el;
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                (scrollable as any).scrollTop += 300;
+              });
+              await this.pause();
+            }
           }
-        }
         
-        scrollAttempts++;
-        await this.delay();
-      }
+          scrollAttempts++;
+          await this.delay();
+        }
       
-      // Close the dialog by pressing Escape
-      await page.keyboard.press('Escape');
-      await this.delay();
+        // Close the dialog by pressing Escape
+        await page.keyboard.press('Escape');
+        await this.delay();
       
-      log.info('Scraped Instagram followers', { count: followers.length, followers });
-      return followers;
-    } catch (error) {
-      log.error('Error scraping Instagram followers', { error: String(error) });
-      return followers;
-    }
+        log.info('Scraped Instagram followers', { count: followers.length, followers });
+        return followers;
+      } catch (error) {
+        log.error('Error scraping Instagram followers', { error: String(error) });
+        return followers;
+      }
+    });
   }
 
   /**
@@ -861,83 +1020,85 @@ export class InstagramHandler extends BasePlatformHandler {
    * @param limit - Max number of posts to get (default 3)
    */
   async getRecentPosts(username: string, limit: number = 3): Promise<string[]> {
-    const posts: string[] = [];
+    return this.withPage('getRecentPosts', async () => {
+      const posts: string[] = [];
     
-    try {
-      log.info('Getting recent posts', { username, limit });
+      try {
+        log.info('Getting recent posts', { username, limit });
       
-      // Navigate to profile
-      const profileUrl = `${this.baseUrl}/${username}/`;
-      await this.navigate(profileUrl);
-      await this.think();
+        // Navigate to profile
+        const profileUrl = `${this.baseUrl}/${username}/`;
+        await this.navigate(profileUrl);
+        await this.think();
       
-      const page = await this.getPage();
+        const page = await this.getPage();
       
-      // Wait for posts to load - try multiple selectors
-      const postSelectors = [
-        'a[href*="/p/"]',
-        'article a[href*="/p/"]',
-        'main article a',
-        'div[style*="flex"] a[href*="/p/"]',
-      ];
+        // Wait for posts to load - try multiple selectors
+        const postSelectors = [
+          'a[href*="/p/"]',
+          'article a[href*="/p/"]',
+          'main article a',
+          'div[style*="flex"] a[href*="/p/"]',
+        ];
       
-      // Wait up to 10 seconds for any post to appear
-      for (const selector of postSelectors) {
-        try {
-          await page.waitForSelector(selector, { timeout: 3000 });
-          log.debug('Found posts with selector', { selector });
-          break;
-        } catch {
-          // Try next selector
+        // Wait up to 10 seconds for any post to appear
+        for (const selector of postSelectors) {
+          try {
+            await page.waitForSelector(selector, { timeout: 3000 });
+            log.debug('Found posts with selector', { selector });
+            break;
+          } catch {
+            // Try next selector
+          }
         }
-      }
       
-      // Additional wait for content to fully render
-      await this.delay();
+        // Additional wait for content to fully render
+        await this.delay();
       
-      // Find post links with multiple selector strategies (posts and reels)
-      let postLinks = await page.$$('a[href*="/p/"], a[href*="/reel/"]');
+        // Find post links with multiple selector strategies (posts and reels)
+        let postLinks = await page.$$('a[href*="/p/"], a[href*="/reel/"]');
       
-      if (postLinks.length === 0) {
-        // Try finding posts in article elements
-        postLinks = await page.$$('article a[href*="/p/"], article a[href*="/reel/"]');
-      }
+        if (postLinks.length === 0) {
+          // Try finding posts in article elements
+          postLinks = await page.$$('article a[href*="/p/"], article a[href*="/reel/"]');
+        }
       
-      if (postLinks.length === 0) {
-        // Try finding any links that might be posts
-        const allLinks = await page.$$('a[href^="/"]');
-        for (const link of allLinks) {
-          const href = await link.getAttribute('href');
-          if (href && (href.includes('/p/') || href.includes('/reel/'))) {
-            postLinks.push(link);
+        if (postLinks.length === 0) {
+          // Try finding any links that might be posts
+          const allLinks = await page.$$('a[href^="/"]');
+          for (const link of allLinks) {
+            const href = await link.getAttribute('href');
+            if (href && (href.includes('/p/') || href.includes('/reel/'))) {
+              postLinks.push(link);
+            }
           }
         }
-      }
       
-      log.debug('Found post links', { count: postLinks.length });
+        log.debug('Found post links', { count: postLinks.length });
       
-      for (const link of postLinks) {
-        if (posts.length >= limit) break;
+        for (const link of postLinks) {
+          if (posts.length >= limit) break;
         
-        try {
-          const href = await link.getAttribute('href');
-          if (href && (href.includes('/p/') || href.includes('/reel/'))) {
-            const fullUrl = href.startsWith('http') ? href : `${this.baseUrl}${href}`;
-            if (!posts.includes(fullUrl)) {
-              posts.push(fullUrl);
+          try {
+            const href = await link.getAttribute('href');
+            if (href && (href.includes('/p/') || href.includes('/reel/'))) {
+              const fullUrl = href.startsWith('http') ? href : `${this.baseUrl}${href}`;
+              if (!posts.includes(fullUrl)) {
+                posts.push(fullUrl);
+              }
             }
+          } catch {
+            // Skip problematic elements
           }
-        } catch {
-          // Skip problematic elements
         }
-      }
       
-      log.info('Got recent posts', { count: posts.length, posts });
-      return posts;
-    } catch (error) {
-      log.error('Error getting recent posts', { error: String(error) });
-      return posts;
-    }
+        log.info('Got recent posts', { count: posts.length, posts });
+        return posts;
+      } catch (error) {
+        log.error('Error getting recent posts', { error: String(error) });
+        return posts;
+      }
+    });
   }
 
   /**
@@ -959,3 +1120,128 @@ export class InstagramHandler extends BasePlatformHandler {
     return Math.round(num);
   }
 }
+
+// ============================================================================
+// Platform definition
+// ============================================================================
+
+const action = actionBuilder<InstagramHandler>();
+
+export const instagramPlatform: PlatformDefinition<InstagramHandler> = {
+  id: 'instagram',
+  name: 'Instagram',
+  command: 'ig',
+  aliases: ['instagram'],
+  origin: 'https://www.instagram.com',
+  sessionCookie: 'sessionid',
+  // Daily caps plus burst caps, and a shared hourly cap on all writes
+  rateLimits: {
+    like: { minute: 3, hour: 25, day: 100 },
+    comment: { minute: 1, hour: 8, day: 30 },
+    follow: { minute: 2, hour: 12, day: 50 },
+    dm: { minute: 1, hour: 10, day: 50 },
+    post: { hour: 3, day: 10 },
+    shared: [{ name: 'writes', actions: ['like', 'comment', 'follow', 'dm', 'post'], limits: { hour: 40 } }],
+  },
+  createHandler: ({ browserManager, rateLimiter, account }) =>
+    new InstagramHandler(browserManager, rateLimiter, account),
+  actions: [
+    action({
+      name: 'like',
+      description: 'Like a post',
+      schema: likePayload,
+      queue: true,
+      cli: {
+        command: 'like <url>',
+        description: 'Like an Instagram post',
+        done: ({ url }) => `Liked post: ${url}`,
+        failed: 'like',
+        retry: true,
+        context: ({ url }) => ({ postUrl: url }),
+      },
+      run: (handler, payload) => handler.like(payload),
+    }),
+    action({
+      name: 'comment',
+      description: 'Comment on a post',
+      schema: commentPayload,
+      queue: true,
+      cli: {
+        command: 'comment <url> <text>',
+        description: 'Comment on an Instagram post',
+        done: ({ url }) => `Commented on: ${url}`,
+        failed: 'comment',
+        retry: true,
+        context: ({ url, text }) => ({ postUrl: url, commentText: text }),
+      },
+      run: (handler, payload) => handler.comment(payload),
+    }),
+    action({
+      name: 'follow',
+      description: 'Follow a user',
+      schema: followPayload,
+      queue: true,
+      cli: {
+        command: 'follow <username>',
+        description: 'Follow an Instagram user',
+        done: ({ username }) => `Followed: @${username}`,
+        failed: 'follow',
+        retry: true,
+        context: ({ username }) => ({ profileUrl: `https://instagram.com/${username}` }),
+      },
+      run: (handler, payload) => handler.follow(payload),
+    }),
+    action({
+      name: 'unfollow',
+      description: 'Unfollow a user',
+      schema: followPayload,
+      run: (handler, payload) => handler.unfollow(payload),
+    }),
+    action({
+      name: 'dm',
+      description: 'Send a direct message',
+      schema: dmPayload,
+      queue: true,
+      cli: {
+        command: 'dm <username> <message>',
+        description: 'Send a DM to an Instagram user',
+        done: ({ username }) => `Sent DM to: @${username}`,
+        failed: 'send DM',
+      },
+      run: (handler, payload) => handler.dm(payload),
+    }),
+    action({
+      name: 'post',
+      description: 'Publish a feed post (1-10 images) with an optional caption',
+      schema: z.object({
+        text: z.string().default(''),
+        media: z
+          .array(z.string().min(1), { error: 'Media (array of image paths) required' })
+          .min(1, 'Media (array of image paths) required'),
+      }),
+      queue: true,
+      cli: {
+        command: 'post <images...>',
+        description: 'Publish a feed post (1-10 images) with a caption',
+        options: [{ flags: '--caption <text>', description: 'Post caption', defaultValue: '' }],
+        payload: ({ images, caption }) => ({ text: caption, media: images }),
+        done: ({ media }) => `Posted ${media.length} image(s) to Instagram`,
+        failed: 'post',
+      },
+      run: (handler, payload) => handler.post(payload),
+    }),
+    action({
+      name: 'view_profile',
+      description: 'Get profile data',
+      schema: profilePayload,
+      read: true,
+      route: 'profile/:username',
+      cli: {
+        command: 'profile <username>',
+        description: 'Get Instagram profile data',
+        failed: 'get profile',
+      },
+      run: (handler, { username }) => handler.getProfile(username),
+    }),
+  ],
+};
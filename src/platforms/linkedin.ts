@@ -1,5 +1,11 @@
+import { z } from 'zod';
 import { BasePlatformHandler } from './base.js';
+import { actionBuilder } from './registry.js';
+import { likePayload, commentPayload, followPayload, dmPayload, profilePayload, text, media, profileUrl } from './schemas.js';
 import { log } from '../utils/logger.js';
+import { errorCode } from '../utils/errors.js';
+import type { SoftBlockSignal } from './base.js';
+import type { PlatformDefinition } from './registry.js';
 import type { BrowserManager } from '../browser/manager.js';
 import type { RateLimiter } from '../utils/rate-limiter.js';
 import type {
@@ -9,6 +15,7 @@ import type {
   FollowPayload,
   DMPayload,
   ConnectPayload,
+  PostPayload,
   LinkedInProfile,
 } from '../types/index.js';
 
@@ -31,6 +38,15 @@ const SELECTORS = {
   commentInput: 'div.ql-editor[data-placeholder*="Add a comment"], div[contenteditable="true"]',
   commentSubmit: 'button.comments-comment-box__submit-button, button[data-control-name="comment_submit"], form.comments-comment-box button[type="submit"], button.artdeco-button--primary:near(div.ql-editor)',
   
+  // Post composer
+  startPostButton: 'button.share-box-feed-entry__trigger, button:has-text("Start a post")',
+  postEditor: 'div[role="dialog"] div.ql-editor[contenteditable="true"], div[role="dialog"] div[role="textbox"]',
+  postMediaButton: 'div[role="dialog"] button[aria-label="Add media"], div[role="dialog"] button[aria-label*="Add a photo"]',
+  postMediaNext: 'div[role="dialog"] button:has-text("Next"), div[role="dialog"] button:has-text("Done")',
+  postSubmit: 'div[role="dialog"] button.share-actions__primary-action, div[role="dialog"] button:has-text("Post")',
+  postSuccess: 'div[data-test-artdeco-toast-item-type="success"], .artdeco-toast-item:has-text("Post successful")',
+  postViewLink: '.artdeco-toast-item a[href*="/feed/update/"]',
+
   // Profile actions (case-insensitive matching)
   connectButton: 'button[aria-label*="connect"], button[aria-label*="Connect"], button:has-text("Connect"):not([aria-label*="Invite"])',
   pendingButton: 'button[aria-label*="Pending"], button[aria-label*="pending"]',
@@ -56,626 +72,849 @@ const SELECTORS = {
   currentCompany: 'div.pv-entity__summary-info h3',
 };
 
+// Warnings LinkedIn shows when an account hits its invitation or activity limits
+const SOFT_BLOCK_SIGNALS: SoftBlockSignal[] = [
+  { reason: 'Weekly invitation limit reached', selector: 'div[role="dialog"], .artdeco-modal, .ip-fuse-limit-alert', pattern: /weekly invitation limit|reached the weekly limit/i },
+  { reason: 'Too many requests', selector: 'div[role="dialog"], .artdeco-toast-item, [role="alert"]', pattern: /too many requests|unusual activity|try again later/i },
+];
+
+// Missing pages, unavailable profiles and deleted posts
+const NOT_FOUND_SIGNALS: SoftBlockSignal[] = [
+  { reason: 'Page not found', selector: 'main h1, main h2, .not-found', pattern: /this page doesn[’']t exist|page not found|profile is not available|post (cannot be displayed|was deleted)/i },
+];
+
 export class LinkedInHandler extends BasePlatformHandler {
   private readonly baseUrl = 'https://www.linkedin.com';
+  protected softBlockSignals = SOFT_BLOCK_SIGNALS;
+  protected notFoundSignals = NOT_FOUND_SIGNALS;
+  protected loginUrlPattern = /\/(login|authwall|uas\/login)\b/;
 
-  constructor(browserManager: BrowserManager, rateLimiter: RateLimiter) {
-    super('linkedin', browserManager, rateLimiter);
+  constructor(browserManager: BrowserManager, rateLimiter: RateLimiter, account?: string) {
+    super('linkedin', browserManager, rateLimiter, account);
   }
 
   /**
    * Check if logged in to LinkedIn (without navigating away)
    */
   async isLoggedIn(): Promise<boolean> {
-    try {
-      const page = await this.getPage();
-      
-      // Primary check: li_at cookie (LinkedIn auth token)
-      const cookies = await page.context().cookies();
-      const hasAuthCookie = cookies.some(c => c.name === 'li_at');
-      if (hasAuthCookie) {
-        log.debug('LinkedIn li_at auth cookie found');
-        return true;
-      }
-      
-      // Check current URL - must be on feed AND not showing login form
-      const url = page.url();
-      const isOnLoggedInPage = url.includes('/feed') || url.includes('/mynetwork') || url.includes('/messaging') || url.includes('/in/');
+    return this.withPage('isLoggedIn', async () => {
+      try {
+        const page = await this.getPage();
       
-      if (isOnLoggedInPage) {
-        // Make sure we're not seeing a login prompt
-        const hasLoginForm = await this.elementExists('#username, input[name="session_key"]');
-        if (!hasLoginForm) {
-          log.debug('LinkedIn logged-in URL detected without login form');
+        // Primary check: li_at cookie (LinkedIn auth token)
+        const cookies = await page.context().cookies();
+        const hasAuthCookie = cookies.some(c => c.name === 'li_at');
+        if (hasAuthCookie) {
+          log.debug('LinkedIn li_at auth cookie found');
           return true;
         }
-      }
       
-      return false;
-    } catch (error) {
-      log.error('Error checking LinkedIn login status', { error: String(error) });
-      return false;
-    }
+        // Check current URL - must be on feed AND not showing login form
+        const url = page.url();
+        const isOnLoggedInPage = url.includes('/feed') || url.includes('/mynetwork') || url.includes('/messaging') || url.includes('/in/');
+      
+        if (isOnLoggedInPage) {
+          // Make sure we're not seeing a login prompt
+          const hasLoginForm = await this.elementExists('#username, input[name="session_key"]');
+          if (!hasLoginForm) {
+            log.debug('LinkedIn logged-in URL detected without login form');
+            return true;
+          }
+        }
+      
+        return false;
+      } catch (error) {
+        log.error('Error checking LinkedIn login status', { error: String(error) });
+        return false;
+      }
+    });
   }
 
   /**
    * Login to LinkedIn (interactive)
    */
   async login(): Promise<boolean> {
-    try {
-      log.info('Starting LinkedIn login...');
+    return this.withPage('login', async () => {
+      try {
+        log.info('Starting LinkedIn login...');
       
-      await this.navigate(`${this.baseUrl}/login`);
-      await this.delay();
+        await this.navigate(`${this.baseUrl}/login`);
+        await this.delay();
 
-      if (await this.isLoggedIn()) {
-        log.info('Already logged in to LinkedIn');
-        return true;
-      }
+        if (await this.isLoggedIn()) {
+          log.info('Already logged in to LinkedIn');
+          return true;
+        }
 
-      const hasLoginForm = await this.waitForElement(SELECTORS.loginUsername, 15000);
-      if (!hasLoginForm) {
-        log.error('Login form not found');
-        return false;
-      }
+        const hasLoginForm = await this.waitForElement(SELECTORS.loginUsername, 15000);
+        if (!hasLoginForm) {
+          log.error('Login form not found');
+          return false;
+        }
 
-      log.info('LinkedIn login form ready. Please enter credentials manually.');
-      log.info('Waiting for login to complete...');
+        log.info('LinkedIn login form ready. Please enter credentials manually.');
+        log.info('Waiting for login to complete...');
 
-      const startTime = Date.now();
-      const timeout = 120000;
+        const startTime = Date.now();
+        const timeout = 120000;
 
-      while (Date.now() - startTime < timeout) {
-        if (await this.isLoggedIn()) {
-          log.info('LinkedIn login successful');
-          await this.browserManager.saveSession('linkedin');
-          return true;
+        while (Date.now() - startTime < timeout) {
+          if (await this.isLoggedIn()) {
+            log.info('LinkedIn login successful');
+            await this.saveSession();
+            return true;
+          }
+          await new Promise((resolve) => setTimeout(resolve, 2000));
         }
-        await new Promise((resolve) => setTimeout(resolve, 2000));
-      }
 
-      log.error('LinkedIn login timeout');
-      return false;
-    } catch (error) {
-      log.error('LinkedIn login failed', { error: String(error) });
-      return false;
-    }
+        log.error('LinkedIn login timeout');
+        return false;
+      } catch (error) {
+        log.error('LinkedIn login failed', { error: String(error) });
+        return false;
+      }
+    });
   }
 
   /**
    * Login with credentials (headless)
    */
   async loginWithCredentials(username: string, password: string): Promise<boolean> {
-    try {
-      log.info('Starting LinkedIn headless login...');
+    return this.withPage('loginWithCredentials', async () => {
+      try {
+        log.info('Starting LinkedIn headless login...');
       
-      await this.navigate(`${this.baseUrl}/login`);
-      await this.delay();
+        await this.navigate(`${this.baseUrl}/login`);
+        await this.delay();
 
-      if (await this.isLoggedIn()) {
-        log.info('Already logged in to LinkedIn');
-        return true;
-      }
+        if (await this.isLoggedIn()) {
+          log.info('Already logged in to LinkedIn');
+          return true;
+        }
 
-      const page = await this.getPage();
+        const page = await this.getPage();
       
-      // Take debug screenshot of login page
-      await page.screenshot({ path: './sessions/debug-linkedin-form.png' });
-      log.info('Login form screenshot saved');
+        // Take debug screenshot of login page
+        await page.screenshot({ path: './sessions/debug-linkedin-form.png' });
+        log.info('Login form screenshot saved');
       
-      // Try multiple username field selectors
-      const usernameSelectors = ['#username', 'input[name="session_key"]', 'input[autocomplete="username"]'];
-      let usernameField = null;
-      for (const sel of usernameSelectors) {
-        if (await this.elementExists(sel)) {
-          usernameField = sel;
-          log.info(`Found username field: ${sel}`);
-          break;
+        // Try multiple username field selectors
+        const usernameSelectors = ['#username', 'input[name="session_key"]', 'input[autocomplete="username"]'];
+        let usernameField = null;
+        for (const sel of usernameSelectors) {
+          if (await this.elementExists(sel)) {
+            usernameField = sel;
+            log.info(`Found username field: ${sel}`);
+            break;
+          }
         }
-      }
       
-      if (!usernameField) {
-        log.error('Login form not found - no username field');
-        return false;
-      }
+        if (!usernameField) {
+          log.error('Login form not found - no username field');
+          return false;
+        }
 
-      // Enter username
-      await page.locator(usernameField).first().fill(username);
-      log.info('Username entered');
-      await this.pause();
+        // Enter username
+        await page.locator(usernameField).first().fill(username);
+        log.info('Username entered');
+        await this.pause();
 
-      // Try multiple password field selectors
-      const passwordSelectors = ['#password', 'input[name="session_password"]', 'input[type="password"]'];
-      let passwordField = null;
-      for (const sel of passwordSelectors) {
-        if (await this.elementExists(sel)) {
-          passwordField = sel;
-          log.info(`Found password field: ${sel}`);
-          break;
+        // Try multiple password field selectors
+        const passwordSelectors = ['#password', 'input[name="session_password"]', 'input[type="password"]'];
+        let passwordField = null;
+        for (const sel of passwordSelectors) {
+          if (await this.elementExists(sel)) {
+            passwordField = sel;
+            log.info(`Found password field: ${sel}`);
+            break;
+          }
         }
-      }
       
-      if (!passwordField) {
-        log.error('Password field not found');
-        return false;
-      }
+        if (!passwordField) {
+          log.error('Password field not found');
+          return false;
+        }
 
-      // Enter password
-      await page.locator(passwordField).first().fill(password);
-      log.info('Password entered');
-      await this.pause();
+        // Enter password
+        await page.locator(passwordField).first().fill(password);
+        log.info('Password entered');
+        await this.pause();
 
-      // Screenshot before login
-      await page.screenshot({ path: './sessions/debug-linkedin-before-login.png' });
+        // Screenshot before login
+        await page.screenshot({ path: './sessions/debug-linkedin-before-login.png' });
 
-      // Click login
-      const loginSelectors = ['button[type="submit"]', 'button:has-text("Sign in")'];
-      for (const sel of loginSelectors) {
-        if (await this.elementExists(sel)) {
-          log.info(`Clicking login button: ${sel}`);
-          await page.locator(sel).first().click();
-          break;
+        // Click login
+        const loginSelectors = ['button[type="submit"]', 'button:has-text("Sign in")'];
+        for (const sel of loginSelectors) {
+          if (await this.elementExists(sel)) {
+            log.info(`Clicking login button: ${sel}`);
+            await page.locator(sel).first().click();
+            break;
+          }
         }
-      }
-      await this.delay();
-
-      // Take screenshot after clicking login
-      await page.screenshot({ path: './sessions/debug-linkedin-login.png' });
-      log.info('Screenshot saved to ./sessions/debug-linkedin-login.png');
-
-      // Check for MFA/verification page
-      const mfaSelectors = [
-        'input[name="pin"]',
-        'input[id="input__email_verification_pin"]',
-        'h1:has-text("verification")',
-        'h1:has-text("Verify")',
-        'div:has-text("Approve from your")',
-        'div:has-text("verify it")',
-        'button:has-text("Verify")',
-      ];
-      
-      let mfaDetected = false;
-      for (const sel of mfaSelectors) {
-        if (await this.elementExists(sel)) {
-          mfaDetected = true;
-          break;
+        await this.delay();
+
+        // Take screenshot after clicking login
+        await page.screenshot({ path: './sessions/debug-linkedin-login.png' });
+        log.info('Screenshot saved to ./sessions/debug-linkedin-login.png');
+
+        // Check for MFA/verification page
+        const mfaSelectors = [
+          'input[name="pin"]',
+          'input[id="input__email_verification_pin"]',
+          'h1:has-text("verification")',
+          'h1:has-text("Verify")',
+          'div:has-text("Approve from your")',
+          'div:has-text("verify it")',
+          'button:has-text("Verify")',
+        ];
+      
+        let mfaDetected = false;
+        for (const sel of mfaSelectors) {
+          if (await this.elementExists(sel)) {
+            mfaDetected = true;
+            break;
+          }
         }
-      }
       
-      if (mfaDetected) {
-        log.info('🔐 MFA/Verification detected - please approve in your LinkedIn app or enter code');
-        await page.screenshot({ path: './sessions/debug-linkedin-mfa.png' });
-        log.info('MFA screenshot saved to ./sessions/debug-linkedin-mfa.png');
-      }
+        if (mfaDetected) {
+          log.info('🔐 MFA/Verification detected - please approve in your LinkedIn app or enter code');
+          await page.screenshot({ path: './sessions/debug-linkedin-mfa.png' });
+          log.info('MFA screenshot saved to ./sessions/debug-linkedin-mfa.png');
+        }
 
-      // Wait for login (longer timeout for MFA - 2 minutes)
-      const startTime = Date.now();
-      const timeout = 120000;
+        // Wait for login (longer timeout for MFA - 2 minutes)
+        const startTime = Date.now();
+        const timeout = 120000;
 
-      while (Date.now() - startTime < timeout) {
-        if (await this.isLoggedIn()) {
-          log.info('LinkedIn login successful');
-          await this.browserManager.saveSession('linkedin');
-          return true;
-        }
+        while (Date.now() - startTime < timeout) {
+          if (await this.isLoggedIn()) {
+            log.info('LinkedIn login successful');
+            await this.saveSession();
+            return true;
+          }
         
-        // Periodic status update
-        if ((Date.now() - startTime) % 15000 < 1000) {
-          log.info('Waiting for login/MFA approval...', { elapsed: Math.round((Date.now() - startTime) / 1000) });
-        }
+          // Periodic status update
+          if ((Date.now() - startTime) % 15000 < 1000) {
+            log.info('Waiting for login/MFA approval...', { elapsed: Math.round((Date.now() - startTime) / 1000) });
+          }
         
-        await new Promise((resolve) => setTimeout(resolve, 1000));
-      }
+          await new Promise((resolve) => setTimeout(resolve, 1000));
+        }
 
-      await page.screenshot({ path: './sessions/debug-linkedin-timeout.png' });
-      log.error('LinkedIn login timeout - check ./sessions/debug-linkedin-timeout.png');
-      return false;
-    } catch (error) {
-      log.error('LinkedIn login failed', { error: String(error) });
-      return false;
-    }
+        await page.screenshot({ path: './sessions/debug-linkedin-timeout.png' });
+        log.error('LinkedIn login timeout - check ./sessions/debug-linkedin-timeout.png');
+        return false;
+      } catch (error) {
+        log.error('LinkedIn login failed', { error: String(error) });
+        return false;
+      }
+    });
   }
 
   /**
    * Logout from LinkedIn
    */
   async logout(): Promise<void> {
-    try {
-      await this.browserManager.closeContext('linkedin');
-      log.info('Logged out of LinkedIn');
-    } catch (error) {
-      log.error('Error logging out of LinkedIn', { error: String(error) });
-    }
+    return this.withPage('logout', async () => {
+      try {
+        await this.browserManager.closeContext(this.platform, this.account);
+        log.info('Logged out of LinkedIn');
+      } catch (error) {
+        log.error('Error logging out of LinkedIn', { error: String(error) });
+      }
+    });
   }
 
   /**
    * Like a LinkedIn post
    */
   async like(payload: LikePayload): Promise<ActionResult> {
-    const startTime = Date.now();
-    const { allowed, status } = await this.checkAndRecordAction('like');
+    return this.withPage('like', async () => {
+      const startTime = Date.now();
+      const { allowed, status, blocked } = await this.checkAndRecordAction('like', payload.url);
 
-    if (!allowed) {
-      return this.createErrorResult('like', payload.url, 'Rate limit exceeded', startTime, status);
-    }
+      if (!allowed) {
+        return this.createBlockedResult('like', payload.url, startTime, status, blocked);
+      }
 
-    try {
-      log.info('Liking LinkedIn post', { url: payload.url });
+      try {
+        log.info('Liking LinkedIn post', { url: payload.url });
 
-      // Navigate to feed first for warm-up browsing
-      await this.navigate(`${this.baseUrl}/feed/`);
-      await this.warmUp({ scrollCount: 3 + Math.floor(Math.random() * 3) });
+        // Navigate to feed first for warm-up browsing
+        await this.navigate(`${this.baseUrl}/feed/`);
+        await this.warmUp({ scrollCount: 3 + Math.floor(Math.random() * 3) });
 
-      // Now navigate to post
-      await this.navigate(payload.url);
-      await this.think();
+        // Now navigate to post
+        await this.navigate(payload.url);
+        await this.think();
 
-      // Check if already liked
-      if (await this.elementExists(SELECTORS.unlikeButton)) {
-        log.info('Post already liked');
+        // Check if already liked
+        if (await this.elementExists(SELECTORS.unlikeButton)) {
+          log.info('Post already liked');
+          return this.alreadyDoneResult('like', payload.url, startTime, status, {
+            postUrl: payload.url,
+            actions: ['❤️ Already Liked'],
+          });
+        }
+
+        if (!(await this.elementExists(SELECTORS.likeButton))) {
+          return await this.failAction('like', payload.url, 'Like button not found', startTime, status, 'SELECTOR_MISSING');
+        }
+
+        await this.clickHuman(SELECTORS.likeButton);
+        await this.pause();
+
+        await this.recordAction('like');
+        log.info('Successfully liked LinkedIn post');
         return this.createResult('like', payload.url, startTime, status, {
           postUrl: payload.url,
-          actions: ['❤️ Already Liked'],
+          actions: ['❤️ Liked'],
         });
+      } catch (error) {
+        log.error('Error liking LinkedIn post', { error: String(error) });
+        return await this.failAction('like', payload.url, String(error), startTime, status, errorCode(error));
       }
-
-      if (!(await this.elementExists(SELECTORS.likeButton))) {
-        return this.createErrorResult('like', payload.url, 'Like button not found', startTime, status);
-      }
-
-      await this.clickHuman(SELECTORS.likeButton);
-      await this.pause();
-
-      await this.recordAction('like');
-      log.info('Successfully liked LinkedIn post');
-      return this.createResult('like', payload.url, startTime, status, {
-        postUrl: payload.url,
-        actions: ['❤️ Liked'],
-      });
-    } catch (error) {
-      log.error('Error liking LinkedIn post', { error: String(error) });
-      return this.createErrorResult('like', payload.url, String(error), startTime, status);
-    }
+    });
   }
 
   /**
    * Comment on a LinkedIn post
    */
   async comment(payload: CommentPayload): Promise<ActionResult> {
-    const startTime = Date.now();
-    const { allowed, status } = await this.checkAndRecordAction('comment');
+    return this.withPage('comment', async () => {
+      const startTime = Date.now();
+      const { allowed, status, blocked } = await this.checkAndRecordAction('comment', payload.url);
+
+      if (!allowed) {
+        return this.createBlockedResult('comment', payload.url, startTime, status, blocked);
+      }
 
-    if (!allowed) {
-      return this.createErrorResult('comment', payload.url, 'Rate limit exceeded', startTime, status);
-    }
+      try {
+        log.info('Commenting on LinkedIn post', { url: payload.url });
 
-    try {
-      log.info('Commenting on LinkedIn post', { url: payload.url });
+        // Navigate to feed first for warm-up browsing
+        await this.navigate(`${this.baseUrl}/feed/`);
+        await this.warmUp({ scrollCount: 3 + Math.floor(Math.random() * 3) });
 
-      // Navigate to feed first for warm-up browsing
-      await this.navigate(`${this.baseUrl}/feed/`);
-      await this.warmUp({ scrollCount: 3 + Math.floor(Math.random() * 3) });
+        // Now navigate to post
+        await this.navigate(payload.url);
+        await this.think();
 
-      // Now navigate to post
-      await this.navigate(payload.url);
-      await this.think();
+        // Click comment button to expand input
+        if (await this.elementExists(SELECTORS.commentButton)) {
+          await this.clickHuman(SELECTORS.commentButton);
+          await this.pause();
+        }
+
+        // Wait for comment input
+        if (!(await this.waitForElement(SELECTORS.commentInput, 10000))) {
+          return await this.failAction('comment', payload.url, 'Comment input not found', startTime, status, 'SELECTOR_MISSING');
+        }
 
-      // Click comment button to expand input
-      if (await this.elementExists(SELECTORS.commentButton)) {
-        await this.clickHuman(SELECTORS.commentButton);
+        // Sanitize and type comment
+        const sanitizedText = this.sanitizeText(payload.text);
+        await this.clickHuman(SELECTORS.commentInput);
+      
+        const page = await this.getPage();
+        await page.keyboard.type(sanitizedText, { delay: 50 });
         await this.pause();
-      }
 
-      // Wait for comment input
-      if (!(await this.waitForElement(SELECTORS.commentInput, 10000))) {
-        return this.createErrorResult('comment', payload.url, 'Comment input not found', startTime, status);
-      }
+        // Submit comment — MUST find and click submit button
+        const submitFound = await this.elementExists(SELECTORS.commentSubmit);
+        if (!submitFound) {
+          // Try pressing Ctrl+Enter as fallback
+          log.warn('Comment submit button not found, trying Ctrl+Enter fallback');
+          await page.keyboard.press('Control+Enter');
+          await this.pause();
+        } else {
+          await this.clickHuman(SELECTORS.commentSubmit);
+        }
 
-      // Sanitize and type comment
-      const sanitizedText = this.sanitizeText(payload.text);
-      await this.clickHuman(SELECTORS.commentInput);
+        // Verify comment was actually posted by checking for our text on the page
+        await this.delay();
+        const pageContent = await page.content();
+        const commentLanded = pageContent.includes(sanitizedText.substring(0, 30));
       
-      const page = await this.getPage();
-      await page.keyboard.type(sanitizedText, { delay: 50 });
-      await this.pause();
+        if (!commentLanded) {
+          log.error('Comment text not found on page after submit — comment likely did NOT post');
+          return await this.failAction('comment', payload.url, 'Comment submit failed — text not found on page after submit', startTime, status, 'SELECTOR_MISSING');
+        }
 
-      // Submit comment — MUST find and click submit button
-      const submitFound = await this.elementExists(SELECTORS.commentSubmit);
-      if (!submitFound) {
-        // Try pressing Ctrl+Enter as fallback
-        log.warn('Comment submit button not found, trying Ctrl+Enter fallback');
-        await page.keyboard.press('Control+Enter');
-        await this.pause();
-      } else {
-        await this.clickHuman(SELECTORS.commentSubmit);
+        await this.recordAction('comment');
+      
+        log.info('Successfully commented on LinkedIn post (verified on page)');
+        return this.createResult('comment', payload.url, startTime, status, {
+          postUrl: payload.url,
+          commentText: sanitizedText,
+          actions: ['💬 Commented (verified)'],
+        });
+      } catch (error) {
+        log.error('Error commenting on LinkedIn post', { error: String(error) });
+        return await this.failAction('comment', payload.url, String(error), startTime, status, errorCode(error));
       }
+    });
+  }
 
-      // Verify comment was actually posted by checking for our text on the page
-      await this.delay();
-      const pageContent = await page.content();
-      const commentLanded = pageContent.includes(sanitizedText.substring(0, 30));
-      
-      if (!commentLanded) {
-        log.error('Comment text not found on page after submit — comment likely did NOT post');
-        return this.createErrorResult('comment', payload.url, 'Comment submit failed — text not found on page after submit', startTime, status);
+  /**
+   * Publish a LinkedIn post (text, optionally with images)
+   */
+  async post(payload: PostPayload): Promise<ActionResult> {
+    return this.withPage('post', async () => {
+      const startTime = Date.now();
+      const target = payload.text.substring(0, 50);
+      const { allowed, status, blocked } = await this.checkAndRecordAction('post');
+
+      if (!allowed) {
+        return this.createBlockedResult('post', target, startTime, status, blocked);
       }
 
-      await this.recordAction('comment');
-      
-      log.info('Successfully commented on LinkedIn post (verified on page)');
-      return this.createResult('comment', payload.url, startTime, status, {
-        postUrl: payload.url,
-        commentText: sanitizedText,
-        actions: ['💬 Commented (verified)'],
-      });
-    } catch (error) {
-      log.error('Error commenting on LinkedIn post', { error: String(error) });
-      return this.createErrorResult('comment', payload.url, String(error), startTime, status);
-    }
+      try {
+        const media = this.resolveMedia(payload.media);
+        log.info('Publishing LinkedIn post', { text: target, media: media.length });
+
+        // Navigate to feed first for warm-up browsing
+        await this.navigate(`${this.baseUrl}/feed/`);
+        await this.warmUp({ scrollCount: 2 + Math.floor(Math.random() * 3) });
+        await this.scroll('up', 5000);
+
+        // Open the composer
+        if (!(await this.waitForElement(SELECTORS.startPostButton, 10000))) {
+          return await this.failAction('post', target, 'Start a post button not found', startTime, status, 'SELECTOR_MISSING');
+        }
+        await this.clickHuman(SELECTORS.startPostButton);
+        await this.pause();
+
+        if (!(await this.waitForElement(SELECTORS.postEditor, 10000))) {
+          return await this.failAction('post', target, 'Post editor not found', startTime, status, 'SELECTOR_MISSING');
+        }
+
+        // Sanitize and type post text
+        const sanitizedText = this.sanitizeText(payload.text);
+        await this.clickHuman(SELECTORS.postEditor);
+
+        const page = await this.getPage();
+        await page.keyboard.type(sanitizedText, { delay: 50 });
+        await this.pause();
+
+        // Attach images through the media picker, then confirm the media editor
+        if (media.length > 0) {
+          if (!(await this.elementExists(SELECTORS.postMediaButton))) {
+            return await this.failAction('post', target, 'Add media button not found', startTime, status, 'SELECTOR_MISSING');
+          }
+          const [chooser] = await Promise.all([
+            page.waitForEvent('filechooser', { timeout: 10000 }),
+            this.clickHuman(SELECTORS.postMediaButton),
+          ]);
+          await chooser.setFiles(media);
+          await this.delay();
+
+          if (await this.waitForElement(SELECTORS.postMediaNext, 15000)) {
+            await this.clickHuman(SELECTORS.postMediaNext);
+            await this.pause();
+          }
+        }
+
+        // Publish
+        if (!(await this.waitForElement(SELECTORS.postSubmit, 10000))) {
+          return await this.failAction('post', target, 'Post button not found', startTime, status, 'SELECTOR_MISSING');
+        }
+        await this.clickHuman(SELECTORS.postSubmit);
+
+        // Verify via the success toast
+        if (!(await this.waitForElement(SELECTORS.postSuccess, 30000))) {
+          log.error('LinkedIn success toast not shown after publishing — post likely did NOT go out');
+          return await this.failAction('post', target, 'Post publish failed — no confirmation after submit', startTime, status, 'TIMEOUT');
+        }
+        const postHref = (await this.elementExists(SELECTORS.postViewLink))
+          ? await this.getAttribute(SELECTORS.postViewLink, 'href')
+          : null;
+        const postUrl = postHref
+          ? (postHref.startsWith('http') ? postHref : `${this.baseUrl}${postHref}`).split('?')[0]
+          : undefined;
+
+        await this.delay();
+        await this.recordAction('post');
+
+        log.info('Successfully published LinkedIn post', { postUrl });
+        return this.createResult('post', target, startTime, status, {
+          postUrl,
+          commentText: sanitizedText,
+          actions: [media.length > 0 ? `📝 Posted with ${media.length} image(s)` : '📝 Posted'],
+        });
+      } catch (error) {
+        log.error('Error publishing LinkedIn post', { error: String(error) });
+        return await this.failAction('post', target, String(error), startTime, status, errorCode(error));
+      }
+    });
   }
 
   /**
    * Follow a LinkedIn user
    */
   async follow(payload: FollowPayload): Promise<ActionResult> {
-    const startTime = Date.now();
-    const { allowed, status } = await this.checkAndRecordAction('follow');
+    return this.withPage('follow', async () => {
+      const startTime = Date.now();
+      const { allowed, status, blocked } = await this.checkAndRecordAction('follow', payload.username);
 
-    if (!allowed) {
-      return this.createErrorResult('follow', payload.username, 'Rate limit exceeded', startTime, status);
-    }
+      if (!allowed) {
+        return this.createBlockedResult('follow', payload.username, startTime, status, blocked);
+      }
 
-    try {
-      log.info('Following LinkedIn user', { username: payload.username });
+      try {
+        log.info('Following LinkedIn user', { username: payload.username });
 
-      const profileUrl = payload.username.startsWith('http')
-        ? payload.username
-        : `${this.baseUrl}/in/${payload.username}/`;
+        const profileUrl = payload.username.startsWith('http')
+          ? payload.username
+          : `${this.baseUrl}/in/${payload.username}/`;
       
-      await this.navigate(profileUrl);
-      await this.think();
+        await this.navigate(profileUrl);
+        await this.think();
+
+        // Check if already following
+        if (await this.elementExists(SELECTORS.followingButton)) {
+          log.info('Already following user');
+          return this.alreadyDoneResult('follow', payload.username, startTime, status, {
+            profileUrl: payload.username.startsWith('http') ? payload.username : `https://linkedin.com/in/${payload.username}`,
+            actions: ['👥 Already Following'],
+          });
+        }
+
+        if (!(await this.elementExists(SELECTORS.followButton))) {
+          return await this.failAction('follow', payload.username, 'Follow button not found', startTime, status, 'SELECTOR_MISSING');
+        }
 
-      // Check if already following
-      if (await this.elementExists(SELECTORS.followingButton)) {
-        log.info('Already following user');
+        await this.clickHuman(SELECTORS.followButton);
+        await this.delay();
+
+        await this.recordAction('follow');
+        log.info('Successfully followed LinkedIn user');
         return this.createResult('follow', payload.username, startTime, status, {
           profileUrl: payload.username.startsWith('http') ? payload.username : `https://linkedin.com/in/${payload.username}`,
-          actions: ['👥 Already Following'],
+          actions: ['👥 Followed'],
         });
+      } catch (error) {
+        log.error('Error following LinkedIn user', { error: String(error) });
+        return await this.failAction('follow', payload.username, String(error), startTime, status, errorCode(error));
       }
-
-      if (!(await this.elementExists(SELECTORS.followButton))) {
-        return this.createErrorResult('follow', payload.username, 'Follow button not found', startTime, status);
-      }
-
-      await this.clickHuman(SELECTORS.followButton);
-      await this.delay();
-
-      await this.recordAction('follow');
-      log.info('Successfully followed LinkedIn user');
-      return this.createResult('follow', payload.username, startTime, status, {
-        profileUrl: payload.username.startsWith('http') ? payload.username : `https://linkedin.com/in/${payload.username}`,
-        actions: ['👥 Followed'],
-      });
-    } catch (error) {
-      log.error('Error following LinkedIn user', { error: String(error) });
-      return this.createErrorResult('follow', payload.username, String(error), startTime, status);
-    }
+    });
   }
 
   /**
    * Unfollow a LinkedIn user
    */
   async unfollow(payload: FollowPayload): Promise<ActionResult> {
-    const startTime = Date.now();
-    const { allowed, status } = await this.checkAndRecordAction('follow');
+    return this.withPage('unfollow', async () => {
+      const startTime = Date.now();
+      const { allowed, status, blocked } = await this.checkAndRecordAction('unfollow', payload.username);
 
-    if (!allowed) {
-      return this.createErrorResult('unfollow', payload.username, 'Rate limit exceeded', startTime, status);
-    }
+      if (!allowed) {
+        return this.createBlockedResult('unfollow', payload.username, startTime, status, blocked);
+      }
 
-    try {
-      log.info('Unfollowing LinkedIn user', { username: payload.username });
+      try {
+        log.info('Unfollowing LinkedIn user', { username: payload.username });
 
-      const profileUrl = payload.username.startsWith('http')
-        ? payload.username
-        : `${this.baseUrl}/in/${payload.username}/`;
+        const profileUrl = payload.username.startsWith('http')
+          ? payload.username
+          : `${this.baseUrl}/in/${payload.username}/`;
       
-      await this.navigate(profileUrl);
-      await this.think();
+        await this.navigate(profileUrl);
+        await this.think();
 
-      if (!(await this.elementExists(SELECTORS.followingButton))) {
-        log.info('Not following user');
-        return this.createResult('unfollow', payload.username, startTime, status);
-      }
+        if (!(await this.elementExists(SELECTORS.followingButton))) {
+          log.info('Not following user');
+          return this.alreadyDoneResult('unfollow', payload.username, startTime, status);
+        }
 
-      await this.clickHuman(SELECTORS.followingButton);
-      await this.delay();
+        await this.clickHuman(SELECTORS.followingButton);
+        await this.delay();
 
-      await this.recordAction('follow');
-      log.info('Successfully unfollowed LinkedIn user');
-      return this.createResult('unfollow', payload.username, startTime, status);
-    } catch (error) {
-      log.error('Error unfollowing LinkedIn user', { error: String(error) });
-      return this.createErrorResult('unfollow', payload.username, String(error), startTime, status);
-    }
+        await this.recordAction('follow');
+        log.info('Successfully unfollowed LinkedIn user');
+        return this.createResult('unfollow', payload.username, startTime, status);
+      } catch (error) {
+        log.error('Error unfollowing LinkedIn user', { error: String(error) });
+        return await this.failAction('unfollow', payload.username, String(error), startTime, status, errorCode(error));
+      }
+    });
   }
 
   /**
    * Send a connection request
    */
   async connect(payload: ConnectPayload): Promise<ActionResult> {
-    const startTime = Date.now();
-    const { allowed, status } = await this.checkAndRecordAction('follow'); // Connect counts against follow limit
+    return this.withPage('connect', async () => {
+      const startTime = Date.now();
+      const { allowed, status, blocked } = await this.checkAndRecordAction('connect', payload.profileUrl);
 
-    if (!allowed) {
-      return this.createErrorResult('connect', payload.profileUrl, 'Rate limit exceeded', startTime, status);
-    }
+      if (!allowed) {
+        return this.createBlockedResult('connect', payload.profileUrl, startTime, status, blocked);
+      }
 
-    try {
-      log.info('Sending LinkedIn connection request', { url: payload.profileUrl });
+      try {
+        log.info('Sending LinkedIn connection request', { url: payload.profileUrl });
 
-      await this.navigate(payload.profileUrl);
-      await this.think();
+        await this.navigate(payload.profileUrl);
+        await this.think();
 
-      const page = await this.getPage();
+        const page = await this.getPage();
       
-      // FIRST: Wait for profile to fully load before any button detection
-      // Use a retry loop because Playwright locators can be slow to detect new elements
-      let profileLoaded = false;
-      for (let attempt = 0; attempt < 10 && !profileLoaded; attempt++) {
-        await page.waitForTimeout(1000);
-        const messageCount = await page.locator('button[aria-label^="Message "]').count();
-        const moreCount = await page.locator('button[aria-label="More actions"]').count();
-        if (messageCount > 0 || moreCount > 0) {
-          profileLoaded = true;
-          log.info('Profile header loaded', { attempt: attempt + 1, messageCount, moreCount });
+        // FIRST: Wait for profile to fully load before any button detection
+        // Use a retry loop because Playwright locators can be slow to detect new elements
+        let profileLoaded = false;
+        for (let attempt = 0; attempt < 10 && !profileLoaded; attempt++) {
+          await page.waitForTimeout(1000);
+          const messageCount = await page.locator('button[aria-label^="Message "]').count();
+          const moreCount = await page.locator('button[aria-label="More actions"]').count();
+          if (messageCount > 0 || moreCount > 0) {
+            profileLoaded = true;
+            log.info('Profile header loaded', { attempt: attempt + 1, messageCount, moreCount });
+          }
         }
-      }
       
-      if (!profileLoaded) {
-        log.warn('Profile header not detected after 10 attempts');
-        await page.screenshot({ path: '/tmp/linkedin-connect-debug.png' });
-        const currentUrl = page.url();
-        log.info('Debug info', { url: currentUrl, screenshot: '/tmp/linkedin-connect-debug.png' });
-        if (currentUrl.includes('/login') || currentUrl.includes('/authwall')) {
-          return this.createErrorResult('connect', payload.profileUrl, 'Not logged in - session may have expired', startTime, status);
+        if (!profileLoaded) {
+          log.warn('Profile header not detected after 10 attempts');
+          await page.screenshot({ path: '/tmp/linkedin-connect-debug.png' });
+          const currentUrl = page.url();
+          log.info('Debug info', { url: currentUrl, screenshot: '/tmp/linkedin-connect-debug.png' });
+          if (currentUrl.includes('/login') || currentUrl.includes('/authwall')) {
+            return await this.failAction('connect', payload.profileUrl, 'Not logged in - session may have expired', startTime, status, 'SESSION_EXPIRED');
+          }
         }
-      }
-      await page.waitForTimeout(500); // Small buffer after detection
+        await page.waitForTimeout(500); // Small buffer after detection
 
-      // Check for Connect button (LinkedIn shows Message for 2nd degree too)
-      // Look for main profile Connect button (not sidebar suggestions)
+        // Check for Connect button (LinkedIn shows Message for 2nd degree too)
+        // Look for main profile Connect button (not sidebar suggestions)
       
-      // Find Connect buttons and check if any are for the main profile (must be visible)
-      const connectButtons = await page.locator('button:has-text("Connect")').all();
-      let mainConnectButton = null;
+        // Find Connect buttons and check if any are for the main profile (must be visible)
+        const connectButtons = await page.locator('button:has-text("Connect")').all();
+        let mainConnectButton = null;
       
-      for (const btn of connectButtons) {
-        try {
-          // Check if button is visible
-          const isVisible = await btn.isVisible();
-          if (!isVisible) continue;
+        for (const btn of connectButtons) {
+          try {
+            // Check if button is visible
+            const isVisible = await btn.isVisible();
+            if (!isVisible) continue;
           
-          const ariaLabel = await btn.getAttribute('aria-label');
-          const classes = await btn.getAttribute('class');
+            const ariaLabel = await btn.getAttribute('aria-label');
+            const classes = await btn.getAttribute('class');
           
-          // Skip sticky header buttons
-          if (classes?.includes('sticky-header')) continue;
+            // Skip sticky header buttons
+            if (classes?.includes('sticky-header')) continue;
           
-          // Main profile Connect doesn't have "Invite X to connect" - sidebar suggestions do
-          if (!ariaLabel || !ariaLabel.toLowerCase().includes('invite')) {
-            mainConnectButton = btn;
-            break;
+            // Main profile Connect doesn't have "Invite X to connect" - sidebar suggestions do
+            if (!ariaLabel || !ariaLabel.toLowerCase().includes('invite')) {
+              mainConnectButton = btn;
+              break;
+            }
+          } catch {
+            // Skip problematic buttons
           }
-        } catch {
-          // Skip problematic buttons
         }
-      }
       
-      // Also check for Follow button on main profile (must be visible, not sticky header)
-      const followButtons = await page.locator('button:has-text("Follow"):not(:has-text("Following"))').all();
-      let mainFollowButton = null;
+        // Also check for Follow button on main profile (must be visible, not sticky header)
+        const followButtons = await page.locator('button:has-text("Follow"):not(:has-text("Following"))').all();
+        let mainFollowButton = null;
       
-      for (const btn of followButtons) {
-        try {
-          // Check if button is visible
-          const isVisible = await btn.isVisible();
-          if (!isVisible) continue;
+        for (const btn of followButtons) {
+          try {
+            // Check if button is visible
+            const isVisible = await btn.isVisible();
+            if (!isVisible) continue;
           
-          const ariaLabel = await btn.getAttribute('aria-label');
-          const classes = await btn.getAttribute('class');
+            const ariaLabel = await btn.getAttribute('aria-label');
+            const classes = await btn.getAttribute('class');
           
-          // Skip sticky header buttons
-          if (classes?.includes('sticky-header')) continue;
+            // Skip sticky header buttons
+            if (classes?.includes('sticky-header')) continue;
           
-          // Main profile Follow usually has the person's name
-          if (ariaLabel && ariaLabel.toLowerCase().includes('follow') && !ariaLabel.toLowerCase().includes('unfollow')) {
-            mainFollowButton = btn;
-            break;
+            // Main profile Follow usually has the person's name
+            if (ariaLabel && ariaLabel.toLowerCase().includes('follow') && !ariaLabel.toLowerCase().includes('unfollow')) {
+              mainFollowButton = btn;
+              break;
+            }
+          } catch {
+            // Skip problematic buttons
           }
-        } catch {
-          // Skip problematic buttons
         }
-      }
       
-      const hasMainConnectButton = mainConnectButton !== null;
-      const hasMainFollowButton = mainFollowButton !== null;
+        const hasMainConnectButton = mainConnectButton !== null;
+        const hasMainFollowButton = mainFollowButton !== null;
       
-      log.info('Button detection', { hasMainConnectButton, hasMainFollowButton });
+        log.info('Button detection', { hasMainConnectButton, hasMainFollowButton });
 
-      // Check for "More" button (for 3rd degree connections where Connect is hidden in dropdown)
-      // Iterate through all More buttons to find a visible main profile one
-      const moreButtons = await page.locator('button[aria-label="More actions"]').all();
-      let moreButton = null;
+        // Check for "More" button (for 3rd degree connections where Connect is hidden in dropdown)
+        // Iterate through all More buttons to find a visible main profile one
+        const moreButtons = await page.locator('button[aria-label="More actions"]').all();
+        let moreButton = null;
       
-      for (const btn of moreButtons) {
-        try {
-          const isVisible = await btn.isVisible();
-          if (!isVisible) continue;
+        for (const btn of moreButtons) {
+          try {
+            const isVisible = await btn.isVisible();
+            if (!isVisible) continue;
           
-          const classes = await btn.getAttribute('class');
-          // Skip sticky header buttons
-          if (classes?.includes('sticky-header')) continue;
+            const classes = await btn.getAttribute('class');
+            // Skip sticky header buttons
+            if (classes?.includes('sticky-header')) continue;
           
-          moreButton = btn;
-          log.debug('Found visible More button');
-          break;
-        } catch {
-          // Skip problematic buttons
+            moreButton = btn;
+            log.debug('Found visible More button');
+            break;
+          } catch {
+            // Skip problematic buttons
+          }
         }
-      }
       
-      const hasMoreButton = moreButton !== null;
-      log.info('More button detection', { hasMoreButton, totalMoreButtons: moreButtons.length });
-
-      // If Connect button exists, person is NOT connected - proceed to connect
-      if (hasMainConnectButton) {
-        log.info('Found main profile Connect button - not connected yet');
-      } else if (hasMoreButton && moreButton) {
-        // For 3rd degree connections: Connect is hidden in "More" dropdown
-        log.info('No direct Connect button, checking More dropdown...');
+        const hasMoreButton = moreButton !== null;
+        log.info('More button detection', { hasMoreButton, totalMoreButtons: moreButtons.length });
+
+        // If Connect button exists, person is NOT connected - proceed to connect
+        if (hasMainConnectButton) {
+          log.info('Found main profile Connect button - not connected yet');
+        } else if (hasMoreButton && moreButton) {
+          // For 3rd degree connections: Connect is hidden in "More" dropdown
+          log.info('No direct Connect button, checking More dropdown...');
         
-        // Click More to reveal dropdown
-        await moreButton.click();
-        await this.pause();
+          // Click More to reveal dropdown
+          await moreButton.click();
+          await this.pause();
         
-        // Look for Connect in the dropdown
-        const dropdownConnect = page.locator('.artdeco-dropdown__content:visible').locator('div:has-text("Connect"), span:has-text("Connect")').first();
-        const hasDropdownConnect = await dropdownConnect.isVisible().catch(() => false);
+          // Look for Connect in the dropdown
+          const dropdownConnect = page.locator('.artdeco-dropdown__content:visible').locator('div:has-text("Connect"), span:has-text("Connect")').first();
+          const hasDropdownConnect = await dropdownConnect.isVisible().catch(() => false);
         
-        if (hasDropdownConnect) {
-          log.info('Found Connect in More dropdown - clicking...');
-          await dropdownConnect.click();
-          await this.pause();
+          if (hasDropdownConnect) {
+            log.info('Found Connect in More dropdown - clicking...');
+            await dropdownConnect.click();
+            await this.pause();
+          
+            // Handle "How do you know..." modal or send without note
+            // First check for "Send without a note" / "Send now" confirmation dialog
+            const sendWithoutNoteBtn = page.locator('button[aria-label*="Send without"], button[aria-label*="Send now"], button:has-text("Send without a note"), button:has-text("Send now")').first();
+            const hasSendWithoutNote = await sendWithoutNoteBtn.isVisible().catch(() => false);
           
-          // Handle "How do you know..." modal or send without note
-          // First check for "Send without a note" / "Send now" confirmation dialog
+            if (hasSendWithoutNote) {
+              log.info('Found "Send without note" confirmation - clicking...');
+              await sendWithoutNoteBtn.click();
+              await this.pause();
+            } else {
+              // Handle connection modal (add note if provided)
+              if (payload.note && await this.elementExists(SELECTORS.addNoteButton)) {
+                await this.clickHuman(SELECTORS.addNoteButton);
+                await this.pause();
+                if (await this.waitForElement(SELECTORS.noteInput, 5000)) {
+                  await page.fill(SELECTORS.noteInput, payload.note);
+                  await this.pause();
+                }
+              }
+            
+              // Send connection request - try multiple selectors
+              const sendBtn = page.locator('button[aria-label*="Send"]:visible, button:has-text("Send"):visible').first();
+              const hasSendBtn = await sendBtn.isVisible().catch(() => false);
+              if (hasSendBtn) {
+                await sendBtn.click();
+                await this.pause();
+              
+                // Check if another confirmation modal appears after clicking Send
+                const confirmBtn = page.locator('button[aria-label*="Send without"], button[aria-label*="Send now"], button:has-text("Send without a note"), button:has-text("Send now")').first();
+                const hasConfirm = await confirmBtn.isVisible().catch(() => false);
+                if (hasConfirm) {
+                  log.info('Secondary confirmation modal - clicking...');
+                  await confirmBtn.click();
+                  await this.pause();
+                }
+              }
+            }
+          
+            await this.delay();
+            await this.recordAction('follow');
+          
+            log.info('Successfully sent LinkedIn connection request (via More dropdown)');
+            return this.createResult('connect', payload.profileUrl, startTime, status, {
+              profileUrl: payload.profileUrl,
+              method: 'More dropdown',
+              actions: ['🔗 Connection Sent'],
+            });
+          } else {
+            // Close dropdown and continue to other checks
+            await page.keyboard.press('Escape');
+            await this.pause();
+          }
+        } else {
+          // No Connect button, no More button - check if already connected or pending
+          if (await this.elementExists(SELECTORS.pendingButton)) {
+            log.info('Connection request already pending');
+            return this.alreadyDoneResult('connect', payload.profileUrl, startTime, status, {
+              profileUrl: payload.profileUrl,
+              actions: ['⏳ Already Pending'],
+            });
+          }
+        
+          // Check if already following
+          if (await this.elementExists(SELECTORS.followingButton)) {
+            log.info('Already following this profile');
+            return this.alreadyDoneResult('connect', payload.profileUrl, startTime, status, {
+              profileUrl: payload.profileUrl,
+              actions: ['👥 Already Following'],
+            });
+          }
+        
+          // No Connect, no Pending, no Following - check Message (truly connected)
+          if (await this.elementExists(SELECTORS.messageButton)) {
+            // Double check no Connect button with different selector
+            const anyConnect = await page.locator('button:has-text("Connect")').count();
+            if (anyConnect === 0 || !hasMainFollowButton) {
+              log.info('Already connected (no Connect button, has Message)');
+              return this.alreadyDoneResult('connect', payload.profileUrl, startTime, status, {
+                profileUrl: payload.profileUrl,
+                actions: ['✅ Already Connected'],
+              });
+            }
+          }
+        }
+
+        // Try Connect button first
+        const hasConnectButton = hasMainConnectButton;
+        const hasFollowButton = hasMainFollowButton;
+
+        if (!hasConnectButton && !hasFollowButton) {
+          return await this.failAction('connect', payload.profileUrl, 'Neither Connect nor Follow button found', startTime, status, 'SELECTOR_MISSING');
+        }
+
+        if (hasConnectButton && mainConnectButton) {
+          // Standard connect flow - click the actual button we found
+          log.info('Found Connect button, sending connection request');
+          await mainConnectButton.click();
+          await this.pause();
+
+          // Handle "Send without a note" confirmation if it appears immediately
           const sendWithoutNoteBtn = page.locator('button[aria-label*="Send without"], button[aria-label*="Send now"], button:has-text("Send without a note"), button:has-text("Send now")').first();
           const hasSendWithoutNote = await sendWithoutNoteBtn.isVisible().catch(() => false);
-          
+        
           if (hasSendWithoutNote) {
             log.info('Found "Send without note" confirmation - clicking...');
             await sendWithoutNoteBtn.click();
             await this.pause();
           } else {
-            // Handle connection modal (add note if provided)
+            // Add note if provided
             if (payload.note && await this.elementExists(SELECTORS.addNoteButton)) {
               await this.clickHuman(SELECTORS.addNoteButton);
               await this.pause();
+
               if (await this.waitForElement(SELECTORS.noteInput, 5000)) {
                 await page.fill(SELECTORS.noteInput, payload.note);
                 await this.pause();
               }
             }
-            
+
             // Send connection request - try multiple selectors
             const sendBtn = page.locator('button[aria-label*="Send"]:visible, button:has-text("Send"):visible').first();
             const hasSendBtn = await sendBtn.isVisible().catch(() => false);
             if (hasSendBtn) {
               await sendBtn.click();
               await this.pause();
-              
+            
               // Check if another confirmation modal appears after clicking Send
               const confirmBtn = page.locator('button[aria-label*="Send without"], button[aria-label*="Send now"], button:has-text("Send without a note"), button:has-text("Send now")').first();
               const hasConfirm = await confirmBtn.isVisible().catch(() => false);
@@ -686,250 +925,156 @@ export class LinkedInHandler extends BasePlatformHandler {
               }
             }
           }
-          
+
           await this.delay();
           await this.recordAction('follow');
-          
-          log.info('Successfully sent LinkedIn connection request (via More dropdown)');
+        
+          log.info('Successfully sent LinkedIn connection request');
           return this.createResult('connect', payload.profileUrl, startTime, status, {
             profileUrl: payload.profileUrl,
-            method: 'More dropdown',
+            method: 'Direct',
             actions: ['🔗 Connection Sent'],
           });
-        } else {
-          // Close dropdown and continue to other checks
-          await page.keyboard.press('Escape');
-          await this.pause();
-        }
-      } else {
-        // No Connect button, no More button - check if already connected or pending
-        if (await this.elementExists(SELECTORS.pendingButton)) {
-          log.info('Connection request already pending');
-          return this.createResult('connect', payload.profileUrl, startTime, status, {
-            profileUrl: payload.profileUrl,
-            actions: ['⏳ Already Pending'],
-          });
-        }
+        } else if (hasFollowButton && mainFollowButton) {
+          // Fallback to Follow for profiles with Follow-first mode - click the actual button
+          log.info('No Connect button, falling back to Follow');
+          await mainFollowButton.click();
+          await this.delay();
+          await this.recordAction('follow');
         
-        // Check if already following
-        if (await this.elementExists(SELECTORS.followingButton)) {
-          log.info('Already following this profile');
-          return this.createResult('connect', payload.profileUrl, startTime, status, {
+          log.info('Successfully followed LinkedIn profile (Follow-first mode)');
+          return this.createResult('follow', payload.profileUrl, startTime, status, {
             profileUrl: payload.profileUrl,
-            actions: ['👥 Already Following'],
+            method: 'Follow-first mode',
+            actions: ['👥 Followed'],
           });
         }
-        
-        // No Connect, no Pending, no Following - check Message (truly connected)
-        if (await this.elementExists(SELECTORS.messageButton)) {
-          // Double check no Connect button with different selector
-          const anyConnect = await page.locator('button:has-text("Connect")').count();
-          if (anyConnect === 0 || !hasMainFollowButton) {
-            log.info('Already connected (no Connect button, has Message)');
-            return this.createResult('connect', payload.profileUrl, startTime, status, {
-              profileUrl: payload.profileUrl,
-              actions: ['✅ Already Connected'],
-            });
-          }
-        }
-      }
-
-      // Try Connect button first
-      const hasConnectButton = hasMainConnectButton;
-      const hasFollowButton = hasMainFollowButton;
 
-      if (!hasConnectButton && !hasFollowButton) {
-        return this.createErrorResult('connect', payload.profileUrl, 'Neither Connect nor Follow button found', startTime, status);
+        return await this.failAction('connect', payload.profileUrl, 'Could not complete action', startTime, status, 'SELECTOR_MISSING');
+      } catch (error) {
+        log.error('Error sending LinkedIn connection request', { error: String(error) });
+        return await this.failAction('connect', payload.profileUrl, String(error), startTime, status, errorCode(error));
       }
-
-      if (hasConnectButton && mainConnectButton) {
-        // Standard connect flow - click the actual button we found
-        log.info('Found Connect button, sending connection request');
-        await mainConnectButton.click();
-        await this.pause();
-
-        // Handle "Send without a note" confirmation if it appears immediately
-        const sendWithoutNoteBtn = page.locator('button[aria-label*="Send without"], button[aria-label*="Send now"], button:has-text("Send without a note"), button:has-text("Send now")').first();
-        const hasSendWithoutNote = await sendWithoutNoteBtn.isVisible().catch(() => false);
-        
-        if (hasSendWithoutNote) {
-          log.info('Found "Send without note" confirmation - clicking...');
-          await sendWithoutNoteBtn.click();
-          await this.pause();
-        } else {
-          // Add note if provided
-          if (payload.note && await this.elementExists(SELECTORS.addNoteButton)) {
-            await this.clickHuman(SELECTORS.addNoteButton);
-            await this.pause();
-
-            if (await this.waitForElement(SELECTORS.noteInput, 5000)) {
-              await page.fill(SELECTORS.noteInput, payload.note);
-              await this.pause();
-            }
-          }
-
-          // Send connection request - try multiple selectors
-          const sendBtn = page.locator('button[aria-label*="Send"]:visible, button:has-text("Send"):visible').first();
-          const hasSendBtn = await sendBtn.isVisible().catch(() => false);
-          if (hasSendBtn) {
-            await sendBtn.click();
-            await this.pause();
-            
-            // Check if another confirmation modal appears after clicking Send
-            const confirmBtn = page.locator('button[aria-label*="Send without"], button[aria-label*="Send now"], button:has-text("Send without a note"), button:has-text("Send now")').first();
-            const hasConfirm = await confirmBtn.isVisible().catch(() => false);
-            if (hasConfirm) {
-              log.info('Secondary confirmation modal - clicking...');
-              await confirmBtn.click();
-              await this.pause();
-            }
-          }
-        }
-
-        await this.delay();
-        await this.recordAction('follow');
-        
-        log.info('Successfully sent LinkedIn connection request');
-        return this.createResult('connect', payload.profileUrl, startTime, status, {
-          profileUrl: payload.profileUrl,
-          method: 'Direct',
-          actions: ['🔗 Connection Sent'],
-        });
-      } else if (hasFollowButton && mainFollowButton) {
-        // Fallback to Follow for profiles with Follow-first mode - click the actual button
-        log.info('No Connect button, falling back to Follow');
-        await mainFollowButton.click();
-        await this.delay();
-        await this.recordAction('follow');
-        
-        log.info('Successfully followed LinkedIn profile (Follow-first mode)');
-        return this.createResult('follow', payload.profileUrl, startTime, status, {
-          profileUrl: payload.profileUrl,
-          method: 'Follow-first mode',
-          actions: ['👥 Followed'],
-        });
-      }
-
-      return this.createErrorResult('connect', payload.profileUrl, 'Could not complete action', startTime, status);
-    } catch (error) {
-      log.error('Error sending LinkedIn connection request', { error: String(error) });
-      return this.createErrorResult('connect', payload.profileUrl, String(error), startTime, status);
-    }
+    });
   }
 
   /**
    * Send a LinkedIn message
    */
   async dm(payload: DMPayload): Promise<ActionResult> {
-    const startTime = Date.now();
-    const { allowed, status } = await this.checkAndRecordAction('dm');
+    return this.withPage('dm', async () => {
+      const startTime = Date.now();
+      const { allowed, status, blocked } = await this.checkAndRecordAction('dm', payload.username);
 
-    if (!allowed) {
-      return this.createErrorResult('dm', payload.username, 'Rate limit exceeded', startTime, status);
-    }
+      if (!allowed) {
+        return this.createBlockedResult('dm', payload.username, startTime, status, blocked);
+      }
 
-    try {
-      log.info('Sending LinkedIn message', { username: payload.username });
+      try {
+        log.info('Sending LinkedIn message', { username: payload.username });
 
-      // Navigate to feed first for warm-up browsing
-      await this.navigate(`${this.baseUrl}/feed/`);
-      await this.warmUp({ scrollCount: 3 + Math.floor(Math.random() * 3) });
+        // Navigate to feed first for warm-up browsing
+        await this.navigate(`${this.baseUrl}/feed/`);
+        await this.warmUp({ scrollCount: 3 + Math.floor(Math.random() * 3) });
 
-      // Navigate to profile
-      const profileUrl = payload.username.startsWith('http')
-        ? payload.username
-        : `${this.baseUrl}/in/${payload.username}/`;
+        // Navigate to profile
+        const profileUrl = payload.username.startsWith('http')
+          ? payload.username
+          : `${this.baseUrl}/in/${payload.username}/`;
       
-      await this.navigate(profileUrl);
-      await this.think();
+        await this.navigate(profileUrl);
+        await this.think();
 
-      // Click message button
-      if (!(await this.waitForElement(SELECTORS.messageButton, 10000))) {
-        return this.createErrorResult('dm', payload.username, 'Message button not found (not connected?)', startTime, status);
-      }
+        // Click message button
+        if (!(await this.waitForElement(SELECTORS.messageButton, 10000))) {
+          return await this.failAction('dm', payload.username, 'Message button not found (not connected?)', startTime, status, 'SELECTOR_MISSING');
+        }
 
-      await this.clickHuman(SELECTORS.messageButton);
-      await this.delay();
+        await this.clickHuman(SELECTORS.messageButton);
+        await this.delay();
 
-      // Wait for message input
-      if (!(await this.waitForElement(SELECTORS.messageInput, 10000))) {
-        return this.createErrorResult('dm', payload.username, 'Message input not found', startTime, status);
-      }
+        // Wait for message input
+        if (!(await this.waitForElement(SELECTORS.messageInput, 10000))) {
+          return await this.failAction('dm', payload.username, 'Message input not found', startTime, status, 'SELECTOR_MISSING');
+        }
 
-      // Type message
-      await this.clickHuman(SELECTORS.messageInput);
+        // Type message
+        await this.clickHuman(SELECTORS.messageInput);
       
-      const page = await this.getPage();
-      await page.keyboard.type(payload.message, { delay: 50 });
-      await this.pause();
+        const page = await this.getPage();
+        await page.keyboard.type(payload.message, { delay: 50 });
+        await this.pause();
 
-      // Send message
-      if (await this.elementExists(SELECTORS.messageSend)) {
-        await this.clickHuman(SELECTORS.messageSend);
-      }
+        // Send message
+        if (await this.elementExists(SELECTORS.messageSend)) {
+          await this.clickHuman(SELECTORS.messageSend);
+        }
 
-      await this.delay();
-      await this.recordAction('dm');
-      
-      log.info('Successfully sent LinkedIn message');
-      return this.createResult('dm', payload.username, startTime, status, {
-        profileUrl: payload.username.startsWith('http') ? payload.username : `https://linkedin.com/in/${payload.username}`,
-        messagePreview: payload.message,
-        actions: ['✉️ Message Sent'],
-      });
-    } catch (error) {
-      log.error('Error sending LinkedIn message', { error: String(error) });
-      return this.createErrorResult('dm', payload.username, String(error), startTime, status);
-    }
+        await this.delay();
+        await this.recordAction('dm');
+      
+        log.info('Successfully sent LinkedIn message');
+        return this.createResult('dm', payload.username, startTime, status, {
+          profileUrl: payload.username.startsWith('http') ? payload.username : `https://linkedin.com/in/${payload.username}`,
+          messagePreview: payload.message,
+          actions: ['✉️ Message Sent'],
+        });
+      } catch (error) {
+        log.error('Error sending LinkedIn message', { error: String(error) });
+        return await this.failAction('dm', payload.username, String(error), startTime, status, errorCode(error));
+      }
+    });
   }
 
   /**
    * Get LinkedIn profile data
    */
   async getProfile(username: string): Promise<LinkedInProfile> {
-    try {
-      log.info('Getting LinkedIn profile', { username });
+    return this.withPage('getProfile', async () => {
+      try {
+        log.info('Getting LinkedIn profile', { username });
 
-      const profileUrl = username.startsWith('http')
-        ? username
-        : `${this.baseUrl}/in/${username}/`;
+        const profileUrl = username.startsWith('http')
+          ? username
+          : `${this.baseUrl}/in/${username}/`;
       
-      await this.navigate(profileUrl);
-      await this.think();
-
-      const profile: LinkedInProfile = {
-        username: username.replace(/^.*\/in\/([^/]+).*$/, '$1'),
-      };
-
-      // Get full name
-      const fullName = await this.getText(SELECTORS.profileName);
-      if (fullName) profile.fullName = fullName;
-
-      // Get headline
-      const headline = await this.getText(SELECTORS.profileHeadline);
-      if (headline) profile.headline = headline;
+        await this.navigate(profileUrl);
+        await this.think();
+
+        const profile: LinkedInProfile = {
+          username: username.replace(/^.*\/in\/([^/]+).*$/, '$1'),
+        };
+
+        // Get full name
+        const fullName = await this.getText(SELECTORS.profileName);
+        if (fullName) profile.fullName = fullName;
+
+        // Get headline
+        const headline = await this.getText(SELECTORS.profileHeadline);
+        if (headline) profile.headline = headline;
+
+        // Get location
+        const location = await this.getText(SELECTORS.profileLocation);
+        if (location) profile.location = location;
+
+        // Get connection count
+        const connectionText = await this.getText(SELECTORS.connectionCount);
+        if (connectionText) {
+          const match = connectionText.match(/(\d+)/);
+          if (match) profile.connections = parseInt(match[1], 10);
+        }
 
-      // Get location
-      const location = await this.getText(SELECTORS.profileLocation);
-      if (location) profile.location = location;
+        // Get about section
+        const about = await this.getText(SELECTORS.aboutSection);
+        if (about) profile.about = about;
 
-      // Get connection count
-      const connectionText = await this.getText(SELECTORS.connectionCount);
-      if (connectionText) {
-        const match = connectionText.match(/(\d+)/);
-        if (match) profile.connections = parseInt(match[1], 10);
+        log.info('Got LinkedIn profile', { profile });
+        return profile;
+      } catch (error) {
+        log.error('Error getting LinkedIn profile', { error: String(error) });
+        return { username };
       }
-
-      // Get about section
-      const about = await this.getText(SELECTORS.aboutSection);
-      if (about) profile.about = about;
-
-      log.info('Got LinkedIn profile', { profile });
-      return profile;
-    } catch (error) {
-      log.error('Error getting LinkedIn profile', { error: String(error) });
-      return { username };
-    }
+    });
   }
 
   /**
@@ -939,54 +1084,192 @@ export class LinkedInHandler extends BasePlatformHandler {
     html: string;
     posts: Array<{ url: string; urn: string; preview?: string }>;
   }> {
-    try {
-      log.info('Searching LinkedIn', { query });
+    return this.withPage('search', async () => {
+      try {
+        log.info('Searching LinkedIn', { query });
 
-      const page = await this.getPage();
-      const searchUrl = `${this.baseUrl}/search/results/content/?keywords=${encodeURIComponent(query)}&origin=GLOBAL_SEARCH_HEADER&sortBy=%5B%22date_posted%22%5D`;
+        const page = await this.getPage();
+        const searchUrl = `${this.baseUrl}/search/results/content/?keywords=${encodeURIComponent(query)}&origin=GLOBAL_SEARCH_HEADER&sortBy=%5B%22date_posted%22%5D`;
       
-      await this.navigate(searchUrl);
-      await this.think();
+        await this.navigate(searchUrl);
+        await this.think();
 
-      // Scroll to load more content (25 scrolls to get ~10-15 posts per query)
-      for (let i = 0; i < 25; i++) {
-        await page.evaluate('window.scrollBy(0, 1000)');
-        await page.waitForTimeout(1200 + Math.floor(Math.random() * 800));
-      }
+        // Scroll to load more content (25 scrolls to get ~10-15 posts per query)
+        for (let i = 0; i < 25; i++) {
+          await page.evaluate('window.scrollBy(0, 1000)');
+          await page.waitForTimeout(1200 + Math.floor(Math.random() * 800));
+        }
 
-      // Get HTML
-      const html = await page.content();
-
-      // Extract posts from HTML
-      const posts: Array<{ url: string; urn: string; preview?: string }> = [];
-      const seen = new Set<string>();
-
-      // Strategy 1: Match feed/update href links (classic format)
-      const hrefRegex = /href="(https:\/\/www\.linkedin\.com\/feed\/update\/(urn:li:(?:share|ugcPost|activity):[0-9]+)[^"]*)"/g;
-      let match;
-      while ((match = hrefRegex.exec(html)) !== null) {
-        const fullUrl = match[1].split('?')[0];
-        const urn = match[2];
-        if (seen.has(urn)) continue;
-        seen.add(urn);
-        posts.push({ url: fullUrl, urn });
-      }
+        // Get HTML
+        const html = await page.content();
+
+        // Extract posts from HTML
+        const posts: Array<{ url: string; urn: string; preview?: string }> = [];
+        const seen = new Set<string>();
+
+        // Strategy 1: Match feed/update href links (classic format)
+        const hrefRegex = /href="(https:\/\/www\.linkedin\.com\/feed\/update\/(urn:li:(?:share|ugcPost|activity):[0-9]+)[^"]*)"/g;
+        let match;
+        while ((match = hrefRegex.exec(html)) !== null) {
+          const fullUrl = match[1].split('?')[0];
+          const urn = match[2];
+          if (seen.has(urn)) continue;
+          seen.add(urn);
+          posts.push({ url: fullUrl, urn });
+        }
 
-      // Strategy 2: Extract URNs embedded anywhere in HTML (modern LinkedIn)
-      const urnRegex = /urn:li:(activity|ugcPost|share):([0-9]+)/g;
-      while ((match = urnRegex.exec(html)) !== null) {
-        const urn = match[0];
-        if (seen.has(urn)) continue;
-        seen.add(urn);
-        const url = `https://www.linkedin.com/feed/update/${urn}`;
-        posts.push({ url, urn });
-      }
+        // Strategy 2: Extract URNs embedded anywhere in HTML (modern LinkedIn)
+        const urnRegex = /urn:li:(activity|ugcPost|share):([0-9]+)/g;
+        while ((match = urnRegex.exec(html)) !== null) {
+          const urn = match[0];
+          if (seen.has(urn)) continue;
+          seen.add(urn);
+          const url = `https://www.linkedin.com/feed/update/${urn}`;
+          posts.push({ url, urn });
+        }
 
-      log.info('LinkedIn search complete', { query, postsFound: posts.length });
-      return { html, posts };
-    } catch (error) {
-      log.error('Error searching LinkedIn', { error: String(error) });
-      return { html: '', posts: [] };
-    }
+        log.info('LinkedIn search complete', { query, postsFound: posts.length });
+        return { html, posts };
+      } catch (error) {
+        log.error('Error searching LinkedIn', { error: String(error) });
+        return { html: '', posts: [] };
+      }
+    });
   }
 }
+
+// ============================================================================
+// Platform definition
+// ============================================================================
+
+const action = actionBuilder<LinkedInHandler>();
+
+export const linkedinPlatform: PlatformDefinition<LinkedInHandler> = {
+  id: 'linkedin',
+  name: 'LinkedIn',
+  command: 'linkedin',
+  aliases: ['li'],
+  origin: 'https://www.linkedin.com',
+  sessionCookie: 'li_at',
+  rateLimits: {
+    like: { minute: 3, hour: 25, day: 100 },
+    comment: { minute: 1, hour: 8, day: 30 },
+    follow: { hour: 5, day: 15 },
+    dm: { minute: 1, hour: 10, day: 40 },
+    post: { hour: 2, day: 5 },
+    shared: [{ name: 'writes', actions: ['like', 'comment', 'follow', 'dm', 'post'], limits: { hour: 40 } }],
+  },
+  envLimits: { follow: 'RATE_LIMIT_LINKEDIN_CONNECT', dm: 'RATE_LIMIT_LINKEDIN_MESSAGE' },
+  createHandler: ({ browserManager, rateLimiter, account }) =>
+    new LinkedInHandler(browserManager, rateLimiter, account),
+  actions: [
+    action({
+      name: 'like',
+      description: 'Like a post',
+      schema: likePayload,
+      queue: true,
+      cli: {
+        command: 'like <url>',
+        description: 'Like a LinkedIn post',
+        done: ({ url }) => `Liked post: ${url}`,
+        failed: 'like',
+      },
+      run: (handler, payload) => handler.like(payload),
+    }),
+    action({
+      name: 'comment',
+      description: 'Comment on a post',
+      schema: commentPayload,
+      queue: true,
+      cli: {
+        command: 'comment <url> <text>',
+        description: 'Comment on a LinkedIn post',
+        done: ({ url }) => `Commented on post: ${url}`,
+        failed: 'comment',
+      },
+      run: (handler, payload) => handler.comment(payload),
+    }),
+    action({
+      name: 'follow',
+      description: 'Follow a member',
+      schema: followPayload,
+      queue: true,
+      run: (handler, payload) => handler.follow(payload),
+    }),
+    action({
+      name: 'unfollow',
+      description: 'Unfollow a member',
+      schema: followPayload,
+      run: (handler, payload) => handler.unfollow(payload),
+    }),
+    action({
+      name: 'connect',
+      description: 'Send a connection request, optionally with a note',
+      schema: z.object({ profileUrl, note: z.string().optional() }),
+      queue: true,
+      cli: {
+        command: 'connect <url>',
+        description: 'Send a connection request',
+        options: [{ flags: '-n, --note <note>', description: 'Add a note to the connection request' }],
+        payload: ({ url, note }) => ({ profileUrl: url, note }),
+        done: ({ profileUrl }) => `Sent connection request to: ${profileUrl}`,
+        failed: 'connect',
+        retry: true,
+        context: ({ profileUrl, note }) => ({ profileUrl, note }),
+      },
+      run: (handler, payload) => handler.connect(payload),
+    }),
+    action({
+      name: 'dm',
+      aliases: ['message'],
+      description: 'Send a message',
+      schema: dmPayload,
+      queue: true,
+      cli: {
+        command: 'message <url> <text>',
+        description: 'Send a LinkedIn message',
+        payload: ({ url, text }) => ({ username: url, message: text }),
+        done: () => 'Sent message',
+        failed: 'send message',
+      },
+      run: (handler, payload) => handler.dm(payload),
+    }),
+    action({
+      name: 'post',
+      description: 'Publish a post',
+      schema: z.object({ text, media: media.optional() }),
+      queue: true,
+      cli: {
+        command: 'post <text>',
+        description: 'Publish a LinkedIn post',
+        options: [{ flags: '-m, --media <paths...>', description: 'Image file(s) to attach' }],
+        done: () => 'Published LinkedIn post',
+        failed: 'post',
+      },
+      run: (handler, payload) => handler.post(payload),
+    }),
+    action({
+      name: 'view_profile',
+      description: 'Get profile data',
+      schema: profilePayload,
+      read: true,
+      route: 'profile/:username',
+      cli: {
+        command: 'profile <username>',
+        description: 'Get LinkedIn profile data',
+        failed: 'get profile',
+      },
+      run: (handler, { username }) => handler.getProfile(username),
+    }),
+    action({
+      name: 'search',
+      description: 'Search posts by keyword, newest first',
+      schema: z.object({
+        q: z.string({ error: 'Query (q) required' }).min(1, 'Query (q) required'),
+      }),
+      read: true,
+      // The CLI's `linkedin search` can also save the result page's HTML
+      run: async (handler, { q }) => ({ query: q, posts: (await handler.search(q)).posts }),
+    }),
+  ],
+};
@@ -0,0 +1,100 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import './builtin.js';
+import { RedditHandler, redditPlatform } from './reddit.js';
+import { findAction, parsePayload } from './registry.js';
+import { BrowserManager } from '../browser/manager.js';
+import { Notifier } from '../services/notifier.js';
+import { RateLimiter } from '../utils/rate-limiter.js';
+import type { BrowserConfig } from '../types/index.js';
+
+describe('RedditHandler', () => {
+  let dir: string;
+  let limiter: RateLimiter;
+  let reddit: RedditHandler;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'socialcrabs-reddit-'));
+    const browserManager = new BrowserManager({ dataDir: path.join(dir, 'browser'), engine: 'chromium' } as BrowserConfig, path.join(dir, 'sessions'));
+    // The registered defaults, with subscriptions counted as follows like SocialCrabs sets up
+    limiter = new RateLimiter({ reddit: redditPlatform.rateLimits }, path.join(dir, 'rate-limits.json'), undefined, undefined, {
+      reddit: { subscribe: 'follow', unsubscribe: 'follow' },
+    });
+    reddit = new RedditHandler(browserManager, limiter);
+  });
+
+  afterEach(() => {
+    limiter.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('refuses an over-long title before reserving a post', async () => {
+    const result = await reddit.submit({ subreddit: 'r/node', title: 'x'.repeat(301) });
+
+    expect(result).toMatchObject({ success: false, action: 'post', target: 'r/node', error: 'Title exceeds 300 characters' });
+    expect(limiter.getRemaining('reddit', 'post')).toBe(1);
+  });
+
+  it('counts subscriptions against the follow limit, by subreddit name', async () => {
+    for (let i = 0; i < 10; i++) await limiter.record('reddit', 'follow');
+
+    const result = await reddit.subscribe({ subreddit: 'https://www.reddit.com/r/node/top/' });
+
+    expect(result).toMatchObject({ success: false, code: 'RATE_LIMITED', action: 'subscribe', target: 'r/node' });
+  });
+
+  it('shares an hourly limit between all writes', async () => {
+    for (let i = 0; i < 40; i++) await limiter.record('reddit', 'like');
+
+    expect(await limiter.check('reddit', 'comment')).toMatchObject({ allowed: false, limit: 'writes', window: 'hour' });
+  });
+});
+
+describe('Reddit actions', () => {
+  it('accepts the Reddit names of actions', () => {
+    expect(findAction('reddit', 'upvote')?.name).toBe('like');
+    expect(findAction('reddit', 'submit')?.name).toBe('post');
+  });
+
+  it('takes either a text or a link for a post', () => {
+    const post = findAction('reddit', 'post')!;
+
+    expect(parsePayload(post, { subreddit: 'node', title: 'Hi', link: 'https://example.com' })).toEqual({
+      subreddit: 'node',
+      title: 'Hi',
+      link: 'https://example.com',
+    });
+    expect(() => parsePayload(post, { subreddit: 'node', title: 'Hi', text: 'Body', link: 'https://example.com' })).toThrow(
+      'Use either text or link, not both'
+    );
+    expect(() => parsePayload(post, { subreddit: 'node', title: 'Hi', link: 'example' })).toThrow('link: Link must be a URL');
+  });
+});
+
+describe('Reddit notifications', () => {
+  it('formats subscriptions with the subreddit', async () => {
+    const notifier = new Notifier({
+      enabled: true,
+      channels: {},
+      events: { 'action:complete': true, 'action:error': true, 'session:login': true, 'ratelimit:exceeded': true },
+    });
+    const broadcast = vi.spyOn(notifier, 'broadcast').mockResolvedValue(true);
+
+    await notifier.notify({
+      event: 'action:complete',
+      platform: 'reddit',
+      action: 'subscribe',
+      success: true,
+      target: 'r/node',
+      details: { subreddit: 'node', subredditUrl: 'https://www.reddit.com/r/node/', actions: ['➕ Subscribed'] },
+      timestamp: Date.now(),
+    });
+
+    const message = broadcast.mock.calls[0][0];
+    expect(message).toContain('👽 **REDDIT SUBSCRIBE** ✅');
+    expect(message).toContain('**Subreddit:** r/node');
+    expect(message).toContain('**URL:** https://www.reddit.com/r/node/');
+  });
+});
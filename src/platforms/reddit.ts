@@ -0,0 +1,1069 @@
+import { z } from 'zod';
+import { BasePlatformHandler } from './base.js';
+import { actionBuilder } from './registry.js';
+import { likePayload, commentPayload, followPayload, dmPayload, profilePayload } from './schemas.js';
+import { log } from '../utils/logger.js';
+import { errorCode } from '../utils/errors.js';
+import { sleep } from '../utils/delays.js';
+import type { SoftBlockSignal } from './base.js';
+import type { PlatformDefinition } from './registry.js';
+import type { BrowserManager } from '../browser/manager.js';
+import type { RateLimiter } from '../utils/rate-limiter.js';
+import type {
+  ActionResult,
+  LikePayload,
+  CommentPayload,
+  FollowPayload,
+  RedditMessagePayload,
+  RedditSubmitPayload,
+  RedditSubmitResult,
+  SubredditPayload,
+  RedditFeedPayload,
+  RedditPost,
+  RedditProfile,
+} from '../types/index.js';
+
+// Actions run on old Reddit: server-rendered pages whose markup has stayed put for years.
+// Login and user follows only exist on the new site.
+const OLD_REDDIT = 'https://old.reddit.com';
+
+const MAX_TITLE_LENGTH = 300;
+
+const SELECTORS = {
+  // Login (www.reddit.com; the fields sit in open shadow roots, which Playwright pierces)
+  loginUsername: 'input[name="username"]',
+  loginPassword: 'input[name="password"]',
+  loginButton: 'button.login, button[type="submit"]:has-text("Log In")',
+  loginError: 'faceplate-form-helper-text[role="alert"]:visible, .AnimatedForm__errorMessage:visible',
+  loginOtp: 'input[name="otp"], input[name="appOtp"]',
+
+  // Profile indicators (old Reddit header)
+  loggedInUser: '#header-bottom-right span.user a[href*="/user/"]',
+
+  // Post page
+  upvoteButton: '#siteTable .thing.link .midcol .arrow.up',
+  upvoted: '#siteTable .thing.link .midcol .arrow.upmod',
+  commentInput: '.commentarea > form.usertext textarea[name="text"]',
+  commentSubmit: '.commentarea > form.usertext .usertext-buttons button.save',
+  formError: 'form.usertext .error:visible',
+
+  // Comment permalink page: the linked comment is the first top-level one
+  replyLink: '.commentarea .nestedlisting > .thing.comment > .entry .flat-list .reply-button a',
+  replyInput: '.commentarea .nestedlisting > .thing.comment > .child > form.usertext textarea[name="text"]',
+  replySubmit: '.commentarea .nestedlisting > .thing.comment > .child > form.usertext .usertext-buttons button.save',
+
+  // Subreddit sidebar
+  subscribeButton: '.side .subscribe-button a.option.add.active',
+  unsubscribeButton: '.side .subscribe-button a.option.remove.active',
+
+  // Submit page
+  submitTitle: '#newlink #title-field textarea[name="title"]',
+  submitLink: '#newlink #url-field input[name="url"]',
+  submitText: '#newlink #text-field textarea[name="text"]',
+  submitButton: '#newlink button[name="submit"]',
+  submitError: '#newlink .error:visible',
+
+  // Private messages
+  messageSubject: '#compose-message input[name="subject"]',
+  messageText: '#compose-message textarea[name="text"]',
+  messageSend: '#compose-message button[name="send"], #compose-message #send',
+  messageSent: '#compose-message .status:has-text("delivered")',
+  messageError: '#compose-message .error:visible',
+
+  // User profile (www.reddit.com)
+  followButton: 'button:text-is("Follow")',
+  unfollowButton: 'button:text-is("Unfollow"), button:text-is("Following")',
+};
+
+// Warnings Reddit shows when an account acts too fast
+const SOFT_BLOCK_SIGNALS: SoftBlockSignal[] = [
+  { reason: 'Doing that too much', selector: '.error, .status', pattern: /(you are|you're) doing that too much/i },
+  { reason: 'Rate limited', selector: 'faceplate-toast, [role="alert"]', pattern: /doing that a lot|take a break|try again in \d+/i },
+];
+
+// Old Reddit's 404 page, and banned subreddits or suspended users
+const NOT_FOUND_SIGNALS: SoftBlockSignal[] = [
+  { reason: 'Page not found', selector: '#classy-error, #noresults, .interstitial, .content h1', pattern: /page not found|there doesn'?t seem to be anything here|has been banned|account has been suspended/i },
+];
+
+// Listing JSON (only the fields read here)
+interface RedditThing<T> {
+  kind: string;
+  data: T;
+}
+
+interface RedditListing {
+  data: { children: RedditThing<RedditPostData>[] };
+}
+
+interface RedditPostData {
+  id: string;
+  subreddit: string;
+  title: string;
+  author: string;
+  permalink: string;
+  url: string;
+  is_self: boolean;
+  selftext: string;
+  score: number;
+  num_comments: number;
+  link_flair_text: string | null;
+  over_18: boolean;
+  created_utc: number;
+}
+
+interface RedditAccountData {
+  name: string;
+  total_karma?: number;
+  link_karma?: number;
+  comment_karma?: number;
+  created_utc?: number;
+  icon_img?: string;
+  verified?: boolean;
+  subreddit?: { title?: string; public_description?: string };
+}
+
+export class RedditHandler extends BasePlatformHandler {
+  private readonly baseUrl = 'https://www.reddit.com';
+  protected softBlockSignals = SOFT_BLOCK_SIGNALS;
+  protected notFoundSignals = NOT_FOUND_SIGNALS;
+  protected loginUrlPattern = /\/login\b/;
+
+  constructor(browserManager: BrowserManager, rateLimiter: RateLimiter, account?: string) {
+    super('reddit', browserManager, rateLimiter, account);
+  }
+
+  /**
+   * Check if logged in to Reddit
+   */
+  async isLoggedIn(): Promise<boolean> {
+    return this.withPage('isLoggedIn', async () => {
+      try {
+        await this.navigate(`${OLD_REDDIT}/`);
+        await this.pause();
+        return await this.elementExists(SELECTORS.loggedInUser);
+      } catch (error) {
+        log.error('Error checking Reddit login status', { error: String(error) });
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Login to Reddit (interactive - requires manual input)
+   */
+  async login(): Promise<boolean> {
+    return this.withPage('login', async () => {
+      try {
+        log.info('Starting Reddit login...');
+
+        if (await this.isLoggedIn()) {
+          log.info('Already logged in to Reddit');
+          return true;
+        }
+
+        await this.navigate(`${this.baseUrl}/login/`);
+        await this.delay();
+
+        log.info('Reddit login form ready. Please enter credentials manually in the browser.');
+        log.info('Waiting for login to complete...');
+
+        // Watch the session cookie rather than reloading the page under the user (up to 2 minutes)
+        const startTime = Date.now();
+        const timeout = 120000;
+
+        while (Date.now() - startTime < timeout) {
+          if (await this.hasSessionCookie()) {
+            log.info('Reddit login successful');
+            await this.saveSession();
+            return true;
+          }
+          await sleep(2000);
+        }
+
+        log.error('Reddit login timeout');
+        return false;
+      } catch (error) {
+        log.error('Reddit login failed', { error: String(error) });
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Login with credentials (headless)
+   */
+  async loginWithCredentials(username: string, password: string): Promise<boolean> {
+    return this.withPage('loginWithCredentials', async () => {
+      try {
+        log.info('Starting Reddit headless login...');
+
+        if (await this.isLoggedIn()) {
+          log.info('Already logged in to Reddit');
+          return true;
+        }
+
+        await this.navigate(`${this.baseUrl}/login/`);
+        await this.delay();
+
+        const page = await this.getPage();
+        if (!(await this.waitForElement(SELECTORS.loginUsername, 15000))) {
+          log.error('Login form not found');
+          await page.screenshot({ path: './sessions/debug-reddit-login.png' });
+          return false;
+        }
+
+        await page.locator(SELECTORS.loginUsername).first().fill(username);
+        await this.pause();
+        await page.locator(SELECTORS.loginPassword).first().fill(password);
+        await this.pause();
+        log.info('Credentials entered');
+
+        await this.clickHuman(SELECTORS.loginButton);
+        await this.delay();
+
+        const startTime = Date.now();
+        const timeout = 30000;
+
+        while (Date.now() - startTime < timeout) {
+          if (await this.hasSessionCookie()) {
+            log.info('Session cookie detected - login successful');
+            await this.saveSession();
+            return true;
+          }
+
+          if (await this.elementExists(SELECTORS.loginOtp)) {
+            log.warn('Two-factor code required - log in interactively once, then reuse the saved session');
+            await page.screenshot({ path: './sessions/debug-reddit-2fa.png' });
+            return false;
+          }
+
+          if (await this.elementExists(SELECTORS.loginError)) {
+            log.error('Reddit login failed', { error: await this.getText(SELECTORS.loginError) });
+            return false;
+          }
+
+          await sleep(2000);
+        }
+
+        await page.screenshot({ path: './sessions/debug-reddit-timeout.png' });
+        log.error('Reddit login timeout - check ./sessions/debug-reddit-timeout.png');
+        return false;
+      } catch (error) {
+        log.error('Reddit login failed', { error: String(error) });
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Logout from Reddit
+   */
+  async logout(): Promise<void> {
+    return this.withPage('logout', async () => {
+      try {
+        await this.browserManager.closeContext(this.platform, this.account);
+        log.info('Logged out of Reddit');
+      } catch (error) {
+        log.error('Error logging out of Reddit', { error: String(error) });
+      }
+    });
+  }
+
+  /**
+   * Upvote a Reddit post
+   */
+  async like(payload: LikePayload): Promise<ActionResult> {
+    return this.withPage('like', async () => {
+      const startTime = Date.now();
+      const { allowed, status, blocked } = await this.checkAndRecordAction('like', payload.url);
+
+      if (!allowed) {
+        return this.createBlockedResult('like', payload.url, startTime, status, blocked);
+      }
+
+      try {
+        log.info('Upvoting Reddit post', { url: payload.url });
+
+        // Browse the front page first
+        await this.navigate(`${OLD_REDDIT}/`);
+        await this.warmUp({ scrollCount: 2 + Math.floor(Math.random() * 2) });
+
+        await this.navigate(this.oldRedditUrl(payload.url));
+        await this.think();
+
+        if (await this.elementExists(SELECTORS.upvoted)) {
+          log.info('Post already upvoted');
+          return this.alreadyDoneResult('like', payload.url, startTime, status, {
+            postUrl: payload.url,
+            actions: ['⬆️ Already Upvoted'],
+          });
+        }
+
+        if (!(await this.elementExists(SELECTORS.upvoteButton))) {
+          return await this.failAction('like', payload.url, 'Upvote button not found (archived post?)', startTime, status, 'SELECTOR_MISSING');
+        }
+
+        await this.clickHuman(SELECTORS.upvoteButton);
+        await this.pause();
+
+        if (await this.elementExists(SELECTORS.upvoted)) {
+          await this.recordAction('like');
+          log.info('Successfully upvoted Reddit post');
+          return this.createResult('like', payload.url, startTime, status, {
+            postUrl: payload.url,
+            actions: ['⬆️ Upvoted'],
+          });
+        }
+
+        return await this.failAction('like', payload.url, 'Upvote action failed', startTime, status, 'SELECTOR_MISSING');
+      } catch (error) {
+        log.error('Error upvoting Reddit post', { error: String(error) });
+        return await this.failAction('like', payload.url, String(error), startTime, status, errorCode(error));
+      }
+    });
+  }
+
+  /**
+   * Comment on a Reddit post
+   */
+  async comment(payload: CommentPayload): Promise<ActionResult> {
+    return this.withPage('comment', async () => {
+      const startTime = Date.now();
+      const { allowed, status, blocked } = await this.checkAndRecordAction('comment', payload.url);
+
+      if (!allowed) {
+        return this.createBlockedResult('comment', payload.url, startTime, status, blocked);
+      }
+
+      try {
+        log.info('Commenting on Reddit post', { url: payload.url });
+
+        await this.navigate(`${OLD_REDDIT}/`);
+        await this.warmUp({ scrollCount: 2 + Math.floor(Math.random() * 2) });
+
+        await this.navigate(this.oldRedditUrl(payload.url));
+        await this.think();
+
+        if (!(await this.waitForElement(SELECTORS.commentInput, 10000))) {
+          return await this.failAction('comment', payload.url, 'Comment box not found (locked or archived post?)', startTime, status, 'SELECTOR_MISSING');
+        }
+
+        const sanitizedText = this.sanitizeText(payload.text);
+        await this.clickHuman(SELECTORS.commentInput);
+        await this.typeHuman(SELECTORS.commentInput, sanitizedText);
+        await this.pause();
+
+        await this.clickHuman(SELECTORS.commentSubmit);
+        const error = await this.waitForFormSubmit(SELECTORS.commentInput);
+        if (error) {
+          return await this.failAction('comment', payload.url, error, startTime, status);
+        }
+
+        await this.recordAction('comment');
+        log.info('Successfully commented on Reddit post');
+        return this.createResult('comment', payload.url, startTime, status, {
+          postUrl: payload.url,
+          commentText: sanitizedText,
+          actions: ['💬 Commented'],
+        });
+      } catch (error) {
+        log.error('Error commenting on Reddit post', { error: String(error) });
+        return await this.failAction('comment', payload.url, String(error), startTime, status, errorCode(error));
+      }
+    });
+  }
+
+  /**
+   * Reply to a Reddit comment (url is the comment's permalink)
+   */
+  async reply(payload: CommentPayload): Promise<ActionResult> {
+    return this.withPage('reply', async () => {
+      const startTime = Date.now();
+      const { allowed, status, blocked } = await this.checkAndRecordAction('reply', payload.url);
+
+      if (!allowed) {
+        return this.createBlockedResult('reply', payload.url, startTime, status, blocked);
+      }
+
+      try {
+        log.info('Replying to Reddit comment', { url: payload.url });
+
+        await this.navigate(this.oldRedditUrl(payload.url));
+        await this.think();
+
+        if (!(await this.waitForElement(SELECTORS.replyLink, 10000))) {
+          return await this.failAction('reply', payload.url, 'Reply link not found (is the URL a comment permalink?)', startTime, status, 'SELECTOR_MISSING');
+        }
+
+        await this.clickHuman(SELECTORS.replyLink);
+        if (!(await this.waitForElement(SELECTORS.replyInput, 5000))) {
+          return await this.failAction('reply', payload.url, 'Reply box not found', startTime, status, 'SELECTOR_MISSING');
+        }
+
+        const sanitizedText = this.sanitizeText(payload.text);
+        await this.typeHuman(SELECTORS.replyInput, sanitizedText);
+        await this.pause();
+
+        await this.clickHuman(SELECTORS.replySubmit);
+        const error = await this.waitForFormSubmit(SELECTORS.replyInput);
+        if (error) {
+          return await this.failAction('reply', payload.url, error, startTime, status);
+        }
+
+        await this.recordAction('reply');
+        log.info('Successfully replied to Reddit comment');
+        return this.createResult('reply', payload.url, startTime, status, {
+          postUrl: payload.url,
+          commentText: sanitizedText,
+          actions: ['💬 Replied'],
+        });
+      } catch (error) {
+        log.error('Error replying to Reddit comment', { error: String(error) });
+        return await this.failAction('reply', payload.url, String(error), startTime, status, errorCode(error));
+      }
+    });
+  }
+
+  /**
+   * Submit a text post, or a link post when `link` is set, to a subreddit
+   */
+  async submit(payload: RedditSubmitPayload): Promise<RedditSubmitResult> {
+    return this.withPage('submit', async () => {
+      const startTime = Date.now();
+      const subreddit = this.subredditName(payload.subreddit);
+      const target = `r/${subreddit}`;
+
+      if (payload.title.length > MAX_TITLE_LENGTH) {
+        return this.invalidResult('post', target, `Title exceeds ${MAX_TITLE_LENGTH} characters`, startTime);
+      }
+
+      const { allowed, status, blocked } = await this.checkAndRecordAction('post');
+
+      if (!allowed) {
+        return this.createBlockedResult('post', target, startTime, status, blocked);
+      }
+
+      try {
+        log.info('Submitting Reddit post', { subreddit, title: payload.title, link: payload.link });
+
+        await this.navigate(`${OLD_REDDIT}/r/${subreddit}/`);
+        await this.warmUp({ scrollCount: 2 + Math.floor(Math.random() * 2) });
+
+        await this.navigate(`${OLD_REDDIT}/r/${subreddit}/submit${payload.link ? '' : '?selftext=true'}`);
+        await this.think();
+
+        if (!(await this.waitForElement(SELECTORS.submitTitle, 10000))) {
+          return await this.failAction('post', target, `Submit form not found (does ${target} allow ${payload.link ? 'link' : 'text'} posts?)`, startTime, status, 'SELECTOR_MISSING');
+        }
+
+        await this.typeHuman(SELECTORS.submitTitle, payload.title);
+        if (payload.link) {
+          await this.typeHuman(SELECTORS.submitLink, payload.link);
+        } else if (payload.text) {
+          await this.typeHuman(SELECTORS.submitText, payload.text);
+        }
+        await this.pause();
+
+        await this.clickHuman(SELECTORS.submitButton);
+
+        // A published post opens its comments page
+        const page = await this.getPage();
+        const published = await page
+          .waitForURL(/\/comments\//, { timeout: 30000 })
+          .then(() => true)
+          .catch(() => false);
+        if (!published) {
+          const error = (await this.visibleError(SELECTORS.submitError)) ?? 'Post was not published';
+          return await this.failAction('post', target, error, startTime, status);
+        }
+
+        const postUrl = page.url().replace(OLD_REDDIT, this.baseUrl);
+        await this.recordAction('post');
+        log.info('Successfully submitted Reddit post', { postUrl });
+        return {
+          ...this.createResult('post', target, startTime, status, {
+            postUrl,
+            subreddit,
+            title: payload.title,
+            actions: ['📝 Posted'],
+          }),
+          postUrl,
+        };
+      } catch (error) {
+        log.error('Error submitting Reddit post', { error: String(error) });
+        return await this.failAction('post', target, String(error), startTime, status, errorCode(error));
+      }
+    });
+  }
+
+  /**
+   * Subscribe to (join) a subreddit
+   */
+  async subscribe(payload: SubredditPayload): Promise<ActionResult> {
+    return this.toggleSubscription('subscribe', payload);
+  }
+
+  /**
+   * Unsubscribe from (leave) a subreddit
+   */
+  async unsubscribe(payload: SubredditPayload): Promise<ActionResult> {
+    return this.toggleSubscription('unsubscribe', payload);
+  }
+
+  private async toggleSubscription(action: 'subscribe' | 'unsubscribe', payload: SubredditPayload): Promise<ActionResult> {
+    return this.withPage(action, async () => {
+      const startTime = Date.now();
+      const subreddit = this.subredditName(payload.subreddit);
+      const target = `r/${subreddit}`;
+      const { allowed, status, blocked } = await this.checkAndRecordAction(action, target);
+
+      if (!allowed) {
+        return this.createBlockedResult(action, target, startTime, status, blocked);
+      }
+
+      const subscribing = action === 'subscribe';
+      const [current, wanted] = subscribing
+        ? [SELECTORS.subscribeButton, SELECTORS.unsubscribeButton]
+        : [SELECTORS.unsubscribeButton, SELECTORS.subscribeButton];
+      const details = { subredditUrl: `${this.baseUrl}/r/${subreddit}/`, subreddit };
+
+      try {
+        log.info(`${subscribing ? 'Subscribing to' : 'Unsubscribing from'} subreddit`, { subreddit });
+
+        await this.navigate(`${OLD_REDDIT}/r/${subreddit}/`);
+        await this.think();
+
+        if (await this.elementExists(wanted)) {
+          log.info(subscribing ? 'Already subscribed' : 'Not subscribed');
+          return this.alreadyDoneResult(action, target, startTime, status, {
+            ...details,
+            actions: [subscribing ? '🔔 Already Subscribed' : '🔕 Not Subscribed'],
+          });
+        }
+
+        if (!(await this.elementExists(current))) {
+          return await this.failAction(action, target, `${subscribing ? 'Join' : 'Leave'} button not found`, startTime, status, 'SELECTOR_MISSING');
+        }
+
+        await this.clickHuman(current);
+        await this.delay();
+
+        if (await this.elementExists(wanted)) {
+          await this.recordAction(action);
+          log.info(`Successfully ${subscribing ? 'subscribed to' : 'unsubscribed from'} subreddit`);
+          return this.createResult(action, target, startTime, status, {
+            ...details,
+            actions: [subscribing ? '🔔 Subscribed' : '🔕 Unsubscribed'],
+          });
+        }
+
+        return await this.failAction(action, target, `${subscribing ? 'Subscribe' : 'Unsubscribe'} action failed`, startTime, status, 'SELECTOR_MISSING');
+      } catch (error) {
+        log.error(`Error ${subscribing ? 'subscribing to' : 'unsubscribing from'} subreddit`, { error: String(error) });
+        return await this.failAction(action, target, String(error), startTime, status, errorCode(error));
+      }
+    });
+  }
+
+  /**
+   * Follow a Reddit user
+   */
+  async follow(payload: FollowPayload): Promise<ActionResult> {
+    return this.withPage('follow', async () => {
+      const startTime = Date.now();
+      const username = this.userName(payload.username);
+      const { allowed, status, blocked } = await this.checkAndRecordAction('follow', username);
+
+      if (!allowed) {
+        return this.createBlockedResult('follow', username, startTime, status, blocked);
+      }
+
+      try {
+        log.info('Following Reddit user', { username });
+
+        await this.navigate(`${this.baseUrl}/user/${username}/`);
+        await this.think();
+
+        if (await this.elementExists(SELECTORS.unfollowButton)) {
+          log.info('Already following user');
+          return this.alreadyDoneResult('follow', username, startTime, status, {
+            profileUrl: `${this.baseUrl}/user/${username}`,
+            actions: ['👥 Already Following'],
+          });
+        }
+
+        if (!(await this.elementExists(SELECTORS.followButton))) {
+          return await this.failAction('follow', username, 'Follow button not found', startTime, status, 'SELECTOR_MISSING');
+        }
+
+        await this.clickHuman(SELECTORS.followButton);
+        await this.delay();
+
+        if (await this.elementExists(SELECTORS.unfollowButton)) {
+          await this.recordAction('follow');
+          log.info('Successfully followed Reddit user');
+          return this.createResult('follow', username, startTime, status, {
+            profileUrl: `${this.baseUrl}/user/${username}`,
+            actions: ['👥 Followed'],
+          });
+        }
+
+        return await this.failAction('follow', username, 'Follow action failed', startTime, status, 'SELECTOR_MISSING');
+      } catch (error) {
+        log.error('Error following Reddit user', { error: String(error) });
+        return await this.failAction('follow', username, String(error), startTime, status, errorCode(error));
+      }
+    });
+  }
+
+  /**
+   * Unfollow a Reddit user
+   */
+  async unfollow(payload: FollowPayload): Promise<ActionResult> {
+    return this.withPage('unfollow', async () => {
+      const startTime = Date.now();
+      const username = this.userName(payload.username);
+      const { allowed, status, blocked } = await this.checkAndRecordAction('unfollow', username);
+
+      if (!allowed) {
+        return this.createBlockedResult('unfollow', username, startTime, status, blocked);
+      }
+
+      try {
+        log.info('Unfollowing Reddit user', { username });
+
+        await this.navigate(`${this.baseUrl}/user/${username}/`);
+        await this.think();
+
+        if (!(await this.elementExists(SELECTORS.unfollowButton))) {
+          log.info('Not following user');
+          return this.alreadyDoneResult('unfollow', username, startTime, status, {
+            profileUrl: `${this.baseUrl}/user/${username}`,
+            actions: ['👋 Not Following'],
+          });
+        }
+
+        await this.clickHuman(SELECTORS.unfollowButton);
+        await this.delay();
+
+        if (await this.elementExists(SELECTORS.followButton)) {
+          await this.recordAction('unfollow');
+          log.info('Successfully unfollowed Reddit user');
+          return this.createResult('unfollow', username, startTime, status, {
+            profileUrl: `${this.baseUrl}/user/${username}`,
+            actions: ['👋 Unfollowed'],
+          });
+        }
+
+        return await this.failAction('unfollow', username, 'Unfollow action failed', startTime, status, 'SELECTOR_MISSING');
+      } catch (error) {
+        log.error('Error unfollowing Reddit user', { error: String(error) });
+        return await this.failAction('unfollow', username, String(error), startTime, status, errorCode(error));
+      }
+    });
+  }
+
+  /**
+   * Send a private message to a Reddit user
+   */
+  async dm(payload: RedditMessagePayload): Promise<ActionResult> {
+    return this.withPage('dm', async () => {
+      const startTime = Date.now();
+      const username = this.userName(payload.username);
+      const { allowed, status, blocked } = await this.checkAndRecordAction('dm', username);
+
+      if (!allowed) {
+        return this.createBlockedResult('dm', username, startTime, status, blocked);
+      }
+
+      try {
+        log.info('Sending Reddit message', { username });
+
+        await this.navigate(`${OLD_REDDIT}/message/compose/?to=${encodeURIComponent(username)}`);
+        await this.think();
+
+        if (!(await this.waitForElement(SELECTORS.messageText, 10000))) {
+          return await this.failAction('dm', username, 'Message form not found', startTime, status, 'SELECTOR_MISSING');
+        }
+
+        const subject = payload.subject || payload.message.split('\n')[0].substring(0, 100);
+        await this.typeHuman(SELECTORS.messageSubject, subject, { clear: true });
+        await this.typeHuman(SELECTORS.messageText, payload.message);
+        await this.pause();
+
+        await this.clickHuman(SELECTORS.messageSend);
+        if (!(await this.waitForElement(SELECTORS.messageSent, 15000))) {
+          const error = (await this.visibleError(SELECTORS.messageError)) ?? 'Message was not delivered';
+          return await this.failAction('dm', username, error, startTime, status);
+        }
+
+        await this.recordAction('dm');
+        log.info('Successfully sent Reddit message');
+        return this.createResult('dm', username, startTime, status, {
+          profileUrl: `${this.baseUrl}/user/${username}`,
+          messagePreview: payload.message,
+          actions: ['✉️ Message Sent'],
+        });
+      } catch (error) {
+        log.error('Error sending Reddit message', { error: String(error) });
+        return await this.failAction('dm', username, String(error), startTime, status, errorCode(error));
+      }
+    });
+  }
+
+  /**
+   * Get a user's profile data
+   */
+  async getProfile(username: string): Promise<RedditProfile> {
+    return this.withPage('getProfile', async () => {
+      const name = this.userName(username);
+      try {
+        log.info('Getting Reddit profile', { username: name });
+
+        const { data } = await this.fetchJson<RedditThing<RedditAccountData>>(`/user/${name}/about.json`);
+        const profile: RedditProfile = {
+          username: data.name,
+          displayName: data.subreddit?.title || undefined,
+          bio: data.subreddit?.public_description || undefined,
+          karma: data.total_karma,
+          postKarma: data.link_karma,
+          commentKarma: data.comment_karma,
+          createdAt: data.created_utc !== undefined ? data.created_utc * 1000 : undefined,
+          profilePicUrl: data.icon_img || undefined,
+          isVerified: data.verified,
+        };
+
+        log.info('Got Reddit profile', { profile });
+        return profile;
+      } catch (error) {
+        log.error('Error getting Reddit profile', { error: String(error) });
+        return { username: name };
+      }
+    });
+  }
+
+  /**
+   * Read a subreddit's feed
+   */
+  async getFeed(payload: RedditFeedPayload): Promise<RedditPost[]> {
+    return this.withPage('getFeed', async () => {
+      const subreddit = this.subredditName(payload.subreddit);
+      try {
+        log.info('Reading subreddit feed', { subreddit, sort: payload.sort, limit: payload.limit });
+
+        const time = payload.sort === 'top' && payload.time ? `&t=${payload.time}` : '';
+        const listing = await this.fetchJson<RedditListing>(
+          `/r/${subreddit}/${payload.sort}.json?limit=${payload.limit}&raw_json=1${time}`
+        );
+        const posts = listing.data.children
+          .filter((child) => child.kind === 't3')
+          .map(({ data }): RedditPost => ({
+            id: data.id,
+            subreddit: data.subreddit,
+            title: data.title,
+            author: data.author,
+            url: `${this.baseUrl}${data.permalink}`,
+            link: data.is_self ? undefined : data.url,
+            text: data.selftext || undefined,
+            score: data.score,
+            comments: data.num_comments,
+            flair: data.link_flair_text || undefined,
+            nsfw: data.over_18,
+            createdAt: data.created_utc * 1000,
+          }));
+
+        log.info('Got subreddit feed', { subreddit, count: posts.length });
+        return posts;
+      } catch (error) {
+        log.error('Error reading subreddit feed', { error: String(error) });
+        return [];
+      }
+    });
+  }
+
+  /**
+   * GET a Reddit JSON endpoint with the account's cookies
+   */
+  private async fetchJson<T>(path: string): Promise<T> {
+    const page = await this.getPage();
+    const response = await page.request.get(`${this.baseUrl}${path}`, {
+      headers: { Accept: 'application/json' },
+    });
+    if (!response.ok()) {
+      throw new Error(`Reddit returned ${response.status()} for ${path}`);
+    }
+    return (await response.json()) as T;
+  }
+
+  private async hasSessionCookie(): Promise<boolean> {
+    const page = await this.getPage();
+    const cookies = await page.context().cookies();
+    return cookies.some((c) => c.name === 'reddit_session' && c.value);
+  }
+
+  /**
+   * Wait for an old Reddit comment form to go through: it empties (post comment box)
+   * or goes away (reply box) on success, and shows an error next to its button otherwise.
+   * Returns the error, or null once posted.
+   */
+  private async waitForFormSubmit(inputSelector: string, timeoutMs: number = 15000): Promise<string | null> {
+    const page = await this.getPage();
+    const input = page.locator(inputSelector).first();
+    const deadline = Date.now() + timeoutMs;
+
+    while (Date.now() < deadline) {
+      const error = await this.visibleError(SELECTORS.formError);
+      if (error) return error;
+
+      const visible = await input.isVisible().catch(() => false);
+      if (!visible || (await input.inputValue().catch(() => '')) === '') return null;
+
+      await sleep(1000);
+    }
+    return 'Timed out waiting for the comment to post';
+  }
+
+  /**
+   * Text of the first visible error message, if any
+   */
+  private async visibleError(selector: string): Promise<string | null> {
+    const page = await this.getPage();
+    const error = page.locator(selector).first();
+    if (!(await error.isVisible().catch(() => false))) return null;
+    return ((await error.textContent()) || '').trim() || 'Reddit rejected the form';
+  }
+
+  /**
+   * Old Reddit URL of a post or comment (reddit.com, www./new./old. and redd.it links)
+   */
+  private oldRedditUrl(url: string): string {
+    const short = /^(?:https?:\/\/)?redd\.it\/(\w+)/i.exec(url);
+    if (short) return `${OLD_REDDIT}/comments/${short[1]}/`;
+
+    const match = /^(?:https?:\/\/)?(?:[\w-]+\.)?reddit\.com(\/.*)?$/i.exec(url);
+    if (!match) throw new Error(`Not a Reddit URL: ${url}`);
+    return `${OLD_REDDIT}${match[1] || '/'}`;
+  }
+
+  /**
+   * Subreddit name from 'name', 'r/name' or a subreddit URL
+   */
+  private subredditName(subreddit: string): string {
+    return subreddit.trim().replace(/^(?:https?:\/\/[^/]+)?\/?r\//i, '').replace(/\/.*$/, '');
+  }
+
+  /**
+   * Username from 'name', 'u/name' or a profile URL
+   */
+  private userName(username: string): string {
+    return username.trim().replace(/^(?:https?:\/\/[^/]+)?\/?(?:u|user)\//i, '').replace(/^@/, '').replace(/\/.*$/, '');
+  }
+}
+
+// ============================================================================
+// Platform definition
+// ============================================================================
+
+const action = actionBuilder<RedditHandler>();
+
+const subreddit = z.string({ error: 'Subreddit required' }).min(1, 'Subreddit required');
+const subredditPayload = z.object({ subreddit });
+
+export const redditPlatform: PlatformDefinition<RedditHandler> = {
+  id: 'reddit',
+  name: 'Reddit',
+  command: 'reddit',
+  origin: 'https://www.reddit.com',
+  sessionCookie: 'reddit_session',
+  targetFields: ['subreddit'],
+  // Reddit throttles new and low-karma accounts hardest on posts and comments
+  rateLimits: {
+    like: { minute: 3, hour: 30, day: 100 },
+    comment: { minute: 1, hour: 6, day: 25 },
+    follow: { hour: 10, day: 30 },
+    dm: { hour: 5, day: 20 },
+    post: { hour: 1, day: 5 },
+    shared: [{ name: 'writes', actions: ['like', 'comment', 'follow', 'dm', 'post'], limits: { hour: 40 } }],
+  },
+  envLimits: { like: 'RATE_LIMIT_REDDIT_UPVOTE', dm: 'RATE_LIMIT_REDDIT_MESSAGE' },
+  createHandler: ({ browserManager, rateLimiter, account }) =>
+    new RedditHandler(browserManager, rateLimiter, account),
+  actions: [
+    action({
+      name: 'like',
+      aliases: ['upvote'],
+      description: 'Upvote a post',
+      schema: likePayload,
+      queue: true,
+      cli: {
+        command: 'upvote <url>',
+        description: 'Upvote a Reddit post',
+        done: ({ url }) => `Upvoted: ${url}`,
+        failed: 'upvote',
+        retry: true,
+        context: ({ url }) => ({ postUrl: url }),
+      },
+      run: (handler, payload) => handler.like(payload),
+    }),
+    action({
+      name: 'comment',
+      description: 'Comment on a post',
+      schema: commentPayload,
+      queue: true,
+      cli: {
+        command: 'comment <url> <text>',
+        description: 'Comment on a Reddit post',
+        done: ({ url }) => `Commented on: ${url}`,
+        failed: 'comment',
+        retry: true,
+        context: ({ url, text }) => ({ postUrl: url, commentText: text }),
+      },
+      run: (handler, payload) => handler.comment(payload),
+    }),
+    action({
+      name: 'reply',
+      description: 'Reply to a comment (url is its permalink)',
+      schema: commentPayload,
+      cli: {
+        command: 'reply <url> <text>',
+        description: 'Reply to a Reddit comment by its permalink',
+        done: ({ url }) => `Replied to: ${url}`,
+        failed: 'reply',
+        context: ({ url, text }) => ({ postUrl: url, commentText: text, actions: ['💬 Replied'] }),
+      },
+      run: (handler, payload) => handler.reply(payload),
+    }),
+    action({
+      name: 'post',
+      aliases: ['submit'],
+      description: 'Submit a text post, or a link post with `link`, to a subreddit',
+      schema: z
+        .object({
+          subreddit,
+          title: z.string({ error: 'Title required' }).min(1, 'Title required').max(MAX_TITLE_LENGTH, `Title exceeds ${MAX_TITLE_LENGTH} characters`),
+          text: z.string().optional(),
+          link: z.url({ error: 'Link must be a URL' }).optional(),
+        })
+        .refine((payload) => !(payload.text && payload.link), 'Use either text or link, not both'),
+      queue: true,
+      cli: {
+        command: 'submit <subreddit> <title>',
+        description: 'Submit a text or link post to a subreddit',
+        options: [
+          { flags: '--text <text>', description: 'Post body (text post)' },
+          { flags: '--link <url>', description: 'Linked URL (link post)' },
+        ],
+        done: ({ subreddit }, result) => `Posted to r/${subreddit}: ${(result as RedditSubmitResult).postUrl}`,
+        failed: 'submit post',
+      },
+      run: (handler, payload) => handler.submit(payload),
+    }),
+    action({
+      name: 'subscribe',
+      description: 'Subscribe to a subreddit',
+      schema: subredditPayload,
+      limitKey: 'follow',
+      cli: {
+        command: 'subscribe <subreddit>',
+        description: 'Subscribe to (join) a subreddit',
+        done: ({ subreddit }) => `Subscribed to: ${subreddit}`,
+        failed: 'subscribe',
+      },
+      run: (handler, payload) => handler.subscribe(payload),
+    }),
+    action({
+      name: 'unsubscribe',
+      description: 'Unsubscribe from a subreddit',
+      schema: subredditPayload,
+      limitKey: 'follow',
+      cli: {
+        command: 'unsubscribe <subreddit>',
+        description: 'Unsubscribe from (leave) a subreddit',
+        done: ({ subreddit }) => `Unsubscribed from: ${subreddit}`,
+        failed: 'unsubscribe',
+      },
+      run: (handler, payload) => handler.unsubscribe(payload),
+    }),
+    action({
+      name: 'follow',
+      description: 'Follow a user',
+      schema: followPayload,
+      queue: true,
+      cli: {
+        command: 'follow <username>',
+        description: 'Follow a Reddit user',
+        done: ({ username }) => `Followed: u/${username}`,
+        failed: 'follow',
+        context: ({ username }) => ({ profileUrl: `https://www.reddit.com/user/${username}` }),
+      },
+      run: (handler, payload) => handler.follow(payload),
+    }),
+    action({
+      name: 'unfollow',
+      description: 'Unfollow a user',
+      schema: followPayload,
+      run: (handler, payload) => handler.unfollow(payload),
+    }),
+    action({
+      name: 'dm',
+      aliases: ['message'],
+      description: 'Send a private message (optional `subject`)',
+      schema: dmPayload.extend({ subject: z.string().optional() }),
+      queue: true,
+      cli: {
+        command: 'message <username> <text>',
+        description: 'Send a private message to a Reddit user',
+        options: [{ flags: '-s, --subject <subject>', description: 'Message subject (default: start of the message)' }],
+        payload: ({ username, text, subject }) => ({ username, message: text, subject }),
+        done: ({ username }) => `Sent message to: u/${username}`,
+        failed: 'send message',
+      },
+      run: (handler, payload) => handler.dm(payload),
+    }),
+    action({
+      name: 'view_profile',
+      description: 'Get profile data',
+      schema: profilePayload,
+      read: true,
+      route: 'profile/:username',
+      cli: {
+        command: 'profile <username>',
+        description: 'Get Reddit profile data',
+        failed: 'get profile',
+      },
+      run: (handler, { username }) => handler.getProfile(username),
+    }),
+    action({
+      name: 'view_feed',
+      aliases: ['feed'],
+      description: "Read a subreddit's posts",
+      schema: z.object({
+        subreddit,
+        sort: z.enum(['hot', 'new', 'top', 'rising'], { error: 'Sort must be hot, new, top or rising' }).default('hot'),
+        limit: z.coerce
+          .number({ error: 'Limit must be a number' })
+          .int('Limit must be a whole number')
+          .min(1, 'Limit must be 1-100')
+          .max(100, 'Limit must be 1-100')
+          .default(25),
+        time: z
+          .enum(['hour', 'day', 'week', 'month', 'year', 'all'], { error: 'Time must be hour, day, week, month, year or all' })
+          .optional(),
+      }),
+      read: true,
+      route: 'r/:subreddit',
+      cli: {
+        command: 'feed <subreddit>',
+        description: "Read a subreddit's posts",
+        options: [
+          { flags: '-s, --sort <sort>', description: 'hot, new, top or rising', defaultValue: 'hot' },
+          { flags: '-n, --limit <number>', description: 'Max posts (1-100)', defaultValue: '25' },
+          { flags: '-t, --time <range>', description: 'Time range of top: hour, day, week, month, year or all' },
+        ],
+        failed: 'read feed',
+      },
+      run: (handler, payload) => handler.getFeed(payload),
+    }),
+  ],
+};
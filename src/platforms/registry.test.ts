@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import './builtin.js';
+import {
+  PayloadError,
+  findAction,
+  getAction,
+  getPlatform,
+  isPlatform,
+  listPlatforms,
+  parsePayload,
+  registerPlatform,
+} from './registry.js';
+import type { PlatformDefinition } from './registry.js';
+
+describe('platform registry', () => {
+  it('has the built-in platforms', () => {
+    expect(listPlatforms().map((platform) => platform.id)).toEqual(['instagram', 'twitter', 'linkedin', 'reddit', 'bluesky']);
+    expect(isPlatform('twitter')).toBe(true);
+    expect(isPlatform('myspace')).toBe(false);
+    expect(isPlatform(42)).toBe(false);
+    expect(() => getPlatform('myspace')).toThrow('Unknown platform: myspace');
+  });
+
+  it('adds a platform from elsewhere, once', () => {
+    const mastodon = {
+      id: 'mastodon',
+      name: 'Mastodon',
+      command: 'mastodon',
+      rateLimits: { like: 100 },
+      createHandler: () => {
+        throw new Error('not needed here');
+      },
+      actions: [{ name: 'like', aliases: ['favourite'], description: 'Favourite a toot', schema: z.object({}), run: async () => null }],
+    } as PlatformDefinition;
+
+    registerPlatform(mastodon);
+
+    expect(getPlatform('mastodon')).toBe(mastodon);
+    expect(findAction('mastodon', 'favourite')?.name).toBe('like');
+    expect(() => registerPlatform(mastodon)).toThrow('Platform already registered: mastodon');
+  });
+
+  it('finds actions by name or alias', () => {
+    expect(findAction('twitter', 'tweet')?.name).toBe('post');
+    expect(findAction('twitter', 'post')).toBe(findAction('twitter', 'tweet'));
+    expect(findAction('twitter', 'upvote')).toBeUndefined();
+    expect(findAction('myspace', 'like')).toBeUndefined();
+  });
+
+  it('throws for unknown platforms and actions', () => {
+    expect(() => getAction('myspace', 'like')).toThrow('Unknown platform: myspace');
+    expect(() => getAction('twitter', 'upvote')).toThrow('Unsupported action: twitter/upvote');
+  });
+});
+
+describe('parsePayload', () => {
+  it('applies the schema defaults', () => {
+    expect(parsePayload(getAction('bluesky', 'search'), { q: 'crabs', limit: '10' })).toEqual({
+      q: 'crabs',
+      type: 'posts',
+      sort: 'latest',
+      limit: 10,
+    });
+  });
+
+  it('lists every field problem', () => {
+    let error: unknown;
+    try {
+      parsePayload(getAction('twitter', 'dm'), { message: '' });
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(PayloadError);
+    expect((error as PayloadError).issues).toEqual([
+      { path: 'username', message: 'Username required' },
+      { path: 'message', message: 'Message required' },
+    ]);
+    expect((error as PayloadError).message).toBe('username: Username required; message: Message required');
+  });
+
+  it('treats a missing payload as empty', () => {
+    expect(() => parsePayload(getAction('twitter', 'like'), undefined)).toThrow('url: URL required');
+  });
+});
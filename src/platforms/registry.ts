@@ -0,0 +1,188 @@
+/**
+ * SocialCrabs Platform Registry
+ *
+ * A platform declares everything about itself in one definition: how to build
+ * its handler for an account, its default rate limits, and its actions with
+ * their payload schemas, rate-limit keys, HTTP routes and CLI commands. The
+ * SocialCrabs class, HTTP routes, WebSocket commands, job queue and CLI are
+ * generated from the registered platforms, so a platform can live in a separate
+ * package and be added with registerPlatform() before SocialCrabs is created.
+ */
+
+import type { Command } from 'commander';
+import type { z } from 'zod';
+import type { BrowserManager } from '../browser/manager.js';
+import type { RateLimiter } from '../utils/rate-limiter.js';
+import type { ResolvedConfig } from '../utils/config.js';
+import type { BasePlatformHandler } from './base.js';
+import type { Platform, ActionType, ActionResult, PlatformRateLimits } from '../types/index.js';
+
+// What a platform gets to build the handler of one account
+export interface PlatformContext {
+  browserManager: BrowserManager;
+  rateLimiter: RateLimiter;
+  account: string;
+  config: ResolvedConfig;
+}
+
+// Positional arguments are named after the command syntax ('comment <url> <text>'), options by commander
+export type CliArgs = Record<string, any>;
+
+export interface CliOption {
+  flags: string;
+  description: string;
+  defaultValue?: string;
+}
+
+// CLI command generated for an action. Runs headless and exits 1 on failure.
+export interface ActionCli<P> {
+  // Commander syntax, e.g. 'reply <url> <text>'
+  command: string;
+  description: string;
+  options?: CliOption[];
+  // Payload from the named arguments and options (default: passed as is)
+  payload?(args: CliArgs): P;
+  // Printed after ✅ on success (read actions print their data as JSON)
+  done?(payload: P, result: ActionResult): string;
+  // Printed as "Failed to <failed>: <error>"
+  failed: string;
+  // Offer -r/--retries; only for actions that are safe to repeat
+  retry?: boolean;
+  // Offer -c/--context; notification details the caller's context is merged into
+  context?(payload: P): Record<string, unknown>;
+}
+
+export interface PlatformAction<H extends BasePlatformHandler = BasePlatformHandler, P = unknown> {
+  name: ActionType;
+  // Other names accepted for it (HTTP routes, WebSocket commands, queued jobs)
+  aliases?: string[];
+  description: string;
+  schema: z.ZodType<P>;
+  // Limit key it counts against when it differs from the default for its name
+  limitKey?: string;
+  // Returns data instead of an ActionResult: served over GET and never queued
+  read?: boolean;
+  // Can be deferred with the job queue
+  queue?: boolean;
+  // Route under /api/<platform>/ (default: the name and aliases); ':param' segments become payload fields
+  route?: string;
+  cli?: ActionCli<P>;
+  run(handler: H, payload: P): Promise<unknown>;
+}
+
+export interface PlatformDefinition<H extends BasePlatformHandler = BasePlatformHandler> {
+  id: Platform;
+  // Display name ('Twitter/X')
+  name: string;
+  // CLI command group and its aliases ('twitter', 'x')
+  command: string;
+  aliases?: string[];
+  rateLimits: Partial<PlatformRateLimits>;
+  // Environment variables of limit keys not named RATE_LIMIT_<ID>_<KEY> ({ like: 'RATE_LIMIT_REDDIT_UPVOTE' })
+  envLimits?: Record<string, string>;
+  // Whether its handlers drive a browser page (default: true); the CLI doesn't launch one otherwise
+  browser?: boolean;
+  // Site origin whose localStorage older session files kept as a flat snapshot
+  origin?: string;
+  // Cookie only a logged-in session has; sessions without it are not saved over good ones
+  sessionCookie?: string;
+  // Payload fields naming an action's target in CLI output, after url, profileUrl and username
+  targetFields?: string[];
+  createHandler(context: PlatformContext): H;
+  actions: PlatformAction<H, any>[];
+  // Extra CLI commands of the platform's group (reads, searches, scripts)
+  commands?(group: Command): void;
+}
+
+/**
+ * Action declarer for a handler class; each action's payload type is inferred from its schema.
+ * `const action = actionBuilder<TwitterHandler>(); action({ name: 'like', schema, run: (h, p) => h.like(p) })`
+ */
+export function actionBuilder<H extends BasePlatformHandler>() {
+  return <S extends z.ZodType>(action: PlatformAction<H, z.output<S>> & { schema: S }): PlatformAction<H, z.output<S>> =>
+    action;
+}
+
+// A payload field that failed validation: its dotted path ('' for the payload itself) and why
+export interface PayloadIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * A payload that doesn't match its action's schema, with every field problem
+ */
+export class PayloadError extends Error {
+  constructor(readonly issues: PayloadIssue[]) {
+    super(issues.map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)).join('; '));
+    this.name = 'PayloadError';
+  }
+}
+
+const platforms: Map<string, PlatformDefinition> = new Map();
+
+/**
+ * Add a platform. Register before creating SocialCrabs, which sets up rate limits
+ * and routes from the platforms registered at that point.
+ */
+export function registerPlatform<H extends BasePlatformHandler>(definition: PlatformDefinition<H>): void {
+  if (platforms.has(definition.id)) {
+    throw new Error(`Platform already registered: ${definition.id}`);
+  }
+  platforms.set(definition.id, definition as unknown as PlatformDefinition);
+}
+
+export function isPlatform(id: unknown): id is Platform {
+  return typeof id === 'string' && platforms.has(id);
+}
+
+export function getPlatform(id: string): PlatformDefinition {
+  const definition = platforms.get(id);
+  if (!definition) {
+    throw new Error(`Unknown platform: ${id}`);
+  }
+  return definition;
+}
+
+export function listPlatforms(): PlatformDefinition[] {
+  return [...platforms.values()];
+}
+
+/**
+ * A platform's action by name or alias, or undefined
+ */
+export function findAction(platform: string, name: string): PlatformAction | undefined {
+  return platforms
+    .get(platform)
+    ?.actions.find((action) => action.name === name || action.aliases?.includes(name));
+}
+
+/**
+ * A platform's action by name or alias. Throws for unknown platforms and actions.
+ */
+export function getAction(platform: string, name: string): PlatformAction {
+  const action = findAction(getPlatform(platform).id, name);
+  if (!action) {
+    throw new Error(`Unsupported action: ${platform}/${name}`);
+  }
+  return action;
+}
+
+/**
+ * Validate a payload against an action's schema, returning it with defaults applied.
+ * Throws a PayloadError listing every field problem.
+ */
+export function parsePayload<P>(action: PlatformAction<any, P>, payload: unknown): P {
+  const parsed = action.schema.safeParse(payload ?? {});
+  if (!parsed.success) {
+    throw new PayloadError(payloadIssues(parsed.error));
+  }
+  return parsed.data;
+}
+
+/**
+ * The field problems of a failed zod parse
+ */
+export function payloadIssues(error: z.ZodError): PayloadIssue[] {
+  return error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message }));
+}
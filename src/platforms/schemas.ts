@@ -0,0 +1,25 @@
+/**
+ * Payload fields shared by the platform action schemas. Each field carries the
+ * message returned when it is missing or malformed.
+ */
+
+import { z } from 'zod';
+
+function required(label: string) {
+  return z.string({ error: `${label} required` }).min(1, `${label} required`);
+}
+
+export const url = required('URL');
+export const text = required('Text');
+export const username = required('Username');
+export const message = required('Message');
+export const profileUrl = required('Profile URL');
+
+// File paths on the host running SocialCrabs
+export const media = z.array(z.string().min(1), { error: 'Media must be an array of file paths' });
+
+export const likePayload = z.object({ url });
+export const commentPayload = z.object({ url, text });
+export const followPayload = z.object({ username });
+export const dmPayload = z.object({ username, message });
+export const profilePayload = z.object({ username });
@@ -1,17 +1,63 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
 import { BasePlatformHandler } from './base.js';
+import { actionBuilder } from './registry.js';
+import { likePayload, commentPayload, followPayload, dmPayload, profilePayload, url, text, media } from './schemas.js';
 import { log } from '../utils/logger.js';
+import { ActionError, errorCode } from '../utils/errors.js';
+import { validateMedia, TWITTER_MEDIA_RULES } from '../utils/media.js';
+import { DEFAULT_ACCOUNT } from '../utils/accounts.js';
+import { XGraphQLClient, createClientFromEnv, extractTweetId } from '../graphql/index.js';
+import type { MediaFile } from '../utils/media.js';
+import type { MutationResult, CreateTweetResult } from '../graphql/index.js';
+import type { SoftBlockSignal } from './base.js';
+import type { PlatformDefinition } from './registry.js';
 import type { BrowserManager } from '../browser/manager.js';
 import type { RateLimiter } from '../utils/rate-limiter.js';
 import type {
+  ActionType,
   ActionResult,
+  RateLimitStatus,
   LikePayload,
-  CommentPayload,
+  ReplyPayload,
   FollowPayload,
   DMPayload,
   PostPayload,
+  ThreadPayload,
+  ThreadResult,
   TwitterProfile,
 } from '../types/index.js';
 
+// Thread limits (X counts URLs as 23 characters and wide/CJK characters as 2)
+const MAX_TWEET_LENGTH = 280;
+const MAX_THREAD_LENGTH = 25;
+const TCO_URL_LENGTH = 23;
+
+/**
+ * Weighted tweet length, following X's counting rules closely enough to reject
+ * over-long tweets before anything is posted
+ */
+function tweetLength(text: string): number {
+  const withoutUrls = text.replace(/https?:\/\/\S+/g, '');
+  const urls = (text.match(/https?:\/\/\S+/g) || []).length;
+  let length = urls * TCO_URL_LENGTH;
+  for (const char of withoutUrls) {
+    const code = char.codePointAt(0) ?? 0;
+    const narrow =
+      code <= 0x10ff ||
+      (code >= 0x2000 && code <= 0x200d) ||
+      (code >= 0x2010 && code <= 0x201f) ||
+      (code >= 0x2032 && code <= 0x2037);
+    length += narrow ? 1 : 2;
+  }
+  return length;
+}
+
+// GraphQL error codes meaning the action was already done
+const ALREADY_LIKED = 139;
+const ALREADY_RETWEETED = 327;
+
 // Twitter/X selectors (updated for current UI)
 const SELECTORS = {
   // Login
@@ -39,6 +85,14 @@ const SELECTORS = {
   replyInput: '[data-testid="tweetTextarea_0"]',
   tweetButton: '[data-testid="tweetButton"], [data-testid="tweetButtonInline"]',
   composeTweet: 'a[data-testid="SideNav_NewTweet_Button"]',
+  mediaInput: 'input[data-testid="fileInput"]',
+  mediaAttachment: '[data-testid="attachments"]',
+  sentToast: '[data-testid="toast"] a[href*="/status/"]',
+  profileLink: 'a[data-testid="AppTabBar_Profile_Link"]',
+  tweetArticle: 'article[data-testid="tweet"]',
+  socialContext: '[data-testid="socialContext"]',
+  tweetPermalink: 'a[href*="/status/"]:has(time)',
+  tweetButtonEnabled: '[data-testid="tweetButton"]:not([aria-disabled="true"]), [data-testid="tweetButtonInline"]:not([aria-disabled="true"])',
   
   // Profile
   followButton: 'div[data-testid="placementTracking"] div[role="button"]:has-text("Follow")',
@@ -60,759 +114,1196 @@ const SELECTORS = {
   verifiedBadge: 'svg[data-testid="icon-verified"]',
 };
 
+// Toasts and notices X shows when an account is rate limited
+const SOFT_BLOCK_SIGNALS: SoftBlockSignal[] = [
+  { reason: 'Rate limited', selector: '[data-testid="toast"], [role="alert"]', pattern: /rate limit|try again later/i },
+  { reason: 'Daily limit reached', selector: '[data-testid="toast"], [role="alert"], [data-testid="sheetDialog"]', pattern: /over the daily limit|reached your limit|unable to follow more/i },
+];
+
+// Missing pages and accounts, deleted or withheld tweets
+const NOT_FOUND_SIGNALS: SoftBlockSignal[] = [
+  { reason: 'Page not found', selector: '[data-testid="error-detail"], [data-testid="emptyState"]', pattern: /(page|account) doesn[’']t exist|account is suspended/i },
+  { reason: 'Tweet unavailable', selector: '[data-testid="primaryColumn"] article', pattern: /this (post|tweet) (is unavailable|was deleted)/i },
+];
+
+// Actions that create something: repeating one whose outcome is unknown could post twice
+const NON_IDEMPOTENT: ActionType[] = ['post', 'comment', 'thread'];
+
+// GraphQL error codes that are soft blocks rather than failures
+const GRAPHQL_SOFT_BLOCKS: Record<number, string> = {
+  88: 'Rate limited',
+  161: 'Follow limit reached',
+  185: 'Daily tweet limit reached',
+  344: 'Daily limit reached',
+};
+
+export interface TwitterHandlerOptions {
+  // Use cookie-authenticated GraphQL calls for like/retweet/follow/unfollow/post/reply
+  // (text only) instead of driving the browser; falls back to Playwright on failure
+  preferGraphQL?: boolean;
+}
+
 export class TwitterHandler extends BasePlatformHandler {
   private readonly baseUrl = 'https://x.com';
-
-  constructor(browserManager: BrowserManager, rateLimiter: RateLimiter) {
-    super('twitter', browserManager, rateLimiter);
+  protected softBlockSignals = SOFT_BLOCK_SIGNALS;
+  protected notFoundSignals = NOT_FOUND_SIGNALS;
+  protected loginUrlPattern = /\/(i\/flow\/)?login\b/;
+  private preferGraphQL: boolean;
+  private graphqlClient: XGraphQLClient | null = null;
+
+  constructor(
+    browserManager: BrowserManager,
+    rateLimiter: RateLimiter,
+    account?: string,
+    options: TwitterHandlerOptions = {}
+  ) {
+    super('twitter', browserManager, rateLimiter, account);
+    this.preferGraphQL = options.preferGraphQL ?? false;
   }
 
   /**
    * Check if logged in to Twitter
    */
   async isLoggedIn(): Promise<boolean> {
-    try {
-      await this.navigate(`${this.baseUrl}/home`);
-      await this.delay();
+    return this.withPage('isLoggedIn', async () => {
+      try {
+        await this.navigate(`${this.baseUrl}/home`);
+        await this.delay();
       
-      const hasTimeline = await this.elementExists(SELECTORS.homeTimeline);
-      const hasNav = await this.elementExists(SELECTORS.primaryNav);
+        const hasTimeline = await this.elementExists(SELECTORS.homeTimeline);
+        const hasNav = await this.elementExists(SELECTORS.primaryNav);
       
-      return hasTimeline || hasNav;
-    } catch (error) {
-      log.error('Error checking Twitter login status', { error: String(error) });
-      return false;
-    }
+        return hasTimeline || hasNav;
+      } catch (error) {
+        log.error('Error checking Twitter login status', { error: String(error) });
+        return false;
+      }
+    });
   }
 
   /**
    * Login to Twitter (interactive)
    */
   async login(): Promise<boolean> {
-    try {
-      log.info('Starting Twitter login...');
+    return this.withPage('login', async () => {
+      try {
+        log.info('Starting Twitter login...');
       
-      await this.navigate(`${this.baseUrl}/login`);
-      await this.delay();
+        await this.navigate(`${this.baseUrl}/login`);
+        await this.delay();
 
-      if (await this.isLoggedIn()) {
-        log.info('Already logged in to Twitter');
-        return true;
-      }
+        if (await this.isLoggedIn()) {
+          log.info('Already logged in to Twitter');
+          return true;
+        }
 
-      const hasLoginForm = await this.waitForElement(SELECTORS.loginUsername, 15000);
-      if (!hasLoginForm) {
-        log.error('Login form not found');
-        return false;
-      }
+        const hasLoginForm = await this.waitForElement(SELECTORS.loginUsername, 15000);
+        if (!hasLoginForm) {
+          log.error('Login form not found');
+          return false;
+        }
 
-      log.info('Twitter login form ready. Please enter credentials manually.');
-      log.info('Waiting for login to complete...');
+        log.info('Twitter login form ready. Please enter credentials manually.');
+        log.info('Waiting for login to complete...');
 
-      const startTime = Date.now();
-      const timeout = 120000;
+        const startTime = Date.now();
+        const timeout = 120000;
 
-      while (Date.now() - startTime < timeout) {
-        if (await this.isLoggedIn()) {
-          log.info('Twitter login successful');
-          await this.browserManager.saveSession('twitter');
-          return true;
+        while (Date.now() - startTime < timeout) {
+          if (await this.isLoggedIn()) {
+            log.info('Twitter login successful');
+            await this.saveSession();
+            return true;
+          }
+          await new Promise((resolve) => setTimeout(resolve, 2000));
         }
-        await new Promise((resolve) => setTimeout(resolve, 2000));
-      }
 
-      log.error('Twitter login timeout');
-      return false;
-    } catch (error) {
-      log.error('Twitter login failed', { error: String(error) });
-      return false;
-    }
+        log.error('Twitter login timeout');
+        return false;
+      } catch (error) {
+        log.error('Twitter login failed', { error: String(error) });
+        return false;
+      }
+    });
   }
 
   /**
    * Login with credentials (headless)
    */
   async loginWithCredentials(username: string, password: string): Promise<boolean> {
-    try {
-      log.info('Starting Twitter headless login...');
+    return this.withPage('loginWithCredentials', async () => {
+      try {
+        log.info('Starting Twitter headless login...');
       
-      await this.navigate(`${this.baseUrl}/login`);
-      await this.delay();
+        await this.navigate(`${this.baseUrl}/login`);
+        await this.delay();
 
-      if (await this.isLoggedIn()) {
-        log.info('Already logged in to Twitter');
-        return true;
-      }
+        if (await this.isLoggedIn()) {
+          log.info('Already logged in to Twitter');
+          return true;
+        }
 
-      // Wait for username input
-      if (!(await this.waitForElement(SELECTORS.loginUsername, 15000))) {
-        log.error('Login form not found');
-        return false;
-      }
+        // Wait for username input
+        if (!(await this.waitForElement(SELECTORS.loginUsername, 15000))) {
+          log.error('Login form not found');
+          return false;
+        }
 
-      // Enter username
-      await this.typeHuman(SELECTORS.loginUsername, username, { clear: true });
-      await this.pause();
+        // Enter username
+        await this.typeHuman(SELECTORS.loginUsername, username, { clear: true });
+        await this.pause();
 
-      // Click next
-      if (await this.elementExists(SELECTORS.nextButton)) {
-        await this.clickHuman(SELECTORS.nextButton);
-        await this.delay();
-      }
+        // Click next
+        if (await this.elementExists(SELECTORS.nextButton)) {
+          await this.clickHuman(SELECTORS.nextButton);
+          await this.delay();
+        }
 
-      // Wait for password input
-      if (!(await this.waitForElement(SELECTORS.loginPassword, 10000))) {
-        log.error('Password field not found');
-        return false;
-      }
+        // Wait for password input
+        if (!(await this.waitForElement(SELECTORS.loginPassword, 10000))) {
+          log.error('Password field not found');
+          return false;
+        }
 
-      // Enter password
-      await this.typeHuman(SELECTORS.loginPassword, password, { clear: true });
-      await this.pause();
+        // Enter password
+        await this.typeHuman(SELECTORS.loginPassword, password, { clear: true });
+        await this.pause();
 
-      // Click login
-      if (await this.elementExists(SELECTORS.loginButton)) {
-        await this.clickHuman(SELECTORS.loginButton);
-      } else {
-        const page = await this.getPage();
-        await page.keyboard.press('Enter');
-      }
+        // Click login
+        if (await this.elementExists(SELECTORS.loginButton)) {
+          await this.clickHuman(SELECTORS.loginButton);
+        } else {
+          const page = await this.getPage();
+          await page.keyboard.press('Enter');
+        }
       
-      await this.delay();
+        await this.delay();
 
-      // Wait for login
-      const startTime = Date.now();
-      const timeout = 30000;
+        // Wait for login
+        const startTime = Date.now();
+        const timeout = 30000;
 
-      while (Date.now() - startTime < timeout) {
-        if (await this.isLoggedIn()) {
-          log.info('Twitter login successful');
-          await this.browserManager.saveSession('twitter');
-          return true;
+        while (Date.now() - startTime < timeout) {
+          if (await this.isLoggedIn()) {
+            log.info('Twitter login successful');
+            await this.saveSession();
+            return true;
+          }
+          await new Promise((resolve) => setTimeout(resolve, 1000));
         }
-        await new Promise((resolve) => setTimeout(resolve, 1000));
-      }
 
-      log.error('Twitter login timeout');
-      return false;
-    } catch (error) {
-      log.error('Twitter login failed', { error: String(error) });
-      return false;
-    }
+        log.error('Twitter login timeout');
+        return false;
+      } catch (error) {
+        log.error('Twitter login failed', { error: String(error) });
+        return false;
+      }
+    });
   }
 
   /**
    * Logout from Twitter
    */
   async logout(): Promise<void> {
-    try {
-      await this.browserManager.closeContext('twitter');
-      log.info('Logged out of Twitter');
-    } catch (error) {
-      log.error('Error logging out of Twitter', { error: String(error) });
-    }
+    return this.withPage('logout', async () => {
+      try {
+        await this.browserManager.closeContext(this.platform, this.account);
+        log.info('Logged out of Twitter');
+      } catch (error) {
+        log.error('Error logging out of Twitter', { error: String(error) });
+      }
+    });
   }
 
   /**
    * Like a tweet
    */
   async like(payload: LikePayload): Promise<ActionResult> {
-    const startTime = Date.now();
-    const { allowed, status } = await this.checkAndRecordAction('like');
+    return this.withPage('like', async () => {
+      const startTime = Date.now();
+      const { allowed, status, blocked } = await this.checkAndRecordAction('like', payload.url);
 
-    if (!allowed) {
-      return this.createErrorResult('like', payload.url, 'Rate limit exceeded', startTime, status);
-    }
+      if (!allowed) {
+        return this.createBlockedResult('like', payload.url, startTime, status, blocked);
+      }
 
-    try {
-      log.info('Liking tweet', { url: payload.url });
+      const viaApi = await this.viaGraphQL(
+        'like',
+        payload.url,
+        startTime,
+        status,
+        (client) => client.like(extractTweetId(payload.url)),
+        () => ({ postUrl: payload.url, actions: ['❤️ Liked'] }),
+        ALREADY_LIKED
+      );
+      if (viaApi) return viaApi;
+
+      try {
+        log.info('Liking tweet', { url: payload.url });
 
-      await this.navigate(payload.url);
+        await this.navigate(payload.url);
       
-      const page = await this.getPage();
+        const page = await this.getPage();
       
-      // Wait for page to load properly
-      await page.waitForTimeout(3000);
+        // Wait for page to load properly
+        await page.waitForTimeout(3000);
       
-      // Check if redirected to login
-      const currentUrl = page.url();
-      if (currentUrl.includes('/login') || currentUrl.includes('/i/flow/login')) {
-        log.error('Redirected to login - session may be invalid');
-        await page.screenshot({ path: './sessions/debug-x-login-redirect.png' });
-        return this.createErrorResult('like', payload.url, 'Session expired - redirected to login', startTime, status);
-      }
+        // Check if redirected to login
+        const currentUrl = page.url();
+        if (currentUrl.includes('/login') || currentUrl.includes('/i/flow/login')) {
+          log.error('Redirected to login - session may be invalid');
+          await page.screenshot({ path: './sessions/debug-x-login-redirect.png' });
+          return await this.failAction('like', payload.url, 'Session expired - redirected to login', startTime, status, 'SESSION_EXPIRED');
+        }
       
-      // Handle cookie consent banner
-      const cookieAccept = page.locator('button:has-text("Accept all cookies"), div[role="button"]:has-text("Accept all")');
-      if (await cookieAccept.isVisible().catch(() => false)) {
-        log.info('Dismissing cookie banner');
-        await cookieAccept.first().click();
-        await page.waitForTimeout(1000);
-      }
+        // Handle cookie consent banner
+        const cookieAccept = page.locator('button:has-text("Accept all cookies"), div[role="button"]:has-text("Accept all")');
+        if (await cookieAccept.isVisible().catch(() => false)) {
+          log.info('Dismissing cookie banner');
+          await cookieAccept.first().click();
+          await page.waitForTimeout(1000);
+        }
       
-      // Extract tweet details for notification
-      let author = '';
-      let preview = '';
-      try {
-        // Get author from tweet article
-        const authorEl = page.locator('article div[data-testid="User-Name"] a[role="link"]').first();
-        const authorHref = await authorEl.getAttribute('href').catch(() => null);
-        if (authorHref) {
-          author = authorHref.replace('/', '').split('/')[0];
-        }
-        // Get tweet text
-        const tweetTextEl = page.locator('article div[data-testid="tweetText"]').first();
-        preview = await tweetTextEl.textContent().catch(() => '') || '';
-        preview = preview.substring(0, 100);
-      } catch {
-        log.debug('Could not extract tweet details');
-      }
+        // Extract tweet details for notification
+        let author = '';
+        let preview = '';
+        try {
+          // Get author from tweet article
+          const authorEl = page.locator('article div[data-testid="User-Name"] a[role="link"]').first();
+          const authorHref = await authorEl.getAttribute('href').catch(() => null);
+          if (authorHref) {
+            author = authorHref.replace('/', '').split('/')[0];
+          }
+          // Get tweet text
+          const tweetTextEl = page.locator('article div[data-testid="tweetText"]').first();
+          preview = await tweetTextEl.textContent().catch(() => '') || '';
+          preview = preview.substring(0, 100);
+        } catch {
+          log.debug('Could not extract tweet details');
+        }
       
-      await this.think();
-
-      // Check if already liked - look for filled heart (unlike button)
-      // X uses data-testid="unlike" for already-liked state
-      // Try multiple selectors for the main tweet
-      const unlikeSelectors = [
-        'div[data-testid="unlike"]',
-        'article div[data-testid="unlike"]',
-        '[data-testid="unlike"]'
-      ];
+        await this.think();
+
+        // Check if already liked - look for filled heart (unlike button)
+        // X uses data-testid="unlike" for already-liked state
+        // Try multiple selectors for the main tweet
+        const unlikeSelectors = [
+          'div[data-testid="unlike"]',
+          'article div[data-testid="unlike"]',
+          '[data-testid="unlike"]'
+        ];
       
-      for (const sel of unlikeSelectors) {
-        const alreadyLiked = await page.locator(sel).first().isVisible().catch(() => false);
-        if (alreadyLiked) {
-          log.info('Tweet already liked');
-          return this.createResult('like', payload.url, startTime, status, {
-            postUrl: payload.url,
-            author,
-            preview,
-            actions: ['❤️ Already Liked'],
-          });
+        for (const sel of unlikeSelectors) {
+          const alreadyLiked = await page.locator(sel).first().isVisible().catch(() => false);
+          if (alreadyLiked) {
+            log.info('Tweet already liked');
+            return this.alreadyDoneResult('like', payload.url, startTime, status, {
+              postUrl: payload.url,
+              author,
+              preview,
+              actions: ['❤️ Already Liked'],
+            });
+          }
         }
-      }
 
-      // Wait a bit more for like button - try multiple selectors
-      const likeSelectors = [
-        'div[data-testid="like"]',
-        'article div[data-testid="like"]',
-        '[data-testid="like"]'
-      ];
+        // Wait a bit more for like button - try multiple selectors
+        const likeSelectors = [
+          'div[data-testid="like"]',
+          'article div[data-testid="like"]',
+          '[data-testid="like"]'
+        ];
       
-      let likeButton = null;
-      for (const sel of likeSelectors) {
-        const btn = page.locator(sel).first();
-        if (await btn.isVisible().catch(() => false)) {
-          likeButton = btn;
-          break;
+        let likeButton = null;
+        for (const sel of likeSelectors) {
+          const btn = page.locator(sel).first();
+          if (await btn.isVisible().catch(() => false)) {
+            likeButton = btn;
+            break;
+          }
         }
-      }
       
-      if (!likeButton) {
-        await page.screenshot({ path: './sessions/debug-x-like-not-found.png' });
-        log.error('Like button not found - screenshot saved');
-        return this.createErrorResult('like', payload.url, 'Like button not found', startTime, status);
-      }
+        if (!likeButton) {
+          await page.screenshot({ path: './sessions/debug-x-like-not-found.png' });
+          log.error('Like button not found - screenshot saved');
+          return await this.failAction('like', payload.url, 'Like button not found', startTime, status, 'SELECTOR_MISSING');
+        }
 
-      try {
-        await likeButton.click({ timeout: 5000 });
-      } catch {
-        log.warn('Like button click intercepted, using force click');
         try {
-          await likeButton.click({ force: true, timeout: 5000 });
+          await likeButton.click({ timeout: 5000 });
         } catch {
-          log.warn('Force click failed for like, using JS dispatchEvent');
-          await likeButton.evaluate((el) => {
-            el.dispatchEvent(new Event('click', { bubbles: true, cancelable: true }));
-          });
+          log.warn('Like button click intercepted, using force click');
+          try {
+            await likeButton.click({ force: true, timeout: 5000 });
+          } catch {
+            log.warn('Force click failed for like, using JS dispatchEvent');
+            await likeButton.evaluate((el) => {
+              el.dispatchEvent(new Event('click', { bubbles: true, cancelable: true }));
+            });
+          }
         }
-      }
-      await page.waitForTimeout(1500);
-
-      // Verify like worked - check for unlike button
-      let likeSuccess = false;
-      for (const sel of unlikeSelectors) {
-        const unlikeBtn = await page.locator(sel).first().isVisible().catch(() => false);
-        if (unlikeBtn) {
-          likeSuccess = true;
-          break;
+        await page.waitForTimeout(1500);
+
+        // Verify like worked - check for unlike button
+        let likeSuccess = false;
+        for (const sel of unlikeSelectors) {
+          const unlikeBtn = await page.locator(sel).first().isVisible().catch(() => false);
+          if (unlikeBtn) {
+            likeSuccess = true;
+            break;
+          }
         }
-      }
       
-      if (likeSuccess) {
-        await this.recordAction('like');
-        log.info('Successfully liked tweet');
-        return this.createResult('like', payload.url, startTime, status, {
-          postUrl: payload.url,
-          author,
-          preview,
-          actions: ['❤️ Liked'],
-        });
-      }
+        if (likeSuccess) {
+          await this.recordAction('like');
+          log.info('Successfully liked tweet');
+          return this.createResult('like', payload.url, startTime, status, {
+            postUrl: payload.url,
+            author,
+            preview,
+            actions: ['❤️ Liked'],
+          });
+        }
 
-      await page.screenshot({ path: './sessions/debug-x-like-verify-failed.png' });
-      log.error('Like verification failed - screenshot saved');
-      return this.createErrorResult('like', payload.url, 'Like action failed', startTime, status);
-    } catch (error) {
-      log.error('Error liking tweet', { error: String(error) });
-      return this.createErrorResult('like', payload.url, String(error), startTime, status);
-    }
+        await page.screenshot({ path: './sessions/debug-x-like-verify-failed.png' });
+        log.error('Like verification failed - screenshot saved');
+        return await this.failAction('like', payload.url, 'Like action failed', startTime, status, 'SELECTOR_MISSING');
+      } catch (error) {
+        log.error('Error liking tweet', { error: String(error) });
+        return await this.failAction('like', payload.url, String(error), startTime, status, errorCode(error));
+      }
+    });
   }
 
   /**
    * Reply to a tweet
    */
-  async comment(payload: CommentPayload): Promise<ActionResult> {
-    const startTime = Date.now();
-    const { allowed, status } = await this.checkAndRecordAction('comment');
+  async comment(payload: ReplyPayload): Promise<ActionResult> {
+    return this.withPage('comment', async () => {
+      const startTime = Date.now();
+      const { allowed, status, blocked } = await this.checkAndRecordAction('comment', payload.url);
 
-    if (!allowed) {
-      return this.createErrorResult('comment', payload.url, 'Rate limit exceeded', startTime, status);
-    }
+      if (!allowed) {
+        return this.createBlockedResult('comment', payload.url, startTime, status, blocked);
+      }
 
-    try {
-      log.info('Replying to tweet', { url: payload.url });
+      if (!payload.media?.length) {
+        const text = this.sanitizeText(payload.text);
+        const viaApi = await this.viaGraphQL(
+          'comment',
+          payload.url,
+          startTime,
+          status,
+          (client) => client.createTweet(text, { replyToId: extractTweetId(payload.url) }),
+          () => ({ postUrl: payload.url, commentText: text, actions: ['💬 Replied'] })
+        );
+        if (viaApi) return viaApi;
+      }
 
-      await this.navigate(payload.url);
-      await this.think();
+      try {
+        // Validate attachments before touching the browser
+        const media = validateMedia(payload.media || [], TWITTER_MEDIA_RULES);
 
-      const page = await this.getPage();
+        log.info('Replying to tweet', { url: payload.url, media: media.length });
 
-      // Strategy 1: Check if reply input already exists inline (tweet detail page)
-      let hasInlineInput = await this.elementExists(SELECTORS.replyInput);
+        await this.navigate(payload.url);
+        await this.think();
 
-      if (!hasInlineInput) {
-        // Strategy 2: Click reply button to open modal/inline reply
-        if (!(await this.waitForElement(SELECTORS.replyButton, 10000))) {
-          return this.createErrorResult('comment', payload.url, 'Reply button not found', startTime, status);
-        }
+        const page = await this.getPage();
 
-        await this.clickHuman(SELECTORS.replyButton);
-        await this.pause();
+        // Strategy 1: Check if reply input already exists inline (tweet detail page)
+        let hasInlineInput = await this.elementExists(SELECTORS.replyInput);
+
+        if (!hasInlineInput) {
+          // Strategy 2: Click reply button to open modal/inline reply
+          if (!(await this.waitForElement(SELECTORS.replyButton, 10000))) {
+            return await this.failAction('comment', payload.url, 'Reply button not found', startTime, status, 'SELECTOR_MISSING');
+          }
+
+          await this.clickHuman(SELECTORS.replyButton);
+          await this.pause();
 
-        // Wait for reply input (modal or inline)
-        if (!(await this.waitForElement(SELECTORS.replyInput, 10000))) {
-          // Strategy 3: Check for dialog-based reply input
-          const dialogInput = await page.locator('[role="dialog"] [data-testid="tweetTextarea_0"]').count();
-          if (dialogInput === 0) {
-            return this.createErrorResult('comment', payload.url, 'Reply input not found', startTime, status);
+          // Wait for reply input (modal or inline)
+          if (!(await this.waitForElement(SELECTORS.replyInput, 10000))) {
+            // Strategy 3: Check for dialog-based reply input
+            const dialogInput = await page.locator('[role="dialog"] [data-testid="tweetTextarea_0"]').count();
+            if (dialogInput === 0) {
+              return await this.failAction('comment', payload.url, 'Reply input not found', startTime, status, 'SELECTOR_MISSING');
+            }
           }
         }
-      }
 
-      // Sanitize and type reply
-      const sanitizedText = this.sanitizeText(payload.text);
-      await this.clickHuman(SELECTORS.replyInput);
-      await page.keyboard.type(sanitizedText, { delay: 50 });
-      await this.pause();
+        // Sanitize and type reply
+        const sanitizedText = this.sanitizeText(payload.text);
+        await this.clickHuman(SELECTORS.replyInput);
+        await page.keyboard.type(sanitizedText, { delay: 50 });
+        await this.pause();
 
-      // Submit reply — try multiple selectors
-      if (!(await this.elementExists(SELECTORS.tweetButton))) {
-        return this.createErrorResult('comment', payload.url, 'Reply submit button not found', startTime, status);
-      }
-      await this.clickHuman(SELECTORS.tweetButton);
+        if (media.length > 0 && !(await this.attachMedia(media))) {
+          return await this.failAction('comment', payload.url, 'Media upload did not finish', startTime, status, 'TIMEOUT');
+        }
+
+        // Submit reply — try multiple selectors
+        if (!(await this.elementExists(SELECTORS.tweetButton))) {
+          return await this.failAction('comment', payload.url, 'Reply submit button not found', startTime, status, 'SELECTOR_MISSING');
+        }
+        await this.clickHuman(SELECTORS.tweetButton);
 
-      await this.delay();
-      await this.recordAction('comment');
+        await this.delay();
+        await this.recordAction('comment');
       
-      log.info('Successfully replied to tweet');
-      return this.createResult('comment', payload.url, startTime, status, {
-        postUrl: payload.url,
-        commentText: sanitizedText,
-        actions: ['💬 Replied'],
-      });
-    } catch (error) {
-      log.error('Error replying to tweet', { error: String(error) });
-      return this.createErrorResult('comment', payload.url, String(error), startTime, status);
-    }
+        log.info('Successfully replied to tweet');
+        return this.createResult('comment', payload.url, startTime, status, {
+          postUrl: payload.url,
+          commentText: sanitizedText,
+          actions: media.length > 0 ? ['💬 Replied', `🖼️ ${media.length} attachment(s)`] : ['💬 Replied'],
+        });
+      } catch (error) {
+        log.error('Error replying to tweet', { error: String(error) });
+        return await this.failAction('comment', payload.url, String(error), startTime, status, errorCode(error));
+      }
+    });
   }
 
   /**
    * Follow a Twitter user
    */
   async follow(payload: FollowPayload): Promise<ActionResult> {
-    const startTime = Date.now();
-    const { allowed, status } = await this.checkAndRecordAction('follow');
+    return this.withPage('follow', async () => {
+      const startTime = Date.now();
+      const { allowed, status, blocked } = await this.checkAndRecordAction('follow', payload.username);
 
-    if (!allowed) {
-      return this.createErrorResult('follow', payload.username, 'Rate limit exceeded', startTime, status);
-    }
+      if (!allowed) {
+        return this.createBlockedResult('follow', payload.username, startTime, status, blocked);
+      }
 
-    try {
-      log.info('Following Twitter user', { username: payload.username });
+      const viaApi = await this.viaGraphQL(
+        'follow',
+        payload.username,
+        startTime,
+        status,
+        (client) => client.follow(payload.username),
+        () => ({ profileUrl: `${this.baseUrl}/${payload.username}`, username: payload.username })
+      );
+      if (viaApi) return viaApi;
+
+      try {
+        log.info('Following Twitter user', { username: payload.username });
 
-      const profileUrl = `${this.baseUrl}/${payload.username}`;
-      await this.navigate(profileUrl);
+        const profileUrl = `${this.baseUrl}/${payload.username}`;
+        await this.navigate(profileUrl);
       
-      const page = await this.getPage();
-      await page.waitForTimeout(3000);
+        const page = await this.getPage();
+        await page.waitForTimeout(3000);
       
-      // Handle cookie consent banner
-      const cookieAccept = page.locator('button:has-text("Accept all cookies"), div[role="button"]:has-text("Accept all")');
-      if (await cookieAccept.isVisible().catch(() => false)) {
-        log.info('Dismissing cookie banner');
-        await cookieAccept.first().click();
-        await page.waitForTimeout(1000);
-      }
+        // Handle cookie consent banner
+        const cookieAccept = page.locator('button:has-text("Accept all cookies"), div[role="button"]:has-text("Accept all")');
+        if (await cookieAccept.isVisible().catch(() => false)) {
+          log.info('Dismissing cookie banner');
+          await cookieAccept.first().click();
+          await page.waitForTimeout(1000);
+        }
       
-      await this.think();
-
-      // Check if already following - multiple selectors
-      const followingSelectors = [
-        'div[data-testid="placementTracking"] div[role="button"][data-testid*="unfollow"]',
-        'div[role="button"][aria-label*="Following"]',
-        'div[data-testid="userActions"] div[role="button"]:has-text("Following")',
-        '[data-testid*="unfollow"]'
-      ];
+        await this.think();
+
+        // Check if already following - multiple selectors
+        const followingSelectors = [
+          'div[data-testid="placementTracking"] div[role="button"][data-testid*="unfollow"]',
+          'div[role="button"][aria-label*="Following"]',
+          'div[data-testid="userActions"] div[role="button"]:has-text("Following")',
+          '[data-testid*="unfollow"]'
+        ];
       
-      for (const sel of followingSelectors) {
-        const isFollowing = await page.locator(sel).first().isVisible().catch(() => false);
-        if (isFollowing) {
-          log.info('Already following user');
-          return this.createResult('follow', payload.username, startTime, status, {
-            profileUrl: `https://x.com/${payload.username}`,
-            actions: ['👥 Already Following'],
-          });
+        for (const sel of followingSelectors) {
+          const isFollowing = await page.locator(sel).first().isVisible().catch(() => false);
+          if (isFollowing) {
+            log.info('Already following user');
+            return this.alreadyDoneResult('follow', payload.username, startTime, status, {
+              profileUrl: `https://x.com/${payload.username}`,
+              actions: ['👥 Already Following'],
+            });
+          }
         }
-      }
 
-      // Find follow button - multiple selectors
-      const followSelectors = [
-        'div[data-testid="placementTracking"] div[role="button"]:has-text("Follow")',
-        'div[role="button"][aria-label*="Follow @"]',
-        'div[data-testid="userActions"] div[role="button"]:has-text("Follow")',
-        '[data-testid*="follow"]:not([data-testid*="unfollow"])'
-      ];
+        // Find follow button - multiple selectors
+        const followSelectors = [
+          'div[data-testid="placementTracking"] div[role="button"]:has-text("Follow")',
+          'div[role="button"][aria-label*="Follow @"]',
+          'div[data-testid="userActions"] div[role="button"]:has-text("Follow")',
+          '[data-testid*="follow"]:not([data-testid*="unfollow"])'
+        ];
       
-      let followButton = null;
-      for (const sel of followSelectors) {
-        const btn = page.locator(sel).first();
-        if (await btn.isVisible().catch(() => false)) {
-          followButton = btn;
-          log.info('Found follow button', { selector: sel });
-          break;
+        let followButton = null;
+        for (const sel of followSelectors) {
+          const btn = page.locator(sel).first();
+          if (await btn.isVisible().catch(() => false)) {
+            followButton = btn;
+            log.info('Found follow button', { selector: sel });
+            break;
+          }
         }
-      }
       
-      if (!followButton) {
-        await page.screenshot({ path: './sessions/debug-x-follow-not-found.png' });
-        log.error('Follow button not found - screenshot saved');
-        return this.createErrorResult('follow', payload.username, 'Follow button not found', startTime, status);
-      }
+        if (!followButton) {
+          await page.screenshot({ path: './sessions/debug-x-follow-not-found.png' });
+          log.error('Follow button not found - screenshot saved');
+          return await this.failAction('follow', payload.username, 'Follow button not found', startTime, status, 'SELECTOR_MISSING');
+        }
 
-      try {
-        await followButton.click({ timeout: 5000 });
-      } catch {
-        log.warn('Follow button click intercepted, using force click');
         try {
-          await followButton.click({ force: true, timeout: 5000 });
+          await followButton.click({ timeout: 5000 });
         } catch {
-          log.warn('Force click failed for follow, using JS dispatchEvent');
-          await followButton.evaluate((el) => {
-            el.dispatchEvent(new Event('click', { bubbles: true, cancelable: true }));
-          });
+          log.warn('Follow button click intercepted, using force click');
+          try {
+            await followButton.click({ force: true, timeout: 5000 });
+          } catch {
+            log.warn('Force click failed for follow, using JS dispatchEvent');
+            await followButton.evaluate((el) => {
+              el.dispatchEvent(new Event('click', { bubbles: true, cancelable: true }));
+            });
+          }
         }
-      }
-      await page.waitForTimeout(1500);
-
-      // Verify follow worked
-      let followSuccess = false;
-      for (const sel of followingSelectors) {
-        const isNowFollowing = await page.locator(sel).first().isVisible().catch(() => false);
-        if (isNowFollowing) {
-          followSuccess = true;
-          break;
+        await page.waitForTimeout(1500);
+
+        // Verify follow worked
+        let followSuccess = false;
+        for (const sel of followingSelectors) {
+          const isNowFollowing = await page.locator(sel).first().isVisible().catch(() => false);
+          if (isNowFollowing) {
+            followSuccess = true;
+            break;
+          }
         }
-      }
       
-      if (followSuccess) {
-        await this.recordAction('follow');
-        log.info('Successfully followed Twitter user');
-        return this.createResult('follow', payload.username, startTime, status, {
-          profileUrl: `https://x.com/${payload.username}`,
-          actions: ['👥 Followed'],
-        });
-      }
+        if (followSuccess) {
+          await this.recordAction('follow');
+          log.info('Successfully followed Twitter user');
+          return this.createResult('follow', payload.username, startTime, status, {
+            profileUrl: `https://x.com/${payload.username}`,
+            actions: ['👥 Followed'],
+          });
+        }
 
-      await page.screenshot({ path: './sessions/debug-x-follow-verify-failed.png' });
-      return this.createErrorResult('follow', payload.username, 'Follow action failed', startTime, status);
-    } catch (error) {
-      log.error('Error following Twitter user', { error: String(error) });
-      return this.createErrorResult('follow', payload.username, String(error), startTime, status);
-    }
+        await page.screenshot({ path: './sessions/debug-x-follow-verify-failed.png' });
+        return await this.failAction('follow', payload.username, 'Follow action failed', startTime, status, 'SELECTOR_MISSING');
+      } catch (error) {
+        log.error('Error following Twitter user', { error: String(error) });
+        return await this.failAction('follow', payload.username, String(error), startTime, status, errorCode(error));
+      }
+    });
   }
 
   /**
    * Unfollow a Twitter user
    */
   async unfollow(payload: FollowPayload): Promise<ActionResult> {
-    const startTime = Date.now();
-    const { allowed, status } = await this.checkAndRecordAction('follow');
+    return this.withPage('unfollow', async () => {
+      const startTime = Date.now();
+      const { allowed, status, blocked } = await this.checkAndRecordAction('unfollow', payload.username);
 
-    if (!allowed) {
-      return this.createErrorResult('unfollow', payload.username, 'Rate limit exceeded', startTime, status);
-    }
+      if (!allowed) {
+        return this.createBlockedResult('unfollow', payload.username, startTime, status, blocked);
+      }
 
-    try {
-      log.info('Unfollowing Twitter user', { username: payload.username });
+      const viaApi = await this.viaGraphQL(
+        'unfollow',
+        payload.username,
+        startTime,
+        status,
+        (client) => client.unfollow(payload.username),
+        () => ({ profileUrl: `${this.baseUrl}/${payload.username}`, username: payload.username })
+      );
+      if (viaApi) return viaApi;
 
-      const profileUrl = `${this.baseUrl}/${payload.username}`;
-      await this.navigate(profileUrl);
-      await this.think();
+      try {
+        log.info('Unfollowing Twitter user', { username: payload.username });
 
-      if (!(await this.elementExists(SELECTORS.unfollowButton))) {
-        log.info('Not following user');
-        return this.createResult('unfollow', payload.username, startTime, status);
-      }
+        const profileUrl = `${this.baseUrl}/${payload.username}`;
+        await this.navigate(profileUrl);
+        await this.think();
 
-      await this.clickHuman(SELECTORS.unfollowButton);
-      await this.pause();
+        if (!(await this.elementExists(SELECTORS.unfollowButton))) {
+          log.info('Not following user');
+          return this.alreadyDoneResult('unfollow', payload.username, startTime, status);
+        }
 
-      // Confirm unfollow
-      if (await this.waitForElement(SELECTORS.unfollowConfirm, 5000)) {
-        await this.clickHuman(SELECTORS.unfollowConfirm);
-        await this.delay();
-      }
+        await this.clickHuman(SELECTORS.unfollowButton);
+        await this.pause();
 
-      if (await this.elementExists(SELECTORS.followButton)) {
-        await this.recordAction('follow');
-        log.info('Successfully unfollowed Twitter user');
-        return this.createResult('unfollow', payload.username, startTime, status, {
-          profileUrl: `https://x.com/${payload.username}`,
-          actions: ['👋 Unfollowed'],
-        });
-      }
+        // Confirm unfollow
+        if (await this.waitForElement(SELECTORS.unfollowConfirm, 5000)) {
+          await this.clickHuman(SELECTORS.unfollowConfirm);
+          await this.delay();
+        }
 
-      return this.createErrorResult('unfollow', payload.username, 'Unfollow action failed', startTime, status);
-    } catch (error) {
-      log.error('Error unfollowing Twitter user', { error: String(error) });
-      return this.createErrorResult('unfollow', payload.username, String(error), startTime, status);
-    }
+        if (await this.elementExists(SELECTORS.followButton)) {
+          await this.recordAction('follow');
+          log.info('Successfully unfollowed Twitter user');
+          return this.createResult('unfollow', payload.username, startTime, status, {
+            profileUrl: `https://x.com/${payload.username}`,
+            actions: ['👋 Unfollowed'],
+          });
+        }
+
+        return await this.failAction('unfollow', payload.username, 'Unfollow action failed', startTime, status, 'SELECTOR_MISSING');
+      } catch (error) {
+        log.error('Error unfollowing Twitter user', { error: String(error) });
+        return await this.failAction('unfollow', payload.username, String(error), startTime, status, errorCode(error));
+      }
+    });
   }
 
   /**
    * Send a DM on Twitter
    */
   async dm(payload: DMPayload): Promise<ActionResult> {
-    const startTime = Date.now();
-    const { allowed, status } = await this.checkAndRecordAction('dm');
+    return this.withPage('dm', async () => {
+      const startTime = Date.now();
+      const { allowed, status, blocked } = await this.checkAndRecordAction('dm', payload.username);
 
-    if (!allowed) {
-      return this.createErrorResult('dm', payload.username, 'Rate limit exceeded', startTime, status);
-    }
+      if (!allowed) {
+        return this.createBlockedResult('dm', payload.username, startTime, status, blocked);
+      }
 
-    try {
-      log.info('Sending Twitter DM', { username: payload.username });
+      try {
+        log.info('Sending Twitter DM', { username: payload.username });
 
-      const profileUrl = `${this.baseUrl}/${payload.username}`;
-      await this.navigate(profileUrl);
-      await this.think();
+        const profileUrl = `${this.baseUrl}/${payload.username}`;
+        await this.navigate(profileUrl);
+        await this.think();
 
-      // Click DM button
-      const page = await this.getPage();
-      if (!(await this.waitForElement(SELECTORS.dmButton, 10000))) {
-        // Debug: save screenshot to see what's on the page
-        await page.screenshot({ path: `sessions/debug-dm-${payload.username}.png` });
-        log.warn('DM button not found, saved debug screenshot', { username: payload.username });
+        // Click DM button
+        const page = await this.getPage();
+        if (!(await this.waitForElement(SELECTORS.dmButton, 10000))) {
+          // Debug: save screenshot to see what's on the page
+          await page.screenshot({ path: `sessions/debug-dm-${payload.username}.png` });
+          log.warn('DM button not found, saved debug screenshot', { username: payload.username });
         
-        // Try alternative: click the "Message" link in the actions menu
-        const messageLink = await page.$('a[href*="/messages/compose"]');
-        if (messageLink) {
-          log.info('Found message link, clicking...');
-          await messageLink.click();
-          await this.delay();
+          // Try alternative: click the "Message" link in the actions menu
+          const messageLink = await page.$('a[href*="/messages/compose"]');
+          if (messageLink) {
+            log.info('Found message link, clicking...');
+            await messageLink.click();
+            await this.delay();
+          } else {
+            return await this.failAction('dm', payload.username, 'DM button not found', startTime, status, 'SELECTOR_MISSING');
+          }
         } else {
-          return this.createErrorResult('dm', payload.username, 'DM button not found', startTime, status);
+          await this.clickHuman(SELECTORS.dmButton);
+          await this.delay();
+        }
+
+        // Wait for DM input
+        if (!(await this.waitForElement(SELECTORS.dmInput, 10000))) {
+          return await this.failAction('dm', payload.username, 'DM input not found', startTime, status, 'SELECTOR_MISSING');
         }
-      } else {
-        await this.clickHuman(SELECTORS.dmButton);
+
+        // Type message
+        await this.clickHuman(SELECTORS.dmInput);
+        await page.keyboard.type(payload.message, { delay: 50 });
+        await this.pause();
+
+        // Send message
+        if (await this.elementExists(SELECTORS.dmSendButton)) {
+          await this.clickHuman(SELECTORS.dmSendButton);
+        }
+
         await this.delay();
+        await this.recordAction('dm');
+      
+        log.info('Successfully sent Twitter DM');
+        return this.createResult('dm', payload.username, startTime, status, {
+          profileUrl: `https://x.com/${payload.username}`,
+          messagePreview: payload.message,
+          actions: ['✉️ DM Sent'],
+        });
+      } catch (error) {
+        log.error('Error sending Twitter DM', { error: String(error) });
+        return await this.failAction('dm', payload.username, String(error), startTime, status, errorCode(error));
       }
+    });
+  }
 
-      // Wait for DM input
-      if (!(await this.waitForElement(SELECTORS.dmInput, 10000))) {
-        return this.createErrorResult('dm', payload.username, 'DM input not found', startTime, status);
-      }
+  /**
+   * Post a tweet
+   */
+  async post(payload: PostPayload): Promise<ActionResult> {
+    return this.withPage('post', async () => {
+      const startTime = Date.now();
+      const { allowed, status, blocked } = await this.checkAndRecordAction('post');
 
-      // Type message
-      await this.clickHuman(SELECTORS.dmInput);
-      await page.keyboard.type(payload.message, { delay: 50 });
-      await this.pause();
+      if (!allowed) {
+        return this.createBlockedResult('post', payload.text.substring(0, 50), startTime, status, blocked);
+      }
 
-      // Send message
-      if (await this.elementExists(SELECTORS.dmSendButton)) {
-        await this.clickHuman(SELECTORS.dmSendButton);
+      if (!payload.media?.length) {
+        const text = this.sanitizeText(payload.text);
+        const viaApi = await this.viaGraphQL<CreateTweetResult>(
+          'post',
+          payload.text.substring(0, 50),
+          startTime,
+          status,
+          (client) => client.createTweet(text),
+          (result) => ({ postUrl: `${this.baseUrl}/i/status/${result.tweetId}`, commentText: text, actions: ['📝 Posted'] })
+        );
+        if (viaApi) return viaApi;
       }
 
-      await this.delay();
-      await this.recordAction('dm');
+      try {
+        // Validate attachments before touching the browser
+        const media = validateMedia(payload.media || [], TWITTER_MEDIA_RULES);
+
+        log.info('Posting tweet', { text: payload.text.substring(0, 50), media: media.length });
+
+        await this.navigate(`${this.baseUrl}/compose/tweet`);
+        await this.think();
+
+        // Wait for tweet input
+        if (!(await this.waitForElement(SELECTORS.tweetInput, 10000))) {
+          return await this.failAction('post', payload.text, 'Tweet input not found', startTime, status, 'SELECTOR_MISSING');
+        }
+
+        // Sanitize and type tweet
+        const sanitizedText = this.sanitizeText(payload.text);
+        await this.clickHuman(SELECTORS.tweetInput);
       
-      log.info('Successfully sent Twitter DM');
-      return this.createResult('dm', payload.username, startTime, status, {
-        profileUrl: `https://x.com/${payload.username}`,
-        messagePreview: payload.message,
-        actions: ['✉️ DM Sent'],
-      });
-    } catch (error) {
-      log.error('Error sending Twitter DM', { error: String(error) });
-      return this.createErrorResult('dm', payload.username, String(error), startTime, status);
-    }
+        const page = await this.getPage();
+        await page.keyboard.type(sanitizedText, { delay: 50 });
+        await this.pause();
+
+        if (media.length > 0 && !(await this.attachMedia(media))) {
+          return await this.failAction('post', payload.text.substring(0, 50), 'Media upload did not finish', startTime, status, 'TIMEOUT');
+        }
+
+        // Post tweet
+        if (!(await this.elementExists(SELECTORS.tweetButton))) {
+          return await this.failAction('post', payload.text.substring(0, 50), 'Tweet submit button not found', startTime, status, 'SELECTOR_MISSING');
+        }
+        await this.clickHuman(SELECTORS.tweetButton);
+
+        await this.delay();
+        await this.recordAction('post');
+      
+        log.info('Successfully posted tweet');
+        return this.createResult('post', payload.text.substring(0, 50), startTime, status, {
+          commentText: sanitizedText,
+          actions: media.length > 0 ? ['📝 Posted', `🖼️ ${media.length} attachment(s)`] : ['📝 Posted'],
+        });
+      } catch (error) {
+        log.error('Error posting tweet', { error: String(error) });
+        return await this.failAction('post', payload.text, String(error), startTime, status, errorCode(error));
+      }
+    });
   }
 
   /**
-   * Post a tweet
+   * Post a thread: the first tweet is published normally and every following
+   * tweet is a reply to the previous one. Stops at the first failure and reports
+   * the URLs of the tweets that did go out.
    */
-  async post(payload: PostPayload): Promise<ActionResult> {
-    const startTime = Date.now();
-    const { allowed, status } = await this.checkAndRecordAction('post');
+  async thread(payload: ThreadPayload): Promise<ThreadResult> {
+    return this.withPage('thread', async () => {
+      const startTime = Date.now();
+      const tweets = payload.tweets || [];
+      const total = tweets.length;
+      const target = tweets[0]?.text.substring(0, 50) || '';
+      const posted: string[] = [];
+
+      // Validate every tweet (length, media) before checking limits or touching the browser
+      let prepared: Array<{ text: string; media: MediaFile[] }>;
+      try {
+        if (total < 2 || total > MAX_THREAD_LENGTH) {
+          throw new Error(`A thread needs 2-${MAX_THREAD_LENGTH} tweets (got ${total})`);
+        }
+        prepared = tweets.map((tweet, i) => {
+          const text = this.sanitizeText(tweet.text || '');
+          const media = validateMedia(tweet.media || [], TWITTER_MEDIA_RULES);
+          if (!text && media.length === 0) {
+            throw new Error(`Tweet ${i + 1} is empty`);
+          }
+          const length = tweetLength(text);
+          if (length > MAX_TWEET_LENGTH) {
+            throw new Error(`Tweet ${i + 1} is ${length} characters (max ${MAX_TWEET_LENGTH})`);
+          }
+          return { text, media };
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { ...this.invalidResult('thread', target, message, startTime), posted, total };
+      }
 
-    if (!allowed) {
-      return this.createErrorResult('post', payload.text.substring(0, 50), 'Rate limit exceeded', startTime, status);
+      // One slot per tweet, all reserved at once: a thread never starts without room to finish
+      const { allowed, status, blocked } = await this.checkAndRecordAction('thread', undefined, total);
+      if (!allowed) {
+        return { ...this.createBlockedResult('thread', target, startTime, status, blocked), posted, total };
+      }
+
+      for (let i = 0; i < prepared.length; i++) {
+        const { text, media } = prepared[i];
+        try {
+          log.info('Posting thread tweet', { index: i + 1, total, media: media.length });
+
+          const url = await this.publishTweet(text, media, posted[i - 1]);
+          posted.push(url);
+          await this.recordAction('thread');
+
+          if (i < prepared.length - 1) {
+            await this.delay();
+          }
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          log.error('Thread stopped', { index: i + 1, total, posted: posted.length, error: reason });
+          // The tweets after this one won't go out
+          this.releaseReservation('thread', total - i - 1);
+          if (errorCode(error) === 'UNKNOWN_OUTCOME') {
+            // Counted, since it may have gone out
+            await this.recordAction('thread');
+          }
+          const message = `Tweet ${i + 1}/${total} failed: ${reason} (${posted.length} posted)`;
+          return { ...(await this.failAction('thread', target, message, startTime, status, errorCode(error))), posted, total };
+        }
+      }
+
+      log.info('Successfully posted thread', { tweets: total, url: posted[0] });
+      const result = this.createResult('thread', target, startTime, status, {
+        postUrl: posted[0],
+        commentText: prepared[0].text,
+        actions: [`🧵 Posted thread of ${total} tweets`],
+      });
+      return { ...result, posted, total };
+    });
+  }
+
+  /**
+   * Publish one tweet (or a reply when replyTo is given) and return its URL
+   */
+  private async publishTweet(text: string, media: MediaFile[], replyTo?: string): Promise<string> {
+    if (this.preferGraphQL && media.length === 0) {
+      const client = this.getGraphQLClient();
+      const result = await client?.createTweet(text, { replyToId: replyTo && extractTweetId(replyTo) });
+      if (result?.success) {
+        return `${this.baseUrl}/i/status/${result.tweetId}`;
+      }
+      if (result?.outcomeUnknown) {
+        throw new ActionError(`Request failed and the tweet may have been posted: ${result.error}`, 'UNKNOWN_OUTCOME');
+      }
+      log.warn('GraphQL tweet failed, falling back to browser', { error: result?.error });
     }
 
-    try {
-      log.info('Posting tweet', { text: payload.text.substring(0, 50) });
+    const page = await this.getPage();
 
-      await this.navigate(`${this.baseUrl}/compose/tweet`);
+    if (replyTo) {
+      await this.navigate(replyTo);
       await this.think();
 
-      // Wait for tweet input
-      if (!(await this.waitForElement(SELECTORS.tweetInput, 10000))) {
-        return this.createErrorResult('post', payload.text, 'Tweet input not found', startTime, status);
+      // Tweet detail pages have an inline reply box; otherwise open it via the reply button
+      if (!(await this.elementExists(SELECTORS.replyInput))) {
+        if (!(await this.waitForElement(SELECTORS.replyButton, 10000))) {
+          throw new ActionError('Reply button not found', 'SELECTOR_MISSING');
+        }
+        await this.clickHuman(SELECTORS.replyButton);
+        await this.pause();
       }
+    } else {
+      await this.navigate(`${this.baseUrl}/compose/tweet`);
+      await this.think();
+    }
+
+    if (!(await this.waitForElement(SELECTORS.tweetInput, 10000))) {
+      throw new ActionError('Tweet input not found', 'SELECTOR_MISSING');
+    }
 
-      // Sanitize and type tweet
-      const sanitizedText = this.sanitizeText(payload.text);
+    if (text) {
       await this.clickHuman(SELECTORS.tweetInput);
-      
-      const page = await this.getPage();
-      await page.keyboard.type(sanitizedText, { delay: 50 });
+      await page.keyboard.type(text, { delay: 50 });
       await this.pause();
+    }
 
-      // Post tweet
-      if (!(await this.elementExists(SELECTORS.tweetButton))) {
-        return this.createErrorResult('post', payload.text.substring(0, 50), 'Tweet submit button not found', startTime, status);
-      }
-      await this.clickHuman(SELECTORS.tweetButton);
+    if (media.length > 0 && !(await this.attachMedia(media))) {
+      throw new ActionError('Media upload did not finish', 'TIMEOUT');
+    }
 
-      await this.delay();
-      await this.recordAction('post');
-      
-      log.info('Successfully posted tweet');
-      return this.createResult('post', payload.text.substring(0, 50), startTime, status, {
-        commentText: sanitizedText,
-        actions: ['📝 Posted'],
-      });
-    } catch (error) {
-      log.error('Error posting tweet', { error: String(error) });
-      return this.createErrorResult('post', payload.text, String(error), startTime, status);
+    if (!(await this.elementExists(SELECTORS.tweetButton))) {
+      throw new ActionError('Tweet submit button not found', 'SELECTOR_MISSING');
+    }
+    await this.clickHuman(SELECTORS.tweetButton);
+
+    // The "Your post was sent" toast links to the new tweet
+    if (await this.waitForElement(SELECTORS.sentToast, 15000)) {
+      const href = await this.getAttribute(SELECTORS.sentToast, 'href');
+      if (href) return this.toTweetUrl(href);
+    }
+
+    // Fallback: newest tweet on our own replies tab, matched by its text
+    const url = await this.findOwnLatestTweet(text);
+    if (!url) {
+      throw new Error('Tweet was submitted but its URL could not be found');
     }
+    return url;
   }
 
   /**
-   * Retweet a tweet
+   * Find the URL of our most recent tweet that starts with the given text
    */
-  async retweet(url: string): Promise<ActionResult> {
-    const startTime = Date.now();
-    const { allowed, status } = await this.checkAndRecordAction('like'); // Retweets count against likes
+  private async findOwnLatestTweet(text: string): Promise<string | null> {
+    const profileHref = await this.getAttribute(SELECTORS.profileLink, 'href');
+    if (!profileHref) return null;
+
+    await this.navigate(`${this.baseUrl}${profileHref}/with_replies`);
+    await this.think();
+
+    const page = await this.getPage();
+    const snippet = text.substring(0, 40);
+    const articles = await page.locator(SELECTORS.tweetArticle).all();
+
+    for (const article of articles.slice(0, 10)) {
+      const context = (await article.locator(SELECTORS.socialContext).first().textContent({ timeout: 1000 }).catch(() => '')) || '';
+      if (context.includes('Pinned')) continue;
+
+      const content = (await article.textContent().catch(() => '')) || '';
+      if (snippet && !content.includes(snippet)) continue;
 
-    if (!allowed) {
-      return this.createErrorResult('retweet', url, 'Rate limit exceeded', startTime, status);
+      const href = await article.locator(SELECTORS.tweetPermalink).first().getAttribute('href').catch(() => null);
+      if (href) return this.toTweetUrl(href);
     }
 
-    try {
-      log.info('Retweeting', { url });
+    return null;
+  }
 
-      await this.navigate(url);
-      await this.think();
+  private toTweetUrl(href: string): string {
+    return (href.startsWith('http') ? href : `${this.baseUrl}${href}`).split('?')[0];
+  }
 
-      // Check if already retweeted
-      if (await this.elementExists(SELECTORS.unretweet)) {
-        log.info('Already retweeted');
-        return this.createResult('retweet', url, startTime, status, {
-          postUrl: url,
-          actions: ['🔁 Already Retweeted'],
+  /**
+   * GraphQL client built from this account's saved session cookies
+   * (AUTH_TOKEN/CT0 from the environment are used for the default account without a session)
+   */
+  private getGraphQLClient(): XGraphQLClient | null {
+    if (this.graphqlClient) return this.graphqlClient;
+
+    try {
+      const session = this.browserManager.getSessionStore().read(this.platform, this.account);
+      const cookies = (session?.cookies ?? []).filter((c) => /(^|\.)(x|twitter)\.com$/.test(c.domain));
+      const authToken = cookies.find((c) => c.name === 'auth_token')?.value;
+      const ct0 = cookies.find((c) => c.name === 'ct0')?.value;
+
+      if (authToken && ct0) {
+        this.graphqlClient = new XGraphQLClient({
+          authToken,
+          ct0,
+          cookieHeader: cookies.map((c) => `${c.name}=${c.value}`).join('; '),
+          timeoutMs: 30000,
         });
+      } else if (this.account === DEFAULT_ACCOUNT) {
+        this.graphqlClient = createClientFromEnv();
       }
+    } catch (error) {
+      log.warn('GraphQL client unavailable, using browser', { error: String(error) });
+    }
 
-      if (!(await this.elementExists(SELECTORS.retweetButton))) {
-        return this.createErrorResult('retweet', url, 'Retweet button not found', startTime, status);
-      }
+    return this.graphqlClient;
+  }
 
-      await this.clickHuman(SELECTORS.retweetButton);
-      await this.pause();
+  /**
+   * Run an action through the GraphQL API when preferGraphQL is set.
+   * Returns null to fall back to the Playwright path (disabled, no cookies, or the call failed),
+   * except on rate limit errors, which cool the action off instead, and when a tweet may
+   * already be out (UNKNOWN_OUTCOME), which is reported instead of posted again.
+   */
+  private async viaGraphQL<R extends MutationResult = MutationResult>(
+    action: ActionType,
+    target: string,
+    startTime: number,
+    status: RateLimitStatus,
+    run: (client: XGraphQLClient) => Promise<R>,
+    details: (result: R) => Record<string, unknown>,
+    alreadyDoneCode?: number
+  ): Promise<ActionResult | null> {
+    if (!this.preferGraphQL) return null;
+
+    const client = this.getGraphQLClient();
+    if (!client) return null;
+
+    const result = await run(client);
+
+    if (result.success) {
+      await this.recordAction(action);
+      log.info(`Twitter ${action} done via GraphQL`, { target });
+      return this.createResult(action, target, startTime, status, { ...details(result), via: 'graphql' });
+    }
+
+    if (alreadyDoneCode !== undefined && result.code === alreadyDoneCode) {
+      log.info(`Twitter ${action} already done`, { target });
+      return this.alreadyDoneResult(action, target, startTime, status, { ...details(result), via: 'graphql', alreadyDone: true });
+    }
+
+    const softBlock = result.code !== undefined ? GRAPHQL_SOFT_BLOCKS[result.code] : undefined;
+    if (softBlock) {
+      return this.softBlockResult(action, target, softBlock, startTime, status);
+    }
+
+    if (result.outcomeUnknown && NON_IDEMPOTENT.includes(action)) {
+      // Counted, since it may have gone out
+      await this.recordAction(action);
+      log.error(`GraphQL ${action} outcome unknown, not retrying`, { target, error: result.error });
+      return this.createErrorResult(
+        action,
+        target,
+        `Request failed and may have been posted, check the account before retrying: ${result.error}`,
+        startTime,
+        status,
+        'UNKNOWN_OUTCOME'
+      );
+    }
+
+    log.warn(`GraphQL ${action} failed, falling back to browser`, { target, error: result.error });
+    return null;
+  }
+
+  /**
+   * Attach validated media to the open composer and wait for the upload to finish
+   * (the submit button stays disabled while X is still processing)
+   */
+  private async attachMedia(media: MediaFile[]): Promise<boolean> {
+    const page = await this.getPage();
+
+    if (!(await this.waitForElement(SELECTORS.mediaInput, 10000))) {
+      log.error('Media input not found in composer');
+      return false;
+    }
+    await page.locator(SELECTORS.mediaInput).first().setInputFiles(media.map((file) => file.path));
+
+    const hasVideo = media.some((file) => file.kind === 'video');
+    if (!(await this.waitForElement(SELECTORS.mediaAttachment, 30000))) {
+      log.error('Media attachment preview not shown');
+      return false;
+    }
+    if (!(await this.waitForElement(SELECTORS.tweetButtonEnabled, hasVideo ? 300000 : 60000))) {
+      log.error('Media upload did not finish in time');
+      return false;
+    }
+
+    await this.pause();
+    return true;
+  }
+
+  /**
+   * Retweet a tweet
+   */
+  async retweet(url: string): Promise<ActionResult> {
+    return this.withPage('retweet', async () => {
+      const startTime = Date.now();
+      const { allowed, status, blocked } = await this.checkAndRecordAction('retweet', url);
 
-      // Confirm retweet
-      if (await this.waitForElement(SELECTORS.retweetConfirm, 5000)) {
-        await this.clickHuman(SELECTORS.retweetConfirm);
+      if (!allowed) {
+        return this.createBlockedResult('retweet', url, startTime, status, blocked);
       }
 
-      await this.delay();
-      await this.recordAction('like');
+      const viaApi = await this.viaGraphQL(
+        'retweet',
+        url,
+        startTime,
+        status,
+        (client) => client.retweet(extractTweetId(url)),
+        () => ({ postUrl: url, actions: ['🔁 Retweeted'] }),
+        ALREADY_RETWEETED
+      );
+      if (viaApi) return viaApi;
+
+      try {
+        log.info('Retweeting', { url });
+
+        await this.navigate(url);
+        await this.think();
+
+        // Check if already retweeted
+        if (await this.elementExists(SELECTORS.unretweet)) {
+          log.info('Already retweeted');
+          return this.alreadyDoneResult('retweet', url, startTime, status, {
+            postUrl: url,
+            actions: ['🔁 Already Retweeted'],
+          });
+        }
+
+        if (!(await this.elementExists(SELECTORS.retweetButton))) {
+          return await this.failAction('retweet', url, 'Retweet button not found', startTime, status, 'SELECTOR_MISSING');
+        }
+
+        await this.clickHuman(SELECTORS.retweetButton);
+        await this.pause();
+
+        // Confirm retweet
+        if (await this.waitForElement(SELECTORS.retweetConfirm, 5000)) {
+          await this.clickHuman(SELECTORS.retweetConfirm);
+        }
+
+        await this.delay();
+        await this.recordAction('like');
       
-      log.info('Successfully retweeted');
-      return this.createResult('retweet', url, startTime, status, {
-        postUrl: url,
-        actions: ['🔁 Retweeted'],
-      });
-    } catch (error) {
-      log.error('Error retweeting', { error: String(error) });
-      return this.createErrorResult('retweet', url, String(error), startTime, status);
-    }
+        log.info('Successfully retweeted');
+        return this.createResult('retweet', url, startTime, status, {
+          postUrl: url,
+          actions: ['🔁 Retweeted'],
+        });
+      } catch (error) {
+        log.error('Error retweeting', { error: String(error) });
+        return await this.failAction('retweet', url, String(error), startTime, status, errorCode(error));
+      }
+    });
   }
 
   /**
    * Get Twitter profile data
    */
   async getProfile(username: string): Promise<TwitterProfile> {
-    try {
-      log.info('Getting Twitter profile', { username });
+    return this.withPage('getProfile', async () => {
+      try {
+        log.info('Getting Twitter profile', { username });
 
-      const profileUrl = `${this.baseUrl}/${username}`;
-      await this.navigate(profileUrl);
-      await this.think();
+        const profileUrl = `${this.baseUrl}/${username}`;
+        await this.navigate(profileUrl);
+        await this.think();
 
-      const profile: TwitterProfile = {
-        username,
-      };
+        const profile: TwitterProfile = {
+          username,
+        };
 
-      // Get display name
-      const displayName = await this.getText(SELECTORS.profileName);
-      if (displayName) profile.displayName = displayName;
+        // Get display name
+        const displayName = await this.getText(SELECTORS.profileName);
+        if (displayName) profile.displayName = displayName;
 
-      // Get bio
-      const bio = await this.getText(SELECTORS.profileBio);
-      if (bio) profile.bio = bio;
+        // Get bio
+        const bio = await this.getText(SELECTORS.profileBio);
+        if (bio) profile.bio = bio;
 
-      // Get location
-      const location = await this.getText(SELECTORS.profileLocation);
-      if (location) profile.location = location;
+        // Get location
+        const location = await this.getText(SELECTORS.profileLocation);
+        if (location) profile.location = location;
 
-      // Get website
-      const website = await this.getAttribute(SELECTORS.profileWebsite, 'href');
-      if (website) profile.website = website;
+        // Get website
+        const website = await this.getAttribute(SELECTORS.profileWebsite, 'href');
+        if (website) profile.website = website;
 
-      // Get followers count
-      const followerText = await this.getText(SELECTORS.followersCount);
-      if (followerText) {
-        profile.followers = this.parseCount(followerText);
-      }
+        // Get followers count
+        const followerText = await this.getText(SELECTORS.followersCount);
+        if (followerText) {
+          profile.followers = this.parseCount(followerText);
+        }
 
-      // Get following count
-      const followingText = await this.getText(SELECTORS.followingCount);
-      if (followingText) {
-        profile.following = this.parseCount(followingText);
-      }
+        // Get following count
+        const followingText = await this.getText(SELECTORS.followingCount);
+        if (followingText) {
+          profile.following = this.parseCount(followingText);
+        }
 
-      // Check if verified
-      profile.isVerified = await this.elementExists(SELECTORS.verifiedBadge);
+        // Check if verified
+        profile.isVerified = await this.elementExists(SELECTORS.verifiedBadge);
 
-      log.info('Got Twitter profile', { profile });
-      return profile;
-    } catch (error) {
-      log.error('Error getting Twitter profile', { error: String(error) });
-      return { username };
-    }
+        log.info('Got Twitter profile', { profile });
+        return profile;
+      } catch (error) {
+        log.error('Error getting Twitter profile', { error: String(error) });
+        return { username };
+      }
+    });
   }
 
   /**
@@ -834,3 +1325,174 @@ export class TwitterHandler extends BasePlatformHandler {
     return Math.round(num);
   }
 }
+
+// ============================================================================
+// Platform definition
+// ============================================================================
+
+const action = actionBuilder<TwitterHandler>();
+
+// A tweet of a thread: its text, or { text, media }
+const threadTweet = z.union(
+  [
+    z.string().transform((text) => ({ text })),
+    z.object({ text: z.string().default(''), media: media.optional() }),
+  ],
+  { error: 'Invalid tweet' }
+);
+
+/**
+ * Thread from a file: tweets separated by "---" lines, or a JSON array of
+ * strings and { text, media } (media paths relative to the file)
+ */
+function readThreadFile(file: string): PostPayload[] {
+  const content = fs.readFileSync(file, 'utf-8');
+  if (file.endsWith('.json')) {
+    const entries = JSON.parse(content) as Array<string | PostPayload>;
+    return entries.map((entry) => typeof entry === 'string'
+      ? { text: entry }
+      : { text: entry.text || '', media: entry.media?.map((m) => path.resolve(path.dirname(file), m)) });
+  }
+  return content
+    .split(/^---\s*$/m)
+    .map((text) => text.trim())
+    .filter(Boolean)
+    .map((text) => ({ text }));
+}
+
+export const twitterPlatform: PlatformDefinition<TwitterHandler> = {
+  id: 'twitter',
+  name: 'Twitter/X',
+  command: 'twitter',
+  aliases: ['x'],
+  origin: 'https://x.com',
+  sessionCookie: 'auth_token',
+  rateLimits: {
+    like: { minute: 5, hour: 40, day: 100 },
+    comment: { minute: 2, hour: 15, day: 50 },
+    follow: { minute: 2, hour: 15, day: 50 },
+    dm: { minute: 1, hour: 10, day: 20 },
+    // No burst cap: a thread posts several tweets back to back
+    post: { day: 10 },
+    shared: [{ name: 'writes', actions: ['like', 'comment', 'follow', 'dm', 'post'], limits: { hour: 60 } }],
+  },
+  createHandler: ({ browserManager, rateLimiter, account, config }) =>
+    new TwitterHandler(browserManager, rateLimiter, account, { preferGraphQL: config.twitter.preferGraphQL }),
+  actions: [
+    action({
+      name: 'like',
+      description: 'Like a tweet',
+      schema: likePayload,
+      queue: true,
+      cli: {
+        command: 'like <url>',
+        description: 'Like a tweet',
+        done: ({ url }) => `Liked tweet: ${url}`,
+        failed: 'like',
+        retry: true,
+        context: ({ url }) => ({ postUrl: url }),
+      },
+      run: (handler, payload) => handler.like(payload),
+    }),
+    action({
+      name: 'comment',
+      aliases: ['reply'],
+      description: 'Reply to a tweet',
+      schema: commentPayload.extend({ media: media.optional() }),
+      queue: true,
+      cli: {
+        command: 'reply <url> <text>',
+        description: 'Reply to a tweet',
+        options: [{ flags: '-m, --media <paths...>', description: 'Attach up to 4 images, or 1 GIF/video' }],
+        done: () => 'Replied to tweet',
+        failed: 'reply',
+        context: ({ url, text }) => ({ postUrl: url, commentText: text, actions: ['💬 Replied'] }),
+      },
+      run: (handler, payload) => handler.comment(payload),
+    }),
+    action({
+      name: 'follow',
+      description: 'Follow a user',
+      schema: followPayload,
+      queue: true,
+      cli: {
+        command: 'follow <username>',
+        description: 'Follow a Twitter user',
+        // Accepts a profile URL too
+        payload: ({ username }) => ({
+          username: String(username)
+            .replace(/^.*(?:x\.com|twitter\.com)\/@?(\w+).*$/, '$1')
+            .replace(/^@/, ''),
+        }),
+        done: ({ username }) => `Followed: @${username}`,
+        failed: 'follow',
+        retry: true,
+        context: ({ username }) => ({ profileUrl: `https://x.com/${username}` }),
+      },
+      run: (handler, payload) => handler.follow(payload),
+    }),
+    action({
+      name: 'unfollow',
+      description: 'Unfollow a user',
+      schema: followPayload,
+      run: (handler, payload) => handler.unfollow(payload),
+    }),
+    // No CLI command: encrypted DMs require a passcode that can't be automated
+    action({
+      name: 'dm',
+      description: 'Send a direct message',
+      schema: dmPayload,
+      queue: true,
+      run: (handler, payload) => handler.dm(payload),
+    }),
+    action({
+      name: 'post',
+      aliases: ['tweet'],
+      description: 'Post a tweet',
+      schema: z.object({ text, media: media.optional() }),
+      queue: true,
+      cli: {
+        command: 'tweet <text>',
+        description: 'Post a tweet',
+        options: [{ flags: '-m, --media <paths...>', description: 'Attach up to 4 images, or 1 GIF/video' }],
+        done: () => 'Posted tweet',
+        failed: 'post',
+      },
+      run: (handler, payload) => handler.post(payload),
+    }),
+    action({
+      name: 'thread',
+      description: 'Post a thread',
+      schema: z.object({
+        tweets: z
+          .array(threadTweet, { error: 'Tweets (array of { text, media? } or strings) required' })
+          .min(1, 'Tweets (array of { text, media? } or strings) required'),
+      }),
+      cli: {
+        command: 'thread <file>',
+        description: 'Post a thread from a file (tweets separated by "---" lines, or a JSON array)',
+        payload: ({ file }) => ({ tweets: readThreadFile(file) }),
+        done: (_payload, result) => {
+          const { total, posted } = result as ThreadResult;
+          return [`Posted thread (${total} tweets)`, ...posted.map((url, i) => `   ${i + 1}. ${url}`)].join('\n');
+        },
+        failed: 'post thread',
+      },
+      run: (handler, payload) => handler.thread(payload),
+    }),
+    action({
+      name: 'retweet',
+      description: 'Retweet a tweet',
+      schema: z.object({ url }),
+      run: (handler, { url }) => handler.retweet(url),
+    }),
+    action({
+      name: 'view_profile',
+      description: 'Get profile data',
+      schema: profilePayload,
+      read: true,
+      route: 'profile/:username',
+      run: (handler, { username }) => handler.getProfile(username),
+    }),
+  ],
+};
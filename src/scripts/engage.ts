@@ -0,0 +1,338 @@
+#!/usr/bin/env npx tsx
+/**
+ * LinkedIn Engagement Session
+ *
+ * Pipeline: Search → Record → Like → Comment → Wait
+ *
+ * Usage:
+ *   npx tsx src/scripts/engage.ts --query=openclaw
+ *   npx tsx src/scripts/engage.ts --query=openclaw --dry-run
+ *   npx tsx src/scripts/engage.ts --skip-search --max=3
+ *
+ * Engagement rules:
+ * - 7 comments max per run (override with --max)
+ * - 10-25 minutes between posts, never the same delay twice in a run
+ * - Posts already commented on are never engaged again
+ *
+ * Engaged post URNs are kept in db/linkedin-engaged.json
+ * (db/linkedin@<account>-engaged.json when SOCIALCRABS_ACCOUNT is set).
+ */
+
+import 'dotenv/config';
+import fs from 'fs';
+import path from 'path';
+import { SocialCrabs } from '../index.js';
+import { accountScope, resolveAccount } from '../utils/accounts.js';
+import { randomDelay, sleep } from '../utils/delays.js';
+import type { Notifier } from '../services/notifier.js';
+
+// Engagement settings
+const DB_DIR = 'db';
+const MAX_COMMENTS_PER_RUN = 7;
+const MIN_DELAY_MS = 10 * 60 * 1000;
+const MAX_DELAY_MS = 25 * 60 * 1000;
+
+// Comment templates
+const COMMENTS = [
+  'Great insights here! This is exactly what the community needs.',
+  'Solid breakdown. The technical depth is appreciated.',
+  'Thanks for sharing this perspective. Really helpful!',
+  'Interesting take on the AI agent ecosystem. Well articulated.',
+  'Appreciate the analysis here. Bookmarked for reference.',
+  'Good overview! Would love to see more deep dives like this.',
+  'This is a helpful resource. The ecosystem is evolving fast.',
+];
+
+export interface EngageOptions {
+  query: string;
+  dryRun?: boolean;
+  skipSearch?: boolean;
+  maxComments?: number;
+}
+
+export interface EngagedPost {
+  urn: string;
+  url: string;
+  query: string;
+  firstSeen: number;
+  liked: boolean;
+  commented: boolean;
+  comment?: string;
+  engagedAt?: number;
+  lastError?: string;
+}
+
+interface EngageState {
+  posts: Record<string, EngagedPost>;
+  lastRun?: number;
+}
+
+export interface EngageSummary {
+  found: number;
+  pending: number;
+  liked: number;
+  commented: number;
+  failed: number;
+}
+
+/**
+ * Path of the engagement record for an account
+ */
+export function getStatePath(account?: string): string {
+  return path.join(DB_DIR, `${accountScope('linkedin', account)}-engaged.json`);
+}
+
+function loadState(filePath: string): EngageState {
+  if (!fs.existsSync(filePath)) {
+    return { posts: {} };
+  }
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as EngageState;
+}
+
+function saveState(filePath: string, state: EngageState): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(state, null, 2));
+  fs.renameSync(tmpPath, filePath);
+}
+
+/**
+ * Pick a delay between posts that hasn't been used yet in this run
+ */
+function uniqueDelay(used: Set<number>): number {
+  for (let i = 0; i < 100; i++) {
+    const seconds = Math.round(randomDelay(MIN_DELAY_MS, MAX_DELAY_MS) / 1000);
+    if (!used.has(seconds)) {
+      used.add(seconds);
+      return seconds * 1000;
+    }
+  }
+  return randomDelay(MIN_DELAY_MS, MAX_DELAY_MS);
+}
+
+function pickComment(): string {
+  return COMMENTS[Math.floor(Math.random() * COMMENTS.length)];
+}
+
+function shuffle<T>(items: T[]): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+/**
+ * Broadcast a session-level message (start/summary) through the notifier
+ */
+async function report(notifier: Notifier, message: string): Promise<void> {
+  if (!notifier.isEnabled()) return;
+  await notifier.broadcast(message).catch(() => false);
+}
+
+/**
+ * Run a full engagement session: search, then like and comment on new posts
+ */
+export async function runEngagement(options: EngageOptions): Promise<EngageSummary> {
+  const account = resolveAccount(process.env.SOCIALCRABS_ACCOUNT);
+  const maxComments = options.maxComments ?? MAX_COMMENTS_PER_RUN;
+  const statePath = getStatePath(account);
+  const state = loadState(statePath);
+  const summary: EngageSummary = { found: 0, pending: 0, liked: 0, commented: 0, failed: 0 };
+
+  // Per-action notifications are replaced by the session-aware ones sent below
+  process.env.SOCIALCRABS_SILENT = '1';
+
+  const claw = new SocialCrabs({ browser: { headless: true } });
+  const linkedin = claw.forAccount(account).linkedin;
+  const notifier = claw.notifier;
+
+  try {
+    await claw.initialize();
+
+    console.log('========================================');
+    console.log('LinkedIn Engagement Session');
+    console.log('========================================');
+    console.log(`  Query:   ${options.query}`);
+    console.log(`  Account: ${account}`);
+    if (options.dryRun) console.log('  Mode:    dry run (no likes, comments or state changes)');
+    console.log('');
+
+    if (!(await linkedin.isLoggedIn())) {
+      throw new Error('Not logged in to LinkedIn. Run: socialcrabs session login linkedin');
+    }
+
+    // Step 1: search and record new posts
+    if (!options.skipSearch) {
+      console.log(`🔍 Searching LinkedIn for "${options.query}"...`);
+      const { posts } = await linkedin.search(options.query);
+      summary.found = posts.length;
+
+      let added = 0;
+      for (const post of posts) {
+        if (state.posts[post.urn]) continue;
+        state.posts[post.urn] = {
+          urn: post.urn,
+          url: post.url,
+          query: options.query,
+          firstSeen: Date.now(),
+          liked: false,
+          commented: false,
+        };
+        added++;
+      }
+      console.log(`   Found ${posts.length} posts (${added} new)`);
+      if (!options.dryRun) saveState(statePath, state);
+    } else {
+      console.log('⏭️  Skipping search, using recorded posts');
+    }
+
+    // Step 2: engage with posts that haven't been commented on yet
+    const pending = shuffle(Object.values(state.posts).filter((p) => !p.commented));
+    summary.pending = pending.length;
+
+    if (pending.length === 0) {
+      console.log('\nNo pending posts to engage with.');
+      return summary;
+    }
+
+    const batch = pending.slice(0, maxComments);
+    console.log(`\n${pending.length} posts pending, engaging with ${batch.length}\n`);
+
+    if (!options.dryRun) {
+      await report(
+        notifier,
+        `🔗 **LINKEDIN ENGAGEMENT SESSION** ▶️\n\n**Query:** ${options.query}\n**Posts:** ${batch.length} of ${pending.length} pending`
+      );
+    }
+
+    const usedDelays = new Set<number>();
+
+    for (let i = 0; i < batch.length; i++) {
+      const post = batch[i];
+      const comment = pickComment();
+      const sessionInfo = `${i + 1}/${batch.length} · "${options.query}"`;
+
+      console.log(`[${i + 1}/${batch.length}] ${post.url}`);
+
+      if (options.dryRun) {
+        console.log(`  → Would like and comment: "${comment}"`);
+        console.log('');
+        continue;
+      }
+
+      // Like
+      console.log('  → Liking...');
+      const likeResult = await linkedin.like({ url: post.url });
+      if (likeResult.success) {
+        post.liked = true;
+        summary.liked++;
+        console.log('  ✓ Liked');
+      } else {
+        console.log(`  ✗ Like failed: ${likeResult.error}`);
+      }
+      saveState(statePath, state);
+
+      await sleep(randomDelay(5000, 15000));
+
+      // Comment
+      console.log(`  → Commenting: ${comment.substring(0, 50)}...`);
+      const commentResult = await linkedin.comment({ url: post.url, text: comment });
+      if (commentResult.success) {
+        post.commented = true;
+        post.comment = comment;
+        post.engagedAt = Date.now();
+        delete post.lastError;
+        summary.commented++;
+        console.log('  ✓ Commented');
+      } else {
+        post.lastError = commentResult.error;
+        summary.failed++;
+        console.log(`  ✗ Comment failed: ${commentResult.error}`);
+      }
+      saveState(statePath, state);
+
+      await notifier
+        .notify({
+          event: commentResult.success ? 'action:complete' : 'action:error',
+          platform: 'linkedin',
+          account,
+          action: 'comment',
+          success: commentResult.success,
+          target: post.url,
+          error: commentResult.error,
+          details: { postUrl: post.url, comment, sessionInfo },
+          timestamp: Date.now(),
+        })
+        .catch(() => false);
+
+      // Wait before next (unless done)
+      if (i < batch.length - 1) {
+        const wait = uniqueDelay(usedDelays);
+        const mins = Math.floor(wait / 60000);
+        const secs = Math.round((wait % 60000) / 1000);
+        console.log(`\n  ⏳ Waiting ${mins}m ${secs}s before next...`);
+        await sleep(wait);
+      }
+
+      console.log('');
+    }
+
+    if (!options.dryRun) {
+      state.lastRun = Date.now();
+      saveState(statePath, state);
+    }
+
+    const total = Object.values(state.posts).filter((p) => p.commented).length;
+    console.log('========================================');
+    console.log('Session complete!');
+    console.log(`  Liked:           ${summary.liked}`);
+    console.log(`  Commented:       ${summary.commented}`);
+    console.log(`  Failed:          ${summary.failed}`);
+    console.log(`  Total commented: ${total}`);
+    console.log('========================================');
+
+    if (options.dryRun) return summary;
+
+    await report(
+      notifier,
+      `🔗 **LINKEDIN ENGAGEMENT SESSION** ${summary.failed === 0 ? '✅' : '⚠️'}\n\n**Query:** ${options.query}\n**Liked:** ${summary.liked}\n**Commented:** ${summary.commented}\n**Failed:** ${summary.failed}\n**Total commented:** ${total}`
+    );
+
+    return summary;
+  } catch (error) {
+    if (!options.dryRun) {
+      await report(
+        notifier,
+        `🔗 **LINKEDIN ENGAGEMENT SESSION** ❌\n\n**Query:** ${options.query}\n**Error:** ${String(error)}`
+      );
+    }
+    throw error;
+  } finally {
+    await claw.shutdown();
+  }
+}
+
+/**
+ * Parse --query=, --max=, --dry-run and --skip-search
+ */
+function parseArgs(argv: string[]): EngageOptions {
+  const options: EngageOptions = { query: 'openclaw' };
+  for (const arg of argv) {
+    if (arg.startsWith('--query=')) options.query = arg.slice('--query='.length);
+    else if (arg.startsWith('--max=')) options.maxComments = parseInt(arg.slice('--max='.length), 10);
+    else if (arg === '--dry-run') options.dryRun = true;
+    else if (arg === '--skip-search') options.skipSearch = true;
+  }
+  return options;
+}
+
+// Run directly: npx tsx src/scripts/engage.ts [--query=...] [--dry-run] [--skip-search]
+if (/engage\.[jt]s$/.test(process.argv[1] ?? '')) {
+  runEngagement(parseArgs(process.argv.slice(2)))
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('❌ Engagement session failed:', String(error));
+      process.exit(1);
+    });
+}
@@ -7,12 +7,14 @@
  *   npx tsx scripts/sync-bird-cookies.ts --env-file ~/.clawdbot/.env
  * 
  * This reads AUTH_TOKEN and CT0 from environment and creates/updates
- * the sessions/twitter.json file for Playwright to use.
+ * the sessions/twitter.json file for Playwright to use
+ * (sessions/twitter@<account>.json when SOCIALCRABS_ACCOUNT is set).
  */
 
 import 'dotenv/config';
 import fs from 'fs';
 import path from 'path';
+import { SessionStore } from '../browser/session-store.js';
 
 interface Cookie {
   name: string;
@@ -26,7 +28,8 @@ interface Cookie {
 }
 
 interface Session {
-  platform: string;
+  platform: 'twitter';
+  account?: string;
   cookies: Cookie[];
   localStorage: Record<string, string>;
   createdAt: number;
@@ -118,26 +121,26 @@ const cookies: Cookie[] = [
   },
 ];
 
+const account = process.env.SOCIALCRABS_ACCOUNT || undefined;
+
 const session: Session = {
   platform: 'twitter',
+  account,
   cookies,
   localStorage: {},
   createdAt: Date.now(),
   updatedAt: Date.now(),
 };
 
-// Determine sessions directory
-const sessionsDir = path.join(process.cwd(), 'sessions');
-if (!fs.existsSync(sessionsDir)) {
-  fs.mkdirSync(sessionsDir, { recursive: true });
-}
-
-const sessionPath = path.join(sessionsDir, 'twitter.json');
+// Determine sessions directory (encrypted at rest when COOKIE_ENCRYPTION_KEY is set)
+const sessionsDir = path.join(process.cwd(), process.env.SESSION_DIR || 'sessions');
+const store = new SessionStore(sessionsDir, process.env.COOKIE_ENCRYPTION_KEY);
+const sessionPath = store.getPath('twitter', account);
 
 // Check if session file exists and preserve any additional cookies
-if (fs.existsSync(sessionPath)) {
+if (store.exists('twitter', account)) {
   try {
-    const existing = JSON.parse(fs.readFileSync(sessionPath, 'utf-8')) as Session;
+    const existing = store.read('twitter', account) as Session;
     // Keep non-auth cookies from existing session
     const existingOther = existing.cookies.filter(
       (c) => !['auth_token', 'ct0'].includes(c.name)
@@ -152,9 +155,9 @@ if (fs.existsSync(sessionPath)) {
   console.log('📝 Creating new session file');
 }
 
-fs.writeFileSync(sessionPath, JSON.stringify(session, null, 2));
+store.write(session);
 
-console.log(`✅ Twitter session synced to ${sessionPath}`);
+console.log(`✅ Twitter session synced to ${sessionPath}${store.isEncrypted() ? ' (encrypted)' : ''}`);
 console.log('');
 console.log('Cookies set:');
 console.log(`  • auth_token: ${authToken.slice(0, 8)}...${authToken.slice(-4)}`);
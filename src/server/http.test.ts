@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import '../platforms/builtin.js';
+import { createHttpServer } from './http.js';
+import { ActionError } from '../utils/errors.js';
+import { getAction, parsePayload } from '../platforms/registry.js';
+import type { SocialCrabs } from '../index.js';
+import type { ActionResult } from '../types/index.js';
+
+function result(overrides: Partial<ActionResult> = {}): ActionResult {
+  return { success: true, platform: 'twitter', action: 'like', timestamp: Date.now(), duration: 0, ...overrides };
+}
+
+describe('HTTP server', () => {
+  let server: Server;
+  let base: string;
+  // What the stubbed SocialCrabs answers once the payload passed validation
+  let respond: ReturnType<typeof vi.fn<(...args: unknown[]) => Promise<ActionResult>>>;
+
+  beforeEach(async () => {
+    respond = vi.fn(async () => result());
+    const socialCrabs = {
+      getAccount: () => 'default',
+      // Validates like SocialCrabs.runAction, then answers with the stub
+      runAction: async (platform: string, action: string, payload: Record<string, unknown>, account?: string) => {
+        parsePayload(getAction(platform, action), payload);
+        return respond(platform, action, payload, account);
+      },
+    } as unknown as SocialCrabs;
+
+    server = createHttpServer(socialCrabs).listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const post = (path: string, body: unknown, headers: Record<string, string> = {}) =>
+    fetch(`${base}${path}`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+
+  describe('error codes', () => {
+    const like = { url: 'https://x.com/someone/status/1' };
+
+    it('answers a failure with its code status and Retry-After', async () => {
+      respond.mockResolvedValue(
+        result({ success: false, error: 'Rate limit exceeded', code: 'RATE_LIMITED', nextAllowedAt: Date.now() + 30000 })
+      );
+
+      const res = await post('/api/twitter/like', like);
+
+      expect(res.status).toBe(429);
+      expect(Number(res.headers.get('retry-after'))).toBeGreaterThanOrEqual(29);
+      expect(await res.json()).toMatchObject({ code: 'RATE_LIMITED' });
+    });
+
+    it('answers 200 for an action that was already done', async () => {
+      respond.mockResolvedValue(result({ code: 'ALREADY_DONE', message: 'Already liked' }));
+
+      expect((await post('/api/twitter/like', like)).status).toBe(200);
+    });
+
+    it('answers 409 when the interaction history refuses an action', async () => {
+      respond.mockResolvedValue(result({ success: false, error: 'Blocked by interaction history', code: 'ALREADY_DONE' }));
+
+      expect((await post('/api/twitter/like', like)).status).toBe(409);
+    });
+
+    it('keeps 200 for failures without a code', async () => {
+      respond.mockResolvedValue(result({ success: false, error: 'Something odd happened' }));
+
+      expect((await post('/api/twitter/like', like)).status).toBe(200);
+    });
+
+    it('answers thrown errors with their code', async () => {
+      respond.mockRejectedValue(new ActionError('Not logged in', 'SESSION_EXPIRED'));
+
+      const res = await post('/api/twitter/like', like);
+
+      expect(res.status).toBe(401);
+      expect(await res.json()).toEqual({ error: 'Not logged in', code: 'SESSION_EXPIRED' });
+    });
+  });
+
+  describe('payload validation', () => {
+    it('lists the field problems of an invalid payload', async () => {
+      const res = await post('/api/twitter/dm', { message: '' });
+
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual({
+        error: 'username: Username required; message: Message required',
+        issues: [
+          { path: 'username', message: 'Username required' },
+          { path: 'message', message: 'Message required' },
+        ],
+      });
+      expect(respond).not.toHaveBeenCalled();
+    });
+
+    it('runs any action through /api/actions, with the account from the body', async () => {
+      const payload = { username: 'someone', message: 'hi' };
+
+      const res = await post('/api/actions', { platform: 'twitter', action: 'dm', payload, account: 'brand2' });
+
+      expect(res.status).toBe(200);
+      expect(respond).toHaveBeenCalledWith('twitter', 'dm', payload, 'brand2');
+    });
+
+    it('refuses an unknown platform or action on /api/actions', async () => {
+      const unknownPlatform = await post('/api/actions', { platform: 'myspace', action: 'like' });
+      const unknownAction = await post('/api/actions', { platform: 'twitter', action: 'upvote' });
+
+      expect(unknownPlatform.status).toBe(400);
+      expect(await unknownPlatform.json()).toMatchObject({ issues: [{ path: 'platform', message: 'Unknown platform' }] });
+      expect(unknownAction.status).toBe(400);
+      expect(await unknownAction.json()).toMatchObject({ issues: [{ path: 'action', message: 'Unsupported action: twitter/upvote' }] });
+    });
+
+    it('answers 404 for an action the platform does not have', async () => {
+      const res = await post('/api/twitter/upvote', {});
+
+      expect(res.status).toBe(404);
+      expect(await res.json()).toEqual({ error: 'Unsupported action: twitter/upvote' });
+    });
+
+    it('refuses a malformed account before running anything', async () => {
+      const res = await post('/api/twitter/like', { url: 'https://x.com/someone/status/1' }, { 'x-account': '../brand2' });
+
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual({ error: 'Invalid account: ../brand2' });
+      expect(respond).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,8 +1,37 @@
 import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
+import { z } from 'zod';
 import { log } from '../utils/logger.js';
+import { isValidAccount } from '../utils/accounts.js';
+import { parseRunAt } from '../services/job-queue.js';
+import { errorCode } from '../utils/errors.js';
+import { isPlatform, listPlatforms, findAction, payloadIssues, PayloadError } from '../platforms/registry.js';
 import type { SocialCrabs } from '../index.js';
-import type { Platform } from '../types/index.js';
+import type { Platform, JobStatus, ActionResult, ActionErrorCode } from '../types/index.js';
+
+// Body of POST /api/actions; the payload is then checked against the action's own schema
+const actionRequest = z.object({
+  platform: z.string({ error: 'Platform required' }).refine(isPlatform, 'Unknown platform'),
+  action: z.string({ error: 'Action required' }).min(1, 'Action required'),
+  payload: z.record(z.string(), z.unknown(), { error: 'Payload must be an object' }).default({}),
+  account: z.string({ error: 'Account must be a string' }).optional(),
+});
+
+// HTTP status of failed action results and errors by code. Failures without a code
+// stay 200 with success: false, and so do successful ALREADY_DONE results (already
+// liked or following); ALREADY_DONE refusals by the interaction history are 409.
+const CODE_STATUS: Record<ActionErrorCode, number> = {
+  RATE_LIMITED: 429,
+  BLOCKED_BY_PLATFORM: 429,
+  SESSION_EXPIRED: 401,
+  TARGET_NOT_FOUND: 404,
+  ALREADY_DONE: 409,
+  PAUSED: 503,
+  CIRCUIT_OPEN: 503,
+  SELECTOR_MISSING: 502,
+  TIMEOUT: 504,
+  UNKNOWN_OUTCOME: 502,
+};
 
 export function createHttpServer(socialCrabs: SocialCrabs, apiKey?: string) {
   const app = express();
@@ -26,6 +55,45 @@ export function createHttpServer(socialCrabs: SocialCrabs, apiKey?: string) {
     next();
   };
 
+  // Account selection: body.account, ?account= or X-Account header (defaults to the instance's account)
+  const getAccount = (req: Request): string | undefined => {
+    const account = req.body?.account || req.query.account || req.headers['x-account'];
+    return typeof account === 'string' && account ? account : undefined;
+  };
+
+  // Run an action and answer with its result, with the status of its code (Retry-After
+  // when it says when to retry); 400 listing the field problems of an invalid payload,
+  // and the code's status or 500 when the action throws
+  const runAction = async (
+    res: Response,
+    platform: Platform,
+    action: string,
+    payload: Record<string, unknown>,
+    account?: string
+  ): Promise<void> => {
+    try {
+      const result = await socialCrabs.runAction<unknown>(platform, action, payload, account);
+      const { success, code, nextAllowedAt } = (result ?? {}) as Partial<ActionResult>;
+      if (code && !success) {
+        if (nextAllowedAt) res.set('Retry-After', String(Math.max(0, Math.ceil((nextAllowedAt - Date.now()) / 1000))));
+        res.status(CODE_STATUS[code]);
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof PayloadError) {
+        res.status(400).json({ error: error.message, issues: error.issues });
+        return;
+      }
+      const code = errorCode(error);
+      if (code) {
+        res.status(CODE_STATUS[code]).json({ error: (error as Error).message, code });
+        return;
+      }
+      log.error(`Error running ${platform} ${action}`, { error: String(error) });
+      res.status(500).json({ error: String(error) });
+    }
+  };
+
   // Request logging
   app.use((req: Request, _res: Response, next: NextFunction) => {
     log.debug(`${req.method} ${req.path}`, { query: req.query, body: req.body });
@@ -40,13 +108,23 @@ export function createHttpServer(socialCrabs: SocialCrabs, apiKey?: string) {
   // Apply authentication to all other routes
   app.use(authenticate);
 
+  // Reject malformed account ids before they reach the browser or the filesystem
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    const account = getAccount(req);
+    if (account && !isValidAccount(account)) {
+      res.status(400).json({ error: `Invalid account: ${account}` });
+      return;
+    }
+    next();
+  });
+
   // ============================================================================
   // Status endpoints
   // ============================================================================
 
-  app.get('/api/status', async (_req: Request, res: Response) => {
+  app.get('/api/status', async (req: Request, res: Response) => {
     try {
-      const status = await socialCrabs.getStatus();
+      const status = await socialCrabs.getStatus(getAccount(req));
       res.json(status);
     } catch (error) {
       log.error('Error getting status', { error: String(error) });
@@ -61,8 +139,9 @@ export function createHttpServer(socialCrabs: SocialCrabs, apiKey?: string) {
   app.get('/api/session/:platform', async (req: Request, res: Response) => {
     try {
       const platform = req.params.platform as Platform;
-      const isLoggedIn = await socialCrabs.isLoggedIn(platform);
-      res.json({ platform, loggedIn: isLoggedIn });
+      const account = getAccount(req);
+      const isLoggedIn = await socialCrabs.isLoggedIn(platform, account);
+      res.json({ platform, account: account ?? socialCrabs.getAccount(), loggedIn: isLoggedIn });
     } catch (error) {
       log.error('Error checking session', { error: String(error) });
       res.status(500).json({ error: String(error) });
@@ -72,9 +151,10 @@ export function createHttpServer(socialCrabs: SocialCrabs, apiKey?: string) {
   app.post('/api/session/login/:platform', async (req: Request, res: Response) => {
     try {
       const platform = req.params.platform as Platform;
-      log.info(`Login request for ${platform}`);
-      const success = await socialCrabs.login(platform);
-      res.json({ platform, success });
+      const account = getAccount(req);
+      log.info(`Login request for ${platform}`, { account });
+      const success = await socialCrabs.login(platform, account);
+      res.json({ platform, account: account ?? socialCrabs.getAccount(), success });
     } catch (error) {
       log.error('Error logging in', { error: String(error) });
       res.status(500).json({ error: String(error) });
@@ -84,8 +164,9 @@ export function createHttpServer(socialCrabs: SocialCrabs, apiKey?: string) {
   app.post('/api/session/logout/:platform', async (req: Request, res: Response) => {
     try {
       const platform = req.params.platform as Platform;
-      await socialCrabs.logout(platform);
-      res.json({ platform, success: true });
+      const account = getAccount(req);
+      await socialCrabs.logout(platform, account);
+      res.json({ platform, account: account ?? socialCrabs.getAccount(), success: true });
     } catch (error) {
       log.error('Error logging out', { error: String(error) });
       res.status(500).json({ error: String(error) });
@@ -93,273 +174,229 @@ export function createHttpServer(socialCrabs: SocialCrabs, apiKey?: string) {
   });
 
   // ============================================================================
-  // Instagram endpoints
+  // Pause endpoints
   // ============================================================================
 
-  app.post('/api/instagram/like', async (req: Request, res: Response) => {
+  // Without platform and account, pauses everything
+  app.post('/api/pause', async (req: Request, res: Response) => {
     try {
-      const { url } = req.body;
-      if (!url) {
-        res.status(400).json({ error: 'URL required' });
+      const { platform, reason } = req.body || {};
+      let until: number | undefined;
+      try {
+        until = parseRunAt(req.body?.until, 'until');
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
         return;
       }
-      const result = await socialCrabs.instagram.like({ url });
-      res.json(result);
-    } catch (error) {
-      log.error('Error liking Instagram post', { error: String(error) });
-      res.status(500).json({ error: String(error) });
-    }
-  });
-
-  app.post('/api/instagram/comment', async (req: Request, res: Response) => {
-    try {
-      const { url, text } = req.body;
-      if (!url || !text) {
-        res.status(400).json({ error: 'URL and text required' });
+      if (platform !== undefined && !isPlatform(platform)) {
+        res.status(400).json({ error: `Unknown platform: ${platform}` });
         return;
       }
-      const result = await socialCrabs.instagram.comment({ url, text });
-      res.json(result);
+      const paused = await socialCrabs.pause(
+        { platform, account: getAccount(req) },
+        { reason: typeof reason === 'string' ? reason : undefined, until }
+      );
+      res.json({ paused });
     } catch (error) {
-      log.error('Error commenting on Instagram post', { error: String(error) });
+      log.error('Error pausing automation', { error: String(error) });
       res.status(500).json({ error: String(error) });
     }
   });
 
-  app.post('/api/instagram/follow', async (req: Request, res: Response) => {
+  // Lifts the pause of exactly the given scope, or every pause with { all: true }
+  app.post('/api/resume', async (req: Request, res: Response) => {
     try {
-      const { username } = req.body;
-      if (!username) {
-        res.status(400).json({ error: 'Username required' });
-        return;
-      }
-      const result = await socialCrabs.instagram.follow({ username });
-      res.json(result);
+      const platform = req.body?.platform as Platform | undefined;
+      const resumed = await socialCrabs.resume({ platform, account: getAccount(req) }, req.body?.all === true);
+      res.json({ resumed, pauses: socialCrabs.getPauses() });
     } catch (error) {
-      log.error('Error following Instagram user', { error: String(error) });
+      log.error('Error resuming automation', { error: String(error) });
       res.status(500).json({ error: String(error) });
     }
   });
 
-  app.post('/api/instagram/unfollow', async (req: Request, res: Response) => {
+  app.get('/api/pause', async (_req: Request, res: Response) => {
     try {
-      const { username } = req.body;
-      if (!username) {
-        res.status(400).json({ error: 'Username required' });
-        return;
-      }
-      const result = await socialCrabs.instagram.unfollow({ username });
-      res.json(result);
+      res.json({ pauses: socialCrabs.getPauses() });
     } catch (error) {
-      log.error('Error unfollowing Instagram user', { error: String(error) });
+      log.error('Error listing pauses', { error: String(error) });
       res.status(500).json({ error: String(error) });
     }
   });
 
-  app.post('/api/instagram/dm', async (req: Request, res: Response) => {
+  // ============================================================================
+  // Interaction history endpoints
+  // ============================================================================
+
+  // Target is a post URL, username or profile URL (URL-encoded)
+  app.get('/api/history/:platform/:target', async (req: Request, res: Response) => {
     try {
-      const { username, message } = req.body;
-      if (!username || !message) {
-        res.status(400).json({ error: 'Username and message required' });
+      const platform = req.params.platform as Platform;
+      if (!isPlatform(platform)) {
+        res.status(400).json({ error: `Unknown platform: ${platform}` });
         return;
       }
-      const result = await socialCrabs.instagram.dm({ username, message });
-      res.json(result);
-    } catch (error) {
-      log.error('Error sending Instagram DM', { error: String(error) });
-      res.status(500).json({ error: String(error) });
-    }
-  });
-
-  app.get('/api/instagram/profile/:username', async (req: Request, res: Response) => {
-    try {
-      const username = req.params.username as string;
-      const profile = await socialCrabs.instagram.getProfile(username);
-      res.json(profile);
+      const target = String(req.params.target);
+      const account = getAccount(req);
+      const interactions = socialCrabs.getHistory(platform, target, account);
+      res.json({ platform, account: account ?? socialCrabs.getAccount(), target, interactions });
     } catch (error) {
-      log.error('Error getting Instagram profile', { error: String(error) });
+      log.error('Error reading interaction history', { error: String(error) });
       res.status(500).json({ error: String(error) });
     }
   });
 
   // ============================================================================
-  // Twitter endpoints
+  // Job queue endpoints
   // ============================================================================
 
-  app.post('/api/twitter/like', async (req: Request, res: Response) => {
+  app.post('/api/jobs', async (req: Request, res: Response) => {
     try {
-      const { url } = req.body;
-      if (!url) {
-        res.status(400).json({ error: 'URL required' });
+      const { platform, action, payload, runAt, maxAttempts } = req.body;
+      const account = getAccount(req);
+
+      let runAtMs: number | undefined;
+      try {
+        runAtMs = parseRunAt(runAt);
+      } catch (error) {
+        res.status(400).json({ error: (error as Error).message });
         return;
       }
-      const result = await socialCrabs.twitter.like({ url });
-      res.json(result);
-    } catch (error) {
-      log.error('Error liking tweet', { error: String(error) });
-      res.status(500).json({ error: String(error) });
-    }
-  });
 
-  app.post('/api/twitter/tweet', async (req: Request, res: Response) => {
-    try {
-      const { text } = req.body;
-      if (!text) {
-        res.status(400).json({ error: 'Text required' });
+      const input = { platform, action, payload: payload || {}, account, runAt: runAtMs, maxAttempts };
+      const invalid = socialCrabs.jobs.validate(input);
+      if (invalid) {
+        res.status(400).json({ error: invalid });
         return;
       }
-      const result = await socialCrabs.twitter.post({ text });
-      res.json(result);
+
+      const job = await socialCrabs.jobs.add(input);
+      res.status(201).json(job);
     } catch (error) {
-      log.error('Error posting tweet', { error: String(error) });
+      log.error('Error queueing job', { error: String(error) });
       res.status(500).json({ error: String(error) });
     }
   });
 
-  app.post('/api/twitter/reply', async (req: Request, res: Response) => {
+  app.get('/api/jobs', async (req: Request, res: Response) => {
     try {
-      const { url, text } = req.body;
-      if (!url || !text) {
-        res.status(400).json({ error: 'URL and text required' });
-        return;
-      }
-      const result = await socialCrabs.twitter.comment({ url, text });
-      res.json(result);
+      const jobs = socialCrabs.jobs.list({
+        status: req.query.status as JobStatus | undefined,
+        platform: req.query.platform as Platform | undefined,
+        account: getAccount(req),
+      });
+      res.json({ jobs, count: jobs.length });
     } catch (error) {
-      log.error('Error replying to tweet', { error: String(error) });
+      log.error('Error listing jobs', { error: String(error) });
       res.status(500).json({ error: String(error) });
     }
   });
 
-  app.post('/api/twitter/retweet', async (req: Request, res: Response) => {
+  app.get('/api/jobs/:id', async (req: Request, res: Response) => {
     try {
-      const { url } = req.body;
-      if (!url) {
-        res.status(400).json({ error: 'URL required' });
+      const job = socialCrabs.jobs.get(req.params.id as string);
+      if (!job) {
+        res.status(404).json({ error: 'Job not found' });
         return;
       }
-      const result = await socialCrabs.twitter.retweet(url);
-      res.json(result);
+      res.json(job);
     } catch (error) {
-      log.error('Error retweeting', { error: String(error) });
+      log.error('Error getting job', { error: String(error) });
       res.status(500).json({ error: String(error) });
     }
   });
 
-  app.post('/api/twitter/follow', async (req: Request, res: Response) => {
+  app.delete('/api/jobs/:id', async (req: Request, res: Response) => {
     try {
-      const { username } = req.body;
-      if (!username) {
-        res.status(400).json({ error: 'Username required' });
+      const id = req.params.id as string;
+      const existing = socialCrabs.jobs.get(id);
+      if (!existing) {
+        res.status(404).json({ error: 'Job not found' });
         return;
       }
-      const result = await socialCrabs.twitter.follow({ username });
-      res.json(result);
-    } catch (error) {
-      log.error('Error following Twitter user', { error: String(error) });
-      res.status(500).json({ error: String(error) });
-    }
-  });
-
-  app.post('/api/twitter/dm', async (req: Request, res: Response) => {
-    try {
-      const { username, message } = req.body;
-      if (!username || !message) {
-        res.status(400).json({ error: 'Username and message required' });
+      if (existing.status !== 'pending') {
+        res.status(409).json({ error: `Job is ${existing.status} and cannot be cancelled` });
         return;
       }
-      const result = await socialCrabs.twitter.dm({ username, message });
-      res.json(result);
-    } catch (error) {
-      log.error('Error sending Twitter DM', { error: String(error) });
-      res.status(500).json({ error: String(error) });
-    }
-  });
-
-  app.get('/api/twitter/profile/:username', async (req: Request, res: Response) => {
-    try {
-      const username = req.params.username as string;
-      const profile = await socialCrabs.twitter.getProfile(username);
-      res.json(profile);
+      const job = await socialCrabs.jobs.cancel(id);
+      res.json(job);
     } catch (error) {
-      log.error('Error getting Twitter profile', { error: String(error) });
+      log.error('Error cancelling job', { error: String(error) });
       res.status(500).json({ error: String(error) });
     }
   });
 
-  // ============================================================================
-  // LinkedIn endpoints
-  // ============================================================================
-
-  app.post('/api/linkedin/like', async (req: Request, res: Response) => {
+  app.post('/api/jobs/:id/retry', async (req: Request, res: Response) => {
     try {
-      const { url } = req.body;
-      if (!url) {
-        res.status(400).json({ error: 'URL required' });
+      const id = req.params.id as string;
+      const existing = socialCrabs.jobs.get(id);
+      if (!existing) {
+        res.status(404).json({ error: 'Job not found' });
         return;
       }
-      const result = await socialCrabs.linkedin.like({ url });
-      res.json(result);
-    } catch (error) {
-      log.error('Error liking LinkedIn post', { error: String(error) });
-      res.status(500).json({ error: String(error) });
-    }
-  });
-
-  app.post('/api/linkedin/comment', async (req: Request, res: Response) => {
-    try {
-      const { url, text } = req.body;
-      if (!url || !text) {
-        res.status(400).json({ error: 'URL and text required' });
+      if (existing.status !== 'failed' && existing.status !== 'cancelled') {
+        res.status(409).json({ error: `Job is ${existing.status} and cannot be retried` });
         return;
       }
-      const result = await socialCrabs.linkedin.comment({ url, text });
-      res.json(result);
+      const job = await socialCrabs.jobs.retry(id);
+      res.json(job);
     } catch (error) {
-      log.error('Error commenting on LinkedIn post', { error: String(error) });
+      log.error('Error retrying job', { error: String(error) });
       res.status(500).json({ error: String(error) });
     }
   });
 
-  app.post('/api/linkedin/connect', async (req: Request, res: Response) => {
-    try {
-      const { profileUrl, note } = req.body;
-      if (!profileUrl) {
-        res.status(400).json({ error: 'Profile URL required' });
-        return;
-      }
-      const result = await socialCrabs.linkedin.connect({ profileUrl, note });
-      res.json(result);
-    } catch (error) {
-      log.error('Error sending LinkedIn connection', { error: String(error) });
-      res.status(500).json({ error: String(error) });
+  // ============================================================================
+  // Platform endpoints (generated from the platform registry)
+  // ============================================================================
+
+  // { platform, action, payload, account? } for any action of any registered platform;
+  // the account can also come from ?account= or X-Account like the platform routes
+  app.post('/api/actions', async (req: Request, res: Response) => {
+    const parsed = actionRequest.safeParse(req.body || {});
+    if (!parsed.success) {
+      const error = new PayloadError(payloadIssues(parsed.error));
+      res.status(400).json({ error: error.message, issues: error.issues });
+      return;
     }
+    const { platform, action, payload } = parsed.data;
+    if (!findAction(platform, action)) {
+      const message = `Unsupported action: ${platform}/${action}`;
+      res.status(400).json({ error: message, issues: [{ path: 'action', message }] });
+      return;
+    }
+    await runAction(res, platform as Platform, action, payload, getAccount(req));
   });
 
-  app.post('/api/linkedin/message', async (req: Request, res: Response) => {
-    try {
-      const { username, message } = req.body;
-      if (!username || !message) {
-        res.status(400).json({ error: 'Username and message required' });
-        return;
+  // POST /api/<platform>/<action or alias> with the payload as body; read actions
+  // are GET routes whose path parameters and query make up the payload
+  for (const platform of listPlatforms()) {
+    for (const action of platform.actions) {
+      const routes = action.route ? [action.route] : [action.name, ...(action.aliases || [])];
+
+      const handle = async (req: Request, res: Response) => {
+        const payload = action.read ? { ...req.query, ...req.params } : req.body || {};
+        await runAction(res, platform.id, action.name, payload, getAccount(req));
+      };
+
+      for (const route of routes) {
+        if (action.read) {
+          app.get(`/api/${platform.id}/${route}`, handle);
+        } else {
+          app.post(`/api/${platform.id}/${route}`, handle);
+        }
       }
-      const result = await socialCrabs.linkedin.dm({ username, message });
-      res.json(result);
-    } catch (error) {
-      log.error('Error sending LinkedIn message', { error: String(error) });
-      res.status(500).json({ error: String(error) });
     }
-  });
+  }
 
-  app.get('/api/linkedin/profile/:username', async (req: Request, res: Response) => {
-    try {
-      const username = req.params.username as string;
-      const profile = await socialCrabs.linkedin.getProfile(username);
-      res.json(profile);
-    } catch (error) {
-      log.error('Error getting LinkedIn profile', { error: String(error) });
-      res.status(500).json({ error: String(error) });
+  // Any other /api/<platform>/<action> isn't an action of that platform
+  app.all('/api/:platform/:action', (req: Request, res: Response, next: NextFunction) => {
+    const { platform, action } = req.params as { platform: string; action: string };
+    if (!isPlatform(platform)) {
+      next();
+      return;
     }
+    res.status(404).json({ error: `Unsupported action: ${platform}/${action}` });
   });
 
   // ============================================================================
@@ -1,5 +1,9 @@
 import { WebSocketServer, WebSocket } from 'ws';
 import { log } from '../utils/logger.js';
+import { isValidAccount } from '../utils/accounts.js';
+import { parseRunAt } from '../services/job-queue.js';
+import { isPlatform, findAction, PayloadError } from '../platforms/registry.js';
+import { errorCode } from '../utils/errors.js';
 import type { SocialCrabs } from '../index.js';
 import type { WSMessage, Platform, ActionType } from '../types/index.js';
 
@@ -91,6 +95,15 @@ export class WebSocketManager {
         await this.handleCommand(client, message);
         break;
 
+      case 'pause':
+      case 'resume':
+        if (!client.authenticated && this.apiKey) {
+          this.sendError(client, 'Not authenticated', message.id);
+          return;
+        }
+        await this.handlePause(client, message);
+        break;
+
       case 'subscribe':
         if (!client.authenticated && this.apiKey) {
           this.sendError(client, 'Not authenticated', message.id);
@@ -135,35 +148,69 @@ export class WebSocketManager {
   }
 
   /**
-   * Handle command messages
+   * Handle pause/resume messages: { platform?, account?, reason?, until? } or { all: true } to resume everything
+   */
+  private async handlePause(client: WSClient, message: WSMessage): Promise<void> {
+    const payload = message.payload || {};
+    const platform = payload.platform as Platform | undefined;
+    const account = payload.account as string | undefined;
+
+    if (account !== undefined && (typeof account !== 'string' || !isValidAccount(account))) {
+      this.sendError(client, `Invalid account: ${account}`, message.id);
+      return;
+    }
+
+    try {
+      if (message.type === 'pause') {
+        const paused = await this.socialCrabs.pause(
+          { platform, account },
+          {
+            reason: typeof payload.reason === 'string' ? payload.reason : undefined,
+            until: parseRunAt(payload.until, 'until'),
+          }
+        );
+        this.send(client, { type: 'status', id: message.id, payload: { paused } });
+      } else {
+        const resumed = await this.socialCrabs.resume({ platform, account }, payload.all === true);
+        this.send(client, { type: 'status', id: message.id, payload: { resumed, pauses: this.socialCrabs.getPauses() } });
+      }
+    } catch (error) {
+      this.sendError(client, error instanceof Error ? error.message : String(error), message.id);
+    }
+  }
+
+  /**
+   * Handle command messages: { platform, action, account?, ...payload fields }, validated
+   * against the action's schema (an error message with `issues` lists the field problems)
    */
   private async handleCommand(client: WSClient, message: WSMessage): Promise<void> {
     const payload = message.payload || {};
     const platform = payload.platform as Platform;
     const action = payload.action as ActionType;
+    const account = payload.account as string | undefined;
 
     if (!platform || !action) {
       this.sendError(client, 'Platform and action required', message.id);
       return;
     }
 
+    if (account !== undefined && (typeof account !== 'string' || !isValidAccount(account))) {
+      this.sendError(client, `Invalid account: ${account}`, message.id);
+      return;
+    }
+
+    if (!isPlatform(platform)) {
+      this.sendError(client, `Unknown platform: ${platform}`, message.id);
+      return;
+    }
+
+    if (!findAction(platform, action)) {
+      this.sendError(client, `Unsupported action: ${platform}/${action}`, message.id);
+      return;
+    }
+
     try {
-      let result;
-
-      switch (platform) {
-        case 'instagram':
-          result = await this.executeInstagramAction(action, payload);
-          break;
-        case 'twitter':
-          result = await this.executeTwitterAction(action, payload);
-          break;
-        case 'linkedin':
-          result = await this.executeLinkedInAction(action, payload);
-          break;
-        default:
-          this.sendError(client, `Unknown platform: ${platform}`, message.id);
-          return;
-      }
+      const result = await this.socialCrabs.runAction<unknown>(platform, action, payload, account);
 
       this.send(client, {
         type: 'result',
@@ -174,121 +221,23 @@ export class WebSocketManager {
       // Broadcast to subscribers
       this.broadcast(`${platform}:${action}`, {
         type: 'result',
-        payload: { platform, action, result },
+        payload: { platform, account: account ?? this.socialCrabs.getAccount(), action, result },
       });
     } catch (error) {
+      if (error instanceof PayloadError) {
+        this.sendError(client, error.message, message.id, { issues: error.issues });
+        return;
+      }
+      const code = errorCode(error);
+      if (code) {
+        this.sendError(client, (error as Error).message, message.id, { code });
+        return;
+      }
       log.error('Error executing command', { error: String(error) });
       this.sendError(client, String(error), message.id);
     }
   }
 
-  /**
-   * Execute Instagram action
-   */
-  private async executeInstagramAction(
-    action: ActionType,
-    payload: Record<string, unknown>
-  ): Promise<unknown> {
-    const handler = this.socialCrabs.instagram;
-
-    switch (action) {
-      case 'like':
-        return handler.like({ url: payload.url as string });
-      case 'comment':
-        return handler.comment({
-          url: payload.url as string,
-          text: payload.text as string,
-        });
-      case 'follow':
-        return handler.follow({ username: payload.username as string });
-      case 'unfollow':
-        return handler.unfollow({ username: payload.username as string });
-      case 'dm':
-        return handler.dm({
-          username: payload.username as string,
-          message: payload.message as string,
-        });
-      case 'view_profile':
-        return handler.getProfile(payload.username as string);
-      default:
-        throw new Error(`Unknown Instagram action: ${action}`);
-    }
-  }
-
-  /**
-   * Execute Twitter action
-   */
-  private async executeTwitterAction(
-    action: ActionType,
-    payload: Record<string, unknown>
-  ): Promise<unknown> {
-    const handler = this.socialCrabs.twitter;
-
-    switch (action) {
-      case 'like':
-        return handler.like({ url: payload.url as string });
-      case 'comment':
-      case 'reply':
-        return handler.comment({
-          url: payload.url as string,
-          text: payload.text as string,
-        });
-      case 'follow':
-        return handler.follow({ username: payload.username as string });
-      case 'unfollow':
-        return handler.unfollow({ username: payload.username as string });
-      case 'dm':
-        return handler.dm({
-          username: payload.username as string,
-          message: payload.message as string,
-        });
-      case 'post':
-        return handler.post({ text: payload.text as string });
-      case 'retweet':
-        return handler.retweet(payload.url as string);
-      case 'view_profile':
-        return handler.getProfile(payload.username as string);
-      default:
-        throw new Error(`Unknown Twitter action: ${action}`);
-    }
-  }
-
-  /**
-   * Execute LinkedIn action
-   */
-  private async executeLinkedInAction(
-    action: ActionType,
-    payload: Record<string, unknown>
-  ): Promise<unknown> {
-    const handler = this.socialCrabs.linkedin;
-
-    switch (action) {
-      case 'like':
-        return handler.like({ url: payload.url as string });
-      case 'comment':
-        return handler.comment({
-          url: payload.url as string,
-          text: payload.text as string,
-        });
-      case 'follow':
-        return handler.follow({ username: payload.username as string });
-      case 'connect':
-        return handler.connect({
-          profileUrl: payload.profileUrl as string,
-          note: payload.note as string | undefined,
-        });
-      case 'dm':
-        return handler.dm({
-          username: payload.username as string,
-          message: payload.message as string,
-        });
-      case 'view_profile':
-        return handler.getProfile(payload.username as string);
-      default:
-        throw new Error(`Unknown LinkedIn action: ${action}`);
-    }
-  }
-
   /**
    * Send message to a client
    */
@@ -299,13 +248,13 @@ export class WebSocketManager {
   }
 
   /**
-   * Send error to a client
+   * Send error to a client (with details such as the code or field issues)
    */
-  private sendError(client: WSClient, error: string, id?: string): void {
+  private sendError(client: WSClient, error: string, id?: string, details?: Record<string, unknown>): void {
     this.send(client, {
       type: 'error',
       id,
-      payload: { error },
+      payload: { error, ...details },
     });
   }
 
@@ -0,0 +1,113 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CircuitBreaker } from './circuit-breaker.js';
+
+const RESET_MS = 60 * 1000;
+
+describe('CircuitBreaker', async () => {
+  let dir: string;
+  let circuits: CircuitBreaker;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'socialcrabs-circuits-'));
+    circuits = new CircuitBreaker(path.join(dir, 'circuits.json'), { threshold: 3, resetMs: RESET_MS });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  // Open the like circuit at `now`
+  async function open(now: number): Promise<void> {
+    for (let i = 0; i < 3; i++) await circuits.failure('twitter', 'like', 'selector missing', now);
+  }
+
+  it('opens after threshold consecutive failures, once', async () => {
+    const now = Date.now();
+
+    expect(await circuits.failure('twitter', 'like', 'a', now)).toBeNull();
+    expect(await circuits.failure('twitter', 'like', 'b', now)).toBeNull();
+    expect(await circuits.failure('twitter', 'like', 'c', now)).toMatchObject({ state: 'open', failures: 3, lastError: 'c', probeAt: now + RESET_MS });
+    expect(await circuits.failure('twitter', 'like', 'd', now)).toBeNull();
+
+    expect(await circuits.acquire('twitter', 'like', now)).toMatchObject({ state: 'open' });
+    expect(await circuits.acquire('twitter', 'follow', now)).toBeNull();
+    expect(await circuits.acquire('instagram', 'like', now)).toBeNull();
+  });
+
+  it('starts counting again after a success', async () => {
+    const now = Date.now();
+    await circuits.failure('twitter', 'like', 'a', now);
+    await circuits.failure('twitter', 'like', 'b', now);
+    await circuits.success('twitter', 'like');
+
+    expect(await circuits.failure('twitter', 'like', 'c', now)).toBeNull();
+    expect(circuits.list('twitter').like).toMatchObject({ state: 'closed', failures: 1 });
+  });
+
+  it('lets a single probe through once the reset time has passed', async () => {
+    const now = Date.now();
+    await open(now);
+    const probeAt = now + RESET_MS;
+
+    expect(await circuits.acquire('twitter', 'like', probeAt - 1)).not.toBeNull();
+    expect(await circuits.acquire('twitter', 'like', probeAt)).toBeNull();
+    expect(circuits.list('twitter').like).toMatchObject({ state: 'half-open', probeStartedAt: probeAt });
+
+    // Everyone else waits while the probe is in flight
+    expect(await circuits.acquire('twitter', 'like', probeAt + 1)).toMatchObject({ state: 'half-open' });
+    expect(circuits.check('twitter', 'like', probeAt + 1)).not.toBeNull();
+  });
+
+  it('closes when the probe succeeds', async () => {
+    const now = Date.now();
+    await open(now);
+    await circuits.acquire('twitter', 'like', now + RESET_MS);
+
+    await circuits.success('twitter', 'like');
+
+    expect(await circuits.acquire('twitter', 'like', now + RESET_MS + 1)).toBeNull();
+    expect(circuits.list('twitter')).toEqual({});
+  });
+
+  it('opens again without a second report when the probe fails', async () => {
+    const now = Date.now();
+    await open(now);
+    const probeAt = now + RESET_MS;
+    await circuits.acquire('twitter', 'like', probeAt);
+
+    expect(await circuits.failure('twitter', 'like', 'still missing', probeAt + 10)).toBeNull();
+
+    expect(circuits.list('twitter').like).toMatchObject({ state: 'open', openedAt: now, probeAt: probeAt + 10 + RESET_MS });
+    expect(await circuits.acquire('twitter', 'like', probeAt + 20)).toMatchObject({ state: 'open' });
+  });
+
+  it('lets another probe through when the last one never reported back', async () => {
+    const now = Date.now();
+    await open(now);
+    await circuits.acquire('twitter', 'like', now + RESET_MS);
+
+    expect(await circuits.acquire('twitter', 'like', now + 2 * RESET_MS)).toBeNull();
+    expect(circuits.list('twitter').like).toMatchObject({ state: 'half-open', probeStartedAt: now + 2 * RESET_MS });
+  });
+
+  it('counts failures from several processes without losing any', async () => {
+    const other = new CircuitBreaker(path.join(dir, 'circuits.json'), { threshold: 3, resetMs: RESET_MS });
+
+    await Promise.all(
+      Array.from({ length: 6 }, (_, i) => (i % 2 ? circuits : other).failure('twitter', 'follow', 'timeout'))
+    );
+
+    expect(circuits.list('twitter').follow).toMatchObject({ state: 'open', failures: 6 });
+  });
+
+  it('never opens with a threshold of 0', async () => {
+    const disabled = new CircuitBreaker(path.join(dir, 'disabled.json'), { threshold: 0, resetMs: RESET_MS });
+
+    for (let i = 0; i < 10; i++) await disabled.failure('twitter', 'like', 'error');
+
+    expect(await disabled.acquire('twitter', 'like')).toBeNull();
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * SocialCrabs Circuit Breaker
+ *
+ * Stops hammering an action that keeps failing (typically selectors broken by a
+ * platform UI update). After `threshold` consecutive failures of a platform
+ * action its circuit opens: calls are rejected right away until `resetMs` has
+ * passed, then a single probe is let through (half-open). A successful probe
+ * closes the circuit, a failed one opens it again. Circuits are per platform
+ * and action, shared by all accounts, and kept in circuits.json next to the
+ * sessions so every process sees them (changes are made under a file lock).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { log } from '../utils/logger.js';
+import { withFileLock } from '../utils/file-lock.js';
+import type { Platform, ActionType, CircuitBreakerConfig, CircuitState } from '../types/index.js';
+
+// Keyed by platform, then action. Closed circuits without failures are dropped.
+interface CircuitData {
+  [platform: string]: Record<string, CircuitState>;
+}
+
+export class CircuitBreaker {
+  private filePath: string;
+  private config: CircuitBreakerConfig;
+
+  constructor(filePath: string, config: CircuitBreakerConfig) {
+    this.filePath = filePath;
+    this.config = config;
+  }
+
+  /**
+   * Tracked circuits of a platform (open, half-open or closed with recent failures)
+   */
+  list(platform: Platform): Record<string, CircuitState> {
+    return this.load()[platform] || {};
+  }
+
+  /**
+   * The circuit of an action if it would reject a call right now, or null
+   */
+  check(platform: Platform, action: ActionType, now = Date.now()): CircuitState | null {
+    const circuit = this.load()[platform]?.[action];
+    return circuit && this.rejects(circuit, now) ? circuit : null;
+  }
+
+  /**
+   * Let a call through, or return the circuit that rejects it. When an open
+   * circuit's probe is due, the caller becomes the probe (half-open).
+   */
+  async acquire(platform: Platform, action: ActionType, now = Date.now()): Promise<CircuitState | null> {
+    if (this.config.threshold <= 0) return null;
+    // Closed circuits don't need the lock
+    const current = this.load()[platform]?.[action];
+    if (!current || current.state === 'closed') return null;
+
+    return withFileLock(this.filePath, () => {
+      const data = this.load();
+      const circuit = data[platform]?.[action];
+      if (!circuit || circuit.state === 'closed') return null;
+      if (this.rejects(circuit, now)) return circuit;
+
+      // Probe due (or the previous probe never reported back)
+      data[platform][action] = {
+        ...circuit,
+        state: 'half-open',
+        probeStartedAt: now,
+        probeAt: now + this.config.resetMs,
+      };
+      this.persist(data);
+      log.info(`Circuit half-open for ${platform} ${action}, probing`);
+      return null;
+    });
+  }
+
+  /**
+   * Close the circuit after a successful call. Logs its own errors.
+   */
+  async success(platform: Platform, action: ActionType): Promise<void> {
+    // Nothing tracked: skip the lock
+    if (!this.load()[platform]?.[action]) return;
+
+    try {
+      const circuit = await withFileLock(this.filePath, () => {
+        const data = this.load();
+        const circuit = data[platform]?.[action];
+        if (!circuit) return null;
+
+        delete data[platform][action];
+        this.persist(data);
+        return circuit;
+      });
+      if (circuit && circuit.state !== 'closed') {
+        log.info(`Circuit closed for ${platform} ${action}`);
+      }
+    } catch (error) {
+      log.error('Failed to close circuit', { platform, action, error: String(error) });
+    }
+  }
+
+  /**
+   * Count a failed call. Returns the circuit if this failure opened it (a failed
+   * probe re-opens it without returning it, so an outage is only reported once).
+   */
+  async failure(platform: Platform, action: ActionType, error: string, now = Date.now()): Promise<CircuitState | null> {
+    if (this.config.threshold <= 0) return null;
+
+    const { previous, circuit, reopen } = await withFileLock(this.filePath, () => {
+      const data = this.load();
+      const previous = data[platform]?.[action];
+      const failures = (previous?.failures ?? 0) + 1;
+      const reopen =
+        previous?.state === 'half-open' || (previous?.state !== 'open' && failures >= this.config.threshold);
+
+      const circuit: CircuitState = reopen
+        ? {
+            state: 'open',
+            failures,
+            lastError: error,
+            openedAt: previous?.openedAt ?? now,
+            probeAt: now + this.config.resetMs,
+          }
+        : { ...previous, state: previous?.state ?? 'closed', failures, lastError: error };
+
+      data[platform] = { ...data[platform], [action]: circuit };
+      this.persist(data);
+      return { previous, circuit, reopen };
+    });
+
+    if (!reopen) return null;
+    if (previous?.state === 'half-open') {
+      log.warn(`Circuit probe failed for ${platform} ${action}, open again`, { error });
+      return null;
+    }
+    log.warn(`Circuit opened for ${platform} ${action} after ${circuit.failures} consecutive failures`, { error });
+    return circuit;
+  }
+
+  // Open until the probe is due; half-open while the probe is in flight
+  private rejects(circuit: CircuitState, now: number): boolean {
+    return circuit.state !== 'closed' && (circuit.probeAt ?? 0) > now;
+  }
+
+  private load(): CircuitData {
+    if (!fs.existsSync(this.filePath)) return {};
+    return JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as CircuitData;
+  }
+
+  private persist(data: CircuitData): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(data, null, 2));
+    fs.renameSync(tmp, this.filePath);
+  }
+}
+
+// Singleton instance
+let circuitBreakerInstance: CircuitBreaker | null = null;
+
+export function initCircuitBreaker(filePath: string, config: CircuitBreakerConfig): CircuitBreaker {
+  circuitBreakerInstance = new CircuitBreaker(filePath, config);
+  return circuitBreakerInstance;
+}
+
+export function getCircuitBreaker(): CircuitBreaker | null {
+  return circuitBreakerInstance;
+}
@@ -1 +1,6 @@
 export { Notifier, initNotifier, getNotifier } from './notifier.js';
+export { JobQueue, parseRunAt } from './job-queue.js';
+export { InteractionLedger, initLedger, getLedger, normalizeTarget } from './ledger.js';
+export type { LedgerEntry, LedgerViolation } from './ledger.js';
+export { PauseControl, initPause, getPause, describePauseScope } from './pause.js';
+export { CircuitBreaker, initCircuitBreaker, getCircuitBreaker } from './circuit-breaker.js';
@@ -0,0 +1,177 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import '../platforms/builtin.js';
+import { JobQueue } from './job-queue.js';
+import { RateLimiter } from '../utils/rate-limiter.js';
+import type { ActionResult, Job, JobQueueConfig } from '../types/index.js';
+
+const CONFIG: JobQueueConfig = { pollIntervalMs: 20, cooldownMinMs: 0, cooldownMaxMs: 0, maxAttempts: 3 };
+const MINUTE = 60 * 1000;
+// A pid no live process has
+const DEAD_OWNER = 2 ** 22 + 1;
+
+function result(overrides: Partial<ActionResult> = {}): ActionResult {
+  return { success: true, platform: 'twitter', action: 'like', timestamp: Date.now(), duration: 0, ...overrides };
+}
+
+function job(overrides: Partial<Job> = {}): Job {
+  const now = Date.now();
+  return {
+    id: 'job_1',
+    platform: 'twitter',
+    account: 'default',
+    action: 'like',
+    payload: { url: 'https://x.com/someone/status/1' },
+    status: 'pending',
+    runAt: now,
+    attempts: 0,
+    maxAttempts: 3,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+describe('JobQueue', () => {
+  let dir: string;
+  let file: string;
+  let limiter: RateLimiter;
+
+  const writeJobs = (...jobs: Job[]) => fs.writeFileSync(file, JSON.stringify({ jobs, lanes: {} }));
+  const createQueue = (executor: (job: Job) => Promise<ActionResult>) => new JobQueue(file, limiter, executor, CONFIG);
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'socialcrabs-jobs-'));
+    file = path.join(dir, 'jobs.json');
+    limiter = new RateLimiter({ twitter: { like: 100 } }, path.join(dir, 'rate-limits.json'));
+  });
+
+  afterEach(() => {
+    limiter.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('runs a queued job and records the result', async () => {
+    const executor = vi.fn(async () => result());
+    const queue = createQueue(executor);
+    const added = await queue.add({ platform: 'twitter', action: 'like', payload: { url: 'https://x.com/someone/status/1' } });
+
+    await queue.tick();
+    await vi.waitFor(() => expect(queue.get(added.id)?.status).toBe('completed'));
+
+    expect(executor).toHaveBeenCalledTimes(1);
+    expect(queue.get(added.id)?.attempts).toBe(1);
+    expect(queue.get(added.id)).not.toHaveProperty('owner');
+    expect(queue.get(added.id)).not.toHaveProperty('heartbeatAt');
+  });
+
+  it('stores an aliased action by its name', async () => {
+    const queue = createQueue(async () => result());
+
+    const added = await queue.add({ platform: 'twitter', action: 'tweet' as Job['action'], payload: { text: 'hello' } });
+
+    expect(added.action).toBe('post');
+    expect(queue.get(added.id)?.action).toBe('post');
+  });
+
+  it('picks up a running job whose owner stopped sending heartbeats', async () => {
+    const stale = Date.now() - 2 * MINUTE;
+    writeJobs(job({ status: 'running', owner: DEAD_OWNER, heartbeatAt: stale, updatedAt: stale, attempts: 1 }));
+    const executor = vi.fn(async () => result());
+    const queue = createQueue(executor);
+
+    await queue.tick();
+    await vi.waitFor(() => expect(queue.get('job_1')?.status).toBe('completed'));
+
+    expect(executor).toHaveBeenCalledTimes(1);
+    expect(queue.get('job_1')?.attempts).toBe(2);
+  });
+
+  it('leaves a running job with a fresh heartbeat to its owner', async () => {
+    writeJobs(job({ status: 'running', owner: DEAD_OWNER, heartbeatAt: Date.now() }));
+    const executor = vi.fn(async () => result());
+    const queue = createQueue(executor);
+
+    await queue.tick();
+
+    expect(executor).not.toHaveBeenCalled();
+    expect(queue.get('job_1')).toMatchObject({ status: 'running', owner: DEAD_OWNER });
+  });
+
+  it('runs a job only once when two processes tick at the same time', async () => {
+    writeJobs(job());
+    const executor = vi.fn(async () => result());
+    const first = createQueue(executor);
+    const second = createQueue(executor);
+
+    await Promise.all([first.tick(), second.tick()]);
+    await vi.waitFor(() => expect(first.get('job_1')?.status).toBe('completed'));
+
+    expect(executor).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a failed attempt later', async () => {
+    writeJobs(job());
+    const queue = createQueue(async () => result({ success: false, error: 'Like button not found', code: 'SELECTOR_MISSING' }));
+
+    await queue.tick();
+    await vi.waitFor(() => expect(queue.get('job_1')?.attempts).toBe(1));
+    await vi.waitFor(() => expect(queue.get('job_1')?.status).toBe('pending'));
+
+    expect(queue.get('job_1')).toMatchObject({ error: 'Like button not found' });
+    expect(queue.get('job_1')!.runAt).toBeGreaterThan(Date.now());
+  });
+
+  it('never retries an attempt with an unknown outcome', async () => {
+    writeJobs(job({ action: 'post', payload: { text: 'hello' } }));
+    const queue = createQueue(async () => result({ success: false, error: 'CreateTweet timed out', code: 'UNKNOWN_OUTCOME' }));
+
+    await queue.tick();
+    await vi.waitFor(() => expect(queue.get('job_1')?.status).toBe('failed'));
+
+    expect(queue.get('job_1')?.attempts).toBe(1);
+  });
+
+  it('defers a job the rate limiter refuses without using an attempt', async () => {
+    await limiter.record('twitter', 'like');
+    const full = new RateLimiter({ twitter: { like: 1 } }, path.join(dir, 'rate-limits.json'));
+    writeJobs(job());
+    const executor = vi.fn(async () => result());
+    const queue = new JobQueue(file, full, executor, CONFIG);
+
+    await queue.tick();
+    await vi.waitFor(() => expect(queue.get('job_1')?.runAt).toBeGreaterThan(Date.now()));
+
+    expect(executor).not.toHaveBeenCalled();
+    expect(queue.get('job_1')).toMatchObject({ status: 'pending', attempts: 0 });
+    expect(queue.get('job_1')).not.toHaveProperty('owner');
+    full.close();
+  });
+
+  it('reports an unreadable queue file instead of overwriting it', async () => {
+    fs.writeFileSync(file, '{"jobs": [');
+    const queue = createQueue(async () => result());
+
+    await expect(queue.tick()).rejects.toThrow('Failed to load job queue');
+    await expect(
+      queue.add({ platform: 'twitter', action: 'like', payload: { url: 'https://x.com/someone/status/1' } })
+    ).rejects.toThrow('Failed to load job queue');
+    expect(fs.readFileSync(file, 'utf-8')).toBe('{"jobs": [');
+  });
+
+  it('keeps running when the queue file is unreadable at start', async () => {
+    fs.writeFileSync(file, '{"jobs": [');
+    const queue = createQueue(async () => result());
+
+    try {
+      expect(() => queue.start()).not.toThrow();
+      await new Promise((resolve) => setTimeout(resolve, 3 * CONFIG.pollIntervalMs));
+      expect(queue.isRunning()).toBe(true);
+    } finally {
+      queue.stop();
+    }
+    expect(fs.readFileSync(file, 'utf-8')).toBe('{"jobs": [');
+  });
+});
@@ -0,0 +1,556 @@
+/**
+ * SocialCrabs Job Queue
+ *
+ * Durable on-disk queue for deferred actions. Jobs run serially per account
+ * (platform + account scope), with a randomized cooldown between jobs in the
+ * same lane, and are deferred instead of failed when the account is outside its
+ * active hours, the action's circuit is open or the rate limiter says no.
+ * Paused accounts' jobs are held.
+ * State lives in a single lock-protected JSON file so queued work survives
+ * restarts and several processes (server, `jobs run` from cron) can share it:
+ * a job is claimed under the lock before it runs, and its owner keeps a
+ * heartbeat so only jobs of a dead process are picked up again.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { log } from '../utils/logger.js';
+import { withFileLock } from '../utils/file-lock.js';
+import { randomDelay, exponentialBackoff } from '../utils/delays.js';
+import { accountScope, isValidAccount, resolveAccount } from '../utils/accounts.js';
+import { getSchedule } from '../utils/schedule.js';
+import { getPause } from './pause.js';
+import { getCircuitBreaker } from './circuit-breaker.js';
+import { isPlatform, findAction, parsePayload } from '../platforms/registry.js';
+import type { RateLimiter } from '../utils/rate-limiter.js';
+import type {
+  Platform,
+  Job,
+  JobAction,
+  JobEvent,
+  JobInput,
+  JobStatus,
+  JobQueueConfig,
+  ActionResult,
+} from '../types/index.js';
+
+type JobExecutor = (job: Job) => Promise<ActionResult>;
+type JobListener = (event: JobEvent, job: Job) => void;
+
+interface JobStore {
+  jobs: Job[];
+  // Earliest time the next job may start, per account scope (persisted cooldowns)
+  lanes: Record<string, number>;
+}
+
+const FINISHED: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+const HEARTBEAT_MS = 15000;
+// A running job without a heartbeat for this long belongs to a dead process
+const HEARTBEAT_STALE_MS = 60000;
+
+/**
+ * Parse a run time: epoch ms, ISO date string, or relative offset like "+30m", "+2h", "+1d".
+ * Returns undefined for "now" and throws on anything unparseable (naming `field` in the error).
+ */
+export function parseRunAt(value: unknown, field = 'runAt'): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+
+  if (typeof value === 'string') {
+    const relative = value.match(/^\+(\d+)([smhd])$/);
+    if (relative) {
+      const unit = { s: 1000, m: 60000, h: 3600000, d: 86400000 }[relative[2] as 's' | 'm' | 'h' | 'd'];
+      return Date.now() + parseInt(relative[1], 10) * unit;
+    }
+    const parsed = Date.parse(value);
+    if (!isNaN(parsed)) return parsed;
+  }
+
+  throw new Error(`Invalid ${field}: ${String(value)}`);
+}
+
+export class JobQueue {
+  private filePath: string;
+  private config: JobQueueConfig;
+  private rateLimiter: RateLimiter;
+  private executor: JobExecutor;
+  private listeners: JobListener[] = [];
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private busyLanes: Set<string> = new Set();
+
+  constructor(
+    filePath: string,
+    rateLimiter: RateLimiter,
+    executor: JobExecutor,
+    config: JobQueueConfig
+  ) {
+    this.filePath = filePath;
+    this.rateLimiter = rateLimiter;
+    this.executor = executor;
+    this.config = config;
+  }
+
+  /**
+   * Subscribe to job lifecycle events
+   */
+  onEvent(listener: JobListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Validate a job request. Returns an error message, or null if it is valid.
+   */
+  validate(input: Partial<JobInput>): string | null {
+    if (!isPlatform(input.platform)) {
+      return `Unknown platform: ${input.platform}`;
+    }
+    const action = input.action ? findAction(input.platform, input.action) : undefined;
+    if (!action?.queue) {
+      return `Action ${input.action} cannot be queued for ${input.platform}`;
+    }
+    if (input.account !== undefined && !isValidAccount(input.account)) {
+      return `Invalid account: ${input.account}`;
+    }
+
+    try {
+      parsePayload(action, input.payload);
+    } catch (error) {
+      return `Invalid payload: ${(error as Error).message}`;
+    }
+
+    if (input.maxAttempts !== undefined && (!Number.isInteger(input.maxAttempts) || input.maxAttempts < 1)) {
+      return 'maxAttempts must be a positive integer';
+    }
+
+    return null;
+  }
+
+  /**
+   * Add a job to the queue
+   */
+  async add(input: JobInput): Promise<Job> {
+    const error = this.validate(input);
+    if (error) {
+      throw new Error(error);
+    }
+
+    const now = Date.now();
+    const job: Job = {
+      id: this.generateId(),
+      platform: input.platform,
+      account: resolveAccount(input.account),
+      // Aliases (tweet, reply, upvote...) are stored by their action's name, which the
+      // rate limiter and circuit breaker key on
+      action: findAction(input.platform, input.action)!.name as JobAction,
+      payload: input.payload,
+      status: 'pending',
+      runAt: input.runAt ?? now,
+      attempts: 0,
+      maxAttempts: input.maxAttempts ?? this.config.maxAttempts,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.update((store) => {
+      store.jobs.push(job);
+    });
+
+    log.info(`Queued job ${job.id}: ${job.platform}/${job.action}`, {
+      account: job.account,
+      runAt: new Date(job.runAt).toISOString(),
+    });
+    this.emit('job:queued', job);
+    return job;
+  }
+
+  /**
+   * List jobs, oldest first
+   */
+  list(filter: { status?: JobStatus; platform?: Platform; account?: string } = {}): Job[] {
+    return this.load().jobs.filter(
+      (job) =>
+        (!filter.status || job.status === filter.status) &&
+        (!filter.platform || job.platform === filter.platform) &&
+        (!filter.account || job.account === filter.account)
+    );
+  }
+
+  /**
+   * Get a job by id
+   */
+  get(id: string): Job | null {
+    return this.load().jobs.find((job) => job.id === id) || null;
+  }
+
+  /**
+   * Cancel a pending job. Running and finished jobs are left untouched.
+   */
+  async cancel(id: string): Promise<Job | null> {
+    const job = await this.updateJob(id, (j) => {
+      if (j.status !== 'pending') {
+        throw new Error(`Job ${id} is ${j.status} and cannot be cancelled`);
+      }
+      j.status = 'cancelled';
+      j.finishedAt = Date.now();
+    });
+    if (job) this.emit('job:cancelled', job);
+    return job;
+  }
+
+  /**
+   * Re-queue a failed or cancelled job
+   */
+  async retry(id: string): Promise<Job | null> {
+    const job = await this.updateJob(id, (j) => {
+      if (j.status !== 'failed' && j.status !== 'cancelled') {
+        throw new Error(`Job ${id} is ${j.status} and cannot be retried`);
+      }
+      j.status = 'pending';
+      j.attempts = 0;
+      j.runAt = Date.now();
+      j.error = undefined;
+      j.finishedAt = undefined;
+    });
+    if (job) this.emit('job:queued', job);
+    return job;
+  }
+
+  /**
+   * Remove completed, failed and cancelled jobs. Returns the number removed.
+   */
+  async prune(): Promise<number> {
+    let removed = 0;
+    await this.update((store) => {
+      const before = store.jobs.length;
+      store.jobs = store.jobs.filter((job) => !FINISHED.includes(job.status));
+      removed = before - store.jobs.length;
+    });
+    return removed;
+  }
+
+  /**
+   * Number of jobs waiting to run
+   */
+  pendingCount(): number {
+    return this.load().jobs.filter((job) => job.status === 'pending').length;
+  }
+
+  /**
+   * Start processing jobs in the background
+   */
+  start(): void {
+    if (this.timer) return;
+
+    const tick = () => {
+      this.tick().catch((error) => log.error('Job queue tick failed', { error: String(error) }));
+    };
+    this.timer = setInterval(tick, this.config.pollIntervalMs);
+    tick();
+
+    // An unreadable queue file is reported by every tick until it is fixed
+    try {
+      log.info('Job queue started', { pending: this.pendingCount() });
+    } catch (error) {
+      log.error('Job queue started, but its file cannot be read', { error: String(error) });
+    }
+  }
+
+  /**
+   * Stop picking up new jobs (jobs already running finish on their own)
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      log.info('Job queue stopped');
+    }
+  }
+
+  /**
+   * Whether the background worker is running
+   */
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Process jobs until nothing is pending or running (for cron / CLI use).
+   * With dueOnly, jobs scheduled in the future don't keep the worker alive.
+   */
+  async drain(dueOnly: boolean = false): Promise<void> {
+    this.start();
+    const hasWork = () =>
+      this.busyLanes.size > 0 ||
+      this.list({ status: 'pending' }).some(
+        (job) => (!dueOnly || job.runAt <= Date.now()) && !getPause()?.check(job.platform, job.account)
+      );
+    while (hasWork()) {
+      await new Promise((resolve) => setTimeout(resolve, this.config.pollIntervalMs));
+    }
+    this.stop();
+  }
+
+  /**
+   * Start every due job whose lane is free, out of cooldown and not paused
+   */
+  async tick(): Promise<void> {
+    await this.recover();
+
+    const store = this.load();
+    const now = Date.now();
+
+    const due = store.jobs
+      .filter((job) => job.status === 'pending' && job.runAt <= now)
+      .sort((a, b) => a.runAt - b.runAt || a.createdAt - b.createdAt);
+
+    for (const job of due) {
+      const lane = accountScope(job.platform, job.account);
+      if (this.busyLanes.has(lane) || (store.lanes[lane] || 0) > now) {
+        continue;
+      }
+      // Held in place (not deferred) so the job runs as soon as the pause is lifted
+      if (getPause()?.check(job.platform, job.account, now)) {
+        continue;
+      }
+      this.busyLanes.add(lane);
+      void this.process(job, lane)
+        .catch((error) => log.error(`Job ${job.id} crashed`, { error: String(error) }))
+        .finally(() => this.busyLanes.delete(lane));
+    }
+  }
+
+  /**
+   * Run a single job
+   */
+  private async process(job: Job, lane: string): Promise<void> {
+    // Another process may have picked the same job: only one claim wins
+    if (!(await this.claim(job.id))) return;
+
+    const schedule = getSchedule().check(job.platform, job.account);
+    if (!schedule.allowed) {
+      const nextAllowedAt = schedule.nextAllowedAt;
+      const deferred = await this.updateJob(job.id, (j) => {
+        this.release(j);
+        if (nextAllowedAt) {
+          j.runAt = nextAllowedAt;
+        } else {
+          j.status = 'failed';
+          j.error = 'No active window in the account schedule';
+          j.finishedAt = Date.now();
+        }
+      });
+      if (!deferred) return;
+      if (nextAllowedAt) {
+        log.info(`Job ${job.id} deferred by schedule until ${new Date(nextAllowedAt).toISOString()}`);
+        this.emit('job:deferred', deferred);
+      } else {
+        log.error(`Job ${job.id} failed: ${deferred.error}`);
+        this.emit('job:failed', deferred);
+      }
+      return;
+    }
+
+    const circuit = getCircuitBreaker()?.check(job.platform, job.action);
+    if (circuit?.probeAt) {
+      const probeAt = circuit.probeAt;
+      const deferred = await this.updateJob(job.id, (j) => {
+        this.release(j);
+        j.runAt = probeAt;
+      });
+      log.info(`Job ${job.id} deferred by open circuit until ${new Date(probeAt).toISOString()}`);
+      if (deferred) this.emit('job:deferred', deferred);
+      return;
+    }
+
+    const status = await this.rateLimiter.check(job.platform, job.action, job.account);
+    if (!status.allowed) {
+      const deferred = await this.updateJob(job.id, (j) => {
+        this.release(j);
+        j.runAt = status.resetAt;
+      });
+      log.info(`Job ${job.id} deferred by rate limit until ${new Date(status.resetAt).toISOString()}`);
+      if (deferred) this.emit('job:deferred', deferred);
+      return;
+    }
+
+    const started = await this.updateJob(job.id, (j) => {
+      j.attempts += 1;
+      j.startedAt = Date.now();
+    });
+    if (!started) return;
+
+    log.info(`Running job ${started.id}: ${started.platform}/${started.action}`, {
+      account: started.account,
+      attempt: started.attempts,
+    });
+    this.emit('job:started', started);
+
+    const heartbeat = setInterval(() => {
+      this.updateJob(started.id, (j) => {
+        if (j.owner === process.pid) j.heartbeatAt = Date.now();
+      }).catch((err) => log.warn(`Job ${started.id} heartbeat failed`, { error: String(err) }));
+    }, HEARTBEAT_MS);
+
+    let result: ActionResult | undefined;
+    let error: string | undefined;
+    try {
+      result = await this.executor(started);
+      if (!result.success) {
+        error = result.error || 'Action failed';
+      }
+    } catch (err) {
+      error = String(err);
+    } finally {
+      clearInterval(heartbeat);
+    }
+
+    // Same spacing as BasePlatformHandler.actionCooldown, without blocking other lanes
+    const cooldown = randomDelay(this.config.cooldownMinMs, this.config.cooldownMaxMs);
+    const finished = await this.updateJob(started.id, (j, store) => {
+      store.lanes[lane] = Date.now() + cooldown;
+      this.release(j);
+      j.result = result;
+      if (!error) {
+        j.status = 'completed';
+        j.error = undefined;
+        j.finishedAt = Date.now();
+      } else if (j.attempts < j.maxAttempts && result?.code !== 'UNKNOWN_OUTCOME') {
+        j.status = 'pending';
+        j.error = error;
+        j.runAt = Date.now() + exponentialBackoff(j.attempts, 5000);
+      } else {
+        // Out of attempts, or the attempt may have gone through and must not be repeated
+        j.status = 'failed';
+        j.error = error;
+        j.finishedAt = Date.now();
+      }
+    });
+    if (!finished) return;
+
+    if (finished.status === 'completed') {
+      log.info(`Job ${finished.id} completed`);
+      this.emit('job:completed', finished);
+    } else if (finished.status === 'failed') {
+      log.error(`Job ${finished.id} failed after ${finished.attempts} attempt(s)`, { error });
+      this.emit('job:failed', finished);
+    } else {
+      log.warn(`Job ${finished.id} attempt ${finished.attempts} failed, will retry`, { error });
+      this.emit('job:deferred', finished);
+    }
+  }
+
+  /**
+   * Mark a pending job as running and owned by this process. Returns false if
+   * it was cancelled or claimed by another process in the meantime.
+   */
+  private async claim(id: string): Promise<boolean> {
+    return this.update((store) => {
+      const job = store.jobs.find((j) => j.id === id);
+      if (!job || job.status !== 'pending') return false;
+      job.status = 'running';
+      job.owner = process.pid;
+      job.heartbeatAt = Date.now();
+      job.updatedAt = job.heartbeatAt;
+      return true;
+    });
+  }
+
+  /**
+   * Hand a claimed job back: the caller sets its next status
+   */
+  private release(job: Job): void {
+    job.status = 'pending';
+    job.owner = undefined;
+    job.heartbeatAt = undefined;
+  }
+
+  /**
+   * Put running jobs whose owner stopped sending heartbeats back in the queue
+   */
+  private async recover(): Promise<void> {
+    const isStale = (job: Job, now: number) =>
+      job.status === 'running' && now - (job.heartbeatAt ?? job.updatedAt) > HEARTBEAT_STALE_MS;
+
+    if (!this.load().jobs.some((job) => isStale(job, Date.now()))) return;
+
+    await this.update((store) => {
+      const now = Date.now();
+      for (const job of store.jobs) {
+        if (isStale(job, now)) {
+          log.warn(`Recovered interrupted job ${job.id}`, { owner: job.owner });
+          this.release(job);
+          job.updatedAt = now;
+        }
+      }
+    });
+  }
+
+  /**
+   * Apply a change to one job and persist it. Returns the updated job, or null if it no longer exists.
+   */
+  private async updateJob(id: string, change: (job: Job, store: JobStore) => void): Promise<Job | null> {
+    return this.update((store) => {
+      const job = store.jobs.find((j) => j.id === id);
+      if (!job) return null;
+      change(job, store);
+      job.updatedAt = Date.now();
+      return { ...job };
+    });
+  }
+
+  /**
+   * Read-modify-write the queue file under the lock. The file is re-read every
+   * time so jobs added by other processes (e.g. `socialcrabs jobs add` from cron)
+   * are never lost.
+   */
+  private async update<T>(change: (store: JobStore) => T): Promise<T> {
+    return withFileLock(this.filePath, () => {
+      const store = this.load();
+      const result = change(store);
+      this.persist(store);
+      return result;
+    });
+  }
+
+  private emit(event: JobEvent, job: Job): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event, job);
+      } catch (error) {
+        log.debug('Job listener failed', { event, error: String(error) });
+      }
+    }
+  }
+
+  /**
+   * Read the queue file. Throws when it cannot be parsed, so a damaged queue is
+   * reported instead of being overwritten with an empty one.
+   */
+  private load(): JobStore {
+    if (!fs.existsSync(this.filePath)) {
+      return { jobs: [], lanes: {} };
+    }
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      return { jobs: data.jobs || [], lanes: data.lanes || {} };
+    } catch (error) {
+      throw new Error(`Failed to load job queue ${this.filePath}: ${String(error)}`);
+    }
+  }
+
+  private persist(store: JobStore): void {
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    // Temp file + rename so a crash never leaves a half-written queue
+    const tmp = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(store, null, 2));
+    fs.renameSync(tmp, this.filePath);
+  }
+
+  private generateId(): string {
+    return `job_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  }
+}
@@ -0,0 +1,116 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { InteractionLedger, normalizeTarget } from './ledger.js';
+import type { LedgerConfig } from '../types/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CONFIG: LedgerConfig = {
+  enabled: true,
+  rules: [
+    { action: 'follow', after: ['follow', 'unfollow'], withinDays: 30 },
+    { action: 'comment', after: ['comment'] },
+  ],
+};
+
+describe('normalizeTarget', () => {
+  it('matches a handle, @handle and profile URL', () => {
+    expect(normalizeTarget('@Sarah')).toBe('sarah');
+    expect(normalizeTarget('https://x.com/Sarah/')).toBe('sarah');
+    expect(normalizeTarget('https://www.reddit.com/user/Sarah')).toBe('sarah');
+    expect(normalizeTarget('https://bsky.app/profile/sarah.bsky.social')).toBe('sarah.bsky.social');
+  });
+
+  it('keeps the case of post paths except on X', () => {
+    expect(normalizeTarget('https://www.instagram.com/p/AbC123/?igsh=x')).toBe('instagram.com/p/AbC123');
+    expect(normalizeTarget('https://twitter.com/Sarah/status/1')).toBe('x.com/sarah/status/1');
+    expect(normalizeTarget('https://old.reddit.com/r/Test/comments/Ab1/')).toBe('reddit.com/r/Test/comments/Ab1');
+  });
+});
+
+describe('InteractionLedger', () => {
+  let dir: string;
+  let file: string;
+  let ledger: InteractionLedger;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'socialcrabs-ledger-'));
+    file = path.join(dir, 'ledger.json');
+    ledger = new InteractionLedger(file, CONFIG);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('refuses a re-follow within the window and allows it after', async () => {
+    vi.useFakeTimers({ now: 0, toFake: ['Date'] });
+    await ledger.record('twitter', 'default', 'follow', '@sarah');
+
+    const violation = ledger.check('twitter', 'default', 'follow', 'https://x.com/sarah', 10 * DAY_MS);
+
+    expect(violation).toMatchObject({ previous: { action: 'follow' }, nextAllowedAt: 30 * DAY_MS });
+    expect(ledger.check('twitter', 'default', 'follow', 'sarah', 31 * DAY_MS)).toBeNull();
+    expect(ledger.check('twitter', 'brand2', 'follow', 'sarah', 10 * DAY_MS)).toBeNull();
+  });
+
+  it('refuses a second comment for good', async () => {
+    await ledger.record('twitter', 'default', 'comment', 'https://x.com/a/status/1');
+
+    const violation = ledger.check('twitter', 'default', 'comment', 'https://x.com/a/status/1', Date.now() + 365 * DAY_MS);
+
+    expect(violation).toMatchObject({ rule: { action: 'comment' } });
+    expect(violation?.nextAllowedAt).toBeUndefined();
+  });
+
+  it('keeps no record of posts or while disabled', async () => {
+    await ledger.record('twitter', 'default', 'post', 'hello');
+    await new InteractionLedger(file, { ...CONFIG, enabled: false }).record('twitter', 'default', 'like', '@sarah');
+
+    expect(ledger.list('twitter', 'default')).toEqual([]);
+  });
+
+  it('records concurrent interactions without losing any', async () => {
+    const other = new InteractionLedger(file, CONFIG);
+
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) => (i % 2 ? ledger : other).record('twitter', 'default', 'like', `@user${i}`))
+    );
+
+    expect(ledger.list('twitter', 'default')).toHaveLength(10);
+  });
+
+  it('prunes interactions no rule can see any more', async () => {
+    const old = Date.now() - 60 * DAY_MS;
+    fs.writeFileSync(
+      file,
+      JSON.stringify({
+        twitter: {
+          sarah: [{ action: 'follow', timestamp: old }],
+          'x.com/a/status/1': [{ action: 'comment', timestamp: old }],
+          bob: [
+            { action: 'like', timestamp: old },
+            { action: 'like', timestamp: Date.now() - DAY_MS },
+          ],
+        },
+      })
+    );
+
+    await ledger.record('twitter', 'default', 'like', '@carol');
+
+    expect(ledger.get('twitter', 'default', 'sarah')).toEqual([]);
+    expect(ledger.get('twitter', 'default', 'https://x.com/a/status/1')).toHaveLength(1);
+    expect(ledger.get('twitter', 'default', 'bob')).toHaveLength(1);
+    expect(Object.keys(JSON.parse(fs.readFileSync(file, 'utf-8')).twitter)).not.toContain('sarah');
+  });
+
+  it('logs a failed write instead of failing the action', async () => {
+    fs.writeFileSync(file, '{"twitter": ');
+
+    await expect(ledger.record('twitter', 'default', 'like', '@sarah')).resolves.toBeUndefined();
+    expect(fs.existsSync(`${file}.lock`)).toBe(false);
+  });
+});
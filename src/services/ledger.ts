@@ -0,0 +1,196 @@
+/**
+ * SocialCrabs Interaction Ledger
+ *
+ * Persistent per-account record of every target we have liked, commented on,
+ * followed, unfollowed, messaged or connected with. Handlers consult the
+ * configured rules against it before acting ("no re-follow within 30 days",
+ * "one comment per post"), so the same people aren't engaged over and over
+ * across runs, processes and restarts. Kept in ledger.json next to the sessions.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { accountScope } from '../utils/accounts.js';
+import { withFileLock } from '../utils/file-lock.js';
+import { log } from '../utils/logger.js';
+import type { Platform, ActionType, Interaction, LedgerConfig, LedgerRule } from '../types/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Actions whose target is text rather than a post or person
+const UNTARGETED_ACTIONS: ActionType[] = ['post', 'thread'];
+
+// Keyed by account scope, then normalized target
+interface LedgerData {
+  [scope: string]: Record<string, Interaction[]>;
+}
+
+export interface LedgerEntry extends Interaction {
+  target: string;
+}
+
+export interface LedgerViolation {
+  rule: LedgerRule;
+  // The earlier interaction that blocks the action
+  previous: Interaction;
+  // When the rule stops applying (unset if it never does)
+  nextAllowedAt?: number;
+}
+
+/**
+ * Canonical form of a target, so a username, @username and profile URL match:
+ * profile URLs become the (case-insensitive) handle, other URLs lose their scheme,
+ * query and trailing slash but keep the case of their path (post IDs are case-sensitive).
+ */
+export function normalizeTarget(target: string): string {
+  const value = target.trim();
+  const profile = /^(?:https?:\/\/)?(?:www\.|old\.)?(?:x\.com|twitter\.com|instagram\.com|linkedin\.com\/in|reddit\.com\/(?:user|u)|bsky\.app\/profile)\/([^/?#]+)\/?(?:[?#].*)?$/i.exec(value);
+  if (profile) return profile[1].replace(/^@/, '').toLowerCase();
+
+  const url = /^https?:\/\/(?:www\.)?([^/?#]+)([^?#]*)/i.exec(value);
+  if (url) {
+    const host = url[1].toLowerCase().replace(/^twitter\.com$/, 'x.com').replace(/^(?:old|new)\.reddit\.com$/, 'reddit.com');
+    const urlPath = url[2].replace(/\/+$/, '');
+    // X paths are a handle and a numeric ID
+    return `${host}${host === 'x.com' ? urlPath.toLowerCase() : urlPath}`;
+  }
+  return value.replace(/^@/, '').toLowerCase();
+}
+
+export class InteractionLedger {
+  private filePath: string;
+  private config: LedgerConfig;
+
+  constructor(filePath: string, config: LedgerConfig) {
+    this.filePath = filePath;
+    this.config = config;
+  }
+
+  /**
+   * Every recorded interaction of an account with a target, oldest first
+   */
+  get(platform: Platform, account: string | undefined, target: string): Interaction[] {
+    return this.load()[accountScope(platform, account)]?.[normalizeTarget(target)] || [];
+  }
+
+  /**
+   * Most recent interactions of an account across all targets
+   */
+  list(platform: Platform, account?: string, limit = 20): LedgerEntry[] {
+    const targets = this.load()[accountScope(platform, account)] || {};
+    return Object.entries(targets)
+      .flatMap(([target, interactions]) => interactions.map((interaction) => ({ target, ...interaction })))
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, limit);
+  }
+
+  /**
+   * Remember a completed action on a target, and drop interactions no rule looks
+   * back far enough to see. Logs its own errors.
+   */
+  async record(platform: Platform, account: string | undefined, action: ActionType, target: string): Promise<void> {
+    if (!this.config.enabled || !target || UNTARGETED_ACTIONS.includes(action)) return;
+
+    const scope = accountScope(platform, account);
+    const key = normalizeTarget(target);
+    try {
+      await withFileLock(this.filePath, () => {
+        const data = this.load();
+        data[scope] = data[scope] || {};
+        data[scope][key] = [...(data[scope][key] || []), { action, timestamp: Date.now() }];
+        this.persist(this.prune(data));
+      });
+    } catch (error) {
+      log.error('Failed to record interaction', { platform, account, action, target, error: String(error) });
+    }
+  }
+
+  /**
+   * The first rule that forbids this action on the target, or null if it may go ahead
+   */
+  check(
+    platform: Platform,
+    account: string | undefined,
+    action: ActionType,
+    target: string,
+    now = Date.now()
+  ): LedgerViolation | null {
+    if (!this.config.enabled || !target) return null;
+
+    const rules = this.config.rules.filter(
+      (rule) => rule.action === action && (!rule.platform || rule.platform === platform)
+    );
+    if (rules.length === 0) return null;
+
+    const history = this.get(platform, account, target);
+    for (const rule of rules) {
+      const since = rule.withinDays !== undefined ? now - rule.withinDays * DAY_MS : 0;
+      const previous = history
+        .filter((interaction) => rule.after.includes(interaction.action) && interaction.timestamp > since)
+        .pop();
+      if (previous) {
+        return {
+          rule,
+          previous,
+          nextAllowedAt: rule.withinDays !== undefined ? previous.timestamp + rule.withinDays * DAY_MS : undefined,
+        };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * How long interactions of an action are kept: forever when a rule without
+   * `withinDays` looks at it, else the longest window of the rules that do.
+   * Actions no rule looks at are kept as long as the longest window of any rule.
+   */
+  private retentionMs(action: ActionType): number {
+    const windows = (rules: LedgerRule[]) =>
+      rules.map((rule) => (rule.withinDays !== undefined ? rule.withinDays * DAY_MS : Infinity));
+
+    const watching = this.config.rules.filter((rule) => rule.after.includes(action));
+    if (watching.length > 0) return Math.max(...windows(watching));
+    return Math.max(0, ...windows(this.config.rules).filter(Number.isFinite));
+  }
+
+  private prune(data: LedgerData, now = Date.now()): LedgerData {
+    const retention = new Map<ActionType, number>();
+    const keep = (interaction: Interaction) => {
+      if (!retention.has(interaction.action)) retention.set(interaction.action, this.retentionMs(interaction.action));
+      return now - interaction.timestamp <= retention.get(interaction.action)!;
+    };
+
+    const pruned: LedgerData = {};
+    for (const [scope, targets] of Object.entries(data)) {
+      for (const [target, interactions] of Object.entries(targets)) {
+        const kept = interactions.filter(keep);
+        if (kept.length > 0) pruned[scope] = { ...pruned[scope], [target]: kept };
+      }
+    }
+    return pruned;
+  }
+
+  private load(): LedgerData {
+    if (!fs.existsSync(this.filePath)) return {};
+    return JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as LedgerData;
+  }
+
+  private persist(data: LedgerData): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(data, null, 2));
+    fs.renameSync(tmp, this.filePath);
+  }
+}
+
+// Singleton instance
+let ledgerInstance: InteractionLedger | null = null;
+
+export function initLedger(filePath: string, config: LedgerConfig): InteractionLedger {
+  ledgerInstance = new InteractionLedger(filePath, config);
+  return ledgerInstance;
+}
+
+export function getLedger(): InteractionLedger | null {
+  return ledgerInstance;
+}
@@ -6,6 +6,7 @@
  */
 
 import { log } from '../utils/logger.js';
+import { DEFAULT_ACCOUNT } from '../utils/accounts.js';
 import type {
   NotificationConfig,
   NotificationPayload,
@@ -13,6 +14,7 @@ import type {
   NotificationEvent,
   Platform,
   ActionType,
+  ActionErrorCode,
 } from '../types/index.js';
 
 // ============================================================================
@@ -54,6 +56,11 @@ interface NotificationDetails {
   action?: string;
   actions?: string[];
   
+  // Reddit
+  subreddit?: string;
+  subredditUrl?: string;
+  title?: string;
+  
   // Error
   error?: string;
   attempted?: string;
@@ -261,6 +268,123 @@ function formatInstagramFollow(success: boolean, target: string, d: Notification
   return lines.join('\n');
 }
 
+/**
+ * Format Reddit Engagement notification (upvote, comment, reply)
+ */
+function formatRedditEngagement(action: ActionType, success: boolean, target: string, d: NotificationDetails): string {
+  const status = success ? '✅' : '❌';
+  const lines: string[] = [];
+  
+  lines.push(`👽 **REDDIT ENGAGEMENT** ${status}`);
+  lines.push('');
+  lines.push(`**Post:** ${d.postUrl || d.url || target}`);
+  if (d.subreddit) lines.push(`**Subreddit:** r/${d.subreddit}`);
+  lines.push('');
+  lines.push('**Actions:**');
+  const actions = d.actions || [action === 'like' ? '⬆️ Upvoted' : action === 'reply' ? '💬 Replied' : '💬 Commented'];
+  for (const done of actions) lines.push(`• ${done}: ✅`);
+  if (d.comment || d.commentText) {
+    lines.push(`**Comment:** "${d.comment || d.commentText}"`);
+  }
+  lines.push('');
+  addFooterFields(lines, d);
+  lines.push('');
+  lines.push('_SocialCrabs Reddit Automation_');
+  
+  return lines.join('\n');
+}
+
+/**
+ * Format Reddit Post notification
+ */
+function formatRedditPost(success: boolean, target: string, d: NotificationDetails): string {
+  const status = success ? '✅' : '❌';
+  const lines: string[] = [];
+  
+  lines.push(`👽 **REDDIT POST** ${status}`);
+  lines.push('');
+  lines.push(`**Subreddit:** ${d.subreddit ? `r/${d.subreddit}` : target}`);
+  if (d.title) lines.push(`**Title:** "${d.title}"`);
+  if (d.postUrl) lines.push(`**URL:** ${d.postUrl}`);
+  lines.push('');
+  addFooterFields(lines, d);
+  lines.push('');
+  lines.push('_SocialCrabs Reddit Automation_');
+  
+  return lines.join('\n');
+}
+
+/**
+ * Format Reddit Follow notification (users and subreddits, and messages to users)
+ */
+function formatRedditFollow(action: ActionType, success: boolean, target: string, d: NotificationDetails): string {
+  const status = success ? '✅' : '❌';
+  const subreddit = action === 'subscribe' || action === 'unsubscribe';
+  const lines: string[] = [];
+  
+  lines.push(`👽 **REDDIT ${subreddit ? 'SUBSCRIBE' : action === 'dm' ? 'MESSAGE' : 'FOLLOW'}** ${status}`);
+  lines.push('');
+  if (subreddit) {
+    lines.push(`**Subreddit:** ${d.subreddit ? `r/${d.subreddit}` : target}`);
+    if (d.subredditUrl) lines.push(`**URL:** ${d.subredditUrl}`);
+  } else {
+    lines.push(`**Target:** u/${d.username || extractUsername(target, 'reddit')}`);
+    if (d.profileUrl) lines.push(`**Profile:** ${d.profileUrl}`);
+  }
+  if (d.actions) lines.push(`**Action:** ${d.actions.join(' + ')}`);
+  lines.push('');
+  addFooterFields(lines, d);
+  lines.push('');
+  lines.push('_SocialCrabs Reddit Automation_');
+  
+  return lines.join('\n');
+}
+
+/**
+ * Format Bluesky Engagement notification (like, reply, post)
+ */
+function formatBlueskyEngagement(action: ActionType, success: boolean, target: string, d: NotificationDetails): string {
+  const status = success ? '✅' : '❌';
+  const lines: string[] = [];
+  
+  lines.push(`🦋 **BLUESKY ${action === 'post' ? 'POST' : 'ENGAGEMENT'}** ${status}`);
+  lines.push('');
+  lines.push(`**Post:** ${d.postUrl || d.url || target}`);
+  lines.push('');
+  lines.push('**Actions:**');
+  const actions = d.actions || [action === 'like' ? '❤️ Liked' : action === 'post' ? '📝 Posted' : '💬 Replied'];
+  for (const done of actions) lines.push(`• ${done}: ✅`);
+  if (d.comment || d.commentText) {
+    lines.push(`**${action === 'post' ? 'Text' : 'Reply'}:** "${d.comment || d.commentText}"`);
+  }
+  lines.push('');
+  addFooterFields(lines, d);
+  lines.push('');
+  lines.push('_SocialCrabs Bluesky Automation_');
+  
+  return lines.join('\n');
+}
+
+/**
+ * Format Bluesky Follow notification (follows, and messages to users)
+ */
+function formatBlueskyFollow(action: ActionType, success: boolean, target: string, d: NotificationDetails): string {
+  const status = success ? '✅' : '❌';
+  const lines: string[] = [];
+  
+  lines.push(`🦋 **BLUESKY ${action === 'dm' ? 'MESSAGE' : 'FOLLOW'}** ${status}`);
+  lines.push('');
+  lines.push(`**Target:** @${d.username || extractUsername(target, 'bluesky')}`);
+  if (d.profileUrl) lines.push(`**Profile:** ${d.profileUrl}`);
+  if (d.actions) lines.push(`**Action:** ${d.actions.join(' + ')}`);
+  lines.push('');
+  addFooterFields(lines, d);
+  lines.push('');
+  lines.push('_SocialCrabs Bluesky Automation_');
+  
+  return lines.join('\n');
+}
+
 /**
  * Escape markdown special characters for Telegram
  */
@@ -272,8 +396,15 @@ function escapeMarkdown(text: string): string {
 /**
  * Format error notification
  */
-function formatError(platform: Platform, action: ActionType, target: string, error: string, d: NotificationDetails): string {
-  const emoji = platform === 'twitter' ? '🐦' : platform === 'linkedin' ? '🔗' : '📸';
+function formatError(
+  platform: Platform,
+  action: ActionType,
+  target: string,
+  error: string,
+  d: NotificationDetails,
+  code?: ActionErrorCode
+): string {
+  const emoji = platform === 'twitter' ? '🐦' : platform === 'linkedin' ? '🔗' : platform === 'reddit' ? '👽' : platform === 'bluesky' ? '🦋' : '📸';
   const platformName = platform === 'twitter' ? 'X' : platform.toUpperCase();
   const actionName = action.toUpperCase();
   
@@ -286,6 +417,7 @@ function formatError(platform: Platform, action: ActionType, target: string, err
   lines.push('');
   lines.push(`**Target:** ${safeTarget}`);
   lines.push(`**Error:** ${safeError}`);
+  if (code) lines.push(`**Code:** \`${code}\``);
   if (d.attempted) lines.push(`**Attempted:** ${escapeMarkdown(d.attempted)}`);
   lines.push('');
   lines.push(`**Time:** ${getTimestamp()}`);
@@ -311,6 +443,14 @@ function extractUsername(url: string, platform: Platform): string {
     const match = url.match(/(?:x|twitter)\.com\/([^\/\?]+)/);
     return match ? match[1] : url;
   }
+  if (platform === 'reddit') {
+    const match = url.match(/reddit\.com\/(?:user|u)\/([^/?]+)/);
+    return match ? match[1] : url;
+  }
+  if (platform === 'bluesky') {
+    const match = url.match(/bsky\.app\/profile\/([^/?]+)/);
+    return match ? match[1] : url;
+  }
   return url;
 }
 
@@ -323,13 +463,14 @@ function formatNotification(
   success: boolean,
   target: string,
   error?: string,
-  details?: Record<string, unknown>
+  details?: Record<string, unknown>,
+  code?: ActionErrorCode
 ): string {
   const d = (details || {}) as NotificationDetails;
   
   // Error case
   if (!success && error) {
-    return formatError(platform, action, target, error, d);
+    return formatError(platform, action, target, error, d, code);
   }
   
   // Route to specific formatter
@@ -350,10 +491,32 @@ function formatNotification(
     return formatInstagramEngagement(success, target, d); // like, comment
   }
   
+  if (platform === 'reddit') {
+    if (action === 'post') return formatRedditPost(success, target, d);
+    if (['follow', 'unfollow', 'subscribe', 'unsubscribe', 'dm'].includes(action)) return formatRedditFollow(action, success, target, d);
+    return formatRedditEngagement(action, success, target, d); // like, comment, reply
+  }
+  
+  if (platform === 'bluesky') {
+    if (['follow', 'unfollow', 'dm'].includes(action)) return formatBlueskyFollow(action, success, target, d);
+    return formatBlueskyEngagement(action, success, target, d); // like, comment, post
+  }
+  
   // Fallback (should never reach here but TypeScript wants it)
   return `${String(platform).toUpperCase()} ${String(action).toUpperCase()} ${success ? '✅' : '❌'}\nTarget: ${target}`;
 }
 
+/**
+ * Tag a formatted message with the acting account (only when it isn't the default one)
+ */
+function withAccount(message: string, account?: string): string {
+  if (!account || account === DEFAULT_ACCOUNT) return message;
+  const lines = message.split('\n');
+  // Header, blank line, then the account before the template fields
+  lines.splice(2, 0, `**Account:** ${account}`);
+  return lines.join('\n');
+}
+
 // ============================================================================
 // Notification Sender
 // ============================================================================
@@ -395,13 +558,17 @@ export class Notifier {
       return false;
     }
     
-    const message = formatNotification(
-      payload.platform,
-      payload.action,
-      payload.success,
-      payload.target || '',
-      payload.error,
-      payload.details
+    const message = withAccount(
+      formatNotification(
+        payload.platform,
+        payload.action,
+        payload.success,
+        payload.target || '',
+        payload.error,
+        payload.details,
+        payload.code
+      ),
+      payload.account
     );
     
     return this.broadcast(message);
@@ -0,0 +1,92 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { PauseControl, describePauseScope } from './pause.js';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('PauseControl', () => {
+  let dir: string;
+  let file: string;
+  let pauses: PauseControl;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'socialcrabs-pause-'));
+    file = path.join(dir, 'pause.json');
+    pauses = new PauseControl(file);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('holds only the paused scope', async () => {
+    await pauses.pause({ platform: 'twitter', account: 'brand2' }, { reason: 'review' });
+
+    expect(pauses.check('twitter', 'brand2')).toMatchObject({ platform: 'twitter', account: 'brand2', reason: 'review' });
+    expect(pauses.check('twitter')).toBeNull();
+    expect(pauses.check('instagram', 'brand2')).toBeNull();
+  });
+
+  it('holds every platform of a paused account, and everything with an empty scope', async () => {
+    await pauses.pause({ account: 'brand2' });
+    expect(pauses.check('instagram', 'brand2')).not.toBeNull();
+    expect(pauses.check('instagram')).toBeNull();
+
+    await pauses.pause({});
+    expect(pauses.check('instagram')).not.toBeNull();
+  });
+
+  it('reports the longest of several matching pauses', async () => {
+    const now = Date.now();
+    await pauses.pause({ platform: 'twitter' }, { until: now + HOUR });
+    await pauses.pause({}, { until: now + 2 * HOUR });
+
+    expect(pauses.check('twitter', undefined, now)).toMatchObject({ until: now + 2 * HOUR });
+
+    await pauses.pause({ account: 'default' });
+    expect(pauses.check('twitter', undefined, now)?.until).toBeUndefined();
+  });
+
+  it('resumes on its own at the end time', async () => {
+    const now = Date.now();
+    await pauses.pause({ platform: 'twitter' }, { until: now + HOUR });
+
+    expect(pauses.check('twitter', undefined, now + HOUR)).toBeNull();
+    expect(pauses.list(now + HOUR)).toEqual([]);
+  });
+
+  it('refuses an end time in the past', async () => {
+    await expect(pauses.pause({}, { until: Date.now() - 1 })).rejects.toThrow('Pause end must be in the future');
+  });
+
+  it('resumes exactly the given scope, or everything', async () => {
+    await pauses.pause({ platform: 'twitter' });
+    await pauses.pause({ platform: 'instagram' });
+
+    expect(await pauses.resume({ platform: 'linkedin' })).toBe(false);
+    expect(await pauses.resume({ platform: 'twitter' })).toBe(true);
+    expect(pauses.list().map((state) => state.platform)).toEqual(['instagram']);
+
+    expect(await pauses.resumeAll()).toBe(1);
+    expect(pauses.list()).toEqual([]);
+  });
+
+  it('keeps pauses made by two processes at the same time', async () => {
+    const other = new PauseControl(file);
+
+    await Promise.all([pauses.pause({ platform: 'twitter' }), other.pause({ platform: 'instagram' })]);
+
+    expect(pauses.list()).toHaveLength(2);
+  });
+});
+
+describe('describePauseScope', () => {
+  it('names the scope', () => {
+    expect(describePauseScope({})).toBe('everything');
+    expect(describePauseScope({ platform: 'twitter' })).toBe('twitter');
+    expect(describePauseScope({ account: 'brand2' })).toBe('account brand2');
+    expect(describePauseScope({ platform: 'twitter', account: 'brand2' })).toBe('twitter@brand2');
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * SocialCrabs Pause Control
+ *
+ * Persisted kill switch: automation can be paused globally, per platform, per
+ * account (on every platform) or per platform account, optionally until a set
+ * time. Handlers refuse actions and the job queue holds jobs while a matching
+ * pause is active. Kept in pause.json next to the sessions (changed under a file
+ * lock), so a pause from the CLI stops a running server and its cron jobs too.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { log } from '../utils/logger.js';
+import { resolveAccount } from '../utils/accounts.js';
+import { withFileLock } from '../utils/file-lock.js';
+import type { Platform, PauseScope, PauseState } from '../types/index.js';
+
+// Keyed by '<platform or *>/<account or *>'
+interface PauseData {
+  [key: string]: PauseState;
+}
+
+function pauseKey(scope: PauseScope): string {
+  return `${scope.platform ?? '*'}/${scope.account ? resolveAccount(scope.account) : '*'}`;
+}
+
+/**
+ * Human-readable scope: "everything", "twitter", "account brand", "twitter@brand"
+ */
+export function describePauseScope(scope: PauseScope): string {
+  if (scope.platform && scope.account) return `${scope.platform}@${scope.account}`;
+  if (scope.platform) return scope.platform;
+  if (scope.account) return `account ${scope.account}`;
+  return 'everything';
+}
+
+export class PauseControl {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Pause a scope (no platform and no account pauses everything)
+   */
+  async pause(scope: PauseScope, options: { reason?: string; until?: number } = {}): Promise<PauseState> {
+    if (options.until !== undefined && options.until <= Date.now()) {
+      throw new Error('Pause end must be in the future');
+    }
+
+    const state: PauseState = {
+      ...(scope.platform && { platform: scope.platform }),
+      ...(scope.account && { account: resolveAccount(scope.account) }),
+      ...(options.reason && { reason: options.reason }),
+      pausedAt: Date.now(),
+      ...(options.until && { until: options.until }),
+    };
+    await withFileLock(this.filePath, () => {
+      const data = this.load();
+      data[pauseKey(scope)] = state;
+      this.persist(data);
+    });
+
+    log.warn(`Automation paused: ${describePauseScope(state)}`, {
+      reason: options.reason,
+      until: options.until ? new Date(options.until).toISOString() : undefined,
+    });
+    return state;
+  }
+
+  /**
+   * Lift the pause of exactly this scope. Returns false if it wasn't paused.
+   */
+  async resume(scope: PauseScope): Promise<boolean> {
+    const key = pauseKey(scope);
+    const resumed = await withFileLock(this.filePath, () => {
+      const data = this.load();
+      if (!data[key]) return false;
+      delete data[key];
+      this.persist(data);
+      return true;
+    });
+    if (!resumed) return false;
+    log.info(`Automation resumed: ${describePauseScope(scope)}`);
+    return true;
+  }
+
+  /**
+   * Lift every pause. Returns how many were active.
+   */
+  async resumeAll(): Promise<number> {
+    const count = await withFileLock(this.filePath, () => {
+      const count = this.list().length;
+      this.persist({});
+      return count;
+    });
+    if (count > 0) log.info('Automation resumed: all pauses lifted');
+    return count;
+  }
+
+  /**
+   * Active pauses (auto-resumed ones are left out)
+   */
+  list(now = Date.now()): PauseState[] {
+    return Object.values(this.load()).filter((state) => !state.until || state.until > now);
+  }
+
+  /**
+   * The pause that holds a platform account, or null. With several matching
+   * pauses, the one lasting longest (open-ended first).
+   */
+  check(platform: Platform, account?: string, now = Date.now()): PauseState | null {
+    const id = resolveAccount(account);
+    const matching = this.list(now).filter(
+      (state) => (!state.platform || state.platform === platform) && (!state.account || state.account === id)
+    );
+    if (matching.length === 0) return null;
+    return matching.reduce((a, b) => ((a.until ?? Infinity) >= (b.until ?? Infinity) ? a : b));
+  }
+
+  private load(): PauseData {
+    if (!fs.existsSync(this.filePath)) return {};
+    return JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as PauseData;
+  }
+
+  private persist(data: PauseData): void {
+    // Drop pauses that have ended on their own
+    const now = Date.now();
+    const active = Object.fromEntries(Object.entries(data).filter(([, state]) => !state.until || state.until > now));
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(active, null, 2));
+    fs.renameSync(tmp, this.filePath);
+  }
+}
+
+// Singleton instance
+let pauseInstance: PauseControl | null = null;
+
+export function initPause(filePath: string): PauseControl {
+  pauseInstance = new PauseControl(filePath);
+  return pauseInstance;
+}
+
+export function getPause(): PauseControl | null {
+  return pauseInstance;
+}
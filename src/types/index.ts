@@ -4,7 +4,10 @@ import type { Page, BrowserContext } from 'playwright';
 // Platform Types
 // ============================================================================
 
-export type Platform = 'instagram' | 'twitter' | 'linkedin';
+export type BuiltinPlatform = 'instagram' | 'twitter' | 'linkedin' | 'reddit' | 'bluesky';
+
+// Built-in platforms plus any added with registerPlatform()
+export type Platform = BuiltinPlatform | (string & {});
 
 export type ActionType =
   | 'like'
@@ -13,22 +16,36 @@ export type ActionType =
   | 'unfollow'
   | 'dm'
   | 'post'
+  | 'thread'
   | 'retweet'
   | 'reply'
   | 'connect'
+  | 'subscribe'
+  | 'unsubscribe'
   | 'view_story'
-  | 'view_profile';
+  | 'view_profile'
+  | 'view_feed'
+  | 'search';
 
 // ============================================================================
 // Configuration Types
 // ============================================================================
 
 export interface SocialCrabsConfig {
+  account?: string;
   server?: Partial<ServerConfig>;
   browser?: Partial<BrowserConfig>;
-  rateLimits?: Partial<RateLimitConfig>;
+  // Built-in platforms' limits can also be set at the top level (`rateLimits: { twitter: { like: 50 } }`)
+  rateLimits?: Partial<RateLimitConfig> & Partial<Record<BuiltinPlatform, Partial<PlatformRateLimits>>>;
   delays?: Partial<DelayConfig>;
   session?: Partial<SessionConfig>;
+  jobs?: Partial<JobQueueConfig>;
+  warmup?: Partial<WarmupConfig>;
+  schedule?: Partial<ScheduleConfig>;
+  ledger?: Partial<LedgerConfig>;
+  circuitBreaker?: Partial<CircuitBreakerConfig>;
+  twitter?: Partial<TwitterConfig>;
+  bluesky?: Partial<BlueskyConfig>;
   logging?: Partial<LoggingConfig>;
   notifications?: Partial<NotificationConfig>;
 }
@@ -41,8 +58,13 @@ export interface ServerConfig {
   apiSecret?: string;
 }
 
+export type BrowserEngine = 'chromium' | 'firefox' | 'webkit';
+
 export interface BrowserConfig {
+  engine: BrowserEngine;
   headless: boolean;
+  // Keep a real browser profile per platform account in dataDir/<platform>[@<account>]
+  persistent: boolean;
   dataDir: string;
   timeout: number;
   userAgent?: string;
@@ -50,21 +72,196 @@ export interface BrowserConfig {
     width: number;
     height: number;
   };
+  // How long a call waits for its platform account's page before giving up
+  queueTimeoutMs: number;
+  // Network and locale defaults of every context
+  locale: string;
+  timezone: string;
+  geolocation?: BrowserGeolocation;
+  proxy?: BrowserProxy;
+  // Overrides keyed by '<account>', '<platform>' or '<platform>@<account>' (most specific wins)
+  accounts: Record<string, BrowserAccountSettings>;
+}
+
+export interface BrowserProxy {
+  // e.g. 'http://proxy.corp:3128' or 'socks5://127.0.0.1:1080'
+  server: string;
+  // Comma-separated hosts that skip the proxy
+  bypass?: string;
+  username?: string;
+  password?: string;
+}
+
+export interface BrowserGeolocation {
+  latitude: number;
+  longitude: number;
+}
+
+export interface BrowserAccountSettings {
+  locale?: string;
+  timezone?: string;
+  geolocation?: BrowserGeolocation;
+  // null: connect directly even if a default proxy is set
+  proxy?: BrowserProxy | null;
 }
 
 export interface RateLimitConfig {
-  instagram: PlatformRateLimits;
-  twitter: PlatformRateLimits;
-  linkedin: PlatformRateLimits;
+  // Limits by platform id, merged over the platform's defaults and RATE_LIMIT_* variables
+  platforms: Record<string, Partial<PlatformRateLimits>>;
+  // Where action counts are kept (shared by every process using the session dir)
+  store: RateLimitStoreType;
+  // Cooling-off after a platform soft block
+  cooldown: CooldownConfig;
+}
+
+export interface CooldownConfig {
+  // First cooldown; each repeat doubles it
+  baseMs: number;
+  // Longest cooldown, and how long after one ends a new soft block still escalates
+  maxMs: number;
+}
+
+export interface Cooldown {
+  // The platform warning that started it
+  reason: string;
+  // Escalation step (0 = first soft block)
+  level: number;
+  startedAt: number;
+  until: number;
+}
+
+export type RateLimitStoreType = 'file' | 'sqlite';
+
+export interface WarmupConfig {
+  // Daily growth of the ramp (0.1 = +10% per day)
+  growth: number;
+  // Share of the configured limits allowed on day 0
+  startFraction: number;
+  // Day-0 daily caps per action key, instead of startFraction (e.g. { follow: 10 })
+  start: Record<string, number>;
+}
+
+export interface WarmupPolicy extends WarmupConfig {
+  // First day of the ramp (YYYY-MM-DD)
+  startDate: string;
+}
+
+export interface WarmupStatus extends WarmupPolicy {
+  // Days since startDate
+  day: number;
+  // Today's limits per action key and shared limit
+  limits: Record<string, WindowLimits>;
+}
+
+export interface ScheduleConfig {
+  // JSON file of policies keyed by 'default', '<account>' or '<platform>@<account>'
+  file: string;
+  // Policies given in code, on top of the file's
+  policies: Record<string, SchedulePolicy>;
+}
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+export interface SchedulePolicy {
+  // IANA time zone the windows and dates are in (e.g. 'Europe/Berlin')
+  timezone: string;
+  // Active windows per weekday as 'HH:MM-HH:MM'; days without windows are inactive
+  windows: Partial<Record<Weekday, string[]>>;
+  // Dates (YYYY-MM-DD) without any activity
+  blackouts?: string[];
+  // Each window edge moves by up to this many minutes, differently every day
+  jitterMinutes?: number;
+}
+
+export interface ScheduleCheck {
+  allowed: boolean;
+  // Why the account is idle: a blackout date or outside its active windows
+  reason?: 'blackout' | 'inactive';
+  // When the next active window opens (unset if none within a year)
+  nextAllowedAt?: number;
+  // When the current active window closes
+  windowEndsAt?: number;
+}
+
+// No platform and no account means everything
+export interface PauseScope {
+  platform?: Platform;
+  account?: string;
+}
+
+export interface PauseState extends PauseScope {
+  reason?: string;
+  pausedAt: number;
+  // Automatic resume time (unset: until resumed by hand)
+  until?: number;
+}
+
+export interface LedgerConfig {
+  // Record interactions and enforce the rules
+  enabled: boolean;
+  rules: LedgerRule[];
+}
+
+// Refuse `action` on a target after any of the `after` actions on it
+export interface LedgerRule {
+  action: ActionType;
+  after: ActionType[];
+  // Only look this far back (default: forever)
+  withinDays?: number;
+  // Only on this platform (default: all)
+  platform?: Platform;
+}
+
+export interface Interaction {
+  action: ActionType;
+  timestamp: number;
 }
 
+export interface CircuitBreakerConfig {
+  // Consecutive failures of an action that open its circuit (0 disables the breaker)
+  threshold: number;
+  // How long an open circuit rejects calls before letting one probe through
+  resetMs: number;
+}
+
+export type CircuitPhase = 'closed' | 'open' | 'half-open';
+
+export interface CircuitState {
+  state: CircuitPhase;
+  // Consecutive failures so far
+  failures: number;
+  lastError?: string;
+  openedAt?: number;
+  // When an open circuit lets a probe through
+  probeAt?: number;
+  // When the current half-open probe started
+  probeStartedAt?: number;
+}
+
+export type RateLimitWindow = 'minute' | 'hour' | 'day' | 'week';
+
+// Maximum actions per rolling window
+export type WindowLimits = Partial<Record<RateLimitWindow, number>>;
+
+// A plain number is a daily cap
+export type ActionLimit = number | WindowLimits;
+
 export interface PlatformRateLimits {
-  like: number;
-  comment: number;
-  follow: number;
-  dm: number;
-  post: number;
-  connect: number;
+  like: ActionLimit;
+  comment: ActionLimit;
+  follow: ActionLimit;
+  dm: ActionLimit;
+  post: ActionLimit;
+  connect: ActionLimit;
+  // Caps counted across several actions (e.g. all writes per hour)
+  shared?: SharedRateLimit[];
+}
+
+export interface SharedRateLimit {
+  name: string;
+  // Limit keys counted together (like, comment, follow, dm, post, connect)
+  actions: string[];
+  limits: WindowLimits;
 }
 
 export interface DelayConfig {
@@ -79,6 +276,23 @@ export interface SessionConfig {
   encryptionKey?: string;
 }
 
+export interface JobQueueConfig {
+  pollIntervalMs: number;
+  cooldownMinMs: number;
+  cooldownMaxMs: number;
+  maxAttempts: number;
+}
+
+export interface TwitterConfig {
+  // Use GraphQL write calls instead of the browser where possible
+  preferGraphQL: boolean;
+}
+
+export interface BlueskyConfig {
+  // PDS (or entryway) the XRPC calls go to
+  service: string;
+}
+
 export interface LoggingConfig {
   level: 'debug' | 'info' | 'warn' | 'error';
   file?: string;
@@ -134,11 +348,13 @@ export interface NotificationConfig {
 export interface NotificationPayload {
   event: NotificationEvent;
   platform: Platform;
+  account?: string;
   action: ActionType;
   success: boolean;
   target?: string;
   details?: Record<string, unknown>;
   error?: string;
+  code?: ActionErrorCode;
   timestamp: number;
 }
 
@@ -146,23 +362,70 @@ export interface NotificationPayload {
 // Action Types
 // ============================================================================
 
+// Why an action failed or was blocked, for callers to branch on instead of the error text
+export type ActionErrorCode =
+  // Over a rate limit, or cooling off after a soft block (see nextAllowedAt)
+  | 'RATE_LIMITED'
+  // Logged out: the platform sent us to its login page or rejected the session
+  | 'SESSION_EXPIRED'
+  // The post, user or page doesn't exist (or isn't visible to the account)
+  | 'TARGET_NOT_FOUND'
+  // Nothing to do (already liked, following, pending), or interaction history forbids repeating it
+  | 'ALREADY_DONE'
+  // An element the flow needs isn't on the page
+  | 'SELECTOR_MISSING'
+  // The platform pushed back: a soft block warning or a 429
+  | 'BLOCKED_BY_PLATFORM'
+  // A page, request or the wait for the page took too long
+  | 'TIMEOUT'
+  // Paused by the kill switch, or outside active hours
+  | 'PAUSED'
+  // The action kept failing on the platform and its circuit is open (see nextAllowedAt for the next probe)
+  | 'CIRCUIT_OPEN'
+  // The request failed in a way that doesn't tell whether it went through (e.g. a post may be live); not retried
+  | 'UNKNOWN_OUTCOME';
+
 export interface ActionResult {
   success: boolean;
   platform: Platform;
+  account?: string;
   action: ActionType;
   target?: string;
   message?: string;
   error?: string;
+  // Set on failures whose cause is known, and on successes that were ALREADY_DONE
+  code?: ActionErrorCode;
   timestamp: number;
   duration: number;
   rateLimit?: RateLimitStatus;
+  // When a blocked action (rate limit or schedule) can be retried
+  nextAllowedAt?: number;
+  // Set when the call had to wait for the page: its place in line and how long it waited
+  queue?: { position: number; waitedMs: number };
+}
+
+export interface PageQueueStatus {
+  // Call that has the page, and since when
+  active?: string;
+  activeSince?: number;
+  // Calls waiting for it, in order
+  waiting: string[];
 }
 
 export interface RateLimitStatus {
   remaining: number;
   total: number;
+  // When blocked: the earliest time a slot opens in every exceeded window
   resetAt: number;
   allowed: boolean;
+  // Window with the fewest actions left (the blocking one when not allowed)
+  window: RateLimitWindow;
+  // Action key or shared limit name that window belongs to
+  limit: string;
+  // Set while the account is warming up: ramp day and the configured limit it grows to
+  warmup?: { day: number; max: number };
+  // Set while the action cools off after a soft block (resetAt is its end)
+  cooldown?: Cooldown;
 }
 
 // ============================================================================
@@ -195,6 +458,17 @@ export interface PostPayload {
 export interface ReplyPayload {
   url: string;
   text: string;
+  media?: string[];
+}
+
+export interface ThreadPayload {
+  tweets: PostPayload[];
+}
+
+export interface ThreadResult extends ActionResult {
+  // URLs of the tweets that were published, in thread order (partial on failure)
+  posted: string[];
+  total: number;
 }
 
 export interface ConnectPayload {
@@ -206,17 +480,78 @@ export interface ProfilePayload {
   username: string;
 }
 
+export interface RedditMessagePayload extends DMPayload {
+  // Defaults to the start of the message
+  subject?: string;
+}
+
+// A link post when `link` is set, a text post otherwise
+export interface RedditSubmitPayload {
+  subreddit: string;
+  title: string;
+  text?: string;
+  link?: string;
+}
+
+export interface SubredditPayload {
+  subreddit: string;
+}
+
+export type RedditFeedSort = 'hot' | 'new' | 'top' | 'rising';
+
+export interface RedditFeedPayload {
+  subreddit: string;
+  sort: RedditFeedSort;
+  limit: number;
+  // Time range of 'top'
+  time?: 'hour' | 'day' | 'week' | 'month' | 'year' | 'all';
+}
+
+export interface RedditSubmitResult extends ActionResult {
+  // Permalink of the new post
+  postUrl?: string;
+}
+
+export type BlueskySearchType = 'posts' | 'users';
+
+export interface BlueskySearchPayload {
+  q: string;
+  type: BlueskySearchType;
+  // Posts only
+  sort: 'top' | 'latest';
+  limit: number;
+}
+
+export interface BlueskyPostResult extends ActionResult {
+  // bsky.app URL and AT URI of the new post
+  postUrl?: string;
+  uri?: string;
+}
+
 // ============================================================================
 // Session Types
 // ============================================================================
 
 export interface Session {
   platform: Platform;
+  account?: string;
   cookies: CookieData[];
   localStorage?: Record<string, string>;
+  origins?: OriginStorage[];
   createdAt: number;
   updatedAt: number;
   username?: string;
+  // Platforms driven over the AT Protocol instead of a browser (cookies stay empty)
+  atproto?: AtprotoSession;
+}
+
+export interface AtprotoSession {
+  // Service the tokens were issued by
+  service: string;
+  did: string;
+  handle: string;
+  accessJwt: string;
+  refreshJwt: string;
 }
 
 export interface CookieData {
@@ -230,6 +565,57 @@ export interface CookieData {
   sameSite?: 'Strict' | 'Lax' | 'None';
 }
 
+export interface OriginStorage {
+  origin: string;
+  localStorage: Record<string, string>;
+}
+
+// ============================================================================
+// Job Queue Types
+// ============================================================================
+
+export type JobAction = Extract<ActionType, 'like' | 'comment' | 'follow' | 'dm' | 'post' | 'connect'>;
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type JobEvent =
+  | 'job:queued'
+  | 'job:started'
+  | 'job:completed'
+  | 'job:failed'
+  | 'job:deferred'
+  | 'job:cancelled';
+
+export interface JobInput {
+  platform: Platform;
+  action: JobAction;
+  payload: Record<string, unknown>;
+  account?: string;
+  runAt?: number;
+  maxAttempts?: number;
+}
+
+export interface Job {
+  id: string;
+  platform: Platform;
+  account: string;
+  action: JobAction;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  runAt: number;
+  attempts: number;
+  maxAttempts: number;
+  createdAt: number;
+  updatedAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  // Process running the job, and when it last reported that it is still alive
+  owner?: number;
+  heartbeatAt?: number;
+  result?: ActionResult;
+  error?: string;
+}
+
 // ============================================================================
 // API Types
 // ============================================================================
@@ -268,7 +654,9 @@ export type WSMessageType =
   | 'ping'
   | 'pong'
   | 'subscribe'
-  | 'unsubscribe';
+  | 'unsubscribe'
+  | 'pause'
+  | 'resume';
 
 // ============================================================================
 // Internal Types
@@ -282,6 +670,7 @@ export interface BrowserInstance {
 
 export interface PlatformHandler {
   platform: Platform;
+  account: string;
   initialize(context: BrowserContext): Promise<void>;
   isLoggedIn(): Promise<boolean>;
   login(): Promise<boolean>;
@@ -337,6 +726,62 @@ export interface LinkedInProfile {
   currentTitle?: string;
 }
 
+export interface RedditProfile {
+  username: string;
+  displayName?: string;
+  bio?: string;
+  karma?: number;
+  postKarma?: number;
+  commentKarma?: number;
+  createdAt?: number;
+  profilePicUrl?: string;
+  isVerified?: boolean;
+}
+
+export interface RedditPost {
+  id: string;
+  subreddit: string;
+  title: string;
+  author: string;
+  // Permalink of the post
+  url: string;
+  // Linked URL of link posts
+  link?: string;
+  text?: string;
+  score: number;
+  comments: number;
+  flair?: string;
+  nsfw: boolean;
+  createdAt: number;
+}
+
+export interface BlueskyProfile {
+  username: string;
+  did: string;
+  displayName?: string;
+  bio?: string;
+  followers?: number;
+  following?: number;
+  posts?: number;
+  profilePicUrl?: string;
+  createdAt?: number;
+  // Relationship to the logged-in account
+  isFollowing?: boolean;
+  followsYou?: boolean;
+}
+
+export interface BlueskyPost {
+  uri: string;
+  // bsky.app URL
+  url: string;
+  author: string;
+  text: string;
+  likes: number;
+  reposts: number;
+  replies: number;
+  createdAt?: number;
+}
+
 // ============================================================================
 // Event Types
 // ============================================================================
@@ -0,0 +1,48 @@
+import type { Platform } from '../types/index.js';
+
+/**
+ * Account identifiers.
+ *
+ * Every platform can be driven by several accounts. The default account keeps
+ * the original layout (sessions/<platform>.json, browser-data/<platform>) so
+ * existing installs keep working; other accounts are scoped as <platform>@<account>.
+ */
+
+export const DEFAULT_ACCOUNT = 'default';
+
+const ACCOUNT_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_-]{0,63}$/;
+
+/**
+ * Check whether a string is a valid account id (letters, digits, - and _)
+ */
+export function isValidAccount(account: string): boolean {
+  return ACCOUNT_PATTERN.test(account);
+}
+
+/**
+ * Resolve an optional account id to a concrete one. Throws on invalid ids so
+ * they can never escape into file paths.
+ */
+export function resolveAccount(account?: string | null): string {
+  if (!account) return DEFAULT_ACCOUNT;
+  if (!isValidAccount(account)) {
+    throw new Error(`Invalid account id: ${account}`);
+  }
+  return account;
+}
+
+/**
+ * Storage scope for a platform/account pair (map keys, file names, rate-limit buckets)
+ */
+export function accountScope(platform: Platform, account?: string): string {
+  const resolved = resolveAccount(account);
+  return resolved === DEFAULT_ACCOUNT ? platform : `${platform}@${resolved}`;
+}
+
+/**
+ * Inverse of accountScope()
+ */
+export function parseAccountScope(scope: string): { platform: Platform; account: string } {
+  const [platform, account] = scope.split('@');
+  return { platform: platform as Platform, account: account || DEFAULT_ACCOUNT };
+}
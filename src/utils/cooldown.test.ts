@@ -0,0 +1,98 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CooldownTracker } from './cooldown.js';
+import { RateLimiter } from './rate-limiter.js';
+
+const HOUR = 60 * 60 * 1000;
+const CONFIG = { baseMs: HOUR, maxMs: 8 * HOUR };
+
+describe('CooldownTracker', () => {
+  let dir: string;
+  let file: string;
+  let cooldowns: CooldownTracker;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'socialcrabs-cooldowns-'));
+    file = path.join(dir, 'cooldowns.json');
+    cooldowns = new CooldownTracker(file, CONFIG);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('cools an action off for the base time', async () => {
+    const now = Date.now();
+
+    const cooldown = await cooldowns.start('instagram', 'default', 'follow', 'Try Again Later', now);
+
+    expect(cooldown).toEqual({ reason: 'Try Again Later', level: 0, startedAt: now, until: now + HOUR });
+    expect(cooldowns.get('instagram', 'default', 'follow', now + 1)).toEqual(cooldown);
+    expect(cooldowns.get('instagram', 'default', 'follow', now + HOUR)).toBeNull();
+    expect(cooldowns.get('instagram', 'brand2', 'follow', now + 1)).toBeNull();
+  });
+
+  it('doubles the cooldown on a soft block soon after the last one', async () => {
+    const now = Date.now();
+    await cooldowns.start('instagram', 'default', 'follow', 'first', now);
+
+    const second = await cooldowns.start('instagram', 'default', 'follow', 'second', now + 2 * HOUR);
+
+    expect(second).toMatchObject({ level: 1, until: now + 4 * HOUR });
+  });
+
+  it('starts over once the last cooldown is long gone', async () => {
+    const now = Date.now();
+    await cooldowns.start('instagram', 'default', 'follow', 'first', now);
+
+    const later = await cooldowns.start('instagram', 'default', 'follow', 'again', now + 10 * HOUR);
+
+    expect(later).toMatchObject({ level: 0, until: now + 11 * HOUR });
+  });
+
+  it("doesn't escalate a soft block during the cooldown", async () => {
+    const now = Date.now();
+    const first = await cooldowns.start('instagram', 'default', 'follow', 'first', now);
+
+    expect(await cooldowns.start('instagram', 'default', 'follow', 'raced', now + 1)).toEqual(first);
+  });
+
+  it('starts one cooldown when two processes see the same soft block', async () => {
+    const other = new CooldownTracker(file, CONFIG);
+    const now = Date.now();
+
+    const [first, second] = await Promise.all([
+      cooldowns.start('instagram', 'default', 'follow', 'first', now),
+      other.start('instagram', 'default', 'follow', 'second', now),
+    ]);
+
+    expect(second).toEqual(first);
+    expect(first.level).toBe(0);
+  });
+
+  it('clears one key or the whole account', async () => {
+    await cooldowns.start('instagram', 'default', 'follow', 'a');
+    await cooldowns.start('instagram', 'default', 'like', 'b');
+
+    await cooldowns.clear('instagram', 'default', 'follow');
+    expect(Object.keys(cooldowns.list('instagram', 'default'))).toEqual(['like']);
+
+    await cooldowns.clear('instagram', 'default');
+    expect(cooldowns.list('instagram', 'default')).toEqual({});
+  });
+
+  it('refuses a cooling action in the rate limiter until reset', async () => {
+    const limiter = new RateLimiter({ instagram: { follow: 10 } }, path.join(dir, 'rate-limits.json'), undefined, cooldowns);
+    try {
+      await limiter.cooldown('instagram', 'follow', undefined, 'Try Again Later');
+      expect(await limiter.check('instagram', 'follow')).toMatchObject({ allowed: false, cooldown: { level: 0 } });
+
+      await limiter.reset('instagram', 'follow');
+      expect((await limiter.check('instagram', 'follow')).allowed).toBe(true);
+    } finally {
+      limiter.close();
+    }
+  });
+});
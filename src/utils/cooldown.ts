@@ -0,0 +1,105 @@
+import fs from 'fs';
+import path from 'path';
+import { accountScope } from './accounts.js';
+import { exponentialBackoff } from './delays.js';
+import { withFileLock } from './file-lock.js';
+import type { Platform, Cooldown, CooldownConfig } from '../types/index.js';
+
+/**
+ * Soft-block cooldowns.
+ *
+ * When a platform shows a warning state (Instagram's "Try Again Later", the
+ * LinkedIn weekly invitation limit, an X rate limit toast), the account's
+ * action cools off regardless of the configured limits. Every new soft block
+ * within `maxMs` of the previous cooldown ending doubles the cooldown, up to
+ * `maxMs`. Kept in cooldowns.json next to the sessions so all processes honor it,
+ * and changed under a file lock.
+ */
+
+// Keyed by account scope, then rate limit key. Expired entries are kept for escalation.
+interface CooldownData {
+  [scope: string]: Record<string, Cooldown>;
+}
+
+export class CooldownTracker {
+  private filePath: string;
+  private config: CooldownConfig;
+
+  constructor(filePath: string, config: CooldownConfig) {
+    this.filePath = filePath;
+    this.config = config;
+  }
+
+  /**
+   * The active cooldown of an action key, or null
+   */
+  get(platform: Platform, account: string | undefined, key: string, now = Date.now()): Cooldown | null {
+    const cooldown = this.load()[accountScope(platform, account)]?.[key];
+    return cooldown && cooldown.until > now ? cooldown : null;
+  }
+
+  /**
+   * Active cooldowns of a platform account, per action key
+   */
+  list(platform: Platform, account?: string, now = Date.now()): Record<string, Cooldown> {
+    const cooldowns = this.load()[accountScope(platform, account)] || {};
+    return Object.fromEntries(Object.entries(cooldowns).filter(([, cooldown]) => cooldown.until > now));
+  }
+
+  /**
+   * Start a cooldown, escalated from the previous one if it ended recently
+   */
+  start(platform: Platform, account: string | undefined, key: string, reason: string, now = Date.now()): Promise<Cooldown> {
+    return withFileLock(this.filePath, () => {
+      const data = this.load();
+      const scope = accountScope(platform, account);
+      const previous = data[scope]?.[key];
+
+      // Another detection while still cooling off (an action that raced the check) doesn't escalate
+      if (previous && previous.until > now) {
+        return previous;
+      }
+
+      const level = previous && now - previous.until < this.config.maxMs ? previous.level + 1 : 0;
+      const cooldown: Cooldown = {
+        reason,
+        level,
+        startedAt: now,
+        until: now + exponentialBackoff(level, this.config.baseMs, this.config.maxMs),
+      };
+
+      data[scope] = { ...data[scope], [key]: cooldown };
+      this.persist(data);
+      return cooldown;
+    });
+  }
+
+  /**
+   * Lift the cooldowns of a platform account (one action key, or all)
+   */
+  clear(platform: Platform, account?: string, key?: string): Promise<void> {
+    return withFileLock(this.filePath, () => {
+      const data = this.load();
+      const scope = accountScope(platform, account);
+      if (!data[scope]) return;
+      if (key) {
+        delete data[scope][key];
+      } else {
+        delete data[scope];
+      }
+      this.persist(data);
+    });
+  }
+
+  private load(): CooldownData {
+    if (!fs.existsSync(this.filePath)) return {};
+    return JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as CooldownData;
+  }
+
+  private persist(data: CooldownData): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(data, null, 2));
+    fs.renameSync(tmp, this.filePath);
+  }
+}
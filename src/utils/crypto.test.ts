@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { decrypt, encrypt, isEncryptedPayload } from './crypto.js';
+
+describe('crypto', () => {
+  it('round-trips a string', () => {
+    const payload = encrypt('{"cookies":[]}', 'passphrase');
+
+    expect(isEncryptedPayload(payload)).toBe(true);
+    expect(payload.data).not.toContain('cookies');
+    expect(decrypt(payload, 'passphrase')).toBe('{"cookies":[]}');
+  });
+
+  it('uses a fresh salt and IV for every payload', () => {
+    const first = encrypt('same', 'passphrase');
+    const second = encrypt('same', 'passphrase');
+
+    expect(second.salt).not.toBe(first.salt);
+    expect(second.iv).not.toBe(first.iv);
+    expect(second.data).not.toBe(first.data);
+  });
+
+  it('refuses a wrong key', () => {
+    expect(() => decrypt(encrypt('secret', 'right'), 'wrong')).toThrow('Decryption failed');
+  });
+
+  it('refuses tampered data', () => {
+    const payload = encrypt('secret', 'passphrase');
+    const data = Buffer.from(payload.data, 'base64');
+    data[0] ^= 1;
+
+    expect(() => decrypt({ ...payload, data: data.toString('base64') }, 'passphrase')).toThrow('Decryption failed');
+  });
+
+  it('recognizes only complete payloads', () => {
+    const partial: Record<string, unknown> = { ...encrypt('secret', 'passphrase') };
+    delete partial.tag;
+
+    expect(isEncryptedPayload(partial)).toBe(false);
+    expect(isEncryptedPayload({ platform: 'twitter', cookies: [] })).toBe(false);
+    expect(isEncryptedPayload(null)).toBe(false);
+  });
+});
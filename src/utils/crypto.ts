@@ -0,0 +1,85 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'node:crypto';
+
+/**
+ * Authenticated encryption for data at rest (session cookies, tokens).
+ * AES-256-GCM with a per-file random salt and IV; the key is derived from
+ * the configured passphrase with scrypt so any length of COOKIE_ENCRYPTION_KEY works.
+ */
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+export interface EncryptedPayload {
+  encrypted: true;
+  version: 1;
+  algorithm: typeof ALGORITHM;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return scryptSync(passphrase, salt, KEY_LENGTH);
+}
+
+/**
+ * Encrypt a UTF-8 string with a passphrase
+ */
+export function encrypt(plaintext: string, passphrase: string): EncryptedPayload {
+  const salt = randomBytes(SALT_LENGTH);
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, deriveKey(passphrase, salt), iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+
+  return {
+    encrypted: true,
+    version: 1,
+    algorithm: ALGORITHM,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+/**
+ * Decrypt a payload produced by encrypt(). Throws if the passphrase is wrong
+ * or the payload has been tampered with.
+ */
+export function decrypt(payload: EncryptedPayload, passphrase: string): string {
+  const salt = Buffer.from(payload.salt, 'base64');
+  const decipher = createDecipheriv(
+    ALGORITHM,
+    deriveKey(passphrase, salt),
+    Buffer.from(payload.iv, 'base64')
+  );
+  decipher.setAuthTag(Buffer.from(payload.tag, 'base64'));
+
+  try {
+    return Buffer.concat([
+      decipher.update(Buffer.from(payload.data, 'base64')),
+      decipher.final(),
+    ]).toString('utf-8');
+  } catch {
+    throw new Error('Decryption failed - wrong encryption key or corrupted data');
+  }
+}
+
+/**
+ * Check whether a parsed JSON value is an encrypted payload
+ */
+export function isEncryptedPayload(value: unknown): value is EncryptedPayload {
+  if (!value || typeof value !== 'object') return false;
+  const v = value as Record<string, unknown>;
+  return (
+    v.encrypted === true &&
+    v.algorithm === ALGORITHM &&
+    typeof v.salt === 'string' &&
+    typeof v.iv === 'string' &&
+    typeof v.tag === 'string' &&
+    typeof v.data === 'string'
+  );
+}
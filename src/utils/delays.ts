@@ -111,8 +111,8 @@ export function jitter(base: number, jitterPercent: number = 20): number {
 /**
  * Exponential backoff for retries
  */
-export function exponentialBackoff(attempt: number, baseMs: number = 1000): number {
-  return Math.min(baseMs * Math.pow(2, attempt), 30000);
+export function exponentialBackoff(attempt: number, baseMs: number = 1000, maxMs: number = 30000): number {
+  return Math.min(baseMs * Math.pow(2, attempt), maxMs);
 }
 
 /**
@@ -0,0 +1,24 @@
+import type { ActionErrorCode } from '../types/index.js';
+
+/**
+ * An error thrown with its ActionErrorCode (when the cause is known), for failures
+ * that aren't returned as an ActionResult: read actions, waiting for the page, API calls
+ */
+export class ActionError extends Error {
+  constructor(
+    message: string,
+    readonly code?: ActionErrorCode
+  ) {
+    super(message);
+    this.name = 'ActionError';
+  }
+}
+
+/**
+ * Code of a thrown error: an ActionError's own, or TIMEOUT for Playwright and fetch timeouts
+ */
+export function errorCode(error: unknown): ActionErrorCode | undefined {
+  if (error instanceof ActionError) return error.code;
+  if (error instanceof Error && error.name === 'TimeoutError') return 'TIMEOUT';
+  return undefined;
+}
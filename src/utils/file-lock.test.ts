@@ -0,0 +1,70 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { withFileLock } from './file-lock.js';
+
+// A pid no live process has
+const DEAD_PID = 2 ** 22 + 1;
+
+describe('withFileLock', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'socialcrabs-lock-'));
+    file = path.join(dir, 'state.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('runs read-modify-writes one at a time', async () => {
+    fs.writeFileSync(file, '0');
+    const increment = () =>
+      withFileLock(file, () => fs.writeFileSync(file, String(Number(fs.readFileSync(file, 'utf-8')) + 1)));
+
+    await Promise.all(Array.from({ length: 20 }, increment));
+
+    expect(fs.readFileSync(file, 'utf-8')).toBe('20');
+    expect(fs.existsSync(`${file}.lock`)).toBe(false);
+  });
+
+  it('releases the lock when the callback throws', async () => {
+    await expect(
+      withFileLock(file, () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    expect(fs.existsSync(`${file}.lock`)).toBe(false);
+  });
+
+  it('takes over the lock of a process that died', async () => {
+    fs.writeFileSync(`${file}.lock`, `${DEAD_PID}:abc`);
+
+    const started = Date.now();
+    expect(await withFileLock(file, () => 'ran')).toBe('ran');
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it("leaves a live holder's fresh lock alone", async () => {
+    fs.writeFileSync(`${file}.lock`, `${process.pid}:other`);
+    let ran = false;
+
+    const waiting = withFileLock(file, () => (ran = true));
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(ran).toBe(false);
+
+    fs.rmSync(`${file}.lock`);
+    await waiting;
+    expect(ran).toBe(true);
+  });
+
+  it('never removes a lock it no longer owns', async () => {
+    await withFileLock(file, () => fs.writeFileSync(`${file}.lock`, `${process.pid}:new-owner`));
+
+    expect(fs.readFileSync(`${file}.lock`, 'utf-8')).toBe(`${process.pid}:new-owner`);
+  });
+});
@@ -0,0 +1,121 @@
+import fs from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { log } from './logger.js';
+import { sleep } from './delays.js';
+
+/**
+ * Cross-process lock for JSON state files shared by the CLI, cron jobs and a
+ * running server: an exclusive `<file>.lock` created with O_EXCL, holding the
+ * owner's pid and a random token.
+ */
+
+const LOCK_RETRY_MS = 20;
+const LOCK_TIMEOUT_MS = 10000;
+// A lock whose holder is still alive is only taken over after this long. Longer
+// than LOCK_TIMEOUT_MS, so a slow holder keeps its lock; the lock of a process
+// that died is taken over right away.
+const LOCK_STALE_MS = 30000;
+
+/**
+ * Run `fn` while holding the lock for `filePath`. Keep `fn` short: other
+ * processes wait for it.
+ */
+export async function withFileLock<T>(filePath: string, fn: () => T): Promise<T> {
+  const lockPath = `${filePath}.lock`;
+  const token = await acquire(filePath, lockPath);
+  try {
+    return fn();
+  } finally {
+    release(lockPath, token);
+  }
+}
+
+async function acquire(filePath: string, lockPath: string): Promise<string> {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const token = `${process.pid}:${randomBytes(6).toString('hex')}`;
+  const started = Date.now();
+
+  for (;;) {
+    try {
+      fs.writeFileSync(lockPath, token, { flag: 'wx' });
+      return token;
+    } catch (error) {
+      if ((error as { code?: string }).code !== 'EEXIST') throw error;
+    }
+
+    if (takeOver(lockPath)) continue;
+
+    if (Date.now() - started > LOCK_TIMEOUT_MS) {
+      throw new Error(`Timed out waiting for lock ${lockPath}`);
+    }
+    await sleep(LOCK_RETRY_MS + Math.floor(Math.random() * LOCK_RETRY_MS));
+  }
+}
+
+/**
+ * Remove the lock if its holder died or held it too long. Returns true when
+ * it's worth trying to take the lock again right away.
+ */
+function takeOver(lockPath: string): boolean {
+  let holder: string;
+  let age: number;
+  try {
+    holder = fs.readFileSync(lockPath, 'utf-8');
+    age = Date.now() - fs.statSync(lockPath).mtimeMs;
+  } catch {
+    // Released between our attempt and the read
+    return true;
+  }
+  if (isAlive(holder) && age <= LOCK_STALE_MS) return false;
+
+  // Move the lock aside rather than deleting it: of several waiters, only one rename wins
+  const aside = `${lockPath}.${process.pid}.stale`;
+  try {
+    fs.renameSync(lockPath, aside);
+  } catch {
+    return true;
+  }
+  if (fs.readFileSync(aside, 'utf-8') !== holder) {
+    // Another waiter took over first and we moved its fresh lock: put it back
+    try {
+      fs.linkSync(aside, lockPath);
+    } catch {
+      // Somebody holds the lock again; the moved one is gone for good
+    }
+  } else {
+    log.warn(`Took over stale lock ${lockPath}`, { holder, ageMs: Math.round(age) });
+  }
+  fs.rmSync(aside, { force: true });
+  return true;
+}
+
+// The holder's process still runs (or can't be told apart from one that does)
+function isAlive(holder: string): boolean {
+  const pid = parseInt(holder.split(':')[0], 10);
+  // Empty while the holder is still writing its token
+  if (!pid) return true;
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as { code?: string }).code === 'EPERM';
+  }
+}
+
+/**
+ * Remove our lock, unless it was taken over because we held it too long
+ */
+function release(lockPath: string, token: string): void {
+  let holder: string | null = null;
+  try {
+    holder = fs.readFileSync(lockPath, 'utf-8');
+  } catch {
+    // Already gone
+  }
+  if (holder === token) {
+    fs.rmSync(lockPath, { force: true });
+  } else if (holder !== null) {
+    log.warn(`Lock ${lockPath} was taken over while held; leaving the new holder's lock`);
+  }
+}
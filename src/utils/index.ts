@@ -15,5 +15,24 @@ export {
   exponentialBackoff,
   estimateTypingTime,
 } from './delays.js';
-export { RateLimiter, DEFAULT_RATE_LIMITS } from './rate-limiter.js';
+export { RateLimiter, mergeRateLimits } from './rate-limiter.js';
+export type { RateLimits, LimitKeys, Reservation } from './rate-limiter.js';
+export { FileRateLimitStore, SqliteRateLimitStore, createRateLimitStore } from './rate-limit-store.js';
+export type { RateLimitStore, ScopeActions, ActionRecord } from './rate-limit-store.js';
+export { withFileLock } from './file-lock.js';
+export { WarmupSchedule, warmupDay, warmupRatio, applyWarmup } from './warmup.js';
+export { CooldownTracker } from './cooldown.js';
+export { ActivitySchedule, initSchedule, getSchedule, loadSchedulePolicies, validateSchedulePolicy } from './schedule.js';
 export { loadConfig, resolveDataPath, config } from './config.js';
+export { encrypt, decrypt, isEncryptedPayload } from './crypto.js';
+export type { EncryptedPayload } from './crypto.js';
+export {
+  DEFAULT_ACCOUNT,
+  isValidAccount,
+  resolveAccount,
+  accountScope,
+  parseAccountScope,
+} from './accounts.js';
+export { TWITTER_MEDIA_RULES, getMediaKind, validateMedia } from './media.js';
+export type { MediaKind, MediaFile, MediaRules } from './media.js';
+export { ActionError, errorCode } from './errors.js';
@@ -0,0 +1,69 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { BLUESKY_MEDIA_RULES, TWITTER_MEDIA_RULES, getMediaKind, validateMedia } from './media.js';
+
+describe('getMediaKind', () => {
+  it('tells images, GIFs and videos apart by extension', () => {
+    expect(getMediaKind('photo.JPG')).toBe('image');
+    expect(getMediaKind('dir/loop.gif')).toBe('gif');
+    expect(getMediaKind('clip.mov')).toBe('video');
+    expect(getMediaKind('notes.txt')).toBeNull();
+  });
+});
+
+describe('validateMedia', () => {
+  let dir: string;
+
+  // Create a file of `size` bytes in the temp dir and return its path
+  const file = (name: string, size = 10) => {
+    const filePath = path.join(dir, name);
+    fs.writeFileSync(filePath, Buffer.alloc(size));
+    return filePath;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'socialcrabs-media-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('resolves valid attachments with their kind and size', () => {
+    const relative = path.relative(process.cwd(), file('a.png', 42));
+
+    expect(validateMedia([relative, file('b.webp')], TWITTER_MEDIA_RULES)).toEqual([
+      { path: path.join(dir, 'a.png'), kind: 'image', size: 42 },
+      { path: path.join(dir, 'b.webp'), kind: 'image', size: 10 },
+    ]);
+    expect(validateMedia([], TWITTER_MEDIA_RULES)).toEqual([]);
+  });
+
+  it('rejects unsupported types and missing files', () => {
+    expect(() => validateMedia([file('doc.pdf')], TWITTER_MEDIA_RULES)).toThrow('Unsupported media type');
+    expect(() => validateMedia([path.join(dir, 'gone.png')], TWITTER_MEDIA_RULES)).toThrow('Media file not found');
+    fs.mkdirSync(path.join(dir, 'folder.png'));
+    expect(() => validateMedia([path.join(dir, 'folder.png')], TWITTER_MEDIA_RULES)).toThrow('Media file not found');
+  });
+
+  it('rejects files over the size limit of their kind', () => {
+    const big = file('big.png', 1000001);
+
+    expect(() => validateMedia([big], BLUESKY_MEDIA_RULES)).toThrow(/Media file too large: .*big\.png \(1\.0 MB, max 0\.95 MB for image\)/);
+    expect(validateMedia([big], TWITTER_MEDIA_RULES)).toHaveLength(1);
+  });
+
+  it('keeps a GIF or video alone on X', () => {
+    expect(() => validateMedia([file('a.gif'), file('b.png')], TWITTER_MEDIA_RULES)).toThrow('must be the only attachment');
+    expect(validateMedia([file('c.gif'), file('d.png')], BLUESKY_MEDIA_RULES)).toHaveLength(2);
+  });
+
+  it('allows at most four attachments', () => {
+    const five = ['1', '2', '3', '4', '5'].map((name) => file(`${name}.jpg`));
+
+    expect(() => validateMedia(five, TWITTER_MEDIA_RULES)).toThrow('Too many attachments: 5 (max 4)');
+    expect(validateMedia(five.slice(0, 4), TWITTER_MEDIA_RULES)).toHaveLength(4);
+  });
+});
@@ -0,0 +1,97 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Media attachments.
+ *
+ * Attachments are local file paths. They are checked (existence, type, count,
+ * size) against the target platform's rules before any browser work starts, so
+ * an invalid upload fails fast instead of half-way through a compose flow.
+ */
+
+export type MediaKind = 'image' | 'gif' | 'video';
+
+export interface MediaFile {
+  path: string;
+  kind: MediaKind;
+  size: number;
+}
+
+export interface MediaRules {
+  maxImages: number;
+  maxBytes: Record<MediaKind, number>;
+  // GIFs and videos must be the only attachment
+  animatedAlone: boolean;
+}
+
+const MEDIA_EXTENSIONS: Record<string, MediaKind> = {
+  '.jpg': 'image',
+  '.jpeg': 'image',
+  '.png': 'image',
+  '.webp': 'image',
+  '.gif': 'gif',
+  '.mp4': 'video',
+  '.mov': 'video',
+};
+
+const MB = 1024 * 1024;
+
+/**
+ * X/Twitter limits: up to 4 images, or a single GIF or video
+ */
+export const TWITTER_MEDIA_RULES: MediaRules = {
+  maxImages: 4,
+  maxBytes: { image: 5 * MB, gif: 15 * MB, video: 512 * MB },
+  animatedAlone: true,
+};
+
+/**
+ * Bluesky limits: up to 4 images of 1 MB each (GIFs are uploaded as still images)
+ */
+export const BLUESKY_MEDIA_RULES: MediaRules = {
+  maxImages: 4,
+  maxBytes: { image: 1000000, gif: 1000000, video: 0 },
+  animatedAlone: false,
+};
+
+/**
+ * Detect the media kind of a file from its extension
+ */
+export function getMediaKind(file: string): MediaKind | null {
+  return MEDIA_EXTENSIONS[path.extname(file).toLowerCase()] ?? null;
+}
+
+/**
+ * Validate attachments against platform rules and resolve them to absolute paths.
+ * Throws with a descriptive message on the first problem found.
+ */
+export function validateMedia(media: string[], rules: MediaRules): MediaFile[] {
+  const files = media.map((file): MediaFile => {
+    const kind = getMediaKind(file);
+    if (!kind) {
+      throw new Error(`Unsupported media type: ${file} (allowed: ${Object.keys(MEDIA_EXTENSIONS).join(', ')})`);
+    }
+
+    const resolved = path.resolve(file);
+    if (!fs.existsSync(resolved) || !fs.statSync(resolved).isFile()) {
+      throw new Error(`Media file not found: ${file}`);
+    }
+
+    const size = fs.statSync(resolved).size;
+    if (size > rules.maxBytes[kind]) {
+      throw new Error(`Media file too large: ${file} (${(size / MB).toFixed(1)} MB, max ${+(rules.maxBytes[kind] / MB).toFixed(2)} MB for ${kind})`);
+    }
+
+    return { path: resolved, kind, size };
+  });
+
+  const animated = files.filter((file) => file.kind !== 'image');
+  if (rules.animatedAlone && animated.length > 0 && files.length > 1) {
+    throw new Error('A GIF or video must be the only attachment');
+  }
+  if (files.length > rules.maxImages) {
+    throw new Error(`Too many attachments: ${files.length} (max ${rules.maxImages})`);
+  }
+
+  return files;
+}
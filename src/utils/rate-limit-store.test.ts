@@ -0,0 +1,110 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { RateLimiter } from './rate-limiter.js';
+import { FileRateLimitStore, SqliteRateLimitStore } from './rate-limit-store.js';
+import type { RateLimitStore } from './rate-limit-store.js';
+import type { RateLimits } from './rate-limiter.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe.each<[string, (dir: string) => RateLimitStore]>([
+  ['file', (dir) => new FileRateLimitStore(path.join(dir, 'rate-limits.json'))],
+  ['sqlite', (dir) => new SqliteRateLimitStore(path.join(dir, 'rate-limits.db'))],
+])('%s rate limit store', (_name, createStore) => {
+  let dir: string;
+  let store: RateLimitStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'socialcrabs-store-'));
+    store = createStore(dir);
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('drops actions older than the retention on load', async () => {
+    const now = Date.now();
+    await store.append('twitter', 'like', { timestamp: now - 2 * DAY_MS, action: 'like' });
+    await store.append('twitter', 'like', { timestamp: now, action: 'like' });
+
+    expect((await store.load('twitter', now - DAY_MS)).like).toHaveLength(1);
+    expect(store.read('twitter').like).toHaveLength(1);
+  });
+
+  it('clears one key or a whole scope', async () => {
+    await store.append('twitter', 'like', { timestamp: Date.now(), action: 'like' });
+    await store.append('twitter', 'follow', { timestamp: Date.now(), action: 'follow' });
+    await store.append('twitter@brand2', 'like', { timestamp: Date.now(), action: 'like' });
+
+    await store.clear('twitter', 'like');
+    expect(store.read('twitter').like ?? []).toEqual([]);
+    expect(store.read('twitter').follow).toHaveLength(1);
+
+    await store.clear('twitter');
+    expect(Object.values(store.read('twitter')).flat()).toEqual([]);
+    expect(store.read('twitter@brand2').like).toHaveLength(1);
+  });
+
+  it('hands out a reservation only while there is room', async () => {
+    const limiter = new RateLimiter({ twitter: { like: 1 } }, store);
+
+    const first = await limiter.reserve('twitter', 'like');
+    const second = await limiter.reserve('twitter', 'like');
+
+    expect(first.reservations).toHaveLength(1);
+    expect(second).toMatchObject({ status: { allowed: false, remaining: 0 }, reservations: [] });
+  });
+
+  it('reserves several slots only when all of them fit', async () => {
+    const limiter = new RateLimiter({ twitter: { post: 3 } }, store);
+
+    const three = await limiter.reserve('twitter', 'post', undefined, 3);
+    await Promise.all(three.reservations.slice(1).map((reservation) => limiter.release(reservation)));
+    const two = await limiter.reserve('twitter', 'post', undefined, 3);
+
+    expect(three.reservations).toHaveLength(3);
+    expect(two).toMatchObject({ status: { allowed: true, remaining: 2 }, reservations: [] });
+    expect(store.read('twitter').post).toHaveLength(1);
+  });
+
+  it('gives a released reservation back', async () => {
+    const limiter = new RateLimiter({ twitter: { like: 1 } }, store);
+
+    const { reservations } = await limiter.reserve('twitter', 'like');
+    await limiter.release(reservations[0]);
+
+    expect((await limiter.check('twitter', 'like')).allowed).toBe(true);
+  });
+
+  it('turns a reservation into the record without counting twice', async () => {
+    const limiter = new RateLimiter({ twitter: { like: 2 } }, store);
+
+    const { reservations } = await limiter.reserve('twitter', 'like');
+    await limiter.record('twitter', 'like', undefined, reservations[0]);
+
+    const records = store.read('twitter').like;
+    expect(records).toHaveLength(1);
+    expect(records[0].id).toBeUndefined();
+    expect(limiter.getRemaining('twitter', 'like')).toBe(1);
+  });
+
+  it('hands out the last slot to one of two processes', async () => {
+    const limits: RateLimits = { twitter: { like: 1 } };
+    const other = createStore(dir);
+    try {
+      const results = await Promise.all([
+        new RateLimiter(limits, store).reserve('twitter', 'like'),
+        new RateLimiter(limits, other).reserve('twitter', 'like'),
+      ]);
+
+      expect(results.filter((result) => result.status.allowed)).toHaveLength(1);
+      expect(store.read('twitter').like).toHaveLength(1);
+    } finally {
+      other.close();
+    }
+  });
+});
@@ -0,0 +1,239 @@
+import fs from 'fs';
+import path from 'path';
+import { createRequire } from 'module';
+import { withFileLock } from './file-lock.js';
+import type BetterSqlite3 from 'better-sqlite3';
+import type { ActionType, RateLimitStoreType } from '../types/index.js';
+
+/**
+ * Rate limit storage backends.
+ *
+ * The CLI, cron jobs and a running server all count actions against the same
+ * limits, so every read-modify-write goes to shared storage instead of an
+ * in-memory copy: a lock-protected JSON file, or an embedded SQLite database.
+ */
+
+export interface ActionRecord {
+  timestamp: number;
+  action: ActionType;
+  // Set while the record is a reservation for an action that hasn't finished
+  id?: string;
+}
+
+// Actions of one account scope, keyed by limit key
+export interface ScopeActions {
+  [key: string]: ActionRecord[];
+}
+
+export interface RateLimitStore {
+  // Snapshot of a scope's actions
+  read(scope: string): ScopeActions;
+  // Atomically drop actions older than `since` and return the rest
+  load(scope: string, since: number): Promise<ScopeActions>;
+  // Atomically drop actions older than `since`, then read and change the rest in one transaction
+  update<T>(scope: string, since: number, change: (actions: ScopeActions) => T): Promise<T>;
+  // Atomically add an action; returns how many are stored for the key
+  append(scope: string, key: string, record: ActionRecord): Promise<number>;
+  clear(scope: string, key?: string): Promise<void>;
+  close(): void;
+}
+
+// Keyed by account scope: '<platform>' for the default account, '<platform>@<account>' otherwise
+interface RateLimitData {
+  [scope: string]: ScopeActions;
+}
+
+/**
+ * JSON file store. Writes take an exclusive lock file and re-read the file,
+ * so concurrent processes never overwrite each other's records.
+ */
+export class FileRateLimitStore implements RateLimitStore {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  read(scope: string): ScopeActions {
+    return this.readData()[scope] || {};
+  }
+
+  async load(scope: string, since: number): Promise<ScopeActions> {
+    return this.update(scope, since, (actions) => actions);
+  }
+
+  async update<T>(scope: string, since: number, change: (actions: ScopeActions) => T): Promise<T> {
+    return this.transaction((data) => {
+      const actions = data[scope] || {};
+      for (const key of Object.keys(actions)) {
+        actions[key] = actions[key].filter((record) => record.timestamp > since);
+      }
+      data[scope] = actions;
+      return change(actions);
+    });
+  }
+
+  async append(scope: string, key: string, record: ActionRecord): Promise<number> {
+    return this.transaction((data) => {
+      data[scope] = data[scope] || {};
+      data[scope][key] = [...(data[scope][key] || []), record];
+      return data[scope][key].length;
+    });
+  }
+
+  async clear(scope: string, key?: string): Promise<void> {
+    await this.transaction((data) => {
+      if (key) {
+        if (data[scope]?.[key]) data[scope][key] = [];
+      } else {
+        data[scope] = {};
+      }
+    });
+  }
+
+  close(): void {}
+
+  /**
+   * Read-modify-write the whole file under the lock
+   */
+  private async transaction<T>(change: (data: RateLimitData) => T): Promise<T> {
+    return withFileLock(this.filePath, () => {
+      const data = this.readData();
+      const result = change(data);
+      this.writeData(data);
+      return result;
+    });
+  }
+
+  private readData(): RateLimitData {
+    if (!fs.existsSync(this.filePath)) return {};
+    return JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as RateLimitData;
+  }
+
+  private writeData(data: RateLimitData): void {
+    // Write then rename so lock-free readers never see a partial file
+    const tmp = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(data, null, 2));
+    fs.renameSync(tmp, this.filePath);
+  }
+}
+
+/**
+ * SQLite store (WAL mode). Each operation runs in an IMMEDIATE transaction,
+ * which SQLite serializes across processes.
+ */
+export class SqliteRateLimitStore implements RateLimitStore {
+  private db: BetterSqlite3.Database;
+
+  constructor(filePath: string) {
+    const Database = loadSqlite();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 10000');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS actions (
+        scope TEXT NOT NULL,
+        key TEXT NOT NULL,
+        action TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        id TEXT
+      );
+      CREATE INDEX IF NOT EXISTS actions_scope_key ON actions (scope, key, timestamp);
+    `);
+
+    // Databases created before reservations have no id column
+    const columns = this.db.prepare('PRAGMA table_info(actions)').all() as { name: string }[];
+    if (!columns.some((column) => column.name === 'id')) {
+      this.db.exec('ALTER TABLE actions ADD COLUMN id TEXT');
+    }
+  }
+
+  read(scope: string): ScopeActions {
+    const rows = this.db
+      .prepare('SELECT key, action, timestamp, id FROM actions WHERE scope = ? ORDER BY timestamp')
+      .all(scope) as { key: string; action: ActionType; timestamp: number; id: string | null }[];
+
+    const actions: ScopeActions = {};
+    for (const row of rows) {
+      (actions[row.key] ||= []).push({
+        timestamp: row.timestamp,
+        action: row.action,
+        ...(row.id !== null && { id: row.id }),
+      });
+    }
+    return actions;
+  }
+
+  async load(scope: string, since: number): Promise<ScopeActions> {
+    return this.db.transaction(() => {
+      this.db.prepare('DELETE FROM actions WHERE scope = ? AND timestamp <= ?').run(scope, since);
+      return this.read(scope);
+    }).immediate();
+  }
+
+  async update<T>(scope: string, since: number, change: (actions: ScopeActions) => T): Promise<T> {
+    return this.db.transaction(() => {
+      this.db.prepare('DELETE FROM actions WHERE scope = ? AND timestamp <= ?').run(scope, since);
+      const actions = this.read(scope);
+      const result = change(actions);
+
+      // Write the scope back as changed
+      this.db.prepare('DELETE FROM actions WHERE scope = ?').run(scope);
+      const insert = this.db.prepare('INSERT INTO actions (scope, key, action, timestamp, id) VALUES (?, ?, ?, ?, ?)');
+      for (const [key, records] of Object.entries(actions)) {
+        for (const record of records) {
+          insert.run(scope, key, record.action, record.timestamp, record.id ?? null);
+        }
+      }
+      return result;
+    }).immediate();
+  }
+
+  async append(scope: string, key: string, record: ActionRecord): Promise<number> {
+    return this.db.transaction(() => {
+      this.db
+        .prepare('INSERT INTO actions (scope, key, action, timestamp, id) VALUES (?, ?, ?, ?, ?)')
+        .run(scope, key, record.action, record.timestamp, record.id ?? null);
+      const row = this.db
+        .prepare('SELECT COUNT(*) AS count FROM actions WHERE scope = ? AND key = ?')
+        .get(scope, key) as { count: number };
+      return row.count;
+    }).immediate();
+  }
+
+  async clear(scope: string, key?: string): Promise<void> {
+    this.db.transaction(() => {
+      if (key) {
+        this.db.prepare('DELETE FROM actions WHERE scope = ? AND key = ?').run(scope, key);
+      } else {
+        this.db.prepare('DELETE FROM actions WHERE scope = ?').run(scope);
+      }
+    }).immediate();
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * better-sqlite3 is an optional dependency: only required when the SQLite store is used
+ */
+function loadSqlite(): typeof BetterSqlite3 {
+  try {
+    return createRequire(__filename)('better-sqlite3') as typeof BetterSqlite3;
+  } catch (error) {
+    throw new Error(`The sqlite rate limit store needs better-sqlite3 (npm install better-sqlite3): ${String(error)}`);
+  }
+}
+
+/**
+ * Create the configured store in a directory (rate-limits.json or rate-limits.db)
+ */
+export function createRateLimitStore(type: RateLimitStoreType, dir: string): RateLimitStore {
+  return type === 'sqlite'
+    ? new SqliteRateLimitStore(path.join(dir, 'rate-limits.db'))
+    : new FileRateLimitStore(path.join(dir, 'rate-limits.json'));
+}
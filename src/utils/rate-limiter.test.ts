@@ -0,0 +1,102 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { RateLimiter, mergeRateLimits } from './rate-limiter.js';
+import { FileRateLimitStore, SqliteRateLimitStore } from './rate-limit-store.js';
+import type { RateLimitStore } from './rate-limit-store.js';
+import type { RateLimits } from './rate-limiter.js';
+
+const MINUTE = 60 * 1000;
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'socialcrabs-limits-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('mergeRateLimits', () => {
+  it('merges window by window and replaces shared limits by name', () => {
+    const merged = mergeRateLimits(
+      { like: { minute: 3, hour: 30, day: 100 }, shared: [{ name: 'writes', actions: ['like'], limits: { hour: 10 } }] },
+      { like: 7, shared: [{ name: 'writes', actions: ['like', 'follow'], limits: { hour: 5 } }] }
+    );
+
+    expect(merged.like).toEqual({ minute: 3, hour: 30, day: 7 });
+    expect(merged.shared).toEqual([{ name: 'writes', actions: ['like', 'follow'], limits: { hour: 5 } }]);
+  });
+});
+
+describe.each<[string, (dir: string) => RateLimitStore]>([
+  ['file', (dir) => new FileRateLimitStore(path.join(dir, 'rate-limits.json'))],
+  ['sqlite', (dir) => new SqliteRateLimitStore(path.join(dir, 'rate-limits.db'))],
+])('RateLimiter with the %s store', (_name, createStore) => {
+  let store: RateLimitStore;
+
+  beforeEach(() => {
+    store = createStore(dir);
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it('treats a plain number as a daily cap', async () => {
+    const limiter = new RateLimiter({ twitter: { like: 2 } }, store);
+
+    expect((await limiter.reserve('twitter', 'like')).status.allowed).toBe(true);
+    expect((await limiter.reserve('twitter', 'like')).status.allowed).toBe(true);
+
+    const { status, reservations } = await limiter.reserve('twitter', 'like');
+    expect(status).toMatchObject({ allowed: false, remaining: 0, total: 2, window: 'day', limit: 'like' });
+    expect(reservations).toEqual([]);
+  });
+
+  it('blocks on the tightest window and reports when it frees up', async () => {
+    const limiter = new RateLimiter({ twitter: { like: { minute: 2, day: 10 } } }, store);
+    const now = Date.now();
+    await store.append('twitter', 'like', { timestamp: now - 30 * 1000, action: 'like' });
+    await store.append('twitter', 'like', { timestamp: now - 10 * 1000, action: 'like' });
+
+    const status = await limiter.check('twitter', 'like');
+    expect(status).toMatchObject({ allowed: false, window: 'minute', total: 2 });
+    expect(status.resetAt).toBe(now - 30 * 1000 + MINUTE);
+  });
+
+  it('lets actions age out of a window', async () => {
+    const limiter = new RateLimiter({ twitter: { like: { minute: 1, day: 10 } } }, store);
+    await store.append('twitter', 'like', { timestamp: Date.now() - 2 * MINUTE, action: 'like' });
+
+    const status = await limiter.check('twitter', 'like');
+    expect(status).toMatchObject({ allowed: true, remaining: 1, window: 'minute' });
+    expect(limiter.getRemaining('twitter', 'like')).toBe(1);
+  });
+
+  it('counts several actions against a shared limit', async () => {
+    const limits: RateLimits = {
+      twitter: { like: 10, follow: 10, shared: [{ name: 'writes', actions: ['like', 'follow'], limits: { hour: 2 } }] },
+    };
+    const limiter = new RateLimiter(limits, store);
+
+    await limiter.record('twitter', 'like');
+    await limiter.record('twitter', 'follow');
+
+    const status = await limiter.check('twitter', 'unfollow');
+    expect(status).toMatchObject({ allowed: false, limit: 'writes', window: 'hour' });
+    expect(limiter.getStatus('twitter').writes).toMatchObject({ remaining: 0, total: 2 });
+    expect(limiter.getStatus('twitter').like).toMatchObject({ allowed: false, limit: 'writes' });
+  });
+
+  it('keeps accounts apart', async () => {
+    const limiter = new RateLimiter({ twitter: { like: 1 } }, store);
+
+    await limiter.record('twitter', 'like');
+
+    expect((await limiter.check('twitter', 'like')).allowed).toBe(false);
+    expect((await limiter.check('twitter', 'like', 'brand2')).allowed).toBe(true);
+  });
+});
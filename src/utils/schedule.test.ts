@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { ActivitySchedule } from './schedule.js';
+import type { SchedulePolicy } from '../types/index.js';
+
+// Berlin is UTC+1 until the DST change on 2026-03-29, UTC+2 after
+const WEEKDAYS: SchedulePolicy = { timezone: 'Europe/Berlin', windows: { mon: ['09:00-17:00'] } };
+
+const at = (iso: string) => new Date(iso).getTime();
+
+describe('ActivitySchedule', () => {
+  it('allows everything without a policy', () => {
+    expect(new ActivitySchedule().check('twitter', undefined, at('2026-03-02T03:00:00Z'))).toEqual({ allowed: true });
+  });
+
+  it('allows actions inside a window and says when it closes', () => {
+    const schedule = new ActivitySchedule({ default: WEEKDAYS });
+
+    expect(schedule.check('twitter', undefined, at('2026-03-02T09:00:00Z'))).toEqual({
+      allowed: true,
+      windowEndsAt: at('2026-03-02T16:00:00Z'),
+    });
+  });
+
+  it('points to the next window outside active hours', () => {
+    const schedule = new ActivitySchedule({ default: WEEKDAYS });
+
+    expect(schedule.check('twitter', undefined, at('2026-03-02T07:00:00Z'))).toEqual({
+      allowed: false,
+      reason: 'inactive',
+      nextAllowedAt: at('2026-03-02T08:00:00Z'),
+    });
+    // Monday evening: next Monday
+    expect(schedule.check('twitter', undefined, at('2026-03-02T17:00:00Z')).nextAllowedAt).toBe(at('2026-03-09T08:00:00Z'));
+  });
+
+  it('follows the time zone across a DST change', () => {
+    const schedule = new ActivitySchedule({ default: WEEKDAYS });
+
+    expect(schedule.check('twitter', undefined, at('2026-03-29T12:00:00Z')).nextAllowedAt).toBe(at('2026-03-30T07:00:00Z'));
+  });
+
+  it('skips blackout dates', () => {
+    const schedule = new ActivitySchedule({ default: { ...WEEKDAYS, blackouts: ['2026-03-02'] } });
+
+    expect(schedule.check('twitter', undefined, at('2026-03-02T09:00:00Z'))).toEqual({
+      allowed: false,
+      reason: 'blackout',
+      nextAllowedAt: at('2026-03-09T08:00:00Z'),
+    });
+  });
+
+  it('moves window edges by at most the jitter, the same way in every process', () => {
+    const policies = { default: { ...WEEKDAYS, jitterMinutes: 15 } };
+    const now = at('2026-03-02T06:00:00Z');
+
+    const first = new ActivitySchedule(policies).check('twitter', 'brand2', now);
+    const second = new ActivitySchedule(policies).check('twitter', 'brand2', now);
+
+    expect(second).toEqual(first);
+    expect(Math.abs(first.nextAllowedAt! - at('2026-03-02T08:00:00Z'))).toBeLessThanOrEqual(15 * 60 * 1000);
+  });
+
+  it('picks the most specific policy', () => {
+    const night: SchedulePolicy = { timezone: 'UTC', windows: { mon: ['00:00-06:00'] } };
+    const schedule = new ActivitySchedule({ default: WEEKDAYS, brand2: night, 'reddit@brand2': WEEKDAYS });
+
+    expect(schedule.getPolicy('twitter', 'brand2')).toBe(night);
+    expect(schedule.getPolicy('reddit', 'brand2')).toBe(WEEKDAYS);
+    expect(schedule.getPolicy('twitter')).toBe(WEEKDAYS);
+  });
+
+  it('rejects invalid policies up front', () => {
+    expect(() => new ActivitySchedule({ default: { timezone: 'UTC', windows: { mon: ['17:00-09:00'] } } })).toThrow(
+      'Invalid active window'
+    );
+    expect(() => new ActivitySchedule({ default: { timezone: 'Mars/Base', windows: {} } })).toThrow();
+    expect(() => new ActivitySchedule({ default: { ...WEEKDAYS, blackouts: ['02/03/2026'] } })).toThrow('Invalid blackout date');
+  });
+});
@@ -0,0 +1,204 @@
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { accountScope, resolveAccount } from './accounts.js';
+import type { Platform, SchedulePolicy, ScheduleCheck, Weekday } from '../types/index.js';
+
+/**
+ * Activity schedule.
+ *
+ * Each account only acts inside its active windows (per weekday, in its own
+ * time zone) and never on blackout dates. Window edges move by a random number
+ * of minutes each day, so the first and last action of the day aren't on the
+ * same minute every day. The shift is derived from the account and date,
+ * so every process agrees on today's windows.
+ */
+
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const DAY_MINUTES = 24 * 60;
+// How far ahead to look for the next active window
+const MAX_LOOKAHEAD_DAYS = 366;
+
+interface LocalDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+/**
+ * Parse 'HH:MM-HH:MM' into minutes since midnight
+ */
+function parseWindow(window: string): [number, number] {
+  const match = /^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/.exec(window.trim());
+  if (!match) throw new Error(`Invalid active window: ${window} (expected HH:MM-HH:MM)`);
+  const start = parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+  const end = parseInt(match[3], 10) * 60 + parseInt(match[4], 10);
+  if (start >= end || end > DAY_MINUTES) {
+    throw new Error(`Invalid active window: ${window} (must start before it ends, within one day)`);
+  }
+  return [start, end];
+}
+
+function formatDate({ year, month, day }: LocalDate): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function addDays(date: LocalDate, days: number): LocalDate {
+  const d = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+/**
+ * Wall-clock date and minute of an instant in a time zone
+ */
+function localTime(timestamp: number, timeZone: string): LocalDate & { minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(new Date(timestamp));
+  const get = (type: string) => parseInt(parts.find((p) => p.type === type)!.value, 10);
+  return { year: get('year'), month: get('month'), day: get('day'), minutes: get('hour') * 60 + get('minute') };
+}
+
+/**
+ * Instant of a wall-clock date and minute in a time zone (DST-aware)
+ */
+function toInstant(date: LocalDate, minutes: number, timeZone: string): number {
+  const wall = Date.UTC(date.year, date.month - 1, date.day, 0, minutes);
+  let instant = wall;
+  // Two passes settle the offset on either side of a DST change
+  for (let i = 0; i < 2; i++) {
+    const local = localTime(instant, timeZone);
+    const localWall = Date.UTC(local.year, local.month - 1, local.day, 0, local.minutes);
+    instant += wall - localWall;
+  }
+  return instant;
+}
+
+/**
+ * Stable pseudo-random shift in [-jitter, +jitter] minutes
+ */
+function shift(seed: string, jitter: number): number {
+  if (jitter <= 0) return 0;
+  const value = createHash('sha256').update(seed).digest().readUInt32BE(0) / 0xffffffff;
+  return Math.round((value * 2 - 1) * jitter);
+}
+
+/**
+ * Check a policy's time zone, weekdays, windows and dates (so a typo fails at startup)
+ */
+export function validateSchedulePolicy(policy: SchedulePolicy): void {
+  new Intl.DateTimeFormat('en-US', { timeZone: policy.timezone });
+  for (const [weekday, windows] of Object.entries(policy.windows)) {
+    if (!WEEKDAYS.includes(weekday as Weekday)) {
+      throw new Error(`Invalid weekday: ${weekday} (expected ${WEEKDAYS.join(', ')})`);
+    }
+    windows?.forEach(parseWindow);
+  }
+  for (const date of policy.blackouts || []) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) throw new Error(`Invalid blackout date: ${date} (expected YYYY-MM-DD)`);
+  }
+}
+
+/**
+ * Read schedule policies from a JSON file ({ "default": {...}, "<account>": {...}, "<platform>@<account>": {...} })
+ */
+export function loadSchedulePolicies(filePath: string): Record<string, SchedulePolicy> {
+  if (!filePath || !fs.existsSync(filePath)) return {};
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Record<string, SchedulePolicy>;
+}
+
+export class ActivitySchedule {
+  private policies: Record<string, SchedulePolicy>;
+
+  constructor(policies: Record<string, SchedulePolicy> = {}) {
+    for (const policy of Object.values(policies)) {
+      validateSchedulePolicy(policy);
+    }
+    this.policies = policies;
+  }
+
+  /**
+   * Policy for a platform account: '<platform>@<account>' (or '<platform>'), then the account, then 'default'
+   */
+  getPolicy(platform: Platform, account?: string): SchedulePolicy | null {
+    const id = resolveAccount(account);
+    return this.policies[accountScope(platform, id)]
+      ?? this.policies[`${platform}@${id}`]
+      ?? this.policies[id]
+      ?? this.policies.default
+      ?? null;
+  }
+
+  /**
+   * Whether the account may act at `now`, and if not, when its next window opens
+   */
+  check(platform: Platform, account?: string, now = Date.now()): ScheduleCheck {
+    const policy = this.getPolicy(platform, account);
+    if (!policy) return { allowed: true };
+
+    const scope = accountScope(platform, account);
+    const blackouts = new Set(policy.blackouts || []);
+    const today = localTime(now, policy.timezone);
+    const blackoutToday = blackouts.has(formatDate(today));
+
+    for (let offset = 0; offset <= MAX_LOOKAHEAD_DAYS; offset++) {
+      const date = addDays(today, offset);
+      const dateKey = formatDate(date);
+      if (blackouts.has(dateKey)) continue;
+
+      for (const [start, end] of this.getWindows(policy, scope, date)) {
+        const opensAt = toInstant(date, start, policy.timezone);
+        const closesAt = toInstant(date, end, policy.timezone);
+        if (now >= opensAt && now < closesAt) {
+          return { allowed: true, windowEndsAt: closesAt };
+        }
+        if (opensAt > now) {
+          return { allowed: false, reason: blackoutToday ? 'blackout' : 'inactive', nextAllowedAt: opensAt };
+        }
+      }
+    }
+
+    return { allowed: false, reason: blackoutToday ? 'blackout' : 'inactive' };
+  }
+
+  /**
+   * A day's active windows in minutes, with that day's randomized edges
+   */
+  private getWindows(policy: SchedulePolicy, scope: string, date: LocalDate): [number, number][] {
+    const weekday = WEEKDAYS[new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay()];
+    const jitter = policy.jitterMinutes || 0;
+    const dateKey = formatDate(date);
+
+    return (policy.windows[weekday] || [])
+      .map(parseWindow)
+      .map(([start, end], i): [number, number] => {
+        const from = Math.max(0, start + shift(`${scope}:${dateKey}:${i}:start`, jitter));
+        const to = Math.min(DAY_MINUTES, end + shift(`${scope}:${dateKey}:${i}:end`, jitter));
+        return [from, Math.max(from + 1, to)];
+      })
+      .sort((a, b) => a[0] - b[0]);
+  }
+}
+
+// Singleton instance
+let scheduleInstance: ActivitySchedule | null = null;
+
+export function initSchedule(policies: Record<string, SchedulePolicy>): ActivitySchedule {
+  scheduleInstance = new ActivitySchedule(policies);
+  return scheduleInstance;
+}
+
+/**
+ * The configured schedule (no restrictions until initSchedule is called)
+ */
+export function getSchedule(): ActivitySchedule {
+  if (!scheduleInstance) {
+    scheduleInstance = new ActivitySchedule();
+  }
+  return scheduleInstance;
+}
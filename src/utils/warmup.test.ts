@@ -0,0 +1,95 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { WarmupSchedule, applyWarmup, today, warmupDay, warmupRatio } from './warmup.js';
+import { RateLimiter } from './rate-limiter.js';
+import type { WarmupPolicy } from '../types/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const policy: WarmupPolicy = { startDate: '2026-03-02', growth: 0.5, startFraction: 0.2, start: { follow: 10 } };
+// Noon on the start date, local time like warmupDay
+const startNoon = new Date('2026-03-02T12:00:00').getTime();
+
+describe('warm-up ramp', () => {
+  it('counts days since the start date, never below 0', () => {
+    expect(warmupDay(policy, startNoon)).toBe(0);
+    expect(warmupDay(policy, startNoon + 3 * DAY_MS)).toBe(3);
+    expect(warmupDay(policy, startNoon - 5 * DAY_MS)).toBe(0);
+  });
+
+  it('grows from startFraction by growth per day up to the full limits', () => {
+    expect(warmupRatio(policy, 'like', 100, startNoon)).toBeCloseTo(0.2);
+    expect(warmupRatio(policy, 'like', 100, startNoon + 2 * DAY_MS)).toBeCloseTo(0.45);
+    expect(warmupRatio(policy, 'like', 100, startNoon + 10 * DAY_MS)).toBe(1);
+  });
+
+  it('ramps from a day-0 cap when one is set for the action', () => {
+    expect(warmupRatio(policy, 'follow', 50, startNoon)).toBeCloseTo(0.2);
+    expect(warmupRatio(policy, 'follow', 20, startNoon)).toBeCloseTo(0.5);
+    // Without a daily limit to compare the cap to, startFraction applies
+    expect(warmupRatio(policy, 'follow', undefined, startNoon)).toBeCloseTo(0.2);
+  });
+
+  it('scales every window, keeping at least one action per window', () => {
+    expect(applyWarmup({ minute: 2, hour: 10, day: 50 }, 0.2)).toEqual({ minute: 1, hour: 2, day: 10 });
+    expect(applyWarmup({ day: 0 }, 0.2)).toEqual({ day: 0 });
+    const full = { day: 50 };
+    expect(applyWarmup(full, 1)).toBe(full);
+  });
+});
+
+describe('WarmupSchedule', () => {
+  let dir: string;
+  let schedule: WarmupSchedule;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'socialcrabs-warmup-'));
+    schedule = new WarmupSchedule(path.join(dir, 'warmup.json'), { growth: 0.1, startFraction: 0.3, start: { follow: 5 } });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records a ramp per account with the defaults filled in', () => {
+    schedule.start('twitter', 'brand2', { startDate: '2026-03-02', start: { like: 20 } });
+
+    expect(schedule.get('twitter', 'brand2')).toEqual({
+      startDate: '2026-03-02',
+      growth: 0.1,
+      startFraction: 0.3,
+      start: { follow: 5, like: 20 },
+    });
+    expect(schedule.get('twitter')).toBeNull();
+  });
+
+  it('stops a ramp', () => {
+    schedule.start('twitter', undefined, { startDate: '2026-03-02' });
+
+    expect(schedule.stop('twitter')).toBe(true);
+    expect(schedule.get('twitter')).toBeNull();
+    expect(schedule.stop('twitter')).toBe(false);
+  });
+
+  it('rejects invalid options', () => {
+    expect(() => schedule.start('twitter', undefined, { startDate: '03/02/2026' })).toThrow('Invalid start date');
+    expect(() => schedule.start('twitter', undefined, { growth: 0 })).toThrow('growth');
+    expect(() => schedule.start('twitter', undefined, { startFraction: 1.5 })).toThrow('start fraction');
+  });
+
+  it('ramps the rate limiter down while the account warms up', async () => {
+    const warmup = new WarmupSchedule(path.join(dir, 'warmup.json'), { growth: 0.1, startFraction: 0.5, start: {} });
+    warmup.start('twitter', undefined, { startDate: today() });
+    const limiter = new RateLimiter({ twitter: { like: { hour: 10, day: 40 } } }, path.join(dir, 'rate-limits.json'), warmup);
+    try {
+      const status = await limiter.check('twitter', 'like');
+      expect(status).toMatchObject({ total: 5, window: 'hour', warmup: { day: 0, max: 10 } });
+      expect(limiter.getWarmup('twitter')?.limits.like).toEqual({ hour: 5, day: 20 });
+      expect(limiter.getWarmup('twitter', 'brand2')).toBeNull();
+    } finally {
+      limiter.close();
+    }
+  });
+});
@@ -0,0 +1,132 @@
+import fs from 'fs';
+import path from 'path';
+import { accountScope } from './accounts.js';
+import type { Platform, WarmupConfig, WarmupPolicy, WindowLimits } from '../types/index.js';
+
+/**
+ * Account warm-up.
+ *
+ * A new account starts at a fraction of its configured limits and grows by a
+ * fixed percentage per day until it reaches them. The ramp starts on a
+ * recorded date per platform/account, kept in warmup.json next to the sessions.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Keyed by account scope ('<platform>' or '<platform>@<account>')
+interface WarmupData {
+  [scope: string]: Partial<WarmupPolicy> & { startDate: string };
+}
+
+/**
+ * Today's date as YYYY-MM-DD (local time)
+ */
+export function today(): string {
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+/**
+ * Days since the ramp started (0 on the start date, never negative)
+ */
+export function warmupDay(policy: WarmupPolicy, now = Date.now()): number {
+  const start = new Date(`${policy.startDate}T00:00:00`).getTime();
+  return Math.max(0, Math.floor((now - start) / DAY_MS));
+}
+
+/**
+ * Share of the configured limits allowed today (1 once the ramp is complete).
+ * An action with a day-0 cap in `start` ramps from that cap, others from startFraction.
+ */
+export function warmupRatio(policy: WarmupPolicy, key: string, dayMax?: number, now = Date.now()): number {
+  const startCap = policy.start[key];
+  const initial = startCap !== undefined && dayMax ? startCap / dayMax : policy.startFraction;
+  return Math.min(1, initial * Math.pow(1 + policy.growth, warmupDay(policy, now)));
+}
+
+/**
+ * Scale every window of a limit by the ramp ratio (at least 1 per window while ramping)
+ */
+export function applyWarmup(limits: WindowLimits, ratio: number): WindowLimits {
+  if (ratio >= 1) return limits;
+  const scaled: WindowLimits = {};
+  for (const [window, max] of Object.entries(limits) as [keyof WindowLimits, number | undefined][]) {
+    if (max === undefined) continue;
+    // Epsilon keeps exact products (10/50 * 50) from rounding down
+    scaled[window] = max > 0 ? Math.max(1, Math.floor(max * ratio + 1e-9)) : max;
+  }
+  return scaled;
+}
+
+/**
+ * Recorded warm-up start dates per platform/account
+ */
+export class WarmupSchedule {
+  private filePath: string;
+  private defaults: WarmupConfig;
+
+  constructor(filePath: string, defaults: WarmupConfig) {
+    this.filePath = filePath;
+    this.defaults = defaults;
+  }
+
+  /**
+   * The account's ramp, or null if it isn't warming up
+   */
+  get(platform: Platform, account?: string): WarmupPolicy | null {
+    const entry = this.load()[accountScope(platform, account)];
+    if (!entry) return null;
+    return {
+      ...this.defaults,
+      ...entry,
+      start: { ...this.defaults.start, ...entry.start },
+    };
+  }
+
+  /**
+   * Record the start of a ramp (today unless startDate is given), optionally
+   * overriding the default growth and day-0 limits for this account
+   */
+  start(platform: Platform, account: string | undefined, options: Partial<WarmupPolicy> = {}): WarmupPolicy {
+    const startDate = options.startDate ?? today();
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate) || isNaN(new Date(`${startDate}T00:00:00`).getTime())) {
+      throw new Error(`Invalid start date: ${startDate} (expected YYYY-MM-DD)`);
+    }
+    if (options.growth !== undefined && !(options.growth > 0)) {
+      throw new Error('Warm-up growth must be greater than 0');
+    }
+    if (options.startFraction !== undefined && !(options.startFraction > 0 && options.startFraction <= 1)) {
+      throw new Error('Warm-up start fraction must be between 0 and 1');
+    }
+
+    const data = this.load();
+    data[accountScope(platform, account)] = { ...options, startDate };
+    this.persist(data);
+    return this.get(platform, account)!;
+  }
+
+  /**
+   * Remove an account's ramp; it gets its full limits again
+   */
+  stop(platform: Platform, account?: string): boolean {
+    const data = this.load();
+    const scope = accountScope(platform, account);
+    if (!data[scope]) return false;
+    delete data[scope];
+    this.persist(data);
+    return true;
+  }
+
+  private load(): WarmupData {
+    if (!fs.existsSync(this.filePath)) return {};
+    return JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as WarmupData;
+  }
+
+  private persist(data: WarmupData): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(data, null, 2));
+    fs.renameSync(tmp, this.filePath);
+  }
+}